@@ -0,0 +1,104 @@
+/**
+ * Tests for accessible name, description and role computation
+ *
+ * The fixtures are local copies of web-platform-tests accname/ and html-aam/
+ * cases, reduced to markup that can be evaluated statically. Each element
+ * under test carries data-testname and one or more of data-expectedlabel,
+ * data-expecteddescription and data-expectedrole.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseHTML, querySelector } from '../parser';
+import { createCheckContext } from '../check-context';
+import { XRulesEngine } from '../engine';
+import { buttonsDescriptiveText } from '../rules/buttons-descriptive-text';
+import { emptyLinks } from '../rules/empty-links';
+import { imagesAltText } from '../rules/images-alt-text';
+import { linkDescriptiveText, svgAccessible } from '../rules/accessibility';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'accname');
+
+const EXPECTATIONS = [
+  { attribute: 'data-expectedlabel', compute: 'computeAccessibleName' },
+  { attribute: 'data-expecteddescription', compute: 'computeAccessibleDescription' },
+  { attribute: 'data-expectedrole', compute: 'computeRole' },
+] as const;
+
+describe('Accessible name and role', () => {
+  describe('WPT fixtures', () => {
+    const fixtures = fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html'));
+
+    for (const fixture of fixtures) {
+      describe(fixture, () => {
+        const document = parseHTML(fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf-8'));
+        const context = createCheckContext(document);
+        const cases = context.querySelectorAll('[data-testname]');
+
+        it('should contain test cases', () => {
+          expect(cases.length).toBeGreaterThan(0);
+        });
+
+        for (const element of cases) {
+          for (const { attribute, compute } of EXPECTATIONS) {
+            const expected = element.getAttribute(attribute);
+            if (expected === null) continue;
+
+            it(`${element.getAttribute('data-testname')} (${attribute})`, () => {
+              expect(context[compute](element) ?? '').toBe(expected);
+            });
+          }
+        }
+      });
+    }
+  });
+
+  describe('rules', () => {
+    const violations = (rule: typeof emptyLinks, html: string) =>
+      new XRulesEngine([rule]).checkHTML(html).violations.map(v => v.message);
+
+    it('should accept buttons named by aria-labelledby or title', () => {
+      expect(violations(buttonsDescriptiveText, '<span id="l">Close dialog</span><button aria-labelledby="l">×</button>')).toEqual([]);
+      expect(violations(buttonsDescriptiveText, '<button title="Close dialog"></button>')).toEqual([]);
+      expect(violations(buttonsDescriptiveText, '<button><svg aria-hidden="true"></svg></button>')).toHaveLength(1);
+      expect(violations(buttonsDescriptiveText, '<button aria-label="OK">Save and close</button>')[0]).toContain('"ok"');
+    });
+
+    it('should name links from image alt text and ignore hidden content', () => {
+      expect(violations(emptyLinks, '<a href="/"><img src="logo.png" alt="Home"></a>')).toEqual([]);
+      expect(violations(emptyLinks, '<a href="/"><img src="logo.png"></a>')[0]).toContain('only images');
+      expect(violations(emptyLinks, '<a href="/"><span aria-hidden="true">→</span></a>')[0]).toContain('empty');
+      expect(violations(emptyLinks, '<a name="top"></a>')).toEqual([]);
+      expect(violations(linkDescriptiveText, '<a href="/docs" aria-label="Read the API docs">Read more</a>')).toEqual([]);
+      expect(violations(linkDescriptiveText, '<a href="/docs">Read <span hidden>the API docs </span>more</a>')).toHaveLength(1);
+    });
+
+    it('should skip hidden and named images', () => {
+      const html = `
+        <img src="a.png" aria-hidden="true">
+        <img src="b.png" role="presentation">
+        <img src="c.png" aria-label="Chart of sales">
+        <img src="d.png">
+      `;
+      expect(violations(imagesAltText, html)).toHaveLength(1);
+    });
+
+    it('should name SVGs through title, aria-label or aria-labelledby', () => {
+      expect(violations(svgAccessible, '<svg><title>Logo</title></svg>')).toEqual([]);
+      expect(violations(svgAccessible, '<span id="t">Logo</span><svg role="img" aria-labelledby="t"></svg>')).toEqual([]);
+      expect(violations(svgAccessible, '<svg aria-hidden="true"></svg><svg role="presentation"></svg>')).toEqual([]);
+      expect(violations(svgAccessible, '<svg aria-label="Logo"></svg>')[0]).toContain('role="img"');
+      expect(violations(svgAccessible, '<svg></svg>')).toHaveLength(1);
+    });
+  });
+
+  describe('computeRole', () => {
+    it('should be exposed on the check context', () => {
+      const document = parseHTML('<main><button role="switch">Dark mode</button></main>');
+      const context = createCheckContext(document);
+
+      expect(context.computeRole(querySelector(document.documentElement, 'main')!)).toBe('main');
+      expect(context.computeRole(querySelector(document.documentElement, 'button')!)).toBe('switch');
+    });
+  });
+});
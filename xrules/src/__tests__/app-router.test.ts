@@ -0,0 +1,194 @@
+/**
+ * Tests for Next.js App Router route analysis
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Project } from 'ts-morph';
+import { findAppRoutes, resolveRouteMetadata, createHeadNodes, withHead } from '../app-router';
+import { JsxRulesEngine } from '../jsx-engine';
+import { JsxParser, UnknownValue } from '../jsx-parser';
+import { metaTitle, metaDescription } from '../rules/seo';
+import { singleH1 } from '../rules/heading-hierarchy';
+import { landmarkRegions } from '../rules/accessibility';
+import { imagesAltText } from '../rules/images-alt-text';
+
+describe('App Router', () => {
+  let appDir: string;
+
+  function write(file: string, code: string) {
+    const filePath = path.join(appDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, code);
+  }
+
+  beforeEach(() => {
+    appDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-app-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(appDir, { recursive: true, force: true });
+  });
+
+  describe('findAppRoutes', () => {
+    it('should find pages with the layouts above them', () => {
+      write('layout.tsx', '');
+      write('page.tsx', '');
+      write('(marketing)/layout.tsx', '');
+      write('(marketing)/pricing/page.tsx', '');
+      write('blog/[slug]/page.jsx', '');
+      write('_components/page.tsx', '');
+      write('@modal/page.tsx', '');
+      write('blog/(.)photo/page.tsx', '');
+
+      const routes = findAppRoutes(appDir).map(route => ({
+        path: route.path,
+        pageFile: path.relative(appDir, route.pageFile),
+        layoutFiles: route.layoutFiles.map(file => path.relative(appDir, file)),
+      }));
+
+      expect(routes).toEqual([
+        { path: '/', pageFile: 'page.tsx', layoutFiles: ['layout.tsx'] },
+        { path: '/blog/[slug]', pageFile: path.join('blog', '[slug]', 'page.jsx'), layoutFiles: ['layout.tsx'] },
+        {
+          path: '/pricing',
+          pageFile: path.join('(marketing)', 'pricing', 'page.tsx'),
+          layoutFiles: ['layout.tsx', path.join('(marketing)', 'layout.tsx')],
+        },
+      ]);
+    });
+  });
+
+  describe('resolveRouteMetadata', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = (name: string, code: string) => project.createSourceFile(name, code, { overwrite: true });
+
+    it('should apply the title template of the layouts above and override fields', () => {
+      const metadata = resolveRouteMetadata([
+        file('layout.tsx', `export const metadata: Metadata = {
+          title: { template: '%s | Acme', default: 'Acme' },
+          description: 'Acme builds things',
+        };`),
+        file('docs/layout.tsx', 'export const metadata = { robots: { index: false, follow: true } };'),
+        file('docs/page.tsx', `export async function generateMetadata() {
+          return { title: 'Docs', keywords: ['acme', 'docs'] };
+        }`),
+      ]);
+
+      expect(metadata.title?.value).toBe('Docs | Acme');
+      expect(metadata.description?.value).toBe('Acme builds things');
+      expect(metadata.keywords?.value).toBe('acme, docs');
+      expect(metadata.robots?.value).toBe('noindex, follow');
+    });
+
+    it('should use the default title and read the viewport export', () => {
+      const metadata = resolveRouteMetadata([
+        file('layout.tsx', `
+          export const metadata = { title: { template: '%s | Acme', default: 'Acme' } };
+          export const viewport: Viewport = { width: 'device-width', initialScale: 1, userScalable: false };
+        `),
+        file('page.tsx', 'export default function Page() { return <main />; }'),
+      ]);
+
+      expect(metadata.title?.value).toBe('Acme');
+      expect(metadata.viewport?.value).toBe('width=device-width, initial-scale=1, user-scalable=no');
+    });
+
+    it('should make metadata known only at runtime unknown', () => {
+      const metadata = resolveRouteMetadata([
+        file('page.tsx', `export async function generateMetadata({ params }: Props) {
+          const post = await getPost(params.slug);
+          return post.metadata;
+        }`),
+      ]);
+
+      expect(metadata.title?.value).toEqual(new UnknownValue('generateMetadata()', 'Metadata'));
+    });
+  });
+
+  describe('createHeadNodes and withHead', () => {
+    it('should render metadata before the body of the html root, into its implied head', () => {
+      const parser = new JsxParser();
+      const head = createHeadNodes({ title: { value: 'Home' }, description: { value: new UnknownValue('description') } });
+      const page = withHead({ tagName: 'html', attributes: { lang: 'en' }, children: [
+        { tagName: 'body', attributes: {}, children: [] },
+      ] }, head);
+
+      expect(parser.jsxNodeToHtml(page)).toBe(
+        '<html lang="en"><meta charset="utf-8" />' +
+        '<meta name="viewport" content="width=device-width, initial-scale=1" />' +
+        '<title>Home</title><meta name="description" content="{unknown}" /><body></body></html>'
+      );
+    });
+  });
+
+  describe('checkRoute', () => {
+    const rules = [metaTitle, metaDescription, singleH1, landmarkRegions, imagesAltText];
+
+    it('should check the page composed into its layouts as a whole document', () => {
+      write('layout.tsx', [
+        "export const metadata = { title: { template: '%s | Acme Corporation', default: 'Acme Corporation' } };",
+        '',
+        'export default function RootLayout({ children }: { children: React.ReactNode }) {',
+        '  return (',
+        '    <html lang="en">',
+        '      <body>',
+        '        <header><h1>Acme</h1><nav><a href="/">Home</a></nav></header>',
+        '        <main>{children}</main>',
+        '      </body>',
+        '    </html>',
+        '  );',
+        '}',
+      ].join('\n'));
+      write('about/page.tsx', [
+        "export const metadata = { title: 'About' };",
+        '',
+        'export default function AboutPage() {',
+        '  return <section><h1>About us</h1><img src="team.jpg" /></section>;',
+        '}',
+      ].join('\n'));
+
+      const routes = new JsxRulesEngine(rules).checkAppRoutes(appDir);
+      const [about] = routes;
+      const summary = about.results.map(result => ({
+        file: path.relative(appDir, result.filePath),
+        violations: result.violations.map(v => `${v.ruleId} ${v.line}:${v.column}`),
+      }));
+
+      expect(routes.map(route => route.route.path)).toEqual(['/about']);
+      expect(summary).toEqual([
+        {
+          file: path.join('about', 'page.tsx'),
+          violations: [
+            // meta-description reports the missing description at the page
+            'meta-description 3:1',
+            'single-h1 4:19',
+            'images-alt-text 4:36',
+          ],
+        },
+      ]);
+    });
+
+    it('should report elements and metadata of a layout in the layout file', () => {
+      write('layout.tsx', [
+        "export const metadata = { title: 'Acme', description: 'Everything you need to build, ship and run the things Acme makes.' };",
+        '',
+        'export default function RootLayout({ children }: { children: React.ReactNode }) {',
+        '  return <html lang="en"><body><img src="logo.png" />{children}</body></html>;',
+        '}',
+      ].join('\n'));
+      write('page.tsx', 'export default function Home() { return <main><h1>Home</h1></main>; }');
+
+      const [home] = new JsxRulesEngine(rules).checkAppRoutes(appDir);
+
+      expect(home.results.map(result => path.relative(appDir, result.filePath))).toEqual(['page.tsx', 'layout.tsx']);
+      expect(home.results[0].violations).toEqual([]);
+      expect(home.results[1].violations.map(v => `${v.ruleId} ${v.line}:${v.column}`)).toEqual([
+        'meta-title 1:34',
+        'landmark-regions 4:26',
+        'images-alt-text 4:32',
+      ]);
+    });
+  });
+});
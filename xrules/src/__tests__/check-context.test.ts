@@ -0,0 +1,108 @@
+/**
+ * Tests for the CheckContext relational helpers
+ */
+
+import { parseHTML, querySelector } from '../parser';
+import { createCheckContext, getDocumentIndex } from '../check-context';
+
+describe('CheckContext', () => {
+  const html = `
+    <html><body>
+      <form id="signup" class="card wide">
+        <label for="email">Email</label>
+        <input id="email" type="email" list="domains" aria-describedby="hint err missing">
+        <span id="hint">We never share it</span>
+        <span id="err" class="error">Required</span>
+        <datalist id="domains"></datalist>
+      </form>
+      <button form="signup" type="submit">Join</button>
+      <p id="dup">One</p><p id="dup">Two</p>
+    </body></html>
+  `;
+
+  describe('resolveIdRef', () => {
+    it('should resolve single and list ID references', () => {
+      const context = createCheckContext(parseHTML(html));
+      const input = context.querySelector('input')!;
+      const label = context.querySelector('label')!;
+      const button = context.querySelector('button')!;
+
+      expect(context.resolveIdRef(label, 'for')).toEqual([input]);
+      expect(context.resolveIdRef(input, 'list').map(el => el.tagName)).toEqual(['datalist']);
+      expect(context.resolveIdRef(button, 'form').map(el => el.tagName)).toEqual(['form']);
+      expect(context.resolveIdRef(input, 'aria-describedby').map(el => el.textContent)).toEqual([
+        'We never share it',
+        'Required',
+      ]);
+      expect(context.resolveIdRef(input, 'aria-controls')).toEqual([]);
+    });
+  });
+
+  describe('ancestors and siblings', () => {
+    it('should walk relations with optional pattern filters', () => {
+      const context = createCheckContext(parseHTML(html));
+      const input = context.querySelector('input')!;
+
+      expect(context.ancestors(input).map(el => el.tagName)).toEqual(['form', 'body', 'html']);
+      expect(context.ancestors(input, '.card')).toHaveLength(1);
+      expect(context.siblings(input).map(el => el.tagName)).toEqual(['label', 'span', 'span', 'datalist']);
+      expect(context.siblings(input, 'span:contains("Required")')).toHaveLength(1);
+    });
+  });
+
+  describe('index', () => {
+    it('should index elements by id, class and tag', () => {
+      const context = createCheckContext(parseHTML(html));
+
+      expect(context.index.getById('dup')?.textContent).toBe('One');
+      expect(context.index.getAllById('dup')).toHaveLength(2);
+      expect(context.index.getByClass('wide').map(el => el.tagName)).toEqual(['form']);
+      expect(context.index.getByTag('SPAN')).toHaveLength(2);
+      expect(context.getElementById('err')?.textContent).toBe('Required');
+    });
+
+    it('should build the index once per document', () => {
+      const document = parseHTML(html);
+
+      expect(getDocumentIndex(document)).toBe(getDocumentIndex(document));
+      expect(createCheckContext(document).index).toBe(createCheckContext(document).index);
+    });
+  });
+
+  describe('computeAccessibleName', () => {
+    const nameOf = (markup: string, selector: string) => {
+      const document = parseHTML(markup);
+      const context = createCheckContext(document);
+      return context.computeAccessibleName(querySelector(document.documentElement, selector)!);
+    };
+
+    it('should prefer aria-labelledby, then aria-label, then native labels', () => {
+      expect(nameOf('<span id="a">First</span><span id="b">Second</span><button aria-labelledby="a b" aria-label="X">Y</button>', 'button')).toBe('First Second');
+      expect(nameOf('<button aria-label="Close">×</button>', 'button')).toBe('Close');
+      expect(nameOf('<label for="q">Search</label><input id="q">', 'input')).toBe('Search');
+      expect(nameOf('<label>Name <input></label>', 'input')).toBe('Name');
+    });
+
+    it('should use alt, captions and content', () => {
+      expect(nameOf('<img src="a.png" alt="Logo">', 'img')).toBe('Logo');
+      expect(nameOf('<a href="/"><img src="home.png" alt="Home"> page</a>', 'a')).toBe('Home page');
+      expect(nameOf('<fieldset><legend>Shipping</legend></fieldset>', 'fieldset')).toBe('Shipping');
+      expect(nameOf('<table><caption>Prices</caption></table>', 'table')).toBe('Prices');
+    });
+
+    it('should skip hidden content unless referenced', () => {
+      expect(nameOf('<a href="/">Next<span aria-hidden="true"> →</span></a>', 'a')).toBe('Next');
+      expect(nameOf('<span id="t" hidden>Secret</span><button aria-labelledby="t"></button>', 'button')).toBe('Secret');
+    });
+
+    it('should include embedded control values in label text', () => {
+      expect(nameOf('<label for="c">Flash <select><option>3</option></select> times</label><input id="c" type="checkbox">', '#c')).toBe('Flash 3 times');
+    });
+
+    it('should fall back to title and placeholder', () => {
+      expect(nameOf('<input title="Search site">', 'input')).toBe('Search site');
+      expect(nameOf('<input placeholder="Search">', 'input')).toBe('Search');
+      expect(nameOf('<div>No name</div>', 'div')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for the command line interface
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Run the CLI with arguments until it exits, with what it printed
+ */
+function run(args: string[]): Promise<{ code: number; output: string }> {
+  return new Promise(resolve => {
+    const output: string[] = [];
+    const print = (...parts: unknown[]) => { output.push(parts.join(' ')); };
+    jest.spyOn(console, 'log').mockImplementation(print);
+    jest.spyOn(console, 'error').mockImplementation(print);
+    jest.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      resolve({ code: code ?? 0, output: output.join('\n') });
+    }) as never);
+
+    process.argv = ['node', 'xrules', ...args];
+    void jest.isolateModulesAsync(async () => { await import('../cli'); });
+  });
+}
+
+describe('CLI', () => {
+  const cwd = process.cwd();
+  const argv = process.argv;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-cli-'));
+    process.chdir(tmpDir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    process.argv = argv;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('check', () => {
+    // Only warnings outside scopes, so the exit code is that of the conflicts
+    const page = '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width">' +
+      '<title>Quarterly sales by region</title></head><img alt="Chart">';
+
+    it('should run the rules scopes declare on the elements of those scopes', async () => {
+      fs.mkdirSync('src/articles', { recursive: true });
+      fs.writeFileSync('src/articles/article.scope.json', JSON.stringify({
+        id: 'article',
+        name: 'Article body',
+        selector: '.article-body',
+        ruleDefinitions: [{
+          id: 'article-figure-caption',
+          category: 'accessibility',
+          severity: 'error',
+          pattern: 'img',
+          require: 'figure:has(figcaption) > img',
+          message: 'Images in articles must be in a <figure> with a <figcaption>',
+        }],
+      }));
+      fs.writeFileSync('src/articles/a.html', '<img alt="Logo">\n<div class="article-body"><img alt="A"></div>');
+      fs.writeFileSync('src/articles/Article.tsx', [
+        'export function Article() {',
+        '  return <main><img alt="Logo" /><div className="article-body"><img alt="A" /></div></main>;',
+        '}',
+      ].join('\n'));
+
+      const { code, output } = await run(['src/articles/a.html', 'src/articles/Article.tsx', '--no-color']);
+
+      // Positions of the scope rule's violations, under the heading of their file
+      let file = '';
+      const located: string[] = [];
+      for (const line of output.split('\n')) {
+        if (/^\S/.test(line)) file = line;
+        if (line.includes('(article-figure-caption)')) located.push(`${file} ${line.trim().split(/\s+/)[0]}`);
+      }
+
+      expect(located).toEqual(['src/articles/a.html :2:27', 'src/articles/Article.tsx :2:64']);
+      expect(code).toBe(1);
+    });
+
+    it('should report conflicts between scopes and fail on them under error-on-conflict', async () => {
+      fs.mkdirSync('src/widget', { recursive: true });
+      fs.writeFileSync('.xrulesrc.json', JSON.stringify({ rules: {}, conflictResolution: 'error-on-conflict' }));
+      fs.writeFileSync('src/site.scope.json', JSON.stringify({ id: 'site', name: 'Site', rules: { 'images-alt-text': { severity: 'warning' } } }));
+      const widget = { id: 'widget', name: 'Widget', rules: { 'images-alt-text': { severity: 'info' } } };
+      fs.writeFileSync('src/widget/widget.scope.json', JSON.stringify(widget));
+      fs.writeFileSync('src/widget/a.html', page);
+
+      const conflicting = await run(['src/widget/a.html', '--no-color']);
+
+      expect(conflicting.output).toContain('images-alt-text: site, widget (severity) unresolved (error-on-conflict)');
+      expect(conflicting.code).toBe(1);
+
+      // A scope overriding its declared parent refines it
+      fs.writeFileSync('src/widget/widget.scope.json', JSON.stringify({ ...widget, parent: 'site' }));
+
+      const refined = await run(['src/widget/a.html', '--no-color']);
+
+      expect(refined.output).not.toContain('Scope conflicts');
+      expect(refined.code).toBe(0);
+    });
+
+    it('should fail on unresolved conflicts with --ci', async () => {
+      fs.mkdirSync('src/widget', { recursive: true });
+      fs.writeFileSync('.xrulesrc.json', JSON.stringify({ rules: {}, conflictResolution: 'explicit-priority' }));
+      fs.writeFileSync('src/site.scope.json', JSON.stringify({ id: 'site', name: 'Site', rules: { 'images-alt-text': { severity: 'warning' } } }));
+      fs.writeFileSync('src/widget/widget.scope.json', JSON.stringify({ id: 'widget', name: 'Widget', rules: { 'images-alt-text': { severity: 'info' } } }));
+      fs.writeFileSync('src/widget/a.html', page);
+
+      const reported = await run(['src/widget/a.html', '--no-color']);
+      expect(reported.output).toContain('images-alt-text: site, widget (severity) unresolved (explicit-priority)');
+      expect(reported.code).toBe(0);
+
+      expect((await run(['src/widget/a.html', '--no-color', '--ci'])).code).toBe(1);
+    });
+  });
+
+  describe('check-app', () => {
+    it('should apply scopes and validate the configuration like check', async () => {
+      fs.mkdirSync('app', { recursive: true });
+      fs.writeFileSync('app/app.scope.json', JSON.stringify({
+        id: 'app',
+        name: 'App',
+        ruleDefinitions: [{
+          id: 'app-no-marquee',
+          category: 'best-practice',
+          severity: 'error',
+          pattern: 'marquee',
+          message: 'Do not use <marquee>',
+        }],
+      }));
+      fs.writeFileSync('app/page.tsx', 'export default function Page() {\n  return <main><marquee>Sale</marquee></main>;\n}');
+
+      const { code, output } = await run(['check-app', 'app', '--no-color']);
+
+      expect(output).toContain('Do not use <marquee>  (app-no-marquee)');
+      expect(code).toBe(1);
+
+      fs.writeFileSync('.xrulesrc.json', JSON.stringify({ rules: { 'app-no-marquee': 'loud' } }));
+
+      const invalid = await run(['check-app', 'app', '--no-color']);
+
+      expect(invalid.output).toContain('Invalid configuration:');
+      expect(invalid.code).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Tests for declarative YAML/JSON rules
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { XRulesEngine } from '../engine';
+import { loadRuleDirectories } from '../config-loader';
+import {
+  compileDeclarativeRule,
+  parseRuleFile,
+  validateDeclarativeRule,
+  RuleDefinitionError,
+} from '../declarative-rules';
+
+describe('Declarative Rules', () => {
+  describe('compileDeclarativeRule', () => {
+    it('should check require constraints and interpolate messages', () => {
+      const rule = compileDeclarativeRule({
+        id: 'hero-image-alt',
+        category: 'accessibility',
+        severity: 'error',
+        pattern: '.hero img',
+        require: '[alt]',
+        message: 'Hero image {{attr.src}} needs alt text',
+        suggest: 'Describe {{attr.src}} in an alt attribute',
+      });
+      const engine = new XRulesEngine([rule]);
+
+      const result = engine.checkHTML(`
+        <div class="hero"><img src="banner.png"><img src="logo.png" alt="Logo"></div>
+        <img src="footer.png">
+      `);
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].message).toBe('Hero image banner.png needs alt text');
+      expect(result.violations[0].suggestion).toBe('Describe banner.png in an alt attribute');
+    });
+
+    it('should check forbid constraints with extended patterns', () => {
+      const rule = compileDeclarativeRule({
+        id: 'label-input-id',
+        category: 'accessibility',
+        severity: 'warning',
+        pattern: 'label',
+        forbid: ':has(input:not([id]))',
+        message: 'Inputs inside <{{tagName}}> need an id',
+      });
+      const engine = new XRulesEngine([rule]);
+
+      const result = engine.checkHTML('<label>A <input id="a"></label><label>B <input></label>');
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].message).toBe('Inputs inside <label> need an id');
+    });
+
+    it('should check textMatches', () => {
+      const rule = compileDeclarativeRule({
+        id: 'button-verb',
+        category: 'best-practice',
+        severity: 'info',
+        pattern: 'button',
+        textMatches: '/^(save|send|delete)\\b/i',
+        message: 'Button "{{text}}" should start with an action verb',
+      });
+      const engine = new XRulesEngine([rule]);
+
+      const result = engine.checkHTML('<button>Save draft</button><button> OK </button>');
+
+      expect(result.violations.map(v => v.message)).toEqual(['Button "OK" should start with an action verb']);
+    });
+
+    it('should check count within an element and across the document', () => {
+      const listRule = compileDeclarativeRule({
+        id: 'nav-list-size',
+        category: 'best-practice',
+        severity: 'warning',
+        pattern: 'nav ul',
+        count: { of: 'li', min: 2, max: 3 },
+        message: 'Navigation lists should have 2-3 items, found {{count}}',
+      });
+      const h1Rule = compileDeclarativeRule({
+        id: 'one-h1',
+        category: 'seo',
+        severity: 'error',
+        pattern: 'h1',
+        count: { max: 1 },
+        message: 'Found {{count}} h1 elements',
+      });
+      const engine = new XRulesEngine([listRule, h1Rule]);
+
+      const result = engine.checkHTML(`
+        <nav><ul><li>A</li></ul><ul><li>A</li><li>B</li></ul></nav>
+        <h1>One</h1><h1>Two</h1>
+      `);
+
+      expect(result.violations.map(v => v.message)).toEqual([
+        'Navigation lists should have 2-3 items, found 1',
+        'Found 2 h1 elements',
+        'Found 2 h1 elements',
+      ]);
+    });
+
+    it('should report every matched element when there are no constraints', () => {
+      const rule = compileDeclarativeRule({
+        id: 'no-marquee',
+        category: 'best-practice',
+        severity: 'error',
+        pattern: 'marquee',
+        message: 'Do not use <marquee>',
+      });
+
+      expect(new XRulesEngine([rule]).checkHTML('<marquee>Hi</marquee>').errorCount).toBe(1);
+    });
+  });
+
+  describe('validateDeclarativeRule', () => {
+    it('should collect every problem', () => {
+      const issues = validateDeclarativeRule({
+        id: 'Bad Id',
+        category: 'style',
+        pattern: 'img:without(',
+        count: { min: -1 },
+        message: 'Missing {{attr}}',
+        extra: true,
+      });
+
+      expect(issues.map(issue => issue.path.join('.'))).toEqual([
+        'extra',
+        'id',
+        'category',
+        '',
+        'pattern',
+        'count.min',
+        'message',
+      ]);
+      expect(issues[3].message).toBe('Missing required property "severity"');
+    });
+  });
+
+  describe('parseRuleFile', () => {
+    it('should load single rules and lists from YAML and JSON', () => {
+      const yaml = [
+        '- id: rule-a',
+        '  category: seo',
+        '  severity: warning',
+        '  pattern: img',
+        '  message: A',
+        '- id: rule-b',
+        '  category: seo',
+        '  severity: warning',
+        '  pattern: a',
+        '  message: B',
+      ].join('\n');
+      const json = JSON.stringify({
+        id: 'rule-c',
+        category: 'security',
+        severity: 'error',
+        pattern: 'iframe:without(sandbox)',
+        message: 'Sandbox iframes',
+      });
+
+      expect(parseRuleFile(yaml, 'rules.yaml').map(rule => rule.id)).toEqual(['rule-a', 'rule-b']);
+      expect(parseRuleFile(json, 'rule.json')[0].pattern).toBe('iframe:without(sandbox)');
+    });
+
+    it('should report validation errors with file, line and column', () => {
+      const yaml = [
+        'id: broken-rule',
+        'category: accessibility',
+        'severity: critical',
+        'pattern: "img:contains(alt)"',
+        'message: Broken',
+      ].join('\n');
+
+      expect(() => parseRuleFile(yaml, 'rules/broken.yaml')).toThrow(RuleDefinitionError);
+
+      try {
+        parseRuleFile(yaml, 'rules/broken.yaml');
+      } catch (error) {
+        const { issues, message } = error as RuleDefinitionError;
+        expect(issues.map(issue => [issue.line, issue.column])).toEqual([[3, 11], [4, 24]]);
+        expect(message).toContain('rules/broken.yaml:3:11: Invalid severity "critical"');
+        expect(message).toContain('rules/broken.yaml:4:24: Invalid pattern: Expected a quoted string');
+      }
+    });
+
+    it('should report syntax errors with their line', () => {
+      try {
+        parseRuleFile('{\n  "id": "x",\n  "pattern": \n}', 'rule.json');
+        throw new Error('expected a syntax error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(RuleDefinitionError);
+        expect((error as RuleDefinitionError).issues[0].file).toBe('rule.json');
+      }
+    });
+  });
+
+  describe('loadRuleDirectories', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-rules-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should load rule files and reject duplicate ids', () => {
+      const rule = 'id: no-blink\ncategory: best-practice\nseverity: error\npattern: blink\nmessage: No blink\n';
+      fs.mkdirSync(path.join(tmpDir, 'rules'));
+      fs.writeFileSync(path.join(tmpDir, 'rules', 'a.yml'), rule);
+      fs.writeFileSync(path.join(tmpDir, 'rules', 'notes.md'), '# not a rule');
+
+      expect(loadRuleDirectories(['rules'], tmpDir).map(r => r.id)).toEqual(['no-blink']);
+
+      fs.writeFileSync(path.join(tmpDir, 'rules', 'b.yaml'), rule);
+      expect(() => loadRuleDirectories(['rules'], tmpDir)).toThrow(/b\.yaml:1:5: Duplicate rule id "no-blink"/);
+    });
+  });
+});
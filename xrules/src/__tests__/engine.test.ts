@@ -2,8 +2,14 @@
  * Tests for XRules Engine
  */
 
-import { XRulesEngine } from '../engine';
-import type { Rule } from '../types';
+import { XRulesEngine, createViolation, createDefaultEngine } from '../engine';
+import { accessibilityStrict } from '../presets';
+import { FixAwareEngine } from '../fix-engine';
+import { validateConfig } from '../config-loader';
+import { headingHierarchy, singleH1 } from '../rules/heading-hierarchy';
+import { uniqueIds } from '../rules/accessibility';
+import { metaTitle } from '../rules/seo';
+import type { AggregateRule, DocumentRule, Element, Rule } from '../types';
 
 describe('XRules Engine', () => {
   describe('Rule management', () => {
@@ -138,6 +144,35 @@ describe('XRules Engine', () => {
       expect(result.violations).toHaveLength(1);
       expect(result.violations[0].line).toBeGreaterThan(0);
     });
+
+    it('should skip a rule with an invalid pattern and report it once', () => {
+      const broken: Rule = {
+        id: 'broken-pattern',
+        name: 'Broken',
+        description: 'Test',
+        category: 'best-practice',
+        severity: 'error',
+        pattern: 'img:has(',
+        check: () => 'Failed',
+      };
+      const working: Rule = { ...broken, id: 'working-pattern', pattern: 'img' };
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      try {
+        const engine = new XRulesEngine([broken, working]);
+        engine.checkHTML('<img src="a.png">');
+        const result = engine.checkHTML('<img src="b.png">');
+
+        expect(result.violations.map(v => v.ruleId)).toEqual(['working-pattern']);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toMatch(/^Warning: Rule "broken-pattern" has an invalid pattern: .*; the rule is skipped$/);
+        expect(validateConfig({ rules: {} }, [broken, working])).toEqual([
+          expect.stringMatching(/^Rule "broken-pattern" has an invalid pattern: /),
+        ]);
+      } finally {
+        warn.mockRestore();
+      }
+    });
   });
 
   describe('Configuration', () => {
@@ -278,4 +313,149 @@ describe('XRules Engine', () => {
       expect(result.violations.map(v => v.ruleId)).toEqual(['rule1', 'rule2']);
     });
   });
+
+  describe('Document and aggregate rules', () => {
+    const maxDepth: DocumentRule = {
+      kind: 'document',
+      id: 'max-depth',
+      name: 'Max Depth',
+      description: 'Test',
+      category: 'best-practice',
+      severity: 'info',
+      checkDocument: (document, context) => context.querySelectorAll('span span')
+        .map(span => createViolation(maxDepth, span, 'Too deep')),
+    };
+
+    it('should run document rules once and locate each violation', () => {
+      const checkDocument = jest.fn(maxDepth.checkDocument);
+      const engine = new XRulesEngine([{ ...maxDepth, checkDocument }]);
+
+      const result = engine.checkHTML('<div>\n<span><span>a</span></span>\n<span><span>b</span></span>\n</div>', 'page.html', {
+        config: { rules: { 'max-depth': 'warning' } },
+      });
+
+      expect(checkDocument).toHaveBeenCalledTimes(1);
+      expect(result.violations.map(v => [v.line, v.severity, v.element])).toEqual([
+        [2, 'warning', '<span>'],
+        [3, 'warning', '<span>'],
+      ]);
+    });
+
+    it('should collect matching elements before finalizing', () => {
+      const events: string[] = [];
+      const counter: AggregateRule<Element[]> = {
+        kind: 'aggregate',
+        id: 'counter',
+        name: 'Counter',
+        description: 'Test',
+        category: 'best-practice',
+        severity: 'warning',
+        pattern: 'li',
+        createState: () => [],
+        collect: (element, items) => {
+          events.push(`collect ${element.textContent}`);
+          items.push(element);
+        },
+        finalize: items => {
+          events.push('finalize');
+          return [createViolation(counter, null, `${items.length} items`)];
+        },
+      };
+
+      const result = new XRulesEngine([counter]).checkHTML('<ul><li>a</li><li>b</li></ul>');
+
+      expect(events).toEqual(['collect a', 'collect b', 'finalize']);
+      expect(result.violations[0]).toMatchObject({ ruleId: 'counter', message: '2 items', line: undefined });
+    });
+
+    it('should report duplicate ids and skipped heading levels', () => {
+      const html = `
+        <h1 id="top">Title</h1>
+        <h3 id="top">Skipped</h3>
+        <h1>Second</h1>
+        <p id="top"></p>
+      `;
+      const result = new XRulesEngine([uniqueIds, headingHierarchy, singleH1]).checkHTML(html);
+
+      expect(result.violations.map(v => `${v.ruleId}:${v.line}`)).toEqual([
+        'unique-ids:3',
+        'unique-ids:5',
+        'heading-hierarchy:3',
+        'heading-hierarchy:4',
+        'single-h1:4',
+      ]);
+    });
+
+    it('should include document rules in fix-aware checks', () => {
+      const engine = new FixAwareEngine();
+      engine.addRule(metaTitle);
+
+      const result = engine.checkHTMLWithFixes('<html><head></head><body></body></html>');
+
+      expect(result.violations.find(v => v.ruleId === 'meta-title')).toMatchObject({ fixable: false });
+    });
+  });
+
+  describe('Structured reports', () => {
+    it('should turn each report into a located violation with related information', () => {
+      const rule: Rule = {
+        id: 'label-target',
+        name: 'Label Target',
+        description: 'Test',
+        category: 'accessibility',
+        severity: 'warning',
+        pattern: 'label',
+        check: (label, context) => context.resolveIdRef(label, 'for').map(input => ({
+          message: 'Label for {{id}} points at <{{tag}}>',
+          element: input,
+          related: [{ element: label, message: 'Label {{id}}' }],
+          data: { id: input.getAttribute('id')!, tag: input.tagName },
+        })),
+        suggest: element => `Check <${element.tagName}>`,
+      };
+
+      const result = new XRulesEngine([rule]).checkHTML('<label for="a">A</label>\n<input id="a">');
+
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          message: 'Label for a points at <input>',
+          line: 2,
+          element: '<input id="a">',
+          suggestion: 'Check <input>',
+          data: { id: 'a', tag: 'input' },
+          relatedInformation: [{ message: 'Label a', line: 1, column: 1, element: '<label for="a">' }],
+        }),
+      ]);
+    });
+
+    it('should report nothing for an empty list', () => {
+      const rule: Rule = {
+        id: 'none',
+        name: 'None',
+        description: 'Test',
+        category: 'best-practice',
+        severity: 'error',
+        pattern: 'div',
+        check: () => [],
+      };
+
+      expect(new XRulesEngine([rule]).checkHTML('<div></div>').violations).toEqual([]);
+    });
+
+    it('should report duplicate ids only when a preset enables the rule', () => {
+      const html = '<p id="x"></p><p id="x"></p>';
+
+      expect(createDefaultEngine().checkHTML(html).violations.filter(v => v.ruleId === 'unique-ids')).toEqual([]);
+      expect(createDefaultEngine().checkHTML(html, 'input.html', { config: accessibilityStrict }).violations
+        .filter(v => v.ruleId === 'unique-ids').map(v => v.severity)).toEqual(['error']);
+    });
+
+    it('should point duplicate ids at the first element', () => {
+      const result = new XRulesEngine([uniqueIds]).checkHTML('<p id="x"></p>\n<p id="x"></p>');
+
+      expect(result.violations[0].relatedInformation).toEqual([
+        expect.objectContaining({ line: 1, message: 'First element with id "x"' }),
+      ]);
+    });
+  });
 });
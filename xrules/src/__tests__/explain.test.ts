@@ -0,0 +1,122 @@
+/**
+ * Tests for scope traceability reports
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadProjectSettings, explainFile, createCoverageReport, formatExplanation, formatCoverageReport } from '../explain';
+
+describe('Explain', () => {
+  let tmpDir: string;
+  let cwd: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-explain-'));
+    cwd = process.cwd();
+    process.chdir(tmpDir);
+
+    write('.xrulesrc.json', JSON.stringify({
+      extends: ['recommended'],
+      rules: { 'images-alt-text': { severity: 'warning', options: { minLength: 3 } } },
+      scopes: [
+        { id: 'site', name: 'Site', filePattern: 'src/**', rules: { 'images-alt-text': { severity: 'error' } } },
+        { id: 'legacy', name: 'Legacy', filePattern: 'old/**', rules: {} },
+      ],
+    }));
+    write('src/blog/blog.scope.json', JSON.stringify({
+      id: 'article',
+      name: 'Article body',
+      selector: '.article-body',
+      rules: { 'images-alt-text': { options: { maxLength: 80 }, message: 'Describe the image for readers' } },
+    }));
+    write('src/blog/post.html', [
+      '<html><body>',
+      '  <img src="hero.jpg" alt="Hero">',
+      '  <div class="article-body">',
+      '    <img src="chart.png" alt="Chart">',
+      '  </div>',
+      '</body></html>',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, file), content);
+  };
+
+  it('should trace each setting of a rule to its file and key', async () => {
+    const project = await loadProjectSettings(tmpDir);
+    const configFile = path.join(tmpDir, '.xrulesrc.json');
+    const scopeFile = path.join(tmpDir, 'src/blog/blog.scope.json');
+
+    const file = explainFile(project, 'src/blog/post.html');
+    expect(file.scopes.map(scope => [scope.scope.id, scope.match])).toEqual([['site', 'file']]);
+
+    const line = explainFile(project, 'src/blog/post.html', 4);
+    expect(line.scopes.map(scope => [scope.scope.id, scope.match, scope.source])).toEqual([
+      ['site', 'file', { file: configFile, key: 'scopes[0]' }],
+      ['article', 'element', { file: scopeFile, key: '' }],
+    ]);
+
+    const rule = line.rules.find(current => current.ruleId === 'images-alt-text')!;
+    expect(rule).toMatchObject({
+      severity: 'error',
+      options: { minLength: 3, maxLength: 80 },
+      message: 'Describe the image for readers',
+    });
+    expect(rule.steps.map(step => [step.severity, step.source?.file, step.source?.key, step.scope])).toEqual([
+      ['error', undefined, undefined, undefined],
+      ['error', 'preset:recommended', 'rules.images-alt-text', undefined],
+      ['warning', configFile, 'rules.images-alt-text', undefined],
+      ['error', configFile, 'scopes[0].rules.images-alt-text', 'site'],
+      [undefined, scopeFile, 'rules.images-alt-text', 'article'],
+    ]);
+
+    const text = formatExplanation(line, tmpDir);
+    expect(text).toContain('article  (selector .article-body)  src/blog/blog.scope.json');
+    expect(text).toContain('images-alt-text: error {"minLength":3,"maxLength":80} message "Describe the image for readers"');
+    expect(text).toContain('warning {"minLength":3}  .xrulesrc.json rules.images-alt-text');
+  });
+
+  it('should report what each scope matches across the project', async () => {
+    const project = await loadProjectSettings(tmpDir);
+    const report = createCoverageReport(project, ['src/blog/post.html']);
+
+    expect(report.rules).toEqual(['images-alt-text']);
+    expect(report.scopes.map(scope => [scope.scope.id, scope.files, scope.elements])).toEqual([
+      ['site', ['src/blog/post.html'], 0],
+      ['legacy', [], 0],
+      ['article', ['src/blog/post.html'], 2],
+    ]);
+    expect(report.unused).toEqual(['legacy']);
+
+    const lines = formatCoverageReport(report).split('\n');
+    expect(lines[0]).toBe('Scope    Files  Elements  images-alt-text');
+    expect(lines[1]).toBe('site     1      0         error');
+    expect(lines[3]).toBe('article  1      2         ~');
+    expect(lines).toContain('Scopes matching no files or elements: legacy');
+  });
+
+  it('should resolve conflicts between scopes with the configured policy', async () => {
+    const config = JSON.parse(fs.readFileSync('.xrulesrc.json', 'utf-8'));
+    write('.xrulesrc.json', JSON.stringify({ ...config, conflictResolution: 'strictest-wins' }));
+    const project = await loadProjectSettings(tmpDir);
+
+    const rule = explainFile(project, 'src/blog/post.html', 4).rules.find(current => current.ruleId === 'images-alt-text')!;
+    expect(rule.resolution).toEqual({ policy: 'strictest-wins', scopes: ['site', 'article'], winner: 'site', resolved: true });
+    expect(rule.steps.map(step => step.scope)).toEqual([undefined, undefined, undefined, 'article', 'site']);
+
+    project.conflictResolution = 'error-on-conflict';
+    const report = createCoverageReport(project, ['src/blog/post.html']);
+    expect(report.conflicts.map(conflict => [conflict.ruleId, conflict.type, conflict.resolution.resolved, conflict.files])).toEqual([
+      ['images-alt-text', 'both', false, ['src/blog/post.html']],
+    ]);
+    expect(formatCoverageReport(report)).toContain('images-alt-text: site, article (both) unresolved (error-on-conflict)');
+  });
+});
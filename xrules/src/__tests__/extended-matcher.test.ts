@@ -3,7 +3,13 @@
  */
 
 import { parseHTML } from '../parser';
-import { queryExtended, parseExtendedPattern } from '../extended-matcher';
+import {
+  queryExtended,
+  parseExtendedPattern,
+  parsePattern,
+  matchesExtended,
+  PatternSyntaxError,
+} from '../extended-matcher';
 
 describe('Extended Pattern Matcher', () => {
   describe('parseExtendedPattern', () => {
@@ -41,6 +47,87 @@ describe('Extended Pattern Matcher', () => {
         attribute: 'alt',
       });
     });
+
+    it('should keep parentheses inside quoted text', () => {
+      const pattern = parseExtendedPattern('p:contains("foo (bar)")');
+      expect(pattern.modifiers[0]).toEqual({
+        type: 'contains',
+        text: 'foo (bar)',
+        caseSensitive: true,
+      });
+    });
+
+    it('should parse nested modifiers into a tree', () => {
+      const pattern = parseExtendedPattern('form:has(label:not(:has(input)))');
+      const has = pattern.modifiers[0];
+
+      expect(has.type).toBe('has');
+      if (has.type !== 'has') return;
+      expect(has.selector).toBe('label:not(:has(input))');
+      // Plain CSS arguments are left to the selector engine
+      expect(has.nested).toBeUndefined();
+
+      const extended = parseExtendedPattern('nav:has(a:contains("Home"))').modifiers[0];
+      if (extended.type !== 'has') throw new Error('expected :has');
+      expect(extended.nested?.[0]).toEqual({
+        baseSelector: 'a',
+        modifiers: [{ type: 'contains', text: 'Home', caseSensitive: true }],
+      });
+    });
+
+    it('should link compounds through combinators', () => {
+      const pattern = parseExtendedPattern('nav:has-parent(header) > a:contains("Home")');
+
+      expect(pattern.baseSelector).toBe('a');
+      expect(pattern.context?.combinator).toBe('>');
+      expect(pattern.context?.pattern?.baseSelector).toBe('nav');
+      expect(pattern.context?.pattern?.modifiers[0]).toEqual({ type: 'has-parent', selector: 'header' });
+    });
+
+    it('should parse :count and :contains-regex arguments', () => {
+      const pattern = parseExtendedPattern('h1:count(>= 2):contains-regex(/^(a|b)\\/c$/i)');
+
+      expect(pattern.modifiers[0]).toEqual({ type: 'count', operator: 'gte', value: 2 });
+      const regex = pattern.modifiers[1];
+      if (regex.type !== 'contains-regex') throw new Error('expected :contains-regex');
+      expect(regex.pattern.source).toBe('^(a|b)\\/c$');
+      expect(regex.pattern.flags).toBe('i');
+    });
+
+    it('should parse comma-separated lists with parsePattern', () => {
+      expect(parsePattern('a:contains-i("click"), a:contains("here"), img')).toHaveLength(3);
+      expect(() => parseExtendedPattern('a, img')).toThrow(PatternSyntaxError);
+    });
+  });
+
+  describe('pattern errors', () => {
+    const columnOf = (pattern: string): number => {
+      try {
+        parsePattern(pattern);
+      } catch (error) {
+        if (error instanceof PatternSyntaxError) return error.column;
+        throw error;
+      }
+      throw new Error(`Expected "${pattern}" to be rejected`);
+    };
+
+    it('should report the column of the problem', () => {
+      expect(columnOf('button:contains(Submit)')).toBe(17);
+      expect(columnOf('label:has(input')).toBe(16);
+      expect(columnOf('img:without()')).toBe(13);
+      expect(columnOf('h1:count(2)')).toBe(10);
+      expect(columnOf('div > :bogus')).toBe(8);
+      expect(columnOf('a:has-parent(nav >)')).toBe(19);
+      expect(columnOf('p:contains-regex(/(/)')).toBe(18);
+    });
+
+    it('should describe the problem in the message', () => {
+      expect(() => parsePattern('img:without(')).toThrow(
+        'Expected an attribute name in :without() at column 13 in pattern "img:without("'
+      );
+      expect(() => parsePattern('a:contains')).toThrow('requires an argument');
+      expect(() => parsePattern('p::before')).toThrow('Pseudo-elements are not supported');
+    });
   });
 
   describe(':contains modifier', () => {
@@ -308,4 +395,57 @@ describe('Extended Pattern Matcher', () => {
       expect(unsafeLinks).toHaveLength(1);
     });
   });
+
+  describe('Grammar-based matching', () => {
+    const html = `
+      <html><body>
+        <header><nav><a href="/">Home</a><a href="/about">About</a></nav></header>
+        <footer><nav><a href="/">Home</a></nav></footer>
+        <form>
+          <label>Name <input name="name"></label>
+          <label>Note</label>
+          <p class="hint">Required (see below)</p>
+        </form>
+      </body></html>
+    `;
+
+    it('should match modifiers on the left of a combinator', () => {
+      const doc = parseHTML(html);
+      const results = queryExtended(doc.documentElement, 'nav:has-parent(header) > a:contains("Home")');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].parent?.parent?.tagName).toBe('header');
+    });
+
+    it('should match nested extended patterns', () => {
+      const doc = parseHTML(html);
+
+      expect(queryExtended(doc.documentElement, 'nav:has(a:contains("About"))')).toHaveLength(1);
+      expect(queryExtended(doc.documentElement, 'label:not(:has(input))')).toHaveLength(1);
+      expect(queryExtended(doc.documentElement, 'form:has(> p:contains("(see below)"))')).toHaveLength(1);
+      expect(queryExtended(doc.documentElement, 'label:has(+ p:contains-i("required"))')).toHaveLength(1);
+    });
+
+    it('should union comma-separated alternatives in document order', () => {
+      const doc = parseHTML(html);
+      const results = queryExtended(doc.documentElement, 'p:contains("Required"), label:without(for)');
+
+      expect(results.map(el => el.tagName)).toEqual(['label', 'label', 'p']);
+    });
+
+    it('should apply :count to the result set', () => {
+      const doc = parseHTML(html);
+
+      expect(queryExtended(doc.documentElement, 'nav:count(= 2)')).toHaveLength(2);
+      expect(queryExtended(doc.documentElement, 'nav:count(> 2)')).toHaveLength(0);
+    });
+
+    it('should test single elements with matchesExtended', () => {
+      const doc = parseHTML(html);
+      const [link] = queryExtended(doc.documentElement, 'a');
+
+      expect(matchesExtended(link, 'header a:contains("Home")')).toBe(true);
+      expect(matchesExtended(link, 'footer a')).toBe(false);
+    });
+  });
 });
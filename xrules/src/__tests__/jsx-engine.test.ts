@@ -2,11 +2,21 @@
  * Tests for JSX Engine (Phase 4)
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { JsxRulesEngine } from '../jsx-engine';
+import { OPAQUE_COMPONENT_ATTRIBUTE, isUnknownAttributeValue } from '../jsx-parser';
+import type { AggregateRule, Element, Rule } from '../types';
+import { createDefaultEngine, createViolation } from '../engine';
 import { formLabelsExplicit } from '../rules/form-labels-explicit';
 import { imagesAltText } from '../rules/images-alt-text';
 import { emptyLinks } from '../rules/empty-links';
+import { buttonsDescriptiveText } from '../rules/buttons-descriptive-text';
 import { metaTitle, metaViewport } from '../rules/seo';
+import { ariaValidAttributes, linkDescriptiveText } from '../rules/accessibility';
+import { headingHierarchy } from '../rules/heading-hierarchy';
+import { createScope } from '../scope-registry';
 
 describe('JSX Rules Engine', () => {
   describe('Basic Component Checking', () => {
@@ -98,6 +108,293 @@ describe('JSX Rules Engine', () => {
     });
   });
 
+  describe('Component Inlining', () => {
+    it('should check the markup rendered by wrapper components', () => {
+      const code = `
+        const FieldLabel = ({ children }: Props) => <label className="field">{children}</label>;
+
+        function Input(props: InputProps) {
+          return <input className="input" {...props} />;
+        }
+
+        function NameField() {
+          return <FieldLabel>Name <Input type="text" name="name" /></FieldLabel>;
+        }
+      `;
+
+      const engine = new JsxRulesEngine([formLabelsExplicit]);
+      const result = engine.checkCode(code).find(r => r.componentName === 'NameField')!;
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].ruleId).toBe('form-labels-explicit');
+    });
+
+    it('should render string props used as children as text', () => {
+      const code = `
+        function Btn({ label }: { label?: string }) {
+          return <button>{label}</button>;
+        }
+
+        function SaveBar() {
+          return <div><Btn label="Save" /></div>;
+        }
+
+        function EmptyBar() {
+          return <div><Btn /></div>;
+        }
+      `;
+
+      const engine = new JsxRulesEngine([buttonsDescriptiveText]);
+      const results = engine.checkCode(code);
+
+      expect(results.find(r => r.componentName === 'SaveBar')!.violations).toHaveLength(0);
+      expect(results.find(r => r.componentName === 'EmptyBar')!.violations).toHaveLength(1);
+    });
+
+    it('should let rules detect components that could not be inlined', () => {
+      const opaqueComponents: Rule = {
+        id: 'no-opaque-components',
+        name: 'No Opaque Components',
+        description: 'Test',
+        category: 'best-practice',
+        severity: 'info',
+        pattern: `[${OPAQUE_COMPONENT_ATTRIBUTE}]`,
+        check: element => `${element.getAttribute(OPAQUE_COMPONENT_ATTRIBUTE)} could not be analyzed`,
+      };
+      const code = `
+        import { Chart } from 'charting-library';
+
+        function Dashboard() {
+          return <main><Chart data={[]} /></main>;
+        }
+      `;
+
+      const [result] = new JsxRulesEngine([opaqueComponents]).checkCode(code);
+
+      expect(result.violations.map(v => v.message)).toEqual(['Chart could not be analyzed']);
+    });
+
+    it('should report a rule once at the tag using a component from another file, pointing at its elements', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-inlined-'));
+      try {
+        const form = path.join(dir, 'Form.tsx');
+        const page = path.join(dir, 'Page.tsx');
+        fs.writeFileSync(form, [
+          'export function Form({ wide }: { wide: boolean }) {',
+          '  return <form className={wide ? "wide" : "narrow"}>',
+          '    <label>First <input name="first" /></label>',
+          '    <label>Last <input name="last" /></label>',
+          '  </form>;',
+          '}',
+        ].join('\n'));
+        fs.writeFileSync(page, [
+          "import { Form } from './Form';",
+          'export function Page() { return <main><Form wide={false} /><Form wide /></main>; }',
+        ].join('\n'));
+
+        const results = new JsxRulesEngine([formLabelsExplicit]).checkSource(page);
+        const violations = results.flatMap(result => result.violations);
+
+        expect(violations.map(v => `${v.ruleId} ${v.line}:${v.column}`)).toEqual([
+          'form-labels-explicit 2:39',
+          'form-labels-explicit 2:60',
+        ]);
+        for (const violation of violations) {
+          expect(violation.relatedInformation?.map(related => `${related.filePath}:${related.line}:${related.column}`))
+            .toEqual([`${form}:3:18`, `${form}:3:5`, `${form}:4:17`, `${form}:4:5`]);
+        }
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should inline the new content of a refreshed file into the files importing it', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-refresh-'));
+      try {
+        const button = path.join(dir, 'Button.tsx');
+        const toolbar = path.join(dir, 'Toolbar.tsx');
+        fs.writeFileSync(button, 'export function Button() { return <button>Save</button>; }');
+        fs.writeFileSync(
+          toolbar,
+          "import { Button } from './Button';\nexport function Toolbar() { return <div><Button /></div>; }"
+        );
+
+        const engine = new JsxRulesEngine([buttonsDescriptiveText]);
+        const ruleIds = () => [button, toolbar].map(filePath =>
+          engine.checkSource(filePath).flatMap(result => result.violations.map(v => v.ruleId)));
+        expect(ruleIds()).toEqual([[], []]);
+
+        fs.writeFileSync(button, 'export function Button() { return <button></button>; }');
+
+        expect(engine.refreshFile(button)).toEqual([toolbar]);
+        expect(ruleIds()).toEqual([['buttons-descriptive-text'], ['buttons-descriptive-text']]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Source Positions', () => {
+    it('should report violations at the JSX tag in the TSX source', () => {
+      const code = [
+        'function Gallery({ wide }: { wide?: boolean }) {',
+        '  return (',
+        '    <figure>',
+        '      {wide ? <img src="wide.jpg" /> : <img src="narrow.jpg" alt="Narrow" />}',
+        '      <img src="caption.jpg" />',
+        '    </figure>',
+        '  );',
+        '}',
+      ].join('\n');
+
+      const [result] = new JsxRulesEngine([imagesAltText]).checkCode(code, 'Gallery.tsx');
+
+      expect(result.violations.map(v => [v.line, v.column])).toEqual([[4, 15], [5, 7]]);
+      expect(result.violations.map(v => v.component)).toEqual([
+        { name: 'Gallery', branch: 1, totalBranches: 2 },
+        { name: 'Gallery', branch: 1, totalBranches: 2 },
+      ]);
+    });
+
+    it('should report elements of components from other files at their usage', () => {
+      const engine = new JsxRulesEngine([imagesAltText]);
+      engine.checkCode('export const Avatar = () => <img src="avatar.png" />;', 'Avatar.tsx');
+
+      const code = [
+        "import { Avatar } from './Avatar';",
+        '',
+        'function Header() {',
+        '  return <header><Avatar /></header>;',
+        '}',
+      ].join('\n');
+      const [result] = engine.checkCode(code, 'Header.tsx');
+
+      expect(result.violations).toHaveLength(1);
+      expect([result.violations[0].line, result.violations[0].column]).toEqual([4, 18]);
+    });
+  });
+
+  describe('Prop Types', () => {
+    it('should report that an optional alt may be missing', () => {
+      const code = `
+        function Thumbnail({ src, alt }: { src: string; alt?: string }) {
+          return <img src={src} alt={alt} />;
+        }
+      `;
+
+      const [result] = new JsxRulesEngine([imagesAltText]).checkCode(code);
+
+      expect(result.checkedBranches).toBe(2);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].conditions).toEqual(['alt == null']);
+    });
+
+    it('should let rules query unknown attribute values', () => {
+      const dynamicAlt: Rule = {
+        id: 'dynamic-alt',
+        name: 'Dynamic Alt',
+        description: 'Test',
+        category: 'accessibility',
+        severity: 'info',
+        pattern: 'img[alt]',
+        check: element => isUnknownAttributeValue(element.getAttribute('alt')) ? 'alt may be empty' : null,
+      };
+      const code = `
+        function Avatar({ name }: { name: string }) {
+          return <div><img src="a.png" alt={name} /><img src="b.png" alt="Logo" /></div>;
+        }
+      `;
+
+      const [result] = new JsxRulesEngine([dynamicAlt]).checkCode(code);
+
+      expect(result.violations.map(v => v.message)).toEqual(['alt may be empty']);
+    });
+  });
+
+  describe('Relevance Filtering', () => {
+    it('should skip branches no active rule can match', () => {
+      const code = `
+        function Media({ kind }: { kind: 'photo' | 'quote' | 'video' }) {
+          if (kind === 'photo') return <figure><img src="photo.jpg" /></figure>;
+          if (kind === 'video') return <video src="clip.mp4" />;
+          return <blockquote>Quote</blockquote>;
+        }
+      `;
+
+      const engine = new JsxRulesEngine([imagesAltText, emptyLinks]);
+      const [result] = engine.checkCode(code);
+
+      expect(result.checkedBranches).toBe(1);
+      expect(result.skippedBranches).toBe(2);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].conditions).toEqual(["kind === 'photo'"]);
+
+      // Turning the rule off in the config leaves only the first branch, which is always checked
+      const [configured] = engine.checkCode(code, 'component.tsx', {
+        config: { rules: { 'images-alt-text': 'off' } },
+      });
+      expect(configured.checkedBranches).toBe(1);
+      expect(configured.skippedBranches).toBe(2);
+    });
+
+    it('should skip branches without the elements a document rule reads', () => {
+      const code = `
+        function Quote({ short }: { short: boolean }) {
+          if (short) return <q>Quote</q>;
+          return <blockquote>Quote</blockquote>;
+        }
+      `;
+
+      const [result] = new JsxRulesEngine([imagesAltText, metaTitle]).checkCode(code);
+
+      // The missing title is found on the first branch
+      expect(result.checkedBranches).toBe(1);
+      expect(result.skippedBranches).toBe(1);
+      expect(result.violations.map(v => v.ruleId)).toEqual(['meta-title']);
+      expect(result.violations[0].conditions).toEqual(['short']);
+    });
+
+    it('should skip branches when the default rules are active', () => {
+      const code = `
+        function Status({ state }: { state: 'busy' | 'done' | 'failed' }) {
+          if (state === 'busy') return <p>Saving</p>;
+          if (state === 'done') return <p>Saved</p>;
+          return <p><img src="error.png" /> Could not save</p>;
+        }
+      `;
+
+      const [result] = new JsxRulesEngine(createDefaultEngine().getRules()).checkCode(code);
+
+      expect(result.checkedBranches).toBe(2);
+      expect(result.skippedBranches).toBeGreaterThan(0);
+      expect(result.violations.map(v => v.ruleId)).toContain('images-alt-text');
+    });
+
+    it('should check the first branch for what an aggregate rule reports missing', () => {
+      // Reports on what it did not collect, like a document rule
+      const requireH1: AggregateRule<Element[]> = {
+        kind: 'aggregate',
+        id: 'require-h1',
+        name: 'Require H1',
+        description: 'Pages need an h1',
+        category: 'seo',
+        severity: 'warning',
+        pattern: 'h1',
+        createState: () => [],
+        collect: (element, h1s) => { h1s.push(element); },
+        finalize: h1s => h1s.length === 0 ? [createViolation(requireH1, null, 'Page has no h1')] : [],
+      };
+      const engine = new JsxRulesEngine([requireH1]);
+
+      const [result] = engine.checkCode('function Page() { return <main><p>hi</p></main>; }');
+
+      expect(result.checkedBranches).toBe(1);
+      expect(result.skippedBranches).toBe(0);
+      expect(result.violations.map(v => v.message)).toEqual(['Page has no h1']);
+      expect(engine.checkHTML('<main><p>hi</p></main>').violations.map(v => v.message)).toEqual(['Page has no h1']);
+    });
+  });
+
   describe('Link Checking', () => {
     it('should detect empty links', () => {
       const code = `
@@ -150,6 +447,51 @@ describe('JSX Rules Engine', () => {
       // Should find violation in error branch (missing alt)
       expect(results[0].violations.length).toBeGreaterThan(0);
     });
+
+    it('should check every branch of a ternary and say which condition produced a violation', () => {
+      const code = `
+        function Avatar({ user }: Props) {
+          return (
+            <div>
+              <img src="logo.png" />
+              {user ? <img src={user.photo} alt={user.name} /> : <img src="anonymous.png" />}
+            </div>
+          );
+        }
+      `;
+
+      const engine = new JsxRulesEngine([imagesAltText]);
+      const [result] = engine.checkCode(code);
+
+      expect(result.checkedBranches).toBe(2);
+      expect(result.variantCount).toBe(2);
+
+      // The logo is missing alt text in both variants, so it is reported once and unconditionally
+      expect(result.violations).toHaveLength(2);
+      expect(result.violations[0].conditions).toBeUndefined();
+      expect(result.violations[1].conditions).toEqual(['!user']);
+      expect(result.violations[1].message).toMatch(/\(when !user\)$/);
+    });
+
+    it('should give the conditions common to every variant with a violation, once each', () => {
+      const code = `
+        function Panel({ open, tab }: Props) {
+          return (
+            <div>
+              {open && <img src="open.png" />}
+              {open && <span>Open</span>}
+              {tab === 'a' ? <b>A</b> : <i>B</i>}
+            </div>
+          );
+        }
+      `;
+
+      const [result] = new JsxRulesEngine([imagesAltText]).checkCode(code);
+
+      expect(result.variantCount).toBe(4);
+      expect(result.violations.map(v => v.conditions)).toEqual([['open']]);
+      expect(result.violations[0].message).toMatch(/\(when open\)$/);
+    });
   });
 
   describe('Multiple Components', () => {
@@ -285,6 +627,24 @@ describe('JSX Rules Engine', () => {
       expect(results).toHaveLength(1);
       expect(results[0].violations).toHaveLength(0);
     });
+
+    it('should render string and boolean values of aria attributes as text', () => {
+      const code = `
+        function Menu({ open }: { open: boolean }) {
+          return (
+            <nav>
+              <span aria-hidden="true" data-icon="true">☰</span>
+              <button aria-expanded={open} aria-pressed={false}>Menu</button>
+            </nav>
+          );
+        }
+      `;
+
+      const [result] = new JsxRulesEngine([ariaValidAttributes]).checkCode(code);
+
+      expect(result.checkedBranches).toBe(2);
+      expect(result.violations).toEqual([]);
+    });
   });
 
   describe('Arrow Function Components', () => {
@@ -332,6 +692,172 @@ describe('JSX Rules Engine', () => {
     });
   });
 
+  describe('Class and Wrapped Components', () => {
+    it('should check class components and components wrapped in forwardRef or memo', () => {
+      const code = `
+        class Logo extends React.Component {
+          render() {
+            return <img src="logo.svg" />;
+          }
+        }
+
+        const Avatar = React.memo(React.forwardRef((props: Props, ref) => <img ref={ref} src="avatar.png" />));
+      `;
+
+      const results = new JsxRulesEngine([imagesAltText]).checkCode(code);
+
+      expect(results.map(r => r.componentName)).toEqual(['Logo', 'Avatar']);
+      expect(results.map(r => r.violations.length)).toEqual([1, 1]);
+    });
+  });
+
+  describe('Vue and Svelte Components', () => {
+    it('should check each form of a Vue template at its position in the .vue file', () => {
+      const code = [
+        '<template>',
+        '  <img v-if="avatar" :src="avatar" />',
+        '  <!-- xrules-disable-next-line empty-links -- icon added by CSS -->',
+        '  <a v-else href="/profile"></a>',
+        '</template>',
+      ].join('\n');
+
+      const [result] = new JsxRulesEngine([imagesAltText, emptyLinks]).checkTemplate(code, 'Avatar.vue');
+
+      expect(result.componentName).toBe('Avatar');
+      expect(result.checkedBranches).toBe(2);
+      expect(result.violations.map(v => [v.ruleId, v.line, v.column, v.conditions])).toEqual([
+        ['images-alt-text', 2, 3, ['avatar']],
+      ]);
+      expect(result.unusedSuppressions).toEqual([]);
+    });
+
+    it('should check a Svelte component with bound values as unknown', () => {
+      const code = [
+        '<script>export let photo;</script>',
+        '{#each photos as photo}',
+        '  <img src={photo.src} alt={photo.alt} />',
+        '{/each}',
+        '<img src="/logo.svg">',
+      ].join('\n');
+
+      const [result] = new JsxRulesEngine([imagesAltText]).checkTemplate(code, 'Gallery.svelte');
+
+      expect(result.violations.map(v => `${v.ruleId} ${v.line}:${v.column}`)).toEqual(['images-alt-text 5:1']);
+    });
+
+    it('should pick the front-end by file extension', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-front-ends-'));
+      try {
+        const files = {
+          'page.html': '<img src="a.png">',
+          'Card.vue': '<template><img src="a.png" /></template>',
+          'Card.svelte': '<img src="a.png" />',
+          'Card.tsx': 'export function Card() { return <img src="a.png" />; }',
+        };
+        for (const [name, code] of Object.entries(files)) {
+          fs.writeFileSync(path.join(dir, name), code);
+        }
+
+        const engine = new JsxRulesEngine([imagesAltText]);
+        const checked = Object.keys(files).map(name => engine.checkSource(path.join(dir, name)).map(result => ({
+          file: path.basename(result.filePath),
+          violations: result.violations.map(v => `${v.ruleId} ${v.line}:${v.column}`),
+        })));
+
+        expect(checked).toEqual([
+          [{ file: 'page.html', violations: ['images-alt-text 1:1'] }],
+          [{ file: 'Card.vue', violations: ['images-alt-text 1:11'] }],
+          [{ file: 'Card.svelte', violations: ['images-alt-text 1:1'] }],
+          [{ file: 'Card.tsx', violations: ['images-alt-text 1:33'] }],
+        ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Markdown and MDX Documents', () => {
+    it('should check a Markdown document at the positions of its constructs', () => {
+      const code = [
+        '# Guide',
+        '',
+        '### Install',
+        '',
+        'Read the docs [here](/docs) and see ![](diagram.png).',
+        '',
+        '<!-- xrules-disable-next-line images-alt-text -- decorative divider -->',
+        '<img src="divider.svg">',
+      ].join('\n');
+
+      const [result] = new JsxRulesEngine([imagesAltText, headingHierarchy, linkDescriptiveText])
+        .checkMarkdown(code, 'docs/guide.md');
+
+      expect(result.filePath).toBe('docs/guide.md');
+      expect(result.violations.map(v => `${v.ruleId} ${v.line}:${v.column}`).sort()).toEqual([
+        'heading-hierarchy 3:1',
+        'link-descriptive-text 5:15',
+      ]);
+      expect(result.unusedSuppressions).toEqual([]);
+    });
+
+    it('should analyze the components an MDX document imports', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-mdx-'));
+      try {
+        fs.writeFileSync(
+          path.join(dir, 'figure.tsx'),
+          'export function Figure({ src }: { src: string }) { return <figure><img src={src} /></figure>; }'
+        );
+        fs.writeFileSync(path.join(dir, 'intro.mdx'), [
+          "import { Figure } from './figure'",
+          '',
+          '# Introduction',
+          '',
+          '<Figure src="/team.png" />',
+          '',
+          '{/* xrules-disable-next-line images-alt-text -- logo is described by the heading */}',
+          '<img src="/logo.png" />',
+        ].join('\n'));
+
+        const results = new JsxRulesEngine([imagesAltText]).checkSource(path.join(dir, 'intro.mdx'));
+
+        expect(results.map(result => path.basename(result.filePath))).toEqual(['intro.mdx']);
+        expect(results[0].violations.map(v => `${v.ruleId} ${v.line}:${v.column}`)).toEqual(['images-alt-text 5:1']);
+        expect(results[0].unusedSuppressions).toEqual([]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Static Scope Classes', () => {
+    it('should report conditional scope classes with the severity the config gives the metarule', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-scope-classes-'));
+      try {
+        const filePath = path.join(dir, 'settings.tsx');
+        fs.writeFileSync(filePath, [
+          'export function Settings({ admin }: { admin: boolean }) {',
+          "  return <div className={admin ? 'admin-panel' : undefined}><button>Save</button></div>;",
+          '}',
+        ].join('\n'));
+        const scopes = [createScope({ id: 'admin', name: 'Admin', selector: '.admin-panel *', rules: {} })];
+        const engine = new JsxRulesEngine();
+
+        expect(engine.checkScopeClasses(filePath, scopes)).toMatchObject({
+          errorCount: 1,
+          violations: [{ ruleId: 'static-scope-classes', line: 2, column: 15, data: { component: 'Settings' } }],
+        });
+        expect(engine.checkScopeClasses(filePath, scopes, {
+          config: { rules: { 'static-scope-classes': 'warning' } },
+        })).toMatchObject({ errorCount: 0, warningCount: 1 });
+        expect(engine.checkScopeClasses(filePath, scopes, {
+          config: { rules: { 'static-scope-classes': 'off' } },
+        }).violations).toEqual([]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('Error Aggregation', () => {
     it('should correctly count errors, warnings, and info', () => {
       const code = `
@@ -2,7 +2,7 @@
  * Tests for JSX Parser (Phase 4)
  */
 
-import { JsxParser } from '../jsx-parser';
+import { JsxParser, UnknownValue } from '../jsx-parser';
 
 describe('JSX Parser', () => {
   let parser: JsxParser;
@@ -62,7 +62,7 @@ describe('JSX Parser', () => {
       expect(jsxNode.tagName).toBe('input');
       expect(jsxNode.attributes['type']).toBe('text');
       expect(jsxNode.attributes['placeholder']).toBe('Enter name');
-      expect(jsxNode.attributes['required']).toBe('true');
+      expect(jsxNode.attributes['required']).toBe(true);
     });
   });
 
@@ -174,9 +174,11 @@ describe('JSX Parser', () => {
       const sourceFile = parser.addSourceFromText(code);
       const components = parser.analyzeComponent(sourceFile);
 
-      expect(components[0].hasConditionalRendering).toBe(false);
-      // Note: Direct ternary in return doesn't create multiple return statements
-      // It's a single return with a conditional expression
+      expect(components[0].hasConditionalRendering).toBe(true);
+      expect(components[0].variants.map(v => [v.node.attributes['class'], v.conditions])).toEqual([
+        ['error', ['isError']],
+        ['success', ['!isError']],
+      ]);
     });
 
     it('should detect conditional rendering with if/else', () => {
@@ -199,6 +201,476 @@ describe('JSX Parser', () => {
     });
   });
 
+  describe('Branch Enumeration', () => {
+    const variantsOf = (code: string) => {
+      const components = parser.analyzeComponent(parser.addSourceFromText(code));
+      return components[0].variants.map(v => ({ html: parser.jsxNodeToHtml(v.node), conditions: v.conditions }));
+    };
+
+    it('should enumerate && and ?? children', () => {
+      const variants = variantsOf(`
+        function Panel({ open, icon }: Props) {
+          return <div>{open && <p>Body</p>}{icon ?? <span>-</span>}</div>;
+        }
+      `);
+
+      expect(variants).toEqual([
+        { html: '<div><p>Body</p></div>', conditions: ['open', 'icon != null'] },
+        { html: '<div><p>Body</p><span>-</span></div>', conditions: ['open', 'icon == null'] },
+        { html: '<div></div>', conditions: ['!open', 'icon != null'] },
+        { html: '<div><span>-</span></div>', conditions: ['!open', 'icon == null'] },
+      ]);
+    });
+
+    it('should record early returns, nested blocks and switch cases', () => {
+      const variants = variantsOf(`
+        function Status({ loading, state }: Props) {
+          if (loading) {
+            if (state === 'slow') {
+              return <p>Still loading</p>;
+            }
+            return <p>Loading</p>;
+          }
+          switch (state) {
+            case 'error':
+            case 'failed':
+              return <p role="alert">Failed</p>;
+            default:
+              return null;
+          }
+        }
+      `);
+
+      expect(variants).toEqual([
+        { html: '<p>Still loading</p>', conditions: ['loading', "state === 'slow'"] },
+        { html: '<p>Loading</p>', conditions: ['loading', "state !== 'slow'"] },
+        { html: '<p role="alert">Failed</p>', conditions: ['!loading', "(state === 'error' || state === 'failed')"] },
+      ]);
+    });
+
+    it('should expand .map() callbacks without treating their returns as component returns', () => {
+      const components = parser.analyzeComponent(parser.addSourceFromText(`
+        function Nav({ links }: Props) {
+          return (
+            <ul>
+              {links.map(link => {
+                if (link.external) {
+                  return <li key={link.href}><a href={link.href} target="_blank">{link.label}</a></li>;
+                }
+                return <li key={link.href}><a href={link.href}>{link.label}</a></li>;
+              })}
+            </ul>
+          );
+        }
+      `));
+
+      expect(components[0].variants).toHaveLength(2);
+      expect(components[0].variants.map(v => v.conditions)).toEqual([
+        ['link.external'],
+        ['!link.external'],
+      ]);
+      expect(components[0].variants[0].node.tagName).toBe('ul');
+    });
+
+    it('should drop combinations of sibling branches that cannot hold together', () => {
+      const variants = variantsOf(`
+        function Tabs({ tab, product }: Props) {
+          return (
+            <div>
+              {tab === 'a' && <h1 id="t">A</h1>}
+              {tab === 'b' && <h1 id="t">B</h1>}
+              {product.inStock ? <b>In stock</b> : null}
+              {!product.inStock && <i>Sold out</i>}
+            </div>
+          );
+        }
+      `);
+
+      expect(variants.map(v => v.conditions)).toEqual([
+        ["tab === 'a'", "tab !== 'b'", 'product.inStock', 'product.inStock'],
+        ["tab === 'a'", "tab !== 'b'", '!product.inStock', '!product.inStock'],
+        ["tab !== 'a'", "tab === 'b'", 'product.inStock', 'product.inStock'],
+        ["tab !== 'a'", "tab === 'b'", '!product.inStock', '!product.inStock'],
+        ["tab !== 'a'", "tab !== 'b'", 'product.inStock', 'product.inStock'],
+        ["tab !== 'a'", "tab !== 'b'", '!product.inStock', '!product.inStock'],
+      ]);
+      expect(variants.some(v => (v.html.match(/<h1/g) ?? []).length > 1)).toBe(false);
+    });
+
+    it('should drop branches whose compound condition contradicts an earlier one', () => {
+      const variants = variantsOf(`
+        function Count({ n }: Props) {
+          return n > 0 ? <p>Some</p> : n > 0 ? <b>Never</b> : <i>None</i>;
+        }
+      `);
+
+      expect(variants).toEqual([
+        { html: '<p>Some</p>', conditions: ['n > 0'] },
+        { html: '<i>None</i>', conditions: ['!(n > 0)', '!(n > 0)'] },
+      ]);
+    });
+
+    it('should guard returns after a switch whose cases return or break', () => {
+      const variants = variantsOf(`
+        function Badge({ kind }: Props) {
+          switch (kind) {
+            case 'a':
+              return <b>A</b>;
+            case 'b':
+              break;
+            default:
+              break;
+          }
+          return <i>Other</i>;
+        }
+      `);
+
+      expect(variants).toEqual([
+        { html: '<b>A</b>', conditions: ["kind === 'a'"] },
+        { html: '<i>Other</i>', conditions: ["kind !== 'a'"] },
+      ]);
+    });
+
+    it('should sample combinations over the cap while covering every branch', () => {
+      const capped = new JsxParser(undefined, { maxVariants: 4 });
+      const flags = ['a', 'b', 'c', 'd', 'e', 'f'];
+      const code = `
+        function Flags(props: Props) {
+          return <div>${flags.map(flag => `{props.${flag} ? <i className="${flag}" /> : <b className="${flag}" />}`).join('')}</div>;
+        }
+      `;
+      const [component] = capped.analyzeComponent(capped.addSourceFromText(code));
+
+      expect(component.variantCount).toBe(64);
+      expect(component.variants).toHaveLength(4);
+      for (const flag of flags) {
+        const conditions = component.variants.map(v => v.conditions.find(c => c.includes(`props.${flag}`)));
+        expect(conditions).toContain(`props.${flag}`);
+        expect(conditions).toContain(`!props.${flag}`);
+      }
+
+      const again = capped.analyzeComponent(capped.addSourceFromText(code))[0];
+      expect(again.variants.map(v => v.conditions)).toEqual(component.variants.map(v => v.conditions));
+    });
+
+    it('should reject an invalid cap', () => {
+      expect(() => new JsxParser(undefined, { maxVariants: 0 })).toThrow('maxVariants must be a positive integer');
+    });
+  });
+
+  describe('Prop Types', () => {
+    it('should expand string literal unions into concrete attribute values', () => {
+      const components = parser.analyzeComponent(parser.addSourceFromText(`
+        type Variant = 'text' | 'email';
+
+        function Input({ variant, disabled }: { variant: Variant; disabled: boolean }) {
+          return <input type={variant} disabled={disabled} />;
+        }
+      `));
+
+      expect(components[0].variants.map(v => [parser.jsxNodeToHtml(v.node), v.conditions])).toEqual([
+        ['<input type="text" />', ["variant === 'text'", '!disabled']],
+        ['<input type="text" disabled />', ["variant === 'text'", 'disabled']],
+        ['<input type="email" />', ["variant === 'email'", '!disabled']],
+        ['<input type="email" disabled />', ["variant === 'email'", 'disabled']],
+      ]);
+    });
+
+    it('should split conditional values into their branches and parenthesize compound expressions', () => {
+      const components = parser.analyzeComponent(parser.addSourceFromText(`
+        function Tab({ activeTab, id, count }: { activeTab: string; id: string; count: number }) {
+          return <a aria-current={activeTab === id ? 'page' : undefined} data-many={count > 10}>Tab</a>;
+        }
+      `));
+
+      expect(components[0].variants.map(v => [parser.jsxNodeToHtml(v.node), v.conditions])).toEqual([
+        ['<a aria-current="page" data-many="false">Tab</a>', ['activeTab === id', '!(count > 10)']],
+        ['<a aria-current="page" data-many="true">Tab</a>', ['activeTab === id', '(count > 10)']],
+        ['<a data-many="false">Tab</a>', ['activeTab !== id', '!(count > 10)']],
+        ['<a data-many="true">Tab</a>', ['activeTab !== id', '(count > 10)']],
+      ]);
+    });
+
+    it('should split logical values into the operand each branch evaluates to', () => {
+      const components = parser.analyzeComponent(parser.addSourceFromText(`
+        function Current({ active }: { active: boolean }) {
+          return <a aria-current={active && 'page'}>Tab</a>;
+        }
+        function Titled({ label }: { label: string }) {
+          return <a title={label || 'Tab'}>Tab</a>;
+        }
+        function Sized({ size }: { size: 'sm' | undefined }) {
+          return <a data-size={size ?? 'md'}>Tab</a>;
+        }
+      `));
+
+      expect(components.map(c => c.variants.map(v => [parser.jsxNodeToHtml(v.node), v.conditions]))).toEqual([
+        [
+          ['<a aria-current="false">Tab</a>', ['!active']],
+          ['<a aria-current="page">Tab</a>', ['active']],
+        ],
+        [
+          ['<a title="{unknown}">Tab</a>', ['label']],
+          ['<a title="Tab">Tab</a>', ['!label']],
+        ],
+        [
+          ['<a data-size="sm">Tab</a>', ['size != null', "size === 'sm'"]],
+          ['<a data-size="md">Tab</a>', ['size == null']],
+        ],
+      ]);
+    });
+
+    it('should treat optional props as possibly absent and other types as unknown', () => {
+      const components = parser.analyzeComponent(parser.addSourceFromText(`
+        function Photo({ src, alt }: { src: string; alt?: string }) {
+          return <img src={src} alt={alt} />;
+        }
+      `));
+
+      expect(components[0].variants.map(v => [v.node.attributes, v.conditions])).toEqual([
+        [{ src: new UnknownValue('src', 'string'), alt: new UnknownValue('alt', 'string') }, ['alt != null']],
+        [{ src: new UnknownValue('src', 'string') }, ['alt == null']],
+      ]);
+    });
+
+    it('should pass typed values through inlined components', () => {
+      const components = parser.analyzeComponent(parser.addSourceFromText(`
+        const Icon = ({ label }: { label?: string }) => <svg aria-label={label} />;
+
+        function Toolbar({ size }: { size: 'small' | 'large' }) {
+          return <div><Icon /><button data-size={size}>Save</button></div>;
+        }
+      `), 'Toolbar');
+
+      expect(components[0].variants.map(v => parser.jsxNodeToHtml(v.node))).toEqual([
+        '<div><svg></svg><button data-size="small">Save</button></div>',
+        '<div><svg></svg><button data-size="large">Save</button></div>',
+      ]);
+    });
+  });
+
+  describe('Cross-component Inlining', () => {
+    it('should inline imported components through re-exports with props and children', () => {
+      parser.addSourceFromText(`
+        export function Label({ htmlFor, children }: LabelProps) {
+          return <label htmlFor={htmlFor} className="label">{children}</label>;
+        }
+      `, 'Label.tsx');
+      parser.addSourceFromText(`
+        export const TextField = ({ label, type = 'text', ...rest }: FieldProps) => (
+          <input type={type} aria-label={label} {...rest} />
+        );
+      `, 'TextField.tsx');
+      parser.addSourceFromText(`
+        export { Label } from './Label';
+        export { TextField as default } from './TextField';
+      `, 'ui.ts');
+
+      const sourceFile = parser.addSourceFromText(`
+        import TextField, { Label } from './ui';
+
+        function SignupForm() {
+          return (
+            <form>
+              <Label htmlFor="email">Email</Label>
+              <TextField id="email" label="Email address" required />
+            </form>
+          );
+        }
+      `, 'SignupForm.tsx');
+      const [component] = parser.analyzeComponent(sourceFile);
+
+      expect(component.dependencies).toEqual(['Label', 'TextField']);
+      expect(parser.jsxNodeToHtml(component.possibleReturns[0])).toBe(
+        '<form><label for="email" class="label">Email</label>' +
+        '<input type="text" aria-label="Email address" id="email" required /></form>'
+      );
+    });
+
+    it('should prefix the conditions of inlined components with their name', () => {
+      const sourceFile = parser.addSourceFromText(`
+        function Hint({ error }: Props) {
+          return error ? <p role="alert">{error}</p> : <p>Optional</p>;
+        }
+
+        function Field({ message }: { message?: string }) {
+          return <div><input id="name" /><Hint error={message} /></div>;
+        }
+
+        function RequiredField() {
+          return <div><input id="name" /><Hint error="Required" /></div>;
+        }
+      `);
+      const [, field, requiredField] = parser.analyzeComponent(sourceFile);
+
+      expect(field.variants.map(v => v.conditions)).toEqual([['Hint: error'], ['Hint: !error']]);
+
+      // A literal prop decides the branch, and renders as text where it is used as a child
+      expect(requiredField.variants).toHaveLength(1);
+      expect(parser.jsxNodeToHtml(requiredField.possibleReturns[0])).toContain('<p role="alert">Required</p>');
+    });
+
+    it('should keep the conditions of children passed to inlined components unprefixed', () => {
+      const sourceFile = parser.addSourceFromText(`
+        function Card({ children, footer }: Props) {
+          return <article>{children}{footer && <footer />}</article>;
+        }
+
+        function Notice({ urgent }: { urgent: boolean }) {
+          return <Card footer>{urgent ? <strong>Now</strong> : <span>Later</span>}</Card>;
+        }
+      `);
+      const notice = parser.analyzeComponent(sourceFile, 'Notice')[0];
+
+      expect(notice.variants.map(v => v.conditions)).toEqual([['urgent'], ['!urgent']]);
+    });
+
+    it('should keep unresolved and recursive components as opaque nodes naming their module', () => {
+      const sourceFile = parser.addSourceFromText(`
+        import { DatePicker } from 'third-party-date-picker';
+
+        function Tree({ items }: Props) {
+          return <ul>{items.map(item => <li>{item.label}<Tree items={item.children} /></li>)}</ul>;
+        }
+
+        function Booking() {
+          return <div><DatePicker label="Date" /><Tree items={[]} /></div>;
+        }
+      `);
+      const booking = parser.analyzeComponent(sourceFile, 'Booking')[0];
+      const html = parser.jsxNodeToHtml(booking.possibleReturns[0]);
+
+      expect(html).toContain(
+        '<div data-xrules-component="DatePicker" data-xrules-module="third-party-date-picker" label="Date"></div>'
+      );
+      expect(html).toContain('<ul><li><div data-xrules-component="Tree" items="{unknown}"></div></li></ul>');
+    });
+  });
+
+  describe('Component Shapes', () => {
+    it('should analyze class components through their render method', () => {
+      const sourceFile = parser.addSourceFromText(`
+        class Greeting extends React.Component<{ name?: string }> {
+          handleClick() {
+            return <span>not rendered</span>;
+          }
+
+          render() {
+            const { name } = this.props;
+            return name ? <h1>Hello {name}</h1> : <h1>Hello</h1>;
+          }
+        }
+      `);
+      const [component] = parser.analyzeComponent(sourceFile);
+
+      expect(component.name).toBe('Greeting');
+      expect(component.variants.map(v => v.conditions)).toEqual([['name'], ['!name']]);
+    });
+
+    it('should analyze components wrapped in forwardRef, memo and higher-order components', () => {
+      const sourceFile = parser.addSourceFromText(`
+        const TextInput = React.forwardRef<HTMLInputElement, Props>((props, ref) => <input ref={ref} {...props} />);
+        const Badge = memo(function Badge({ count }: Props) {
+          return <span className="badge">{count}</span>;
+        });
+        const Profile = withRouter(connect(mapState)(({ user }: Props) => <section>{user.name}</section>));
+        const Banner = function () {
+          return <div role="banner" />;
+        };
+      `);
+      const components = parser.analyzeComponent(sourceFile);
+
+      expect(components.map(c => c.name)).toEqual(['TextInput', 'Badge', 'Profile', 'Banner']);
+      expect(parser.jsxNodeToHtml(components[1].possibleReturns[0])).toBe('<span class="badge"></span>');
+    });
+
+    it('should not analyze wrappers of an existing component twice', () => {
+      const sourceFile = parser.addSourceFromText(`
+        function Card() {
+          return <article />;
+        }
+        const MemoCard = memo(Card);
+        export default withTheme(Card);
+      `);
+
+      expect(parser.analyzeComponent(sourceFile).map(c => c.name)).toEqual(['Card']);
+    });
+
+    it('should name anonymous default exports after their file', () => {
+      const functionFile = parser.addSourceFromText(
+        'export default function () { return <main />; }', 'user-card.tsx'
+      );
+      const arrowFile = parser.addSourceFromText(
+        'export default memo(() => <nav />);', 'settings/index.tsx'
+      );
+      const classFile = parser.addSourceFromText(
+        'export default class extends Component { render() { return <footer />; } }', 'footer.tsx'
+      );
+      const namedFile = parser.addSourceFromText(
+        'export default forwardRef(function FancyButton(props, ref) { return <button ref={ref} />; });', 'button.tsx'
+      );
+
+      expect(parser.analyzeComponent(functionFile).map(c => c.name)).toEqual(['UserCard']);
+      expect(parser.analyzeComponent(arrowFile).map(c => c.name)).toEqual(['Settings']);
+      expect(parser.analyzeComponent(classFile).map(c => c.name)).toEqual(['Footer']);
+      expect(parser.analyzeComponent(namedFile, 'FancyButton')).toHaveLength(1);
+    });
+
+    it('should inline wrapped and class components where they are used', () => {
+      const sourceFile = parser.addSourceFromText(`
+        const Field = forwardRef(({ label, ...rest }: Props, ref) => <label>{label}<input ref={ref} {...rest} /></label>);
+        const MemoField = memo(Field);
+
+        class Panel extends Component<PanelProps> {
+          render() {
+            return <section className={this.props.variant}>{this.props.children}</section>;
+          }
+        }
+
+        function Form() {
+          return <Panel variant="compact"><MemoField label="Email" type="email" /></Panel>;
+        }
+      `);
+      const form = parser.analyzeComponent(sourceFile, 'Form')[0];
+
+      expect(parser.jsxNodeToHtml(form.possibleReturns[0])).toBe(
+        '<section class="compact"><label>Email<input type="email" /></label></section>'
+      );
+    });
+  });
+
+  describe('Source Positions', () => {
+    it('should record the position of each JSX tag', () => {
+      const sourceFile = parser.addSourceFromText([
+        'function Card() {',
+        '  return <div>',
+        '    <img src="a.png" />',
+        '  </div>;',
+        '}',
+      ].join('\n'));
+      const [component] = parser.analyzeComponent(sourceFile);
+      const root = component.possibleReturns[0];
+
+      expect([component.line, component.column]).toEqual([1, 1]);
+      expect([root.line, root.column]).toEqual([2, 10]);
+      expect([root.children[0].line, root.children[0].column]).toEqual([3, 5]);
+    });
+
+    it('should map generated HTML positions to JSX nodes', () => {
+      const sourceFile = parser.addSourceFromText(`
+        function Card() {
+          return <div><img src="a.png" /><p>Text</p></div>;
+        }
+      `);
+      const [component] = parser.analyzeComponent(sourceFile);
+      const { html, elements } = parser.renderHtml(component.possibleReturns[0]);
+
+      expect(html).toBe('<div><img src="a.png" /><p>Text</p></div>');
+      expect([...elements.keys()]).toEqual(['1:1', '1:6', '1:25']);
+      expect(elements.get('1:25')!.tagName).toBe('p');
+    });
+  });
+
   describe('JSX Fragments', () => {
     it('should handle JSX fragments', () => {
       const code = `
@@ -394,7 +866,8 @@ describe('JSX Parser', () => {
       const components = parser.analyzeComponent(sourceFile);
 
       const jsxNode = components[0].possibleReturns[0];
-      expect(jsxNode.attributes['href']).toBe('{expression}');
+      expect(jsxNode.attributes['href']).toEqual(new UnknownValue('url', 'string'));
+      expect(parser.jsxNodeToHtml(jsxNode)).toBe('<a href="{unknown}">Link</a>');
     });
 
     it('should handle spread attributes', () => {
@@ -408,7 +881,7 @@ describe('JSX Parser', () => {
       const components = parser.analyzeComponent(sourceFile);
 
       const jsxNode = components[0].possibleReturns[0];
-      expect(jsxNode.attributes['data-spread']).toBe('true');
+      expect(jsxNode.attributes['data-spread']).toBe(true);
     });
   });
 });
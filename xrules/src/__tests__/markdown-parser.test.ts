@@ -0,0 +1,103 @@
+/**
+ * Tests for the Markdown and MDX front-end
+ */
+
+import { MarkdownParser, compileMarkdown } from '../markdown-parser';
+import { JsxParser } from '../jsx-parser';
+
+describe('Markdown Parser', () => {
+  const parser = new MarkdownParser();
+  const html = new JsxParser();
+
+  const render = (code: string, filePath: string) => html.jsxNodeToHtml(parser.analyzeCode(code, filePath)!.variants[0].node);
+
+  it('should render Markdown constructs as the elements they stand for', () => {
+    const code = [
+      '---',
+      'title: Setup',
+      '---',
+      'Setup',
+      '=====',
+      '',
+      'See the [guide][] and ![Diagram](/flow.png "Flow"), or <https://example.com>.',
+      '',
+      '- **One**',
+      '- `two < three`',
+      '',
+      '> Note',
+      '',
+      '| Key | Value |',
+      '| --- | ----- |',
+      '| a   | b     |',
+      '',
+      '[guide]: /guide',
+    ].join('\n');
+
+    expect(render(code, 'setup.md')).toBe(
+      '<h1>Setup</h1>' +
+      '<p>See the<a href="/guide">guide</a>and<img src="/flow.png" alt="Diagram" title="Flow" />, or' +
+      '<a href="https://example.com">https://example.com</a>.</p>' +
+      '<ul><li><strong>One</strong></li><li><code>two &lt; three</code></li></ul>' +
+      '<blockquote><p>Note</p></blockquote>' +
+      '<table><thead><tr><th>Key</th><th>Value</th></tr></thead><tbody><tr><td>a</td><td>b</td></tr></tbody></table>'
+    );
+  });
+
+  it('should keep the HTML of Markdown documents around Markdown content', () => {
+    const code = ['<div align="center">', '', '![](badge.svg)', '', '</div>', '', '<img src="logo.png">'].join('\n');
+
+    expect(render(code, 'README.md')).toBe(
+      '<div align="center"><p><img src="badge.svg" alt="" /></p></div><img src="logo.png" />'
+    );
+  });
+
+  it('should position nodes at their constructs in the document', () => {
+    const code = ['# Title', '', 'Text with a [link](/a).', '', '1. Item', '   ```sh', '   npm test', '   ```'].join('\n');
+    const { node } = parser.analyzeCode(code, 'docs/testing.md')!.variants[0];
+
+    expect(node.children.map(child => [child.tagName, child.line, child.column])).toEqual([
+      ['h1', 1, 1],
+      ['p', 3, 1],
+      ['ol', 5, 1],
+    ]);
+    expect(node.children[1].children[1]).toMatchObject({ tagName: 'a', line: 3, column: 13 });
+    expect(node.children[2].children[0].children[1]).toMatchObject({ tagName: 'pre', line: 6, column: 4 });
+  });
+
+  it('should copy MDX imports, exports, JSX and expressions as written', () => {
+    const code = [
+      "import { Tabs } from '../components/tabs'",
+      "export const meta = { title: 'Install' }",
+      '',
+      '<Tabs',
+      '  items={["npm", "pnpm"]}>',
+      '  Run **{props.manager}** install',
+      '</Tabs>',
+    ].join('\n');
+    const compiled = compileMarkdown(code, 'docs/install.mdx');
+
+    expect(compiled.componentName).toBe('Install');
+    expect(compiled.code).toContain("import { Tabs } from '../components/tabs'\nexport const meta = { title: 'Install' }\n");
+    expect(compiled.code).toContain(
+      '<Tabs\n  items={["npm", "pnpm"]}><p>Run <strong>{props.manager}</strong> install</p></Tabs>'
+    );
+
+    const line = compiled.code.split('\n').findIndex(text => text.includes('items=')) + 1;
+    expect(compiled.getSourcePosition(line, 3)).toEqual({ line: 5, column: 3 });
+  });
+
+  it('should read MDX text as Markdown, not HTML', () => {
+    const component = parser.analyzeCode('Use <Kbd>Ctrl</Kbd> + `{}` and {/* a note */} {1 + 1}.', 'keys.mdx')!;
+
+    expect(component.dependencies).toEqual(['Kbd']);
+    expect(html.jsxNodeToHtml(component.variants[0].node)).toBe(
+      '<p>Use<div data-xrules-component="Kbd">Ctrl</div>+<code>&#123;&#125;</code>and.</p>'
+    );
+  });
+
+  it('should take another component name when an import has the one of the file', () => {
+    const compiled = compileMarkdown("import { Callout } from './callout'\n\n<Callout />", 'callout.mdx');
+
+    expect(compiled.componentName).toBe('CalloutContent');
+  });
+});
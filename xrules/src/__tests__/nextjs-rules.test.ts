@@ -0,0 +1,160 @@
+/**
+ * Tests for the Next.js rules and preset
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsxRulesEngine } from '../jsx-engine';
+import { nextjsRules, optInNextjsRules } from '../rules/nextjs';
+import type { XRulesConfig } from '../types';
+import { getPreset, listPresets } from '../presets';
+
+function check(code: string) {
+  const engine = new JsxRulesEngine(nextjsRules);
+  return engine.checkCode(code).flatMap(result => result.violations.map(v => `${v.ruleId} ${v.line}:${v.column}`));
+}
+
+describe('Next.js Rules', () => {
+  describe('next-image-alt', () => {
+    it('should match next/image under any local name', () => {
+      const violations = check([
+        "import Picture from 'next/image';",
+        'export function Hero() {',
+        '  return <div><Picture src="/hero.png" width={800} height={400} /><Picture src="/logo.png" alt="" /></div>;',
+        '}',
+      ].join('\n'));
+
+      expect(violations).toEqual(['next-image-alt 3:15']);
+    });
+
+    it('should not match components of other modules with the same name', () => {
+      const violations = check([
+        "import Image from './image';",
+        'export function Hero() {',
+        '  return <Image src="/hero.png" />;',
+        '}',
+      ].join('\n'));
+
+      expect(violations).toEqual([]);
+    });
+  });
+
+  describe('next-link-no-nested-a', () => {
+    it('should flag an <a> inside a Link unless it uses legacyBehavior', () => {
+      const violations = check([
+        "import Link from 'next/link';",
+        'export function Nav() {',
+        '  return (',
+        '    <nav>',
+        '      <Link href="/about"><a>About</a></Link>',
+        '      <Link href="/blog" legacyBehavior><a>Blog</a></Link>',
+        '      <Link href="/docs">Docs</Link>',
+        '    </nav>',
+        '  );',
+        '}',
+      ].join('\n'));
+
+      expect(violations).toEqual(['next-link-no-nested-a 5:27']);
+    });
+  });
+
+  describe('next-link-target-blank-rel', () => {
+    it('should require noopener or noreferrer on a Link opening a new tab', () => {
+      const violations = check([
+        "import Link from 'next/link';",
+        'export function Footer({ rel }: { rel: string }) {',
+        '  return (',
+        '    <footer>',
+        '      <Link href="https://github.com" target="_blank">GitHub</Link>',
+        '      <Link href="https://x.com" target="_blank" rel="noopener noreferrer">X</Link>',
+        '      <Link href="https://example.com" target="_blank" rel={rel}>Example</Link>',
+        '    </footer>',
+        '  );',
+        '}',
+      ].join('\n'));
+
+      expect(violations).toEqual(['next-link-target-blank-rel 5:7']);
+    });
+  });
+
+  describe('next-no-img-element and next-script-component', () => {
+    it('should flag plain <img> and <script> but not structured data', () => {
+      const violations = check([
+        'export function Article() {',
+        '  return (',
+        '    <article>',
+        '      <img src="/cover.png" alt="Cover" />',
+        '      <script src="/analytics.js" />',
+        '      <script type="application/ld+json">{"{}"}</script>',
+        '    </article>',
+        '  );',
+        '}',
+      ].join('\n'));
+
+      expect(violations).toEqual(['next-no-img-element 4:7', 'next-script-component 5:7']);
+    });
+  });
+
+  describe('next-no-head-element', () => {
+    let appDir: string;
+
+    beforeEach(() => {
+      appDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-next-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(appDir, { recursive: true, force: true });
+    });
+
+    it('should flag a written <head> in a layout but not the head metadata renders into', () => {
+      fs.writeFileSync(path.join(appDir, 'layout.tsx'), [
+        "export const metadata = { title: 'Acme' };",
+        'export default function RootLayout({ children }: { children: React.ReactNode }) {',
+        '  return <html lang="en"><head><link rel="icon" href="/icon.png" /></head><body>{children}</body></html>;',
+        '}',
+      ].join('\n'));
+      fs.writeFileSync(path.join(appDir, 'page.tsx'), [
+        "import Head from 'next/head';",
+        'export default function Home() {',
+        '  return <main><Head><title>Home</title></Head></main>;',
+        '}',
+      ].join('\n'));
+
+      const [home] = new JsxRulesEngine(nextjsRules).checkAppRoutes(appDir);
+      const violations = home.results.map(result => ({
+        file: path.basename(result.filePath),
+        violations: result.violations.map(v => `${v.ruleId} ${v.line}:${v.column}`),
+      }));
+
+      expect(violations).toEqual([
+        { file: 'page.tsx', violations: ['next-no-head-element 3:16'] },
+        { file: 'layout.tsx', violations: ['next-no-head-element 3:26'] },
+      ]);
+    });
+  });
+
+  describe('nextjs preset', () => {
+    it('should configure every Next.js rule', () => {
+      const preset = getPreset('nextjs');
+
+      expect(listPresets()).toContain('nextjs');
+      expect(Object.keys(preset!.rules!)).toEqual(expect.arrayContaining(nextjsRules.map(rule => rule.id)));
+    });
+
+    it('should turn on the opt-in Next.js rules registered for any project', () => {
+      const code = [
+        "import Image from 'next/image';",
+        'export function Hero() {',
+        '  return <Image src="/hero.png" />;',
+        '}',
+      ].join('\n');
+      const engine = new JsxRulesEngine(optInNextjsRules);
+      const ruleIds = (config?: XRulesConfig) =>
+        engine.checkCode(code, 'Hero.tsx', { config }).flatMap(result => result.violations.map(v => v.ruleId));
+
+      expect(ruleIds()).toEqual([]);
+      expect(ruleIds(getPreset('nextjs')!)).toEqual(['next-image-alt']);
+    });
+  });
+});
@@ -2,7 +2,15 @@
  * Tests for HTML parser
  */
 
-import { parseHTML, querySelector, querySelectorAll, getElementById } from '../parser';
+import {
+  parseHTML,
+  querySelector,
+  querySelectorAll,
+  getElementById,
+  isElement,
+  isTextNode,
+  isCommentNode,
+} from '../parser';
 
 describe('HTML Parser', () => {
   describe('parseHTML', () => {
@@ -163,4 +171,48 @@ describe('HTML Parser', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('Text and comment nodes', () => {
+    it('should keep text and comments in childNodes', () => {
+      const html = '<label>Name <!-- primary --><input id="name"> (required)</label>';
+      const doc = parseHTML(html);
+      const label = querySelector(doc.documentElement, 'label')!;
+
+      expect(label.childNodes.map(node => node.nodeType)).toEqual(['text', 'comment', 'element', 'text']);
+      expect(label.children).toHaveLength(1);
+      expect(label.textContent).toBe('Name  (required)');
+
+      const [text, comment] = label.childNodes;
+      expect(isTextNode(text) && text.data).toBe('Name ');
+      expect(isCommentNode(comment) && comment.data).toBe(' primary ');
+    });
+
+    it('should link siblings across node kinds', () => {
+      const html = '<p>Before<br>After</p>';
+      const doc = parseHTML(html);
+      const br = querySelector(doc.documentElement, 'br')!;
+
+      expect(isTextNode(br.previousSibling) && br.previousSibling.data).toBe('Before');
+      expect(isTextNode(br.nextSibling) && br.nextSibling.data).toBe('After');
+      expect(br.previousSibling?.previousSibling).toBeNull();
+      expect(br.previousSibling?.parent).toBe(br.parent);
+    });
+
+    it('should preserve whitespace-only text between elements', () => {
+      const html = '<ul>\n  <li>One</li>\n</ul>';
+      const doc = parseHTML(html);
+      const ul = querySelector(doc.documentElement, 'ul')!;
+
+      expect(ul.childNodes).toHaveLength(3);
+      expect(ul.childNodes.filter(isElement)).toEqual(ul.children);
+    });
+
+    it('should record source locations on text nodes', () => {
+      const html = '<p>\n  Hello</p>';
+      const doc = parseHTML(html);
+      const text = querySelector(doc.documentElement, 'p')!.childNodes[0];
+
+      expect(text.getSourceLocation()).toMatchObject({ line: 1, column: 4, startOffset: 3 });
+    });
+  });
 });
@@ -0,0 +1,95 @@
+/**
+ * Tests for relevance filtering of JSX forms
+ */
+
+import { computeRelevanceFilter, getPatternRequirements, isRelevantForm } from '../relevance';
+import { imagesAltText } from '../rules/images-alt-text';
+import { emptyLinks } from '../rules/empty-links';
+import { ariaValidAttributes, skipLinks } from '../rules/accessibility';
+import { singleH1 } from '../rules/heading-hierarchy';
+import type { JsxNode } from '../jsx-parser';
+
+function element(tagName: string, attributes: Record<string, string> = {}, children: JsxNode[] = []): JsxNode {
+  return { tagName, attributes, children };
+}
+
+describe('Relevance Filtering', () => {
+  describe('getPatternRequirements', () => {
+    it('should require the tag and attributes of each subject compound', () => {
+      expect(getPatternRequirements('form > label:not([for])')).toEqual([{ tagName: 'label', attributes: [] }]);
+      expect(getPatternRequirements('a[href], button#save.primary')).toEqual([
+        { tagName: 'a', attributes: ['href'] },
+        { tagName: 'button', attributes: ['id', 'class'] },
+      ]);
+      expect(getPatternRequirements('img:has-parent(figure):without(alt)')).toEqual([{ tagName: 'img', attributes: [] }]);
+    });
+
+    it('should return null for patterns that may match any element', () => {
+      expect(getPatternRequirements('*')).toBeNull();
+      expect(getPatternRequirements('section > :first-child')).toBeNull();
+      expect(getPatternRequirements('body')).toBeNull();
+      expect(getPatternRequirements('[[')).toBeNull();
+    });
+  });
+
+  describe('computeRelevanceFilter', () => {
+    it('should combine the requirements of all rules', () => {
+      expect(computeRelevanceFilter([imagesAltText, emptyLinks])).toEqual([
+        { tagName: 'img', attributes: [] },
+        { tagName: 'a', attributes: ['href'] },
+      ]);
+      expect(computeRelevanceFilter([])).toEqual([]);
+    });
+
+    it('should use the elements rules declare they read', () => {
+      expect(computeRelevanceFilter([skipLinks, ariaValidAttributes])).toEqual([
+        { tagName: 'a', attributes: [] },
+        { attributes: ['aria-*'] },
+      ]);
+    });
+
+    it('should make every form relevant when a document rule declares nothing', () => {
+      expect(computeRelevanceFilter([imagesAltText, { ...skipLinks, reads: undefined }])).toBeNull();
+    });
+
+    it('should use the pattern of aggregate rules', () => {
+      expect(computeRelevanceFilter([imagesAltText, singleH1])).toEqual([
+        { tagName: 'img', attributes: [] },
+        { tagName: 'h1', attributes: [] },
+      ]);
+    });
+  });
+
+  describe('isRelevantForm', () => {
+    const filter = computeRelevanceFilter([imagesAltText, emptyLinks]);
+
+    it('should look for a matching element anywhere in the form', () => {
+      expect(isRelevantForm(element('div', {}, [element('p', {}, [element('img')])]), filter)).toBe(true);
+      expect(isRelevantForm(element('div', {}, [element('a', { name: 'top' })]), filter)).toBe(false);
+      expect(isRelevantForm(element('a', { href: '/' }), filter)).toBe(true);
+      expect(isRelevantForm(element('div'), [])).toBe(false);
+      expect(isRelevantForm(element('div'), null)).toBe(true);
+    });
+
+    it('should match attribute names by prefix', () => {
+      const filter = [{ attributes: ['aria-*'] }];
+
+      expect(isRelevantForm(element('div', {}, [element('span', { 'aria-label': 'Close' })]), filter)).toBe(true);
+      expect(isRelevantForm(element('div', { role: 'button' }), filter)).toBe(false);
+    });
+
+    it('should only match document elements a form writes', () => {
+      const filter = computeRelevanceFilter([{ ...imagesAltText, pattern: 'html[lang]' }]);
+
+      expect(isRelevantForm(element('div', { lang: 'en' }), filter)).toBe(false);
+      expect(isRelevantForm(element('html', { lang: 'en' }), filter)).toBe(true);
+    });
+
+    it('should match opaque components as placeholder divs', () => {
+      const opaque: JsxNode = { ...element('Chart'), opaque: true };
+
+      expect(isRelevantForm(opaque, [{ tagName: 'div', attributes: ['data-xrules-component'] }])).toBe(true);
+      expect(isRelevantForm(opaque, [{ tagName: 'chart', attributes: [] }])).toBe(false);
+    });
+  });
+});
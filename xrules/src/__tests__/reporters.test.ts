@@ -353,6 +353,53 @@ describe('Enhanced Reporters', () => {
     });
   });
 
+  describe('Related locations', () => {
+    const relatedResults: CheckResult[] = [
+      {
+        filePath: '/test/ids.html',
+        violations: [
+          {
+            ruleId: 'unique-ids',
+            ruleName: 'IDs Must Be Unique',
+            message: 'Duplicate id "main"',
+            severity: 'error',
+            line: 12,
+            column: 3,
+            relatedInformation: [{ message: 'First element with id "main"', line: 4, column: 7 }],
+          },
+        ],
+        errorCount: 1,
+        warningCount: 0,
+        infoCount: 0,
+      },
+    ];
+
+    it('should render related locations in every text format', () => {
+      expect(formatStylish(relatedResults, { colors: false })).toContain('↳ :4:7  First element with id "main"');
+      expect(formatCompact(relatedResults, { cwd: '/test' })).toContain(
+        'ids.html:12:3: error: Duplicate id "main" [unique-ids] (related: ids.html:4:7 First element with id "main")'
+      );
+      expect(formatJUnit(relatedResults)).toContain('Related Line 4: First element with id &quot;main&quot;');
+      expect(formatGitHubActions(relatedResults)).toContain('[unique-ids]%0ARelated line 4: First element with id "main"');
+      expect(formatTable(relatedResults, { colors: false })).toContain('↳ First element with id "main"');
+      expect(JSON.parse(formatJSON(relatedResults))[0].violations[0].relatedInformation[0].line).toBe(4);
+    });
+
+    it('should name the file of a related location in another file', () => {
+      const [result] = relatedResults;
+      const inlined: CheckResult[] = [{
+        ...result,
+        violations: [{
+          ...result.violations[0],
+          relatedInformation: [{ message: 'Rendered by the component used here', line: 3, column: 5, filePath: '/test/Form.tsx' }],
+        }],
+      }];
+
+      expect(formatStylish(inlined, { colors: false, cwd: '/test' })).toContain('↳ Form.tsx:3:5  Rendered by the component used here');
+      expect(formatCompact(inlined, { cwd: '/test' })).toContain('(related: Form.tsx:3:5 Rendered by the component used here)');
+    });
+  });
+
   describe('getReporter', () => {
     it('should return stylish reporter', () => {
       const reporter = getReporter('stylish');
@@ -0,0 +1,100 @@
+/**
+ * Tests for rule options schemas
+ */
+
+import { XRulesEngine } from '../engine';
+import { validateConfig } from '../config-loader';
+import { resolveRuleOptions, validateRuleOptions, describeOptionType } from '../rule-options';
+import { interactiveControlsSize, linkDescriptiveText } from '../rules/accessibility';
+import type { Rule } from '../types';
+
+describe('Rule Options', () => {
+  const rule: Rule = {
+    id: 'max-items',
+    name: 'Max Items',
+    description: 'Test',
+    category: 'best-practice',
+    severity: 'warning',
+    pattern: 'ul',
+    optionsSchema: {
+      max: { type: 'integer', minimum: 1, default: 3 },
+      tags: { type: 'array', items: { type: 'string' }, default: ['li'] },
+      mode: { type: 'string', enum: ['strict', 'loose'] },
+    },
+    check: (element, context) => {
+      const max = context.options.max as number;
+      return element.children.length > max ? `More than ${max} items` : null;
+    },
+  };
+
+  describe('resolveRuleOptions', () => {
+    it('should merge configured options over defaults', () => {
+      expect(resolveRuleOptions(rule)).toEqual({ max: 3, tags: ['li'] });
+      expect(resolveRuleOptions(rule, { max: 5, mode: 'strict' })).toEqual({ max: 5, tags: ['li'], mode: 'strict' });
+    });
+
+    it('should not share default arrays between runs', () => {
+      (resolveRuleOptions(rule).tags as string[]).push('dd');
+      expect(resolveRuleOptions(rule).tags).toEqual(['li']);
+    });
+  });
+
+  describe('validateRuleOptions', () => {
+    it('should report unknown and invalid options', () => {
+      expect(validateRuleOptions(rule, { max: 0, tags: ['li', 2], mode: 'fast', colour: 'red' })).toEqual([
+        'Option "max" for rule "max-items" must be at least 1, got 0',
+        'Option "tags" for rule "max-items" must contain only string values, got number 2 at index 1',
+        'Option "mode" for rule "max-items" must be one of "strict" | "loose", got "fast"',
+        'Unknown option "colour" for rule "max-items". Available options: max, tags, mode',
+      ]);
+      expect(validateRuleOptions(rule, { max: 2.5 })).toEqual([
+        'Option "max" for rule "max-items" must be an integer, got number 2.5',
+      ]);
+      expect(validateRuleOptions(rule, ['max'])).toEqual(['Options for rule "max-items" must be an object']);
+    });
+
+    it('should describe option types', () => {
+      expect(describeOptionType({ type: 'array', items: { type: 'string' } })).toBe('string[]');
+      expect(describeOptionType({ type: 'string', enum: ['a', 'b'] })).toBe('"a" | "b"');
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should validate options of known rules', () => {
+      const errors = validateConfig(
+        {
+          rules: {
+            'link-descriptive-text': { severity: 'warning', options: { vaguePhrases: 'here' } },
+            'interactive-controls-size': { severity: 'info', options: { minSize: 44, size: 48 } },
+            'unknown-rule': { severity: 'error', options: { anything: true } },
+          },
+        },
+        [linkDescriptiveText, interactiveControlsSize]
+      );
+
+      expect(errors).toEqual([
+        'Option "vaguePhrases" for rule "link-descriptive-text" must be an array, got string "here"',
+        'Unknown option "size" for rule "interactive-controls-size". Available options: minSize, minTextLength',
+      ]);
+    });
+  });
+
+  describe('engine', () => {
+    it('should pass configured options to rules through the context', () => {
+      const engine = new XRulesEngine([rule, linkDescriptiveText]);
+      const html = '<ul><li>1</li><li>2</li><li>3</li><li>4</li></ul><a href="/docs">Docs</a>';
+
+      expect(engine.checkHTML(html).violations.map(v => v.message)).toEqual(['More than 3 items']);
+
+      const configured = engine.checkHTML(html, 'input.html', {
+        config: {
+          rules: {
+            'max-items': { severity: 'warning', options: { max: 4 } },
+            'link-descriptive-text': { severity: 'warning', options: { vaguePhrases: ['Docs'] } },
+          },
+        },
+      });
+      expect(configured.violations.map(v => v.ruleId)).toEqual(['link-descriptive-text']);
+    });
+  });
+});
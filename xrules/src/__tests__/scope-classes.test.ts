@@ -0,0 +1,103 @@
+/**
+ * Tests for the static scope classes metarule
+ */
+
+import { checkScopeClasses, getScopeClassNames } from '../scope-classes';
+import { JsxParser } from '../jsx-parser';
+import { createScope } from '../scope-registry';
+
+describe('Static Scope Classes', () => {
+  const scopes = [
+    createScope({ id: 'admin', name: 'Admin', selector: '.admin-panel *', rules: {} }),
+    createScope({ id: 'article', name: 'Article', selector: 'main.article-body', rules: {} }),
+    createScope({ id: 'checkout', name: 'Checkout', selector: '[data-scope="checkout"]', rules: {} }),
+  ];
+
+  const check = (code: string, options = {}) =>
+    checkScopeClasses(new JsxParser().addSourceFromText(code, 'Page.tsx'), scopes, options);
+
+  it('should read the classes a scope selector requires', () => {
+    expect(getScopeClassNames('.admin-panel *')).toEqual(['admin-panel']);
+    expect(getScopeClassNames('main.article-body > .lead, [href=".pdf"]')).toEqual(['article-body', 'lead']);
+  });
+
+  it('should report scope classes added by ternaries, && and template literals', () => {
+    const violations = check(`
+      export function Page({ isAdmin, size }: { isAdmin: boolean; size: string }) {
+        return (
+          <div>
+            <section className={isAdmin ? 'admin-panel' : 'panel'} />
+            <main className={\`layout \${isAdmin && 'article-body'}\`} />
+            <aside className={\`admin-\${size}\`} />
+          </div>
+        );
+      }
+    `);
+
+    expect(violations.map(v => [v.line, v.element, v.data?.component, v.data?.scopeClass])).toEqual([
+      [5, 'section', 'Page', 'admin-panel'],
+      [6, 'main', 'Page', 'article-body'],
+      [7, 'aside', 'Page', 'admin-panel'],
+    ]);
+    expect(violations[0].message).toBe(
+      "Scope class \"admin-panel\" is conditional in Page: `isAdmin ? 'admin-panel' : 'panel'` decides whether <section> has it"
+    );
+  });
+
+  it('should understand class-merging helpers', () => {
+    const violations = check(`
+      declare function clsx(...args: unknown[]): string;
+      declare function cn(...args: unknown[]): string;
+
+      const Card = ({ active, className }: { active: boolean; className?: string }) => (
+        <div className={clsx('card admin-panel', { 'article-body': active, shadow: true }, className)}>
+          <p className={cn(['text', active && 'admin-panel'])} />
+          <p className={['card', active && 'article-body'].filter(Boolean).join(' ')} />
+        </div>
+      );
+    `);
+
+    expect(violations.map(v => [v.line, v.data?.scopeClass, v.message.slice(v.message.indexOf('`'))])).toEqual([
+      [6, 'article-body', "`'article-body': active` decides whether <div> has it"],
+      [7, 'admin-panel', "`active && 'admin-panel'` decides whether <p> has it"],
+      [8, 'article-body', "`active && 'article-body'` decides whether <p> has it"],
+    ]);
+  });
+
+  it('should report props passed through whose type allows a scope class', () => {
+    const violations = check(`
+      const base = 'admin-panel';
+      const tone = Math.random() > 0.5 ? 'article-body' : 'plain';
+
+      export default function ({ variant, className }: { variant: 'admin-panel' | 'plain'; className: string }) {
+        return (
+          <>
+            <div className={variant} />
+            <div className={\`\${base} \${tone}\`} />
+            <div className={className} />
+          </>
+        );
+      }
+    `);
+
+    expect(violations.map(v => [v.line, v.data?.component, v.data?.scopeClass])).toEqual([
+      [8, 'Page', 'admin-panel'],
+      [9, 'Page', 'article-body'],
+    ]);
+  });
+
+  it('should report classes that are not known statically when asked to', () => {
+    const code = `
+      export function Panel({ className }: { className: string }) {
+        return <div className={\`admin-panel \${className}\`} />;
+      }
+    `;
+
+    expect(check(code)).toEqual([]);
+    expect(check(code, { reportUnknown: true, severity: 'warning' })).toMatchObject([{
+      ruleId: 'static-scope-classes',
+      severity: 'warning',
+      message: 'Classes of <div> in Panel are not known statically: `className` could add or leave out a scope class',
+    }]);
+  });
+});
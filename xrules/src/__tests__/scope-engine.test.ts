@@ -6,6 +6,8 @@ import { ScopeAwareEngine, createScopeAwareEngine } from '../scope-engine';
 import { ScopeRegistry, createScope } from '../scope-registry';
 import { imagesAltText } from '../rules/images-alt-text';
 import { formLabelsExplicit } from '../rules/form-labels-explicit';
+import { buttonsDescriptiveText } from '../rules/buttons-descriptive-text';
+import { JsxRulesEngine } from '../jsx-engine';
 
 describe('Scope-Aware Engine', () => {
   let registry: ScopeRegistry;
@@ -121,6 +123,105 @@ describe('Scope-Aware Engine', () => {
     });
   });
 
+  describe('Tracing Check Results', () => {
+    it('should keep the component branch of JSX violations', () => {
+      registry.register(createScope({ id: 'checkout', name: 'Checkout', components: ['CheckoutForm'], rules: {} }));
+
+      const [jsxResult] = new JsxRulesEngine([imagesAltText]).checkCode(`
+        function CheckoutForm({ logo }: { logo?: boolean }) {
+          return <form>{logo && <img src="logo.png" />}</form>;
+        }
+      `);
+      const result = engine.traceResult(jsxResult);
+
+      expect(result.appliedScopes).toEqual(['checkout']);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].component).toEqual({ name: 'CheckoutForm', branch: 1, totalBranches: 2 });
+      expect(result.violations[0].conditions).toEqual(['logo']);
+    });
+  });
+
+  describe('Element Scopes', () => {
+    const html = [
+      '<html><body>',
+      '<img src="public.png">',
+      '<div class="admin-panel">',
+      '  <img src="admin.png">',
+      '  <section class="legacy"><img src="legacy.png"></section>',
+      '</div>',
+      '</body></html>',
+    ].join('\n');
+
+    it('should apply the rule configuration of the nearest enclosing scope to each element', () => {
+      registry.register(createScope({
+        id: 'admin',
+        name: 'Admin Panel',
+        selector: '.admin-panel',
+        rules: { 'images-alt-text': { severity: 'off' } },
+      }));
+      registry.register(createScope({
+        id: 'legacy',
+        name: 'Legacy Markup',
+        selector: '.legacy *',
+        rules: { 'images-alt-text': { severity: 'info', message: 'Legacy image without alt text' } },
+      }));
+
+      const result = engine.checkHTMLWithScopes(html, 'page.html');
+
+      expect(result.violations.map(v => [v.location.line, v.severity, v.scope?.id, v.message])).toEqual([
+        [2, 'error', undefined, expect.stringContaining('alt')],
+        [5, 'info', 'legacy', 'Legacy image without alt text'],
+      ]);
+      expect(result.appliedScopes).toEqual(['admin', 'legacy']);
+    });
+
+    it('should let element scopes override file scopes and turn rules on', () => {
+      registry.register(createScope({
+        id: 'pages',
+        name: 'Pages',
+        filePattern: 'pages/**',
+        rules: { 'images-alt-text': { severity: 'warning' } },
+      }));
+      registry.register(createScope({
+        id: 'admin',
+        name: 'Admin Panel',
+        selector: '.admin-panel',
+        rules: { 'images-alt-text': { severity: 'error' } },
+      }));
+
+      const result = engine.checkHTMLWithScopes(html, 'pages/index.html', {
+        config: { rules: { 'images-alt-text': 'off' } },
+      });
+
+      expect(result.violations.map(v => [v.location.line, v.severity, v.scope?.id])).toEqual([
+        [2, 'warning', 'pages'],
+        [4, 'error', 'admin'],
+        [5, 'error', 'admin'],
+      ]);
+    });
+
+    it('should check elements with the rule options of their scope', () => {
+      const buttons = new ScopeAwareEngine([buttonsDescriptiveText], registry);
+      registry.register(createScope({
+        id: 'wizard',
+        name: 'Wizard',
+        selector: '.wizard',
+        rules: { 'buttons-descriptive-text': { options: { vaguePhrases: ['next'] } } },
+      }));
+
+      const result = buttons.checkHTMLWithScopes(
+        '<button>Next</button><button>OK</button><form class="wizard"><button>Next</button><button>OK</button></form>',
+        'wizard.html'
+      );
+
+      expect(result.violations.map(v => [v.element, v.scope?.id])).toEqual([
+        ['<button>', undefined],
+        ['<button>', 'wizard'],
+      ]);
+      expect(result.violations.map(v => v.location.column)).toEqual([22, 62]);
+    });
+  });
+
   describe('Scope Hierarchy', () => {
     it('should include parent scopes when requested', () => {
       const rootScope = createScope({
@@ -213,6 +314,82 @@ describe('Scope-Aware Engine', () => {
     });
   });
 
+  describe('Conflict Resolution', () => {
+    const html = [
+      '<html><body>',
+      '<div class="admin-panel">',
+      '  <section class="legacy"><img src="legacy.png"></section>',
+      '</div>',
+      '</body></html>',
+    ].join('\n');
+
+    beforeEach(() => {
+      registry.register(createScope({
+        id: 'admin',
+        name: 'Admin Panel',
+        selector: '.admin-panel',
+        priority: 10,
+        rules: { 'images-alt-text': { severity: 'error', message: 'Admin images need alt text' } },
+      }));
+      registry.register(createScope({
+        id: 'legacy',
+        name: 'Legacy Markup',
+        selector: '.legacy',
+        rules: { 'images-alt-text': { severity: 'info' } },
+      }));
+    });
+
+    const check = (conflictResolution?: 'nearest-wins' | 'strictest-wins' | 'explicit-priority' | 'error-on-conflict') =>
+      engine.checkHTMLWithScopes(html, 'page.html', { conflictResolution });
+
+    it('should let the nearest scope win by default', () => {
+      const [violation] = check().violations;
+
+      expect([violation.severity, violation.scope?.id, violation.message]).toEqual(['info', 'legacy', 'Admin images need alt text']);
+      expect(violation.resolution).toEqual({ policy: 'nearest-wins', scopes: ['admin', 'legacy'], winner: 'legacy', resolved: true });
+    });
+
+    it('should apply the strictest or the explicitly prioritized scope', () => {
+      for (const policy of ['strictest-wins', 'explicit-priority'] as const) {
+        const result = check(policy);
+
+        expect(result.violations.map(v => [v.severity, v.scope?.id, v.resolution?.winner])).toEqual([['error', 'admin', 'admin']]);
+        expect(result.conflicts).toBeUndefined();
+      }
+    });
+
+    it('should report conflicts it cannot resolve', () => {
+      const result = check('error-on-conflict');
+
+      expect(result.violations.map(v => [v.severity, v.scope?.id, v.resolution?.resolved])).toEqual([['info', 'legacy', false]]);
+      expect(result.conflicts!.map(c => [c.ruleId, c.resolution.scopes, c.resolution.resolved])).toEqual([
+        ['images-alt-text', ['admin', 'legacy'], false],
+      ]);
+
+      // Scopes of equal priority tie
+      registry.get('admin')!.priority = undefined;
+      expect(check('explicit-priority').conflicts![0].resolution).toEqual({
+        policy: 'explicit-priority',
+        scopes: ['admin', 'legacy'],
+        winner: undefined,
+        resolved: false,
+      });
+    });
+
+    it('should return the conflicts met when checking component forms', () => {
+      const jsxEngine = new JsxRulesEngine([imagesAltText]);
+      jsxEngine.setScopes(registry, { conflictResolution: 'error-on-conflict' });
+
+      const [result] = jsxEngine.checkCode(
+        'function Admin() { return <div className="admin-panel"><section className="legacy"><img src="a.png" /></section></div>; }'
+      );
+
+      expect(result.conflicts!.map(c => [c.ruleId, c.resolution.scopes, c.resolution.resolved])).toEqual([
+        ['images-alt-text', ['admin', 'legacy'], false],
+      ]);
+    });
+  });
+
   describe('Violation Grouping', () => {
     it('should group violations by scope', () => {
       const scope1 = createScope({
@@ -0,0 +1,142 @@
+/**
+ * Tests for loading scopes from the config and scope files
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadScopes, loadScopeFile } from '../scope-loader';
+import { ScopeRegistry, createScope } from '../scope-registry';
+import { ScopeAwareEngine } from '../scope-engine';
+
+describe('Scope Loader', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xrules-scopes-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, file), content);
+  };
+
+  it('should load scope files next to the components they govern', () => {
+    write('src/admin/admin.scope.json', JSON.stringify([
+      { id: 'admin', name: 'Admin', rules: { 'images-alt-text': { severity: 'off' } } },
+      { id: 'admin-forms', name: 'Admin forms', filePattern: 'forms/*.html', rules: {} },
+    ]));
+    write('node_modules/lib/lib.scope.json', JSON.stringify({ id: 'lib', name: 'Library', rules: {} }));
+
+    const { scopes, rules } = loadScopes({ rules: {} }, tmpDir);
+
+    expect(scopes.map(scope => [scope.id, scope.filePattern])).toEqual([
+      ['admin', 'src/admin/**'],
+      ['admin-forms', 'src/admin/forms/*.html'],
+    ]);
+    expect(rules).toEqual([]);
+  });
+
+  it('should turn the rules a scope declares on inside the scope only', () => {
+    write('rules/caption.yml', [
+      'id: figure-caption-text',
+      'category: accessibility',
+      'severity: warning',
+      'pattern: figcaption',
+      'textMatches: \\S',
+      'message: Captions must not be empty',
+    ].join('\n'));
+    write('rules/no-marquee.js', [
+      "module.exports = { id: 'no-marquee', name: 'No Marquee', description: 'No marquee', category: 'best-practice',",
+      "  severity: 'error', pattern: 'marquee', check: () => 'Do not use <marquee>' };",
+    ].join('\n'));
+    write('src/articles/article.scope.json', JSON.stringify({
+      id: 'article',
+      name: 'Article body',
+      selector: '.article-body',
+      extends: ['editorial'],
+      ruleDefinitions: [{
+        id: 'article-figure-caption',
+        category: 'accessibility',
+        severity: 'error',
+        pattern: 'img',
+        require: 'figure:has(figcaption) > img',
+        message: 'Images in articles must be in a <figure> with a <figcaption>',
+      }],
+    }));
+
+    const { scopes, rules } = loadScopes({
+      rules: {},
+      scopes: [createScope({ id: 'editorial', name: 'Editorial', rules: {}, ruleDefinitions: ['rules/caption.yml', 'rules/no-marquee'] })],
+    }, tmpDir);
+
+    expect(rules.map(rule => [rule.id, rule.severity])).toEqual([
+      ['figure-caption-text', 'off'],
+      ['no-marquee', 'off'],
+      ['article-figure-caption', 'off'],
+    ]);
+
+    const registry = new ScopeRegistry();
+    registry.registerAll(scopes);
+    expect(registry.get('article')!.rules).toEqual({
+      'figure-caption-text': { severity: 'warning' },
+      'no-marquee': { severity: 'error' },
+      'article-figure-caption': { severity: 'error' },
+    });
+
+    const html = `
+      <html><body>
+        <img src="hero.jpg" alt="Hero">
+        <marquee>News</marquee>
+        <div class="article-body">
+          <figure><img src="chart.png" alt="Chart"><figcaption>Sales</figcaption></figure>
+          <p><img src="team.jpg" alt="Team"></p>
+          <figure><figcaption> </figcaption></figure>
+        </div>
+      </body></html>
+    `;
+    const result = new ScopeAwareEngine(rules, registry).checkHTMLWithScopes(html, 'src/articles/index.html');
+
+    expect(result.violations.map(v => [v.ruleId, v.severity, v.location.line, v.scope?.id])).toEqual([
+      ['figure-caption-text', 'warning', 8, 'article'],
+      ['article-figure-caption', 'error', 7, 'article'],
+    ]);
+  });
+
+  it('should load document and aggregate rules from rule modules', () => {
+    write('rules/house.js', [
+      "exports.noFrames = { id: 'no-frames', kind: 'document', severity: 'error', checkDocument: () => [] };",
+      "exports.oneMain = { id: 'one-main', kind: 'aggregate', severity: 'warning', pattern: 'main',",
+      '  createState: () => [], collect: () => {}, finalize: () => [] };',
+      "exports.helper = { id: 'not-a-rule', kind: 'aggregate', collect: () => {} };",
+    ].join('\n'));
+
+    const { rules } = loadScopes({
+      rules: {},
+      scopeFiles: [],
+      scopes: [createScope({ id: 'house', name: 'House', rules: {}, ruleDefinitions: ['rules/house'] })],
+    }, tmpDir);
+
+    expect(rules.map(rule => [rule.id, rule.kind])).toEqual([['no-frames', 'document'], ['one-main', 'aggregate']]);
+  });
+
+  it('should reject invalid scope files and rules declared twice', () => {
+    write('broken.scope.json', '{ "id": "broken" }');
+    expect(() => loadScopeFile(path.join(tmpDir, 'broken.scope.json'), tmpDir))
+      .toThrow(/broken\.scope\.json: scope 1 must be an object with an id and a name/);
+
+    const definition = { id: 'no-blink', category: 'best-practice' as const, severity: 'error' as const, pattern: 'blink', message: 'No blink' };
+    expect(() => loadScopes({
+      rules: {},
+      scopeFiles: [],
+      scopes: [
+        createScope({ id: 'a', name: 'A', rules: {}, ruleDefinitions: [definition] }),
+        createScope({ id: 'b', name: 'B', rules: {}, ruleDefinitions: [definition] }),
+      ],
+    }, tmpDir)).toThrow('Duplicate rule id "no-blink" declared by scopes "a" and "b"');
+  });
+});
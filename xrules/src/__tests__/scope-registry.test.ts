@@ -4,6 +4,7 @@
 
 import { ScopeRegistry, createScope } from '../scope-registry';
 import { Scope } from '../scope-types';
+import { parseHTML } from '../parser';
 
 describe('Scope Registry', () => {
   let registry: ScopeRegistry;
@@ -136,6 +137,44 @@ describe('Scope Registry', () => {
     });
   });
 
+  describe('Scope Extension', () => {
+    it('should take on the rules of extended scopes before its own', () => {
+      registry.registerAll([
+        createScope({
+          id: 'article',
+          name: 'Article',
+          selector: '.article-body',
+          extends: ['editorial', 'print'],
+          rules: { 'images-alt-text': { options: { minLength: 10 } } },
+        }),
+        createScope({ id: 'print', name: 'Print', rules: { 'empty-links': { severity: 'off' } } }),
+        createScope({
+          id: 'editorial',
+          name: 'Editorial',
+          rules: {
+            'images-alt-text': { severity: 'error', options: { minLength: 5, maxLength: 120 } },
+            'empty-links': { severity: 'error' },
+          },
+        }),
+      ]);
+
+      expect(registry.get('article')!.rules).toEqual({
+        'images-alt-text': { severity: 'error', options: { minLength: 10, maxLength: 120 } },
+        'empty-links': { severity: 'off' },
+      });
+      expect(registry.get('editorial')!.rules['empty-links']).toEqual({ severity: 'error' });
+    });
+
+    it('should reject missing and circular references', () => {
+      expect(() => registry.register(createScope({ id: 'a', name: 'A', extends: ['b'], rules: {} })))
+        .toThrow('Extended scope "b" not found for scope "a"');
+      expect(() => registry.registerAll([
+        createScope({ id: 'a', name: 'A', parent: 'b', rules: {} }),
+        createScope({ id: 'b', name: 'B', extends: ['a'], rules: {} }),
+      ])).toThrow('Circular dependency detected between scopes: "a", "b"');
+    });
+  });
+
   describe('File Pattern Matching', () => {
     it('should find scopes by file pattern', () => {
       const adminScope = createScope({
@@ -236,6 +275,35 @@ describe('Scope Registry', () => {
     });
   });
 
+  describe('Element Scopes', () => {
+    it('should resolve the selector scopes enclosing each element, outermost first', () => {
+      registry.register(createScope({ id: 'card', name: 'Card', selector: '.card', rules: {} }));
+      registry.register(createScope({ id: 'admin', name: 'Admin', selector: '.admin *', rules: {} }));
+      registry.register(createScope({ id: 'docs', name: 'Docs', selector: '.card', filePattern: 'docs/**', rules: {} }));
+
+      const document = parseHTML(
+        '<main class="admin"><div class="card"><p id="inner">Text</p></div></main><p id="outside">Text</p>'
+      );
+      const scopes = registry.resolveElementScopes(document, 'src/page.html');
+      const ids = (id: string) => scopes.get(document.getElementById(id)!)?.map(scope => scope.id);
+
+      expect(ids('inner')).toEqual(['admin', 'card']);
+      expect(ids('outside')).toBeUndefined();
+      expect(registry.resolveElementScopes(document, 'docs/page.html').get(document.getElementById('inner')!)!
+        .map(scope => scope.id)).toEqual(['admin', 'card', 'docs']);
+    });
+
+    it('should make a scope entered again inside another the nearest one', () => {
+      registry.register(createScope({ id: 'strict', name: 'Strict', selector: '.strict', rules: {} }));
+      registry.register(createScope({ id: 'legacy', name: 'Legacy', selector: '.legacy', rules: {} }));
+
+      const document = parseHTML('<div class="strict"><div class="legacy"><div class="strict"><img id="logo"></div></div></div>');
+      const scopes = registry.resolveElementScopes(document);
+
+      expect(scopes.get(document.getElementById('logo')!)!.map(scope => scope.id)).toEqual(['legacy', 'strict']);
+    });
+  });
+
   describe('Conflict Detection', () => {
     it('should detect severity conflicts', () => {
       const scope1 = createScope({
@@ -361,6 +429,41 @@ describe('Scope Registry', () => {
     });
   });
 
+  describe('Conflict Resolution', () => {
+    const scopes = () => [
+      createScope({ id: 'site', name: 'Site', priority: 1, rules: { 'images-alt-text': { severity: 'error', options: { minLength: 5 } } } }),
+      createScope({ id: 'widget', name: 'Widget', priority: 2, rules: { 'images-alt-text': { severity: 'warning' } } }),
+      createScope({ id: 'embed', name: 'Embed', priority: 2, rules: { 'images-alt-text': { options: { minLength: 5 } } } }),
+    ];
+    const resolve = (policy: Parameters<ScopeRegistry['resolveConflict']>[2], list = scopes()) =>
+      registry.resolveConflict('images-alt-text', list, policy)?.resolution;
+
+    it('should pick the winning scope under each policy', () => {
+      expect(resolve('nearest-wins')).toMatchObject({ scopes: ['site', 'widget', 'embed'], winner: 'embed', resolved: true });
+      expect(resolve('strictest-wins')).toMatchObject({ winner: 'site', resolved: true });
+      expect(resolve('explicit-priority')).toMatchObject({ winner: undefined, resolved: false });
+      expect(resolve('explicit-priority', scopes().slice(0, 2))).toMatchObject({ winner: 'widget', resolved: true });
+      expect(resolve('error-on-conflict')).toMatchObject({ winner: undefined, resolved: false });
+    });
+
+    it('should not report scopes that agree', () => {
+      const [site, , embed] = scopes();
+      site.rules['images-alt-text'] = { options: { minLength: 5 } };
+
+      expect(resolve('error-on-conflict', [site, embed])).toBeUndefined();
+    });
+
+    it('should not report scopes overriding their declared ancestors', () => {
+      const [site, widget, embed] = scopes();
+      const gallery = createScope({ id: 'gallery', name: 'Gallery', parent: 'widget', rules: { 'images-alt-text': { severity: 'info' } } });
+      registry.registerAll([site, widget, gallery]);
+
+      expect(resolve('error-on-conflict', [site, widget, gallery])).toMatchObject({ scopes: ['site', 'gallery'] });
+      expect(resolve('error-on-conflict', [widget, gallery])).toBeUndefined();
+      expect(resolve('error-on-conflict', [widget, gallery, embed])).toMatchObject({ scopes: ['gallery', 'embed'] });
+    });
+  });
+
   describe('createScope Helper', () => {
     it('should create a valid scope', () => {
       const scope = createScope({
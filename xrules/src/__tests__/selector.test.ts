@@ -0,0 +1,289 @@
+/**
+ * Tests for the CSS selector engine
+ *
+ * The conformance suite runs each selector against fixture documents and
+ * compares the result with css-select, used as the reference implementation.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { selectAll as referenceSelectAll } from 'css-select';
+import type { Options } from 'css-select';
+import { parseHTML, querySelector, querySelectorAll, closest, hasChild, matches } from '../parser';
+import { parseSelector, SelectorSyntaxError } from '../selector';
+import type { Element } from '../types';
+
+/**
+ * css-select adapter over the xrules Element model
+ */
+const adapter: NonNullable<Options<Element, Element>['adapter']> = {
+  isTag: (node): node is Element => true,
+  existsOne: (test, elems) => elems.some(elem => test(elem) || adapter.existsOne(test, elem.children)),
+  getAttributeValue: (elem, name) => (elem.hasAttribute(name) ? elem.attributes[name] : undefined),
+  getChildren: node => node.children,
+  getName: elem => elem.tagName,
+  getParent: node => node.parent || null,
+  getSiblings: node => (node.parent ? node.parent.children : [node]),
+  getText: node => node.textContent,
+  hasAttrib: (elem, name) => elem.hasAttribute(name),
+  removeSubsets: nodes => nodes.filter((node, index) => {
+    if (nodes.indexOf(node) !== index) return false;
+    for (let p = node.parent; p; p = p.parent) {
+      if (nodes.includes(p)) return false;
+    }
+    return true;
+  }),
+  findAll: (test, nodes) => {
+    const found: Element[] = [];
+    const visit = (node: Element) => {
+      if (test(node)) found.push(node);
+      node.children.forEach(visit);
+    };
+    nodes.forEach(visit);
+    return found;
+  },
+  findOne: (test, elems) => adapter.findAll(test, elems)[0] || null,
+};
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'selectors');
+
+const CONFORMANCE_SELECTORS = [
+  // Simple selectors
+  '*',
+  'input',
+  'INPUT',
+  '#email',
+  '.btn',
+  '.btn.btn-primary',
+  'li.menu-item.active',
+  // Attribute selectors
+  '[required]',
+  '[type="checkbox"]',
+  '[type=email]',
+  'input[type="text" i]',
+  '[rel~="noopener"]',
+  '[rel~="noopener noreferrer"]',
+  '[lang|="en"]',
+  '[lang|=fr]',
+  '[href^="https"]',
+  '[href^=""]',
+  '[href$=".css"]',
+  '[href*="example"]',
+  '[class*="menu-item--"]',
+  '[target="_blank"]',
+  '[hreflang="en"]',
+  '[title="heads up"]',
+  '[title="heads up" i]',
+  '[data-scope]',
+  // Combinators
+  'form input',
+  'form > input',
+  'fieldset > label > input',
+  'label + input',
+  'legend ~ input',
+  'h2 ~ p',
+  'h1 + p.lead',
+  'nav ul li a',
+  'body > * > nav',
+  'article > h2 + p em',
+  // Selector lists
+  'h1, h2, h3',
+  'input, select, textarea',
+  'img, figure > img',
+  // Structural pseudo-classes
+  ':root',
+  'li:first-child',
+  'li:last-child',
+  'span:only-child',
+  'svg > title:only-child',
+  'p:first-of-type',
+  'span:last-of-type',
+  'em:only-of-type',
+  'li:nth-child(2)',
+  'li:nth-child(odd)',
+  'li:nth-child(even)',
+  'li:nth-child(2n+1)',
+  'li:nth-child(-n+3)',
+  'li:nth-child(n+4)',
+  'li:nth-last-child(2)',
+  'span:nth-of-type(2)',
+  'span:nth-last-of-type(1)',
+  ':nth-child(3n)',
+  // Logical pseudo-classes
+  'input:not([type="hidden"])',
+  ':not(div, span, p)',
+  ':is(h1, h2):not(#section-1)',
+  ':where(nav, footer) a',
+  'label:has(input)',
+  'label:has(> input[type="checkbox"])',
+  'fieldset:has(legend + input)',
+  'h2:has(+ p)',
+  'h1:has(~ figure img)',
+  'li:not(:has(a[href]))',
+  ':is(nav, article) :is(a, img)',
+  // Input and link pseudo-classes
+  ':any-link',
+  'a:link',
+  ':checked',
+  ':required',
+  'input:optional',
+  'button:disabled',
+  'option:disabled',
+];
+
+describe('CSS Selector Engine', () => {
+  describe('parseSelector', () => {
+    it('should parse compound selectors', () => {
+      const [complex] = parseSelector('input.large#name[required]');
+
+      expect(complex.compounds).toHaveLength(1);
+      expect(complex.compounds[0]).toEqual([
+        { type: 'type', name: 'input' },
+        { type: 'class', name: 'large' },
+        { type: 'id', name: 'name' },
+        { type: 'attribute', name: 'required' },
+      ]);
+    });
+
+    it('should parse combinators', () => {
+      const [complex] = parseSelector('form > label + input ~ span em');
+      expect(complex.combinators).toEqual(['>', '+', '~', ' ']);
+      expect(complex.compounds).toHaveLength(5);
+    });
+
+    it('should parse selector lists', () => {
+      expect(parseSelector('h1, h2 ,h3')).toHaveLength(3);
+    });
+
+    it('should parse attribute operators and flags', () => {
+      const [complex] = parseSelector('[type="TEXT" i]');
+      expect(complex.compounds[0][0]).toEqual({
+        type: 'attribute',
+        name: 'type',
+        operator: '=',
+        value: 'TEXT',
+        caseInsensitive: true,
+      });
+    });
+
+    it('should parse An+B expressions', () => {
+      const nth = (selector: string) => {
+        const simple = parseSelector(selector)[0].compounds[0][0];
+        return simple.type === 'pseudo-nth' ? simple.nth : null;
+      };
+
+      expect(nth(':nth-child(odd)')).toEqual({ a: 2, b: 1 });
+      expect(nth(':nth-child(even)')).toEqual({ a: 2, b: 0 });
+      expect(nth(':nth-child(3)')).toEqual({ a: 0, b: 3 });
+      expect(nth(':nth-child(-n+3)')).toEqual({ a: -1, b: 3 });
+      expect(nth(':nth-child(2n - 1)')).toEqual({ a: 2, b: -1 });
+    });
+
+    it('should handle escaped identifiers', () => {
+      const doc = parseHTML('<div class="sm:flex">x</div><div id="1a">y</div>');
+      expect(querySelectorAll(doc.documentElement, '.sm\\:flex')).toHaveLength(1);
+      expect(querySelectorAll(doc.documentElement, '#\\31 a')).toHaveLength(1);
+    });
+
+    it('should reject invalid selectors with a column', () => {
+      const invalid = ['', 'div >', 'a[href', ':nth-child(foo)', ':unknown', 'p::before', '.', 'a,', ':is(a'];
+
+      for (const selector of invalid) {
+        expect(() => parseSelector(selector)).toThrow(SelectorSyntaxError);
+      }
+
+      try {
+        parseSelector('div > :bogus');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SelectorSyntaxError);
+        expect((error as SelectorSyntaxError).column).toBe(8);
+        expect((error as Error).message).toContain('Unknown pseudo-class ":bogus"');
+      }
+    });
+  });
+
+  describe('Query helpers', () => {
+    const html = `
+      <html><body>
+        <div class="admin-panel">
+          <form><label for="a">A <input id="a"></label></form>
+        </div>
+        <p>Outside</p>
+      </body></html>
+    `;
+
+    it('should include the root in querySelectorAll', () => {
+      const doc = parseHTML(html);
+      expect(querySelectorAll(doc.documentElement, 'html')).toHaveLength(1);
+    });
+
+    it('should find the nearest matching ancestor with closest', () => {
+      const doc = parseHTML(html);
+      const input = querySelector(doc.documentElement, 'input')!;
+
+      expect(closest(input, '.admin-panel')?.tagName).toBe('div');
+      expect(closest(input, 'form, div')?.tagName).toBe('form');
+      expect(closest(input, 'p')).toBeNull();
+    });
+
+    it('should check descendants with hasChild', () => {
+      const doc = parseHTML(html);
+      const label = querySelector(doc.documentElement, 'label')!;
+
+      expect(hasChild(label, 'input[id]')).toBe(true);
+      expect(hasChild(label, 'label')).toBe(false);
+    });
+
+    it('should test a single element with matches', () => {
+      const doc = parseHTML(html);
+      const input = querySelector(doc.documentElement, 'input')!;
+
+      expect(matches(input, '.admin-panel form label > input#a')).toBe(true);
+      expect(matches(input, 'p input')).toBe(false);
+    });
+
+    it('should filter siblings with :nth-child(An+B of S)', () => {
+      const doc = parseHTML('<ul><li class="x">1</li><li>2</li><li class="x">3</li><li class="x">4</li></ul>');
+      const items = querySelectorAll(doc.documentElement, 'li:nth-child(2 of .x)');
+
+      expect(items).toHaveLength(1);
+      expect(items[0].textContent).toBe('3');
+    });
+
+    it('should treat elements without children or text as :empty', () => {
+      const doc = parseHTML('<div><p></p><p>x</p><p><br></p></div>');
+      expect(querySelectorAll(doc.documentElement, 'p:empty')).toHaveLength(1);
+    });
+  });
+
+  describe('Conformance with reference implementation', () => {
+    const fixtures = fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html'));
+
+    for (const fixture of fixtures) {
+      describe(fixture, () => {
+        const doc = parseHTML(fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf-8'));
+        const root = doc.documentElement;
+
+        it.each(CONFORMANCE_SELECTORS)('%s', selector => {
+          const expected = referenceSelectAll(selector, [root], { adapter });
+          const actual = querySelectorAll(root, selector);
+
+          expect(actual.map(describeElement)).toEqual(expected.map(describeElement));
+          expect(actual).toEqual(expected);
+        });
+      });
+    }
+  });
+});
+
+/**
+ * Describe an element by its position in the tree, for readable failure output
+ */
+function describeElement(element: Element): string {
+  const path: string[] = [];
+  for (let current: Element | undefined = element; current; current = current.parent) {
+    const index = current.parent ? current.parent.children.indexOf(current) : 0;
+    path.unshift(`${current.tagName}[${index}]`);
+  }
+  return path.join(' > ');
+}
@@ -0,0 +1,170 @@
+/**
+ * Tests for inline suppression comments
+ */
+
+import { XRulesEngine } from '../engine';
+import { JsxRulesEngine } from '../jsx-engine';
+import { parseSuppressionDirective } from '../suppressions';
+import { imagesAltText } from '../rules/images-alt-text';
+import { emptyLinks } from '../rules/empty-links';
+import type { XRulesConfig } from '../types';
+
+describe('Inline Suppressions', () => {
+  describe('parseSuppressionDirective', () => {
+    it('should parse rule lists and justifications', () => {
+      expect(parseSuppressionDirective(' xrules-disable-next-line images-alt-text -- decorative ')).toEqual({
+        type: 'disable-next-line',
+        rules: ['images-alt-text'],
+        justification: 'decorative',
+      });
+      expect(parseSuppressionDirective('xrules-disable rule-a, rule-b')).toEqual({
+        type: 'disable',
+        rules: ['rule-a', 'rule-b'],
+      });
+      expect(parseSuppressionDirective('xrules-enable')).toEqual({ type: 'enable', rules: [] });
+    });
+
+    it('should ignore ordinary comments', () => {
+      expect(parseSuppressionDirective(' header ')).toBeNull();
+      expect(parseSuppressionDirective('xrules-disabled')).toBeNull();
+    });
+  });
+
+  describe('HTML', () => {
+    const engine = new XRulesEngine([imagesAltText, emptyLinks]);
+
+    it('should silence the next line only', () => {
+      const html = `<body>
+        <!-- xrules-disable-next-line images-alt-text -->
+        <img src="a.png">
+        <img src="b.png">
+      </body>`;
+      const result = engine.checkHTML(html);
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].line).toBe(4);
+      expect(result.errorCount).toBe(1);
+    });
+
+    it('should only silence the listed rules', () => {
+      const html = `<body>
+        <!-- xrules-disable-next-line empty-links -->
+        <img src="a.png"><a href="/"></a>
+      </body>`;
+      const result = engine.checkHTML(html);
+
+      expect(result.violations.map(v => v.ruleId)).toEqual(['images-alt-text']);
+    });
+
+    it('should silence block ranges until xrules-enable', () => {
+      const html = `<!-- xrules-disable images-alt-text, empty-links -->
+      <body>
+        <img src="a.png">
+        <a href="/"></a>
+        <!-- xrules-enable empty-links -->
+        <img src="b.png">
+        <a href="/"></a>
+        <!-- xrules-enable -->
+        <img src="c.png">
+      </body>`;
+      const result = engine.checkHTML(html);
+
+      expect(result.violations.map(v => `${v.ruleId}:${v.line}`)).toEqual([
+        'images-alt-text:9',
+        'empty-links:7',
+      ]);
+    });
+
+    it('should report unused suppressions', () => {
+      const html = `<body>
+        <!-- xrules-disable-next-line images-alt-text -->
+        <img src="a.png" alt="A">
+      </body>`;
+      const config: XRulesConfig = { rules: {}, suppressions: { reportUnused: 'warning' } };
+
+      const quiet = engine.checkHTML(html);
+      expect(quiet.violations).toHaveLength(0);
+      expect(quiet.unusedSuppressions).toEqual([
+        { kind: 'disable-next-line', rules: ['images-alt-text'], line: 2, column: 9 },
+      ]);
+
+      const reported = engine.checkHTML(html, 'input.html', { config });
+      expect(reported.violations).toHaveLength(1);
+      expect(reported.violations[0].ruleId).toBe('unused-suppression');
+      expect(reported.violations[0].line).toBe(2);
+      expect(reported.warningCount).toBe(1);
+    });
+
+    it('should ignore suppressions without a justification when one is required', () => {
+      const html = `<body>
+        <!-- xrules-disable-next-line images-alt-text -->
+        <img src="a.png">
+        <!-- xrules-disable-next-line images-alt-text -- tracking pixel -->
+        <img src="b.png">
+      </body>`;
+      const config: XRulesConfig = { rules: {}, suppressions: { requireJustification: true } };
+      const result = engine.checkHTML(html, 'input.html', { config });
+
+      expect(result.violations.map(v => `${v.ruleId}:${v.line}`)).toEqual([
+        'images-alt-text:3',
+        'suppression-justification:2',
+      ]);
+    });
+  });
+
+  describe('JSX', () => {
+    it('should honour {/* xrules-disable-next-line */} comments', () => {
+      const code = `
+        function Gallery() {
+          return (
+            <div>
+              {/* xrules-disable-next-line images-alt-text -- decorative */}
+              <img src="a.png" />
+              <img src="b.png" />
+            </div>
+          );
+        }
+      `;
+      const engine = new JsxRulesEngine([imagesAltText]);
+      const [result] = engine.checkCode(code);
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].element).toContain('b.png');
+      expect(result.unusedSuppressions).toEqual([]);
+    });
+
+    it('should silence every element on the TSX line after the comment', () => {
+      const code = `function Gallery() {
+  return (
+    <div>
+      {/* xrules-disable-next-line images-alt-text */}
+      <img src="x" /><img src="y" />
+      <img src="z" />
+    </div>
+  );
+}`;
+      const [result] = new JsxRulesEngine([imagesAltText]).checkCode(code);
+
+      expect(result.violations.map(v => `${v.ruleId} ${v.line}:${v.column}`)).toEqual(['images-alt-text 6:7']);
+      expect(result.unusedSuppressions).toEqual([]);
+    });
+
+    it('should report unused suppressions at their TSX position', () => {
+      const code = `function Logo() {
+  return (
+    <div>
+      {/* xrules-disable-next-line images-alt-text */}
+      <img src="logo.png" alt="Logo" />
+    </div>
+  );
+}`;
+      const engine = new JsxRulesEngine([imagesAltText]);
+      const config: XRulesConfig = { rules: {}, suppressions: { reportUnused: 'error' } };
+      const [result] = engine.checkCode(code, 'logo.tsx', { config });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]).toMatchObject({ ruleId: 'unused-suppression', line: 4, column: 8 });
+      expect(result.unusedSuppressions).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the Svelte component front-end
+ */
+
+import { SvelteParser } from '../svelte-parser';
+import { JsxParser } from '../jsx-parser';
+
+describe('Svelte Parser', () => {
+  const parser = new SvelteParser();
+  const html = new JsxParser();
+
+  it('should analyze the markup outside the top-level script and style', () => {
+    const component = parser.analyzeCode([
+      '<script lang="ts">',
+      '  export let photo: { src: string; caption: string };',
+      '</script>',
+      '',
+      '<svelte:window on:resize={measure} />',
+      '<figure>',
+      '  <img src={photo.src} alt="Photo: {photo.caption}" on:load={loaded} />',
+      '  <figcaption>{photo.caption}</figcaption>',
+      '</figure>',
+      '',
+      '<style>figure { margin: 0; }</style>',
+    ].join('\n'), 'Photo.svelte')!;
+
+    expect(component).toMatchObject({ name: 'Photo', variantCount: 1, hasConditionalRendering: false });
+    expect(html.jsxNodeToHtml(component.variants[0].node)).toBe(
+      '<figure><img src="{unknown}" alt="{unknown}" /><figcaption>{unknown}</figcaption></figure>'
+    );
+    expect(component.variants[0].node.children[0]).toMatchObject({ line: 6, column: 1 });
+  });
+
+  it('should turn if blocks into a union of their branches', () => {
+    const component = parser.analyzeCode(`
+      {#if !user}
+        <a href="/login">Log in</a>
+      {:else if user.admin}
+        <strong>Admin</strong>
+      {:else}
+        <span>{user.name}</span>
+      {/if}
+    `, 'Account.svelte')!;
+
+    expect(component.variants.map(variant => [variant.conditions, html.jsxNodeToHtml(variant.node)])).toEqual([
+      [['!user'], '<a href="/login">Log in</a>'],
+      [['user', 'user.admin'], '<strong>Admin</strong>'],
+      [['user', '!user.admin'], '<span>{unknown}</span>'],
+    ]);
+  });
+
+  it('should render each items once and the else branch when the list is empty', () => {
+    const component = parser.analyzeCode(`
+      <ul>
+        {#each todos as { id, text }, index (id)}
+          <li>{text}</li>
+        {:else}
+          <li>Nothing to do</li>
+        {/each}
+      </ul>
+    `, 'Todos.svelte')!;
+
+    expect(component.variants.map(variant => variant.conditions)).toEqual([
+      ['todos.length'],
+      ['!todos.length'],
+    ]);
+  });
+
+  it('should turn await blocks into their pending, resolved and rejected forms', () => {
+    const component = parser.analyzeCode(`
+      {#await load()}
+        <p aria-busy="true">Loading</p>
+      {:then data}
+        <p>{data.title}</p>
+      {:catch error}
+        <p role="alert">{error.message}</p>
+      {/await}
+    `, 'Loader.svelte')!;
+
+    expect(component.variants.map(variant => variant.conditions)).toEqual([
+      ['load() pending'],
+      ['load() resolved'],
+      ['load() rejected'],
+    ]);
+  });
+
+  it('should keep components opaque and render the content of special elements', () => {
+    const component = parser.analyzeCode(`
+      <svelte:head><title>{title}</title></svelte:head>
+      <Card.Root {...rest}><Card.Title class:large>{@html title}</Card.Title></Card.Root>
+      {#snippet row(item)}<tr><td>{item}</td></tr>{/snippet}
+    `, 'Page.svelte')!;
+
+    expect(component.dependencies).toEqual(['Card.Root', 'Card.Title']);
+    expect(html.jsxNodeToHtml(component.variants[0].node)).toBe(
+      '<title>{unknown}</title><div data-xrules-component="Card.Root">' +
+      '<div data-xrules-component="Card.Title">{unknown}</div></div>'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for parsing Vue and Svelte markup
+ */
+
+import { parseMarkup, evaluateExpression, MarkupElement, MarkupBlock } from '../template-parser';
+import { UnknownValue } from '../jsx-parser';
+
+describe('Template Parser', () => {
+  describe('parseMarkup', () => {
+    it('should keep component names, self-closing tags and positions', () => {
+      const [card] = parseMarkup('<div class="card">\n  <UserAvatar :user="user" />\n  <p>{{ user.name }}</p>\n</div>', 'vue');
+      const element = card as MarkupElement;
+      const [avatar, paragraph] = element.children.filter(child => child.type === 'element') as MarkupElement[];
+
+      expect(avatar).toMatchObject({
+        name: 'UserAvatar',
+        attributes: [{ name: ':user', value: 'user', line: 2, column: 15 }],
+        children: [],
+        line: 2,
+        column: 3,
+      });
+      expect(paragraph.children).toEqual([{ type: 'expression', expression: 'user.name', line: 3, column: 6 }]);
+    });
+
+    it('should not read script and style content as markup', () => {
+      const nodes = parseMarkup('<script>if (a < b) { run(); }</script><style>a > b {}</style><p>{x}</p>', 'svelte');
+
+      expect(nodes.map(node => node.type === 'element' && node.name)).toEqual(['script', 'style', 'p']);
+      expect((nodes[0] as MarkupElement).children).toEqual([
+        { type: 'text', text: 'if (a < b) { run(); }', line: 1, column: 9 },
+      ]);
+    });
+
+    it('should read Svelte blocks with their branches', () => {
+      const [block] = parseMarkup('{#if user.admin}<b>Admin</b>{:else if user}<i>User</i>{:else}Guest{/if}', 'svelte');
+
+      expect((block as MarkupBlock).branches.map(({ keyword, expression }) => [keyword, expression])).toEqual([
+        ['if', 'user.admin'],
+        ['else if', 'user'],
+        ['else', ''],
+      ]);
+    });
+
+    it('should read Svelte expression attributes with braces and quotes inside', () => {
+      const [button] = parseMarkup(
+        '<button onclick={() => { count += 1 }} title="{label}" aria-label="Add {name}" {disabled} {...rest}>+</button>',
+        'svelte'
+      ) as MarkupElement[];
+
+      expect(button.attributes.map(({ name, value, expression }) => ({ name, value, expression }))).toEqual([
+        { name: 'onclick', value: undefined, expression: '() => { count += 1 }' },
+        { name: 'title', value: undefined, expression: 'label' },
+        { name: 'aria-label', value: 'Add {name}', expression: undefined },
+        { name: 'disabled', value: undefined, expression: 'disabled' },
+        { name: '...rest', value: undefined, expression: '...rest' },
+      ]);
+    });
+  });
+
+  describe('evaluateExpression', () => {
+    it('should know literals and make other expressions unknown', () => {
+      expect(evaluateExpression("'Logo'")).toBe('Logo');
+      expect(evaluateExpression('`Logo`')).toBe('Logo');
+      expect(evaluateExpression('true')).toBe(true);
+      expect(evaluateExpression('2')).toBe('2');
+      expect(evaluateExpression('false')).toBeUndefined();
+      expect(evaluateExpression('photo.caption')).toEqual(new UnknownValue('photo.caption'));
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for the Vue single-file component front-end
+ */
+
+import { VueParser } from '../vue-parser';
+import { JsxParser, UnknownValue } from '../jsx-parser';
+
+describe('Vue Parser', () => {
+  const parser = new VueParser();
+  const html = new JsxParser();
+
+  it('should analyze the template block of a component named after its file', () => {
+    const component = parser.analyzeCode([
+      '<script setup lang="ts">',
+      "const props = defineProps<{ src: string }>();",
+      '</script>',
+      '',
+      '<template>',
+      '  <figure class="photo">',
+      '    <img :src="src" :alt="\'Team photo\'" @load="loaded = true" />',
+      '    <figcaption>{{ caption }}</figcaption>',
+      '  </figure>',
+      '</template>',
+      '',
+      '<style scoped>.photo { margin: 0; }</style>',
+    ].join('\n'), 'src/components/team-photo.vue')!;
+
+    expect(component).toMatchObject({ name: 'TeamPhoto', line: 5, column: 1, variantCount: 1 });
+    expect(html.jsxNodeToHtml(component.variants[0].node)).toBe(
+      '<figure class="photo"><img src="{unknown}" alt="Team photo" /><figcaption>{unknown}</figcaption></figure>'
+    );
+    expect(component.variants[0].node.children[0].children[0]).toMatchObject({ line: 7, column: 5 });
+  });
+
+  it('should turn v-if, v-else-if and v-else siblings into one union', () => {
+    const component = parser.analyzeCode(`
+      <template>
+        <p v-if="status === 'loading'">Loading</p>
+        <!-- failed -->
+        <p v-else-if="error" role="alert">{{ error }}</p>
+        <ul v-else><li v-for="(item, index) in items" :key="item.id">{{ item.name }}</li></ul>
+      </template>
+    `, 'List.vue')!;
+
+    expect(component.hasConditionalRendering).toBe(true);
+    expect(component.variants.map(variant => variant.conditions)).toEqual([
+      ["status === 'loading'"],
+      ["status !== 'loading'", 'error'],
+      ["status !== 'loading'", '!error'],
+    ]);
+    expect(html.jsxNodeToHtml(component.variants[2].node)).toBe('<ul><li>{unknown}</li></ul>');
+  });
+
+  it('should render nothing for a v-if without v-else when its condition is false', () => {
+    const component = parser.analyzeCode('<template><div><span v-if="isNew">New</span></div></template>', 'Badge.vue')!;
+
+    expect(component.variants.map(variant => [variant.conditions, html.jsxNodeToHtml(variant.node)])).toEqual([
+      [['isNew'], '<div><span>New</span></div>'],
+      [['!isNew'], '<div></div>'],
+    ]);
+  });
+
+  it('should keep components opaque and their slot content', () => {
+    const component = parser.analyzeCode(`
+      <template>
+        <BaseButton variant="primary" @click="save"><template #icon><SaveIcon /></template>Save</BaseButton>
+        <Transition><p v-show="saved">Saved</p></Transition>
+      </template>
+    `, 'SaveBar.vue')!;
+
+    expect(component.dependencies).toEqual(['BaseButton', 'SaveIcon']);
+    expect(html.jsxNodeToHtml(component.variants[0].node)).toBe(
+      '<div data-xrules-component="BaseButton" variant="primary">' +
+      '<div data-xrules-component="SaveIcon"></div>Save</div><p>Saved</p>'
+    );
+  });
+
+  it('should merge bound classes and drop attributes bound to false', () => {
+    const component = parser.analyzeCode(
+      '<template><button class="btn" :class="{ active }" :disabled="false" v-bind="$attrs" v-html="label"></button></template>',
+      'Button.vue'
+    )!;
+
+    expect(component.variants[0].node.children[0].attributes).toEqual({
+      class: new UnknownValue('{ active }'),
+      'data-spread': true,
+    });
+    expect(html.jsxNodeToHtml(component.variants[0].node)).toBe('<button class="{unknown}">{unknown}</button>');
+  });
+
+  it('should not analyze templates in other languages', () => {
+    expect(parser.analyzeCode('<template lang="pug">div Hello</template>', 'Hello.vue')).toBeNull();
+    expect(parser.analyzeCode('<script>export default {}</script>', 'Renderless.vue')).toBeNull();
+  });
+});
@@ -2,8 +2,13 @@
  * Tests for File Watcher (Phase 6)
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import * as chokidar from 'chokidar';
 import { Watcher, watch } from '../watcher';
+import { JsxRulesEngine } from '../jsx-engine';
 import { XRulesExtendedConfig } from '../config-loader';
+import type { CheckResult } from '../types';
 
 // Mock chokidar
 jest.mock('chokidar', () => ({
@@ -221,6 +226,74 @@ describe('File Watcher', () => {
     });
   });
 
+  describe('Watch Mode', () => {
+    const resultOf = (filePath: string): CheckResult => ({
+      filePath,
+      violations: [],
+      errorCount: 0,
+      warningCount: 0,
+      infoCount: 0,
+    });
+
+    let refreshFile: jest.SpyInstance;
+    let checkSource: jest.SpyInstance;
+    let watcher: Watcher;
+    let emit: (event: string, filePath: string) => void;
+    const checked = () => checkSource.mock.calls.map(([filePath]) => filePath);
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'clear').mockImplementation(() => {});
+      jest.mocked(fs.existsSync).mockReturnValue(true);
+
+      // Toolbar.tsx imports Button.tsx
+      refreshFile = jest.spyOn(JsxRulesEngine.prototype, 'refreshFile')
+        .mockImplementation(filePath => filePath === path.resolve('Button.tsx') ? [path.resolve('Toolbar.tsx')] : []);
+      checkSource = jest.spyOn(JsxRulesEngine.prototype, 'checkSource')
+        .mockImplementation(filePath => [resultOf(filePath)]);
+
+      jest.mocked(chokidar.watch).mockClear();
+      watcher = new Watcher({ config: { rules: {} }, debounceDelay: 100 });
+      await watcher.start();
+
+      const on = jest.mocked(chokidar.watch).mock.results[0].value.on as jest.Mock;
+      emit = (event, filePath) => on.mock.calls.find(([name]) => name === event)[1](filePath);
+    });
+
+    afterEach(async () => {
+      await watcher.stop();
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should check a changed file again, then the files importing it', () => {
+      emit('change', 'Button.tsx');
+      jest.advanceTimersByTime(100);
+
+      expect(refreshFile).toHaveBeenCalledWith(path.resolve('Button.tsx'));
+      expect(checked()).toEqual(['Button.tsx']);
+
+      jest.advanceTimersByTime(100);
+
+      expect(checked()).toEqual(['Button.tsx', 'Toolbar.tsx']);
+      expect(watcher.getAllResults().map(result => result.filePath)).toEqual(['Button.tsx', 'Toolbar.tsx']);
+    });
+
+    it('should check the files importing a removed file', () => {
+      emit('add', 'Button.tsx');
+      jest.advanceTimersByTime(100);
+      expect(refreshFile).not.toHaveBeenCalled();
+
+      emit('unlink', 'Button.tsx');
+      jest.advanceTimersByTime(100);
+
+      expect(refreshFile).toHaveBeenCalledWith(path.resolve('Button.tsx'));
+      expect(checked()).toEqual(['Button.tsx', 'Toolbar.tsx']);
+      expect(watcher.getAllResults().map(result => result.filePath)).toEqual(['Toolbar.tsx']);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle empty file patterns gracefully', () => {
       const emptyConfig = {
@@ -0,0 +1,418 @@
+/**
+ * Accessible Name Computation
+ *
+ * Implements the text alternative computation from Accessible Name and Description
+ * Computation 1.2 (https://www.w3.org/TR/accname-1.2/) with the HTML-AAM rules for
+ * native labelling: aria-labelledby, aria-label, <label>, alt, <legend>, <caption>,
+ * <figcaption>, SVG <title>, content traversal, title and placeholder.
+ *
+ * Hidden content (hidden, aria-hidden="true", inline display:none/visibility:hidden)
+ * is skipped unless it is referenced directly by aria-labelledby or aria-describedby.
+ *
+ * Descriptions come from aria-describedby, aria-description, then a title that
+ * was not already used as the name.
+ */
+
+import type { DocumentIndex, Element, Node } from './types';
+import { getExplicitRole, getRole } from './aria-roles';
+
+/**
+ * State threaded through the recursive computation
+ */
+interface TraversalState {
+  root: Element;
+  index: DocumentIndex;
+  visited: Set<Element>;
+
+  /**
+   * Computing the name of an element referenced by aria-labelledby
+   */
+  inLabelledBy: boolean;
+
+  /**
+   * Collecting text from descendants (name from content or a label's content)
+   */
+  inContent: boolean;
+}
+
+/**
+ * Roles whose name may come from their content
+ */
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link',
+  'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row',
+  'rowheader', 'sectionhead', 'switch', 'tab', 'tooltip', 'treeitem',
+]);
+
+/**
+ * Elements whose content names them without a name-from-content role
+ */
+const NAME_FROM_CONTENT_ELEMENTS = new Set(['summary', 'legend', 'caption', 'figcaption', 'label']);
+
+/**
+ * Elements rendered as blocks, whose text is separated from its neighbours by a space
+ */
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+/**
+ * Elements whose content is never rendered
+ */
+const NEVER_RENDERED = new Set(['script', 'style', 'template', 'noscript', 'head', 'title']);
+
+/**
+ * Input types rendered as text boxes
+ */
+const TEXT_INPUT_TYPES = new Set(['', 'text', 'search', 'tel', 'url', 'email', 'password', 'number']);
+
+/**
+ * Elements that can be associated with a <label>
+ */
+const LABELABLE_ELEMENTS = new Set(['button', 'input', 'meter', 'output', 'progress', 'select', 'textarea']);
+
+/**
+ * Compute the accessible name of an element
+ */
+export function computeAccessibleName(element: Element, index: DocumentIndex): string {
+  const state: TraversalState = {
+    root: element,
+    index,
+    visited: new Set(),
+    inLabelledBy: false,
+    inContent: false,
+  };
+
+  return normalizeWhitespace(computeTextAlternative(element, state));
+}
+
+/**
+ * Compute the accessible description of an element
+ */
+export function computeAccessibleDescription(element: Element, index: DocumentIndex): string {
+  const state: TraversalState = {
+    root: element,
+    index,
+    visited: new Set([element]),
+    inLabelledBy: false,
+    inContent: false,
+  };
+
+  const described = referencedText(element, 'aria-describedby', state);
+  if (described) {
+    return described;
+  }
+
+  const description = normalizeWhitespace(element.getAttribute('aria-description') || '');
+  if (description) {
+    return description;
+  }
+
+  const title = normalizeWhitespace(element.getAttribute('title') || '');
+  return title && title !== computeAccessibleName(element, index) ? title : '';
+}
+
+/**
+ * Check if an element is hidden from assistive technology
+ */
+export function isHiddenFromAccessibility(element: Element): boolean {
+  for (let current: Element | undefined = element; current; current = current.parent) {
+    if (isHiddenNode(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the <label> elements associated with a labelable control
+ */
+export function getLabels(element: Element, index: DocumentIndex): Element[] {
+  if (!LABELABLE_ELEMENTS.has(element.tagName) || getInputType(element) === 'hidden') {
+    return [];
+  }
+
+  return index.getByTag('label').filter(label => getLabeledControl(label, index) === element);
+}
+
+/**
+ * The control a <label> labels: its `for` target, or else its first labelable descendant
+ */
+function getLabeledControl(label: Element, index: DocumentIndex): Element | null {
+  const forId = label.getAttribute('for');
+  if (forId !== null) {
+    const target = index.getById(forId);
+    return target && LABELABLE_ELEMENTS.has(target.tagName) ? target : null;
+  }
+
+  const findControl = (element: Element): Element | null => {
+    for (const child of element.children) {
+      if (LABELABLE_ELEMENTS.has(child.tagName) && getInputType(child) !== 'hidden') {
+        return child;
+      }
+      const nested = findControl(child);
+      if (nested) return nested;
+    }
+    return null;
+  };
+
+  return findControl(label);
+}
+
+function computeTextAlternative(node: Node, state: TraversalState, directlyReferenced = false): string {
+  if (node.nodeType === 'text') {
+    return node.data;
+  }
+  if (node.nodeType === 'comment') {
+    return '';
+  }
+
+  const element = node;
+  if (state.visited.has(element)) {
+    return '';
+  }
+  state.visited.add(element);
+
+  const isRoot = element === state.root;
+
+  // 2A: hidden content, unless referenced directly
+  if (!directlyReferenced && (isHiddenNode(element) || (isRoot && isHiddenFromAccessibility(element)))) {
+    return '';
+  }
+
+  // Presentational elements have no name of their own
+  const role = getRole(element);
+  if (isRoot && (role === 'none' || role === 'presentation')) {
+    return '';
+  }
+
+  // 2B: aria-labelledby, not followed recursively
+  if (!state.inLabelledBy) {
+    const name = referencedText(element, 'aria-labelledby', state);
+    if (name) {
+      return name;
+    }
+  }
+
+  // 2C: controls embedded in another element's label contribute their value
+  if (!isRoot && (state.inContent || state.inLabelledBy)) {
+    const value = getEmbeddedControlValue(element);
+    if (value !== null) {
+      return value;
+    }
+  }
+
+  // 2D: aria-label
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel && ariaLabel.trim()) {
+    return ariaLabel;
+  }
+
+  // 2E: native host language labelling
+  const native = getNativeTextAlternative(element, state);
+  if (native !== null && native.trim()) {
+    return native;
+  }
+
+  // 2F: name from content
+  if (state.inContent || allowsNameFromContent(element, role)) {
+    const contentState = { ...state, inContent: true };
+    const text = element.childNodes
+      .map(child => {
+        const childText = computeTextAlternative(child, contentState);
+        return child.nodeType === 'element' && BLOCK_ELEMENTS.has(child.tagName) ? ` ${childText} ` : childText;
+      })
+      .join('');
+
+    if (text.trim()) {
+      return text;
+    }
+  }
+
+  // 2I: tooltip attribute, then placeholder for text fields
+  const title = element.getAttribute('title');
+  if (title && title.trim()) {
+    return title;
+  }
+
+  if (element.tagName === 'input' || element.tagName === 'textarea') {
+    const placeholder = element.getAttribute('placeholder');
+    if (placeholder && placeholder.trim()) {
+      return placeholder;
+    }
+  }
+
+  return '';
+}
+
+/**
+ * HTML-AAM text alternatives; returns null when the element has no native source
+ */
+function getNativeTextAlternative(element: Element, state: TraversalState): string | null {
+  const tagName = element.tagName;
+
+  if (tagName === 'input') {
+    const type = getInputType(element);
+    const value = element.getAttribute('value');
+
+    if (type === 'button' || type === 'submit' || type === 'reset') {
+      if (value !== null && value.trim()) return value;
+      const labels = labelText(element, state);
+      if (labels) return labels;
+      return type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : null;
+    }
+
+    if (type === 'image') {
+      const alt = element.getAttribute('alt');
+      if (alt && alt.trim()) return alt;
+      if (value && value.trim()) return value;
+      const title = element.getAttribute('title');
+      return title && title.trim() ? title : 'Submit';
+    }
+  }
+
+  if (LABELABLE_ELEMENTS.has(tagName)) {
+    const labels = labelText(element, state);
+    if (labels) return labels;
+  }
+
+  if (tagName === 'img' || tagName === 'area') {
+    return element.hasAttribute('alt') ? element.getAttribute('alt') || '' : null;
+  }
+
+  const captionTag = ({ fieldset: 'legend', figure: 'figcaption', table: 'caption' } as Record<string, string>)[tagName];
+  if (captionTag) {
+    const caption = element.children.find(child => child.tagName === captionTag);
+    if (caption) {
+      return computeTextAlternative(caption, { ...state, inContent: true });
+    }
+  }
+
+  if (tagName === 'svg') {
+    const title = element.children.find(child => child.tagName === 'title');
+    if (title) {
+      return title.textContent;
+    }
+  }
+
+  if (tagName === 'optgroup') {
+    return element.getAttribute('label');
+  }
+
+  if (tagName === 'option') {
+    const label = element.getAttribute('label');
+    if (label && label.trim()) return label;
+  }
+
+  return null;
+}
+
+/**
+ * Text of the elements referenced by an ID list attribute, each computed as if labelling
+ */
+function referencedText(element: Element, attribute: string, state: TraversalState): string {
+  return resolveIds(element, attribute, state.index)
+    .map(target => {
+      // An element may reference itself; its content is then used
+      const visited = new Set(state.visited);
+      visited.delete(target);
+      const nested = { ...state, inLabelledBy: true, inContent: true, visited };
+      return normalizeWhitespace(computeTextAlternative(target, nested, true));
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Text of all labels associated with the element
+ */
+function labelText(element: Element, state: TraversalState): string {
+  return getLabels(element, state.index)
+    .map(label => normalizeWhitespace(computeTextAlternative(label, { ...state, inContent: true })))
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Value of a form control embedded in a label, or null if the element is not one
+ */
+function getEmbeddedControlValue(element: Element): string | null {
+  const role = getExplicitRole(element);
+
+  if (element.tagName === 'input' && !role) {
+    const type = getInputType(element);
+    if (TEXT_INPUT_TYPES.has(type)) {
+      return element.getAttribute('value') || '';
+    }
+    if (type === 'range') {
+      return element.getAttribute('aria-valuetext') || element.getAttribute('value') || '';
+    }
+  }
+
+  if (element.tagName === 'textarea' && !role) {
+    return element.textContent;
+  }
+
+  if (element.tagName === 'select' && !role) {
+    const options = element.children.flatMap(child => (child.tagName === 'optgroup' ? child.children : [child]))
+      .filter(child => child.tagName === 'option');
+    const selected = options.filter(option => option.hasAttribute('selected'));
+    const chosen = selected.length > 0 ? selected : options.slice(0, 1);
+    return chosen.map(option => option.textContent.trim()).join(' ');
+  }
+
+  if (role === 'textbox') {
+    return element.textContent;
+  }
+
+  if (role === 'slider' || role === 'spinbutton' || role === 'scrollbar' || role === 'progressbar') {
+    return element.getAttribute('aria-valuetext') || element.getAttribute('aria-valuenow') || '';
+  }
+
+  return null;
+}
+
+/**
+ * Check whether the root element may take its name from its content
+ */
+function allowsNameFromContent(element: Element, role: string | null): boolean {
+  if (role && NAME_FROM_CONTENT_ROLES.has(role)) {
+    return true;
+  }
+  return !getExplicitRole(element) && NAME_FROM_CONTENT_ELEMENTS.has(element.tagName);
+}
+
+function isHiddenNode(element: Element): boolean {
+  if (NEVER_RENDERED.has(element.tagName) || element.hasAttribute('hidden')) {
+    return true;
+  }
+  if (element.getAttribute('aria-hidden') === 'true') {
+    return true;
+  }
+  if (element.tagName === 'input' && getInputType(element) === 'hidden') {
+    return true;
+  }
+
+  const style = (element.getAttribute('style') || '').toLowerCase().replace(/\s+/g, '');
+  return style.includes('display:none') || style.includes('visibility:hidden');
+}
+
+function resolveIds(element: Element, attribute: string, index: DocumentIndex): Element[] {
+  return (element.getAttribute(attribute) || '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(id => index.getById(id))
+    .filter((target): target is Element => target !== null);
+}
+
+function getInputType(element: Element): string {
+  return element.tagName === 'input' ? (element.getAttribute('type') || '').trim().toLowerCase() : '';
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,378 @@
+/**
+ * Next.js App Router Routes
+ *
+ * A route of an App Router app is rendered from its `page.tsx` wrapped in every
+ * `layout.tsx` from the app directory down to the page, with the `metadata` or
+ * `generateMetadata` exports of those files merged into the <head>. Composing
+ * them gives the page form document rules (title, description, landmarks, a
+ * single h1) need, which no single component renders on its own.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Node, SourceFile, SyntaxKind, ObjectLiteralExpression } from 'ts-morph';
+import type { JsxNode, JsxAttributeValue } from './jsx-parser';
+import { UnknownValue } from './jsx-parser';
+import { UNKNOWN_ATTRIBUTE_VALUE } from './unknown-values';
+
+/**
+ * A route of an App Router app
+ */
+export interface AppRoute {
+  path: string; // URL path, e.g. '/demos/landing'
+  pageFile: string;
+  layoutFiles: string[]; // Outermost first
+}
+
+/**
+ * A metadata value and the node setting it
+ */
+export interface MetadataValue {
+  value: JsxAttributeValue;
+  node?: Node;
+}
+
+/**
+ * Metadata of a route after merging its layouts and page
+ */
+export interface RouteMetadata {
+  title?: MetadataValue;
+  description?: MetadataValue;
+  keywords?: MetadataValue;
+  robots?: MetadataValue;
+  viewport?: MetadataValue;
+}
+
+/**
+ * Metadata set by one layout or page
+ */
+interface SegmentMetadata {
+  title?: MetadataValue; // A plain title, subject to the template of the layouts above
+  titleDefault?: MetadataValue;
+  titleAbsolute?: MetadataValue;
+  titleTemplate?: MetadataValue; // Applies to the segments below
+  description?: MetadataValue;
+  keywords?: MetadataValue;
+  robots?: MetadataValue;
+  viewport?: MetadataValue;
+}
+
+const ROUTE_FILE_EXTENSIONS = ['.tsx', '.jsx', '.ts', '.js'];
+
+/**
+ * Viewport Next.js renders when a route sets none
+ */
+const DEFAULT_VIEWPORT = 'width=device-width, initial-scale=1';
+
+const VIEWPORT_KEYS: Record<string, string> = {
+  width: 'width',
+  height: 'height',
+  initialScale: 'initial-scale',
+  minimumScale: 'minimum-scale',
+  maximumScale: 'maximum-scale',
+  userScalable: 'user-scalable',
+  viewportFit: 'viewport-fit',
+};
+
+/**
+ * Find the routes of an app directory with the layouts wrapping each page.
+ * Route groups (`(marketing)`) are left out of the path; private folders (`_components`),
+ * parallel route slots (`@modal`) and intercepting routes (`(.)photo`) are not routes.
+ */
+export function findAppRoutes(appDir: string): AppRoute[] {
+  const routes: AppRoute[] = [];
+
+  const visit = (dir: string, segments: string[], layouts: string[]) => {
+    const layout = findRouteFile(dir, 'layout');
+    const layoutFiles = layout ? [...layouts, layout] : layouts;
+
+    const page = findRouteFile(dir, 'page');
+    if (page) {
+      routes.push({ path: '/' + segments.join('/'), pageFile: page, layoutFiles });
+    }
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || /^[_@]|^\(\.+\)/.test(entry.name)) continue;
+
+      const isGroup = /^\(.+\)$/.test(entry.name);
+      visit(path.join(dir, entry.name), isGroup ? segments : [...segments, entry.name], layoutFiles);
+    }
+  };
+
+  visit(path.resolve(appDir), [], []);
+  return routes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function findRouteFile(dir: string, name: string): string | null {
+  for (const extension of ROUTE_FILE_EXTENSIONS) {
+    const filePath = path.join(dir, name + extension);
+    if (fs.existsSync(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Merge the metadata of the layouts and page of a route (outermost first), as Next.js does:
+ * each segment overrides the fields it sets, and a plain title is filled into the nearest
+ * `title.template` of the layouts above it.
+ */
+export function resolveRouteMetadata(sourceFiles: SourceFile[]): RouteMetadata {
+  const metadata: RouteMetadata = {};
+  let template: MetadataValue | undefined;
+
+  for (const sourceFile of sourceFiles) {
+    const segment = readSegmentMetadata(sourceFile);
+
+    if (segment.titleAbsolute) {
+      metadata.title = segment.titleAbsolute;
+    } else if (segment.title) {
+      metadata.title = template ? applyTemplate(template, segment.title) : segment.title;
+    } else if (segment.titleDefault) {
+      metadata.title = segment.titleDefault;
+    }
+    template = segment.titleTemplate ?? template;
+
+    for (const field of ['description', 'keywords', 'robots', 'viewport'] as const) {
+      if (segment[field]) {
+        metadata[field] = segment[field];
+      }
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * The <head> elements Next.js renders for route metadata, positioned where each value is set
+ */
+export function createHeadNodes(metadata: RouteMetadata): JsxNode[] {
+  const nodes: JsxNode[] = [
+    { tagName: 'meta', attributes: { charset: 'utf-8' }, children: [] },
+    metaNode('viewport', metadata.viewport ?? { value: DEFAULT_VIEWPORT }),
+  ];
+
+  if (metadata.title) {
+    const text = typeof metadata.title.value === 'string' ? metadata.title.value : UNKNOWN_ATTRIBUTE_VALUE;
+    nodes.push({
+      tagName: 'title',
+      attributes: {},
+      children: [{ tagName: '#text', attributes: {}, children: [], text }],
+      ...positionOf(metadata.title),
+    });
+  }
+
+  for (const name of ['description', 'keywords', 'robots'] as const) {
+    const value = metadata[name];
+    if (value) {
+      nodes.push(metaNode(name, value));
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Add head elements to a rendered page: into the <head> of its <html> root, or before its
+ * <body> where the HTML parser puts them in the implied <head>, as for the one Next.js renders.
+ * A page that was not rendered inside a root layout is wrapped in <html> and <body>.
+ */
+export function withHead(node: JsxNode, head: JsxNode[]): JsxNode {
+  if (node.tagName !== 'html') {
+    return {
+      tagName: 'html',
+      attributes: {},
+      children: [...head, { tagName: 'body', attributes: {}, children: [node] }],
+    };
+  }
+
+  const existing = node.children.find(child => child.tagName === 'head');
+  const children = existing
+    ? node.children.map(child => child === existing ? { ...child, children: [...head, ...child.children] } : child)
+    : [...head, ...node.children];
+
+  return { ...node, children };
+}
+
+/**
+ * Read the metadata a layout or page exports, from `export const metadata = {...}` or the
+ * object literal returned by `generateMetadata()`. Metadata that is only known at runtime
+ * gives unknown values.
+ */
+function readSegmentMetadata(sourceFile: SourceFile): SegmentMetadata {
+  const variable = sourceFile.getVariableDeclaration('metadata');
+  const generate = sourceFile.getFunction('generateMetadata');
+
+  let object: ObjectLiteralExpression | undefined;
+  let dynamic: { expression: string; node: Node } | undefined;
+
+  if (variable?.isExported()) {
+    const initializer = unwrap(variable.getInitializer());
+    if (initializer && Node.isObjectLiteralExpression(initializer)) {
+      object = initializer;
+    } else {
+      dynamic = { expression: initializer?.getText() ?? 'metadata', node: variable };
+    }
+  } else if (generate?.isExported()) {
+    // Returns of callbacks inside generateMetadata() are not its own
+    object = generate.getDescendantsOfKind(SyntaxKind.ReturnStatement)
+      .filter(returnStmt => returnStmt.getFirstAncestor(Node.isFunctionLikeDeclaration) === generate)
+      .map(returnStmt => unwrap(returnStmt.getExpression()))
+      .find((expression): expression is ObjectLiteralExpression => !!expression && Node.isObjectLiteralExpression(expression));
+    dynamic = object ? undefined : { expression: 'generateMetadata()', node: generate };
+  }
+
+  if (dynamic) {
+    const value = { value: new UnknownValue(dynamic.expression, 'Metadata'), node: dynamic.node };
+    return { title: value, description: value };
+  }
+
+  const metadata: SegmentMetadata = {};
+  if (object) {
+    const title = getProperty(object, 'title');
+    if (title && Node.isObjectLiteralExpression(unwrap(title))) {
+      const titleObject = unwrap(title) as ObjectLiteralExpression;
+      metadata.titleDefault = readValue(getProperty(titleObject, 'default'));
+      metadata.titleAbsolute = readValue(getProperty(titleObject, 'absolute'));
+      metadata.titleTemplate = readValue(getProperty(titleObject, 'template'));
+    } else {
+      metadata.title = readValue(title);
+    }
+
+    metadata.description = readValue(getProperty(object, 'description'));
+    metadata.keywords = readValue(getProperty(object, 'keywords'));
+    metadata.robots = readRobots(getProperty(object, 'robots'));
+    metadata.viewport = readViewport(getProperty(object, 'viewport'));
+  }
+
+  // The viewport export replaces metadata.viewport in recent versions of Next.js
+  const viewport = sourceFile.getVariableDeclaration('viewport');
+  if (viewport?.isExported()) {
+    metadata.viewport = readViewport(viewport.getInitializer());
+  }
+
+  return metadata;
+}
+
+/**
+ * Value of a metadata field: strings, numbers and lists of strings are known, anything else is unknown
+ */
+function readValue(node: Node | undefined): MetadataValue | undefined {
+  const expression = unwrap(node);
+  if (!expression) return undefined;
+
+  if (Node.isStringLiteral(expression) || Node.isNoSubstitutionTemplateLiteral(expression)) {
+    return { value: expression.getLiteralValue(), node: expression };
+  }
+  if (Node.isNumericLiteral(expression)) {
+    return { value: expression.getText(), node: expression };
+  }
+  if (Node.isArrayLiteralExpression(expression)) {
+    const items = expression.getElements().map(element => readValue(element)?.value);
+    if (items.every((item): item is string => typeof item === 'string')) {
+      return { value: items.join(', '), node: expression };
+    }
+  }
+
+  return { value: new UnknownValue(expression.getText(), expression.getType().getText()), node: expression };
+}
+
+/**
+ * Robots as a string, or an object such as `{ index: false, follow: true }`
+ */
+function readRobots(node: Node | undefined): MetadataValue | undefined {
+  const expression = unwrap(node);
+  if (!expression || !Node.isObjectLiteralExpression(expression)) {
+    return readValue(expression);
+  }
+
+  const directives: string[] = [];
+  for (const name of ['index', 'follow']) {
+    const value = unwrap(getProperty(expression, name));
+    if (value && (Node.isTrueLiteral(value) || Node.isFalseLiteral(value))) {
+      directives.push(Node.isTrueLiteral(value) ? name : `no${name}`);
+    }
+  }
+
+  return directives.length > 0 ? { value: directives.join(', '), node: expression } : undefined;
+}
+
+/**
+ * Viewport as a string, or an object such as `{ width: 'device-width', initialScale: 1 }`
+ */
+function readViewport(node: Node | undefined): MetadataValue | undefined {
+  const expression = unwrap(node);
+  if (!expression || !Node.isObjectLiteralExpression(expression)) {
+    return readValue(expression);
+  }
+
+  const parts: string[] = [];
+  for (const [key, name] of Object.entries(VIEWPORT_KEYS)) {
+    const value = unwrap(getProperty(expression, key));
+    if (!value) continue;
+
+    if (Node.isTrueLiteral(value) || Node.isFalseLiteral(value)) {
+      parts.push(`${name}=${Node.isTrueLiteral(value) ? 'yes' : 'no'}`);
+    } else {
+      const known = readValue(value);
+      if (typeof known?.value !== 'string') {
+        return { value: new UnknownValue(expression.getText(), 'Viewport'), node: expression };
+      }
+      parts.push(`${name}=${known.value}`);
+    }
+  }
+
+  return { value: parts.join(', '), node: expression };
+}
+
+function applyTemplate(template: MetadataValue, title: MetadataValue): MetadataValue {
+  if (typeof template.value === 'string' && typeof title.value === 'string') {
+    return { value: template.value.replace('%s', title.value), node: title.node };
+  }
+  return { value: new UnknownValue(`${describeValue(template.value)} with ${describeValue(title.value)}`, 'string'), node: title.node };
+}
+
+function describeValue(value: JsxAttributeValue): string {
+  return value instanceof UnknownValue ? value.expression : JSON.stringify(value);
+}
+
+function getProperty(object: ObjectLiteralExpression, name: string): Node | undefined {
+  const property = object.getProperty(name);
+  if (property && Node.isPropertyAssignment(property)) {
+    return property.getInitializer();
+  }
+  if (property && Node.isShorthandPropertyAssignment(property)) {
+    return property.getNameNode();
+  }
+  return undefined;
+}
+
+function unwrap(node: Node | undefined): Node | undefined {
+  let current = node;
+  while (
+    current && (
+      Node.isParenthesizedExpression(current) ||
+      Node.isAsExpression(current) ||
+      Node.isSatisfiesExpression(current)
+    )
+  ) {
+    current = current.getExpression();
+  }
+  return current;
+}
+
+function metaNode(name: string, metadata: MetadataValue): JsxNode {
+  return {
+    tagName: 'meta',
+    attributes: { name, content: metadata.value },
+    children: [],
+    ...positionOf(metadata),
+  };
+}
+
+function positionOf(metadata: MetadataValue): Pick<JsxNode, 'line' | 'column' | 'filePath'> {
+  if (!metadata.node) return {};
+
+  const sourceFile = metadata.node.getSourceFile();
+  const { line, column } = sourceFile.getLineAndColumnAtPos(metadata.node.getStart());
+  return { line, column, filePath: sourceFile.getFilePath() };
+}
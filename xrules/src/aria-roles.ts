@@ -0,0 +1,310 @@
+/**
+ * ARIA Roles
+ *
+ * Computes the role of an element: the first valid token of its role attribute,
+ * or else its implicit role from the HTML Accessibility API Mappings
+ * (https://www.w3.org/TR/html-aam-1.0/). Elements without a corresponding
+ * role (e.g. <input type="hidden">, <a> without href) have no role.
+ */
+
+import type { Element } from './types';
+
+/**
+ * Every non-abstract role defined by WAI-ARIA 1.2 and the Graphics module
+ */
+export const ARIA_ROLES: ReadonlySet<string> = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption',
+  'cell', 'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo',
+  'definition', 'deletion', 'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form',
+  'generic', 'graphics-document', 'graphics-object', 'graphics-symbol', 'grid', 'gridcell',
+  'group', 'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main',
+  'marquee', 'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter',
+  'navigation', 'none', 'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio',
+  'radiogroup', 'region', 'row', 'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox',
+  'separator', 'slider', 'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch',
+  'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip',
+  'tree', 'treegrid', 'treeitem',
+]);
+
+/**
+ * Implicit roles that don't depend on attributes or ancestry
+ */
+const TAG_ROLES: Record<string, string> = {
+  address: 'group',
+  article: 'article',
+  aside: 'complementary',
+  b: 'generic',
+  bdi: 'generic',
+  bdo: 'generic',
+  blockquote: 'blockquote',
+  body: 'generic',
+  button: 'button',
+  caption: 'caption',
+  code: 'code',
+  data: 'generic',
+  datalist: 'listbox',
+  dd: 'definition',
+  del: 'deletion',
+  details: 'group',
+  dfn: 'term',
+  dialog: 'dialog',
+  div: 'generic',
+  dt: 'term',
+  em: 'emphasis',
+  fieldset: 'group',
+  figure: 'figure',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  hgroup: 'group',
+  hr: 'separator',
+  html: 'document',
+  i: 'generic',
+  ins: 'insertion',
+  li: 'listitem',
+  main: 'main',
+  math: 'math',
+  menu: 'list',
+  meter: 'meter',
+  nav: 'navigation',
+  ol: 'list',
+  optgroup: 'group',
+  option: 'option',
+  output: 'status',
+  p: 'paragraph',
+  pre: 'generic',
+  progress: 'progressbar',
+  q: 'generic',
+  s: 'deletion',
+  samp: 'generic',
+  search: 'search',
+  small: 'generic',
+  span: 'generic',
+  strong: 'strong',
+  sub: 'subscript',
+  sup: 'superscript',
+  svg: 'graphics-document',
+  table: 'table',
+  tbody: 'rowgroup',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  thead: 'rowgroup',
+  time: 'time',
+  tr: 'row',
+  u: 'generic',
+  ul: 'list',
+};
+
+/**
+ * Sectioning elements that scope <header> and <footer> away from the page landmarks
+ */
+const SECTIONING_ELEMENTS = new Set(['article', 'aside', 'main', 'nav', 'section']);
+const SECTIONING_ROLES = new Set(['article', 'complementary', 'main', 'navigation', 'region']);
+
+/**
+ * Table roles whose cells are grid cells
+ */
+const GRID_ROLES = new Set(['grid', 'treegrid']);
+
+/**
+ * Attributes that make a presentational role be ignored (ARIA 1.2 §9.3)
+ */
+const GLOBAL_ARIA_ATTRIBUTES = [
+  'aria-atomic', 'aria-busy', 'aria-controls', 'aria-describedby', 'aria-details',
+  'aria-dropeffect', 'aria-flowto', 'aria-grabbed', 'aria-keyshortcuts', 'aria-label',
+  'aria-labelledby', 'aria-live', 'aria-owns', 'aria-relevant', 'aria-roledescription',
+];
+
+/**
+ * Compute the role of an element, honouring a valid explicit role
+ */
+export function getRole(element: Element): string | null {
+  const explicit = getExplicitRole(element);
+
+  if (explicit === 'none' || explicit === 'presentation') {
+    return isFocusable(element) || GLOBAL_ARIA_ATTRIBUTES.some(attr => element.hasAttribute(attr))
+      ? getImplicitRole(element)
+      : explicit;
+  }
+
+  return explicit || getImplicitRole(element);
+}
+
+/**
+ * The first recognised token of the role attribute, or null
+ */
+export function getExplicitRole(element: Element): string | null {
+  const tokens = (element.getAttribute('role') || '').trim().toLowerCase().split(/\s+/);
+  return tokens.find(token => ARIA_ROLES.has(token)) || null;
+}
+
+/**
+ * The implicit ARIA role of an element per HTML-AAM, or null if it has none
+ */
+export function getImplicitRole(element: Element): string | null {
+  const tagName = element.tagName;
+
+  switch (tagName) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href') ? 'link' : tagName === 'a' ? 'generic' : null;
+
+    case 'header':
+    case 'footer':
+      if (hasAncestor(element, isSectioning)) {
+        return 'generic';
+      }
+      return tagName === 'header' ? 'banner' : 'contentinfo';
+
+    case 'section':
+      return hasNameAttribute(element) ? 'region' : 'generic';
+
+    case 'form':
+      return hasNameAttribute(element) ? 'form' : null;
+
+    case 'img':
+      if (element.hasAttribute('alt') && !element.getAttribute('alt') && !hasNameAttribute(element) && !element.hasAttribute('title')) {
+        return 'presentation';
+      }
+      return 'img';
+
+    case 'input':
+      return getInputRole(element);
+
+    case 'select':
+      return element.hasAttribute('multiple') || Number(element.getAttribute('size')) > 1 ? 'listbox' : 'combobox';
+
+    case 'td':
+      return isInGrid(element) ? 'gridcell' : 'cell';
+
+    case 'th':
+      return getHeaderCellRole(element);
+
+    default:
+      return TAG_ROLES[tagName] || null;
+  }
+}
+
+/**
+ * Check whether an element can receive keyboard focus without scripting
+ */
+export function isFocusable(element: Element): boolean {
+  if (element.hasAttribute('tabindex')) {
+    return true;
+  }
+  if (element.hasAttribute('disabled')) {
+    return false;
+  }
+
+  switch (element.tagName) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href');
+    case 'input':
+      return (element.getAttribute('type') || '').toLowerCase() !== 'hidden';
+    case 'button':
+    case 'select':
+    case 'textarea':
+    case 'summary':
+    case 'iframe':
+      return true;
+    default:
+      return element.getAttribute('contenteditable') === 'true' || element.getAttribute('contenteditable') === '';
+  }
+}
+
+function getInputRole(element: Element): string | null {
+  const type = (element.getAttribute('type') || 'text').trim().toLowerCase();
+  const hasList = element.hasAttribute('list');
+
+  switch (type) {
+    case 'button':
+    case 'image':
+    case 'reset':
+    case 'submit':
+      return 'button';
+    case 'checkbox':
+      return 'checkbox';
+    case 'radio':
+      return 'radio';
+    case 'range':
+      return 'slider';
+    case 'number':
+      return 'spinbutton';
+    case 'search':
+      return hasList ? 'combobox' : 'searchbox';
+    case 'email':
+    case 'tel':
+    case 'text':
+    case 'url':
+      return hasList ? 'combobox' : 'textbox';
+    case 'hidden':
+    case 'color':
+    case 'date':
+    case 'datetime-local':
+    case 'file':
+    case 'month':
+    case 'password':
+    case 'time':
+    case 'week':
+      return null;
+    default:
+      // Unknown types fall back to the text state
+      return hasList ? 'combobox' : 'textbox';
+  }
+}
+
+function getHeaderCellRole(element: Element): string {
+  const scope = (element.getAttribute('scope') || '').toLowerCase();
+  if (scope === 'row' || scope === 'rowgroup') {
+    return 'rowheader';
+  }
+  if (scope === 'col' || scope === 'colgroup') {
+    return 'columnheader';
+  }
+
+  // Without a scope, a header in a row of data cells heads that row
+  const row = element.parent;
+  const inHead = row?.parent?.tagName === 'thead';
+  const rowHasDataCells = row?.children.some(cell => cell.tagName === 'td') ?? false;
+  return !inHead && rowHasDataCells ? 'rowheader' : 'columnheader';
+}
+
+function isInGrid(element: Element): boolean {
+  const table = findAncestor(element, 'table');
+  return table !== null && hasAnyRole(table, GRID_ROLES);
+}
+
+function isSectioning(element: Element): boolean {
+  return SECTIONING_ELEMENTS.has(element.tagName) || hasAnyRole(element, SECTIONING_ROLES);
+}
+
+function hasNameAttribute(element: Element): boolean {
+  return Boolean(element.getAttribute('aria-label')?.trim() || element.getAttribute('aria-labelledby')?.trim());
+}
+
+function hasAnyRole(element: Element, roles: Set<string>): boolean {
+  const role = getExplicitRole(element);
+  return role !== null && roles.has(role);
+}
+
+function hasAncestor(element: Element, predicate: (ancestor: Element) => boolean): boolean {
+  for (let current = element.parent; current; current = current.parent) {
+    if (predicate(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function findAncestor(element: Element, tagName: string): Element | null {
+  for (let current = element.parent; current; current = current.parent) {
+    if (current.tagName === tagName) {
+      return current;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,160 @@
+/**
+ * Check Context - Relational helpers handed to rule checkers
+ *
+ * Builds the CheckContext for a document: selector queries, ID reference
+ * resolution, roles and accessible names/descriptions, ancestor/sibling lookups and a memoised
+ * index of elements by id, class and tag. A context is created per rule so it
+ * can carry that rule's options.
+ */
+
+import type { CheckContext, Document, DocumentIndex, Element, RuleOptions } from './types';
+import { matchesExtended } from './extended-matcher';
+import { computeAccessibleDescription, computeAccessibleName } from './accessible-name';
+import { getRole } from './aria-roles';
+
+/**
+ * Attributes holding a whitespace-separated list of IDs; all other ID references hold a single ID
+ */
+const IDREFS_ATTRIBUTES = new Set([
+  'aria-labelledby',
+  'aria-describedby',
+  'aria-controls',
+  'aria-owns',
+  'aria-flowto',
+  'aria-details',
+  'aria-errormessage',
+  'headers',
+]);
+
+/**
+ * Index of a document's elements, built on first use
+ */
+class ElementIndex implements DocumentIndex {
+  private elements: Element[] = [];
+  private ids = new Map<string, Element[]>();
+  private classes = new Map<string, Element[]>();
+  private tags = new Map<string, Element[]>();
+
+  constructor(root: Element) {
+    const visit = (element: Element) => {
+      this.elements.push(element);
+      addTo(this.tags, element.tagName, element);
+
+      const id = element.getAttribute('id');
+      if (id) {
+        addTo(this.ids, id, element);
+      }
+
+      for (const className of (element.getAttribute('class') || '').split(/\s+/)) {
+        if (className) {
+          addTo(this.classes, className, element);
+        }
+      }
+
+      element.children.forEach(visit);
+    };
+
+    visit(root);
+  }
+
+  getById(id: string): Element | null {
+    return this.ids.get(id)?.[0] || null;
+  }
+
+  getAllById(id: string): Element[] {
+    return [...(this.ids.get(id) || [])];
+  }
+
+  getByClass(className: string): Element[] {
+    return [...(this.classes.get(className) || [])];
+  }
+
+  getByTag(tagName: string): Element[] {
+    return [...(this.tags.get(tagName.toLowerCase()) || [])];
+  }
+
+  getAll(): Element[] {
+    return [...this.elements];
+  }
+}
+
+const indexCache = new WeakMap<Document, DocumentIndex>();
+
+/**
+ * Get the memoised index for a document
+ */
+export function getDocumentIndex(document: Document): DocumentIndex {
+  let index = indexCache.get(document);
+  if (!index) {
+    index = new ElementIndex(document.documentElement);
+    indexCache.set(document, index);
+  }
+  return index;
+}
+
+/**
+ * Resolve an ID reference attribute on an element to the referenced elements
+ */
+export function resolveIdRef(index: DocumentIndex, element: Element, attribute: string): Element[] {
+  const value = element.getAttribute(attribute);
+  if (!value) {
+    return [];
+  }
+
+  const ids = IDREFS_ATTRIBUTES.has(attribute) ? value.trim().split(/\s+/) : [value];
+  return ids
+    .map(id => index.getById(id))
+    .filter((target): target is Element => target !== null);
+}
+
+/**
+ * Create the context passed to rule checkers for a document
+ */
+export function createCheckContext(document: Document, options: RuleOptions = {}): CheckContext {
+  const context: CheckContext = {
+    document,
+    options,
+    querySelector: (selector: string) => document.querySelector(selector),
+    querySelectorAll: (selector: string) => document.querySelectorAll(selector),
+    getElementById: (id: string) => context.index.getById(id),
+
+    resolveIdRef: (element: Element, attribute: string) => resolveIdRef(context.index, element, attribute),
+
+    computeAccessibleName: (element: Element) => computeAccessibleName(element, context.index),
+    computeAccessibleDescription: (element: Element) => computeAccessibleDescription(element, context.index),
+    computeRole: (element: Element) => getRole(element),
+
+    ancestors(element: Element, selector?: string): Element[] {
+      const ancestors: Element[] = [];
+      for (let current = element.parent; current; current = current.parent) {
+        ancestors.push(current);
+      }
+      return filterBySelector(ancestors, selector);
+    },
+
+    siblings(element: Element, selector?: string): Element[] {
+      const siblings = element.parent ? element.parent.children.filter(child => child !== element) : [];
+      return filterBySelector(siblings, selector);
+    },
+
+    // Built lazily so rules that never use the index don't pay for it
+    get index(): DocumentIndex {
+      return getDocumentIndex(document);
+    },
+  };
+
+  return context;
+}
+
+function filterBySelector(elements: Element[], selector?: string): Element[] {
+  return selector ? elements.filter(element => matchesExtended(element, selector)) : elements;
+}
+
+function addTo(map: Map<string, Element[]>, key: string, element: Element): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(element);
+  } else {
+    map.set(key, [element]);
+  }
+}
@@ -10,12 +10,20 @@ import { glob } from 'glob';
 import { Command } from 'commander';
 import { createDefaultEngine } from './engine';
 import { formatResults, formatResultsJSON, countIssues } from './reporter';
-import { loadConfig, getResolvedConfig } from './config-loader';
+import { getResolvedConfig, loadRuleDirectories, validateConfig, XRulesExtendedConfig } from './config-loader';
+import { loadScopes } from './scope-loader';
+import { ScopeRegistry } from './scope-registry';
+import { loadProjectSettings, explainFile, createCoverageReport, formatExplanation, formatCoverageReport, formatConflict } from './explain';
+import { describeOptionType } from './rule-options';
 import { getReporter } from './reporters';
 import { watch } from './watcher';
 import { createFixAwareEngine } from './fix-engine';
+import { JsxRulesEngine } from './jsx-engine';
+import { getFrontEnd, SOURCE_FILE_PATTERNS } from './front-ends';
+import { nextjsRules, optInNextjsRules } from './rules/nextjs';
 import { applyFixes } from './fixer';
-import type { CheckResult } from './types';
+import type { AnyRule, CheckResult } from './types';
+import type { ConflictResolution, Scope, ScopeConflict } from './scope-types';
 import type { FileFixResult, BatchFixResult } from './fix-types';
 
 const program = new Command();
@@ -32,6 +40,7 @@ program
   .option('--verbose', 'Show verbose output including context')
   .option('--no-suggestions', 'Hide fix suggestions')
   .option('--max-warnings <number>', 'Fail if more than N warnings', parseInt)
+  .option('--ci', 'Fail when scopes conflict without a resolution under the conflictResolution policy')
   .action(async (files: string[], options) => {
     try {
       // Load configuration
@@ -55,21 +64,27 @@ program
       }
 
       if (expandedFiles.length === 0) {
-        console.error('No HTML files found');
+        console.error('No files found');
         process.exit(1);
       }
 
-      // Create engine with default rules
-      const engine = createDefaultEngine();
+      // Create engine with default rules plus declarative rules from the project. The TypeScript
+      // project is only loaded to resolve the imports of JSX/TSX files and MDX documents.
+      const hasJsx = expandedFiles.some(filePath =>
+        getFrontEnd(filePath) === 'jsx' || path.extname(filePath).toLowerCase() === '.mdx');
+      const tsConfigPath = hasJsx && fs.existsSync('tsconfig.json') ? 'tsconfig.json' : undefined;
+      const { engine, scopes } = createProjectEngine(config, configPath, tsConfigPath, optInNextjsRules);
 
-      // Check all files
+      // Check all files, each with the front-end for its extension
       const results: CheckResult[] = [];
 
       for (const filePath of expandedFiles) {
-        const absolutePath = path.resolve(filePath);
-        const html = fs.readFileSync(absolutePath, 'utf-8');
-        const result = engine.checkHTML(html, filePath);
-        results.push(result);
+        results.push(...engine.checkSource(filePath, { config }));
+
+        // Classes of the configured scopes must not be conditional
+        if (scopes.length > 0 && getFrontEnd(filePath) === 'jsx') {
+          results.push(engine.checkScopeClasses(filePath, scopes, { config }));
+        }
       }
 
       // Format and output results using Phase 6 reporters
@@ -88,6 +103,20 @@ program
         console.log(output);
       }
 
+      // Conflicts between scopes, once each whatever the files they were met in
+      const conflicts = new Map<string, ScopeConflict>();
+      for (const conflict of results.flatMap(result => result.conflicts ?? [])) {
+        conflicts.set(JSON.stringify([conflict.ruleId, conflict.resolution.scopes]), conflict);
+      }
+      if (conflicts.size > 0 && format !== 'json') {
+        console.log('\nScope conflicts:');
+        conflicts.forEach(conflict => console.log(`  ${formatConflict(conflict)}`));
+      }
+      exitOnConflicts(
+        Array.from(conflicts.values(), conflict => conflict.resolution),
+        options.ci || config.conflictResolution === 'error-on-conflict'
+      );
+
       // Exit with appropriate code
       const counts = countIssues(results);
 
@@ -109,6 +138,40 @@ program
     }
   });
 
+/**
+ * Engine with the default rules, the given Next.js rules, the rules of the configured rule
+ * directories and the scopes of the config and of scope files, applied per element. Exits
+ * when the configuration is invalid for these rules.
+ */
+function createProjectEngine(
+  config: XRulesExtendedConfig,
+  configPath: string,
+  tsConfigPath: string | undefined,
+  nextjs: AnyRule[]
+): { engine: JsxRulesEngine; scopes: Scope[] } {
+  const engine = new JsxRulesEngine(createDefaultEngine().getRules(), tsConfigPath);
+  engine.addRules(nextjs);
+  engine.addRules(loadRuleDirectories(config.ruleDirectories || [], configPath));
+
+  // Scopes and the rules they declare
+  const { scopes, rules: scopeRules } = loadScopes(config, configPath);
+  engine.addRules(scopeRules);
+  if (scopes.length > 0) {
+    const registry = new ScopeRegistry();
+    registry.registerAll(scopes);
+    engine.setScopes(registry, { conflictResolution: config.conflictResolution });
+  }
+
+  const configErrors = validateConfig(config, engine.getRules());
+  if (configErrors.length > 0) {
+    console.error('Invalid configuration:');
+    configErrors.forEach(error => console.error(`  - ${error}`));
+    process.exit(1);
+  }
+
+  return { engine, scopes };
+}
+
 // Watch command (Phase 6)
 program
   .command('watch')
@@ -127,7 +190,7 @@ program
       if (files.length > 0) {
         config.files = files;
       } else if (!config.files) {
-        config.files = ['**/*.html', '**/*.tsx', '**/*.jsx'];
+        config.files = SOURCE_FILE_PATTERNS;
       }
 
       console.log('Starting XRules in watch mode...');
@@ -301,7 +364,7 @@ program
           severity: 'warning',
         },
       },
-      files: ['**/*.html', '**/*.tsx', '**/*.jsx'],
+      files: SOURCE_FILE_PATTERNS,
       ignore: ['node_modules/**', 'dist/**', 'build/**'],
       format: 'stylish',
     };
@@ -363,6 +426,59 @@ program
     process.exit(counts.errors > 0 ? 1 : 0);
   });
 
+// Check app command (for Next.js App Router routes)
+program
+  .command('check-app')
+  .description('Check each route of a Next.js App Router app, with its page composed into its layouts')
+  .argument('[appDir]', 'App directory to check (default: app or src/app)')
+  .option('-p, --project <tsconfig>', 'TypeScript project used to resolve imports (default: ./tsconfig.json if present)')
+  .action(async (appDir: string | undefined, _options, command: Command) => {
+    try {
+      // --config, --format and --no-color are the options of the main command
+      const options = command.optsWithGlobals();
+      const configPath = options.config || process.cwd();
+      const config = await getResolvedConfig(configPath);
+
+      const dir = appDir ?? (fs.existsSync('app') ? 'app' : 'src/app');
+      if (!fs.existsSync(dir)) {
+        console.error(`App directory not found: ${dir}`);
+        process.exit(1);
+      }
+
+      const tsConfigPath = options.project ?? (fs.existsSync('tsconfig.json') ? 'tsconfig.json' : undefined);
+      const { engine } = createProjectEngine(config, configPath, tsConfigPath, nextjsRules);
+
+      const routes = engine.checkAppRoutes(dir, { config });
+      if (routes.length === 0) {
+        console.error(`No routes found in ${dir}`);
+        process.exit(1);
+      }
+
+      const allResults = routes.flatMap(route => route.results);
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(routes.map(({ route, results }) => ({ route: route.path, results })), null, 2));
+      } else {
+        console.log(`Checking ${routes.length} routes in ${dir}...\n`);
+
+        const reporter = getReporter(options.format);
+        for (const { route, results } of routes) {
+          const counts = countIssues(results);
+          console.log(`Route ${route.path} (${counts.errors} errors, ${counts.warnings} warnings)`);
+          if (counts.total > 0) {
+            console.log(reporter(results, { colors: options.color, cwd: process.cwd() }));
+          }
+        }
+      }
+
+      const counts = countIssues(allResults);
+      process.exit(counts.errors > 0 ? 1 : 0);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // Check string command (for quick testing)
 program
   .command('check-string <html>')
@@ -377,6 +493,60 @@ program
     process.exit(result.errorCount > 0 ? 1 : 0);
   });
 
+// Explain command: where the rule settings of a file, line or the whole project come from
+program
+  .command('explain')
+  .description('Show the scopes and rule settings of a file or line, or a scope x rule matrix of the project')
+  .argument('[target]', 'File, or file:line, to explain; the whole project when omitted')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option('-f, --format <format>', 'Output format (text, json)', 'text')
+  .option('--ci', 'Fail when scopes conflict without a resolution under the conflictResolution policy')
+  .action(async (target: string | undefined, options) => {
+    try {
+      const cwd = options.config || process.cwd();
+      const tsConfigPath = fs.existsSync('tsconfig.json') ? 'tsconfig.json' : undefined;
+      const project = await loadProjectSettings(cwd, tsConfigPath);
+
+      if (target) {
+        const [, file, line] = target.match(/^(.*?):(\d+)$/) ?? [undefined, target];
+        if (!fs.existsSync(file)) {
+          console.error(`File not found: ${file}`);
+          process.exit(1);
+        }
+
+        // Scope file patterns are relative to the project root
+        const filePath = path.relative(process.cwd(), path.resolve(file)).split(path.sep).join('/');
+        const explanation = explainFile(project, filePath, line ? parseInt(line, 10) : undefined);
+        console.log(options.format === 'json' ? JSON.stringify(explanation, null, 2) : formatExplanation(explanation));
+        exitOnConflicts(explanation.rules.flatMap(rule => rule.resolution ?? []), options.ci);
+        return;
+      }
+
+      const config = await getResolvedConfig(cwd);
+      const files = await glob(config.files || SOURCE_FILE_PATTERNS, {
+        ignore: config.ignore || ['node_modules/**', 'dist/**', 'build/**', '.next/**'],
+        nodir: true,
+      });
+      const report = createCoverageReport(project, files.sort());
+      console.log(options.format === 'json' ? JSON.stringify(report, null, 2) : formatCoverageReport(report));
+      exitOnConflicts(report.conflicts.map(conflict => conflict.resolution), options.ci);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Fail when a conflict between scopes is left unresolved and failing is requested, e.g. in CI mode
+ */
+function exitOnConflicts(resolutions: ConflictResolution[], fail?: boolean): void {
+  const unresolved = resolutions.filter(resolution => !resolution.resolved);
+  if (fail && unresolved.length > 0) {
+    console.error(`\n✖ ${unresolved.length} unresolved scope conflict${unresolved.length === 1 ? '' : 's'} (${unresolved[0].policy})`);
+    process.exit(1);
+  }
+}
+
 // List rules command
 program
   .command('list-rules')
@@ -396,6 +566,17 @@ program
       if (rule.documentation) {
         console.log(`    Documentation: ${rule.documentation}`);
       }
+      const ruleOptions = Object.entries(rule.optionsSchema || {});
+      if (ruleOptions.length > 0) {
+        console.log('    Options:');
+        for (const [name, schema] of ruleOptions) {
+          const defaultValue = schema.default !== undefined ? ` (default: ${JSON.stringify(schema.default)})` : '';
+          console.log(`      ${name}: ${describeOptionType(schema)}${defaultValue}`);
+          if (schema.description) {
+            console.log(`        ${schema.description}`);
+          }
+        }
+      }
       console.log();
     }
   });
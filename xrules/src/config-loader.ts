@@ -10,8 +10,12 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { XRulesConfig, RuleSeverity } from './types';
-import { Scope } from './scope-types';
+import { XRulesConfig, RuleSeverity, Rule, AnyRule } from './types';
+import { Scope, ConflictResolutionPolicy } from './scope-types';
+import { CONFLICT_RESOLUTION_POLICIES } from './scope-registry';
+import { parseRuleFile, RULE_FILE_EXTENSIONS } from './declarative-rules';
+import { validateRuleOptions } from './rule-options';
+import { getPatternError } from './engine';
 
 /**
  * Extended configuration with Phase 6 options
@@ -32,6 +36,22 @@ export interface XRulesExtendedConfig extends XRulesConfig {
    */
   scopes?: Scope[];
 
+  /**
+   * Glob patterns of scope files, relative to the project root (default: **\/*.scope.json)
+   */
+  scopeFiles?: string[];
+
+  /**
+   * How conflicts between scopes configuring a rule for the same elements are resolved
+   * (default: 'nearest-wins')
+   */
+  conflictResolution?: ConflictResolutionPolicy;
+
+  /**
+   * Directories of declarative YAML/JSON rule files, relative to the project root
+   */
+  ruleDirectories?: string[];
+
   /**
    * Presets to extend
    */
@@ -78,12 +98,30 @@ const CONFIG_FILES = [
   'xrules.config.json',
 ];
 
+/**
+ * Configuration and the file it was loaded from
+ */
+export interface ConfigSource {
+  config: XRulesExtendedConfig;
+  filePath: string;
+  key?: string; // Key holding the configuration within the file, e.g. 'xrules' in package.json
+}
+
 /**
  * Load configuration from file system
  */
 export async function loadConfig(
   cwd: string = process.cwd()
 ): Promise<XRulesExtendedConfig | null> {
+  return (await loadConfigSource(cwd))?.config ?? null;
+}
+
+/**
+ * Load configuration from file system, with the file it comes from
+ */
+export async function loadConfigSource(
+  cwd: string = process.cwd()
+): Promise<ConfigSource | null> {
   // Try each config file
   for (const configFile of CONFIG_FILES) {
     const configPath = path.join(cwd, configFile);
@@ -92,11 +130,11 @@ export async function loadConfig(
       try {
         if (configFile.endsWith('.json')) {
           const content = fs.readFileSync(configPath, 'utf-8');
-          return JSON.parse(content);
+          return { config: JSON.parse(content), filePath: configPath };
         } else if (configFile.endsWith('.js')) {
           // Dynamic import for .js files
           const config = require(configPath);
-          return config.default || config;
+          return { config: config.default || config, filePath: configPath };
         }
       } catch (error) {
         console.warn(`Warning: Failed to load config from ${configFile}:`, error);
@@ -111,7 +149,7 @@ export async function loadConfig(
       const content = fs.readFileSync(packageJsonPath, 'utf-8');
       const packageJson = JSON.parse(content);
       if (packageJson.xrules) {
-        return packageJson.xrules;
+        return { config: packageJson.xrules, filePath: packageJsonPath, key: 'xrules' };
       }
     } catch (error) {
       console.warn('Warning: Failed to load config from package.json:', error);
@@ -138,6 +176,7 @@ export function mergeConfigs(
     files: override.files || base.files,
     ignore: [...(base.ignore || []), ...(override.ignore || [])],
     scopes: [...(base.scopes || []), ...(override.scopes || [])],
+    ruleDirectories: [...(base.ruleDirectories || []), ...(override.ruleDirectories || [])],
   };
 }
 
@@ -191,6 +230,36 @@ export async function getResolvedConfig(
   return config;
 }
 
+/**
+ * Load declarative rules from YAML/JSON files in the given directories
+ * Throws RuleDefinitionError with file/line details for malformed rule files.
+ */
+export function loadRuleDirectories(
+  directories: string[],
+  cwd: string = process.cwd()
+): Rule[] {
+  const rules: Rule[] = [];
+  const definedIds = new Map<string, string>();
+
+  for (const directory of directories) {
+    const dirPath = path.resolve(cwd, directory);
+    if (!fs.existsSync(dirPath)) {
+      throw new Error(`Rule directory not found: ${dirPath}`);
+    }
+
+    const files = fs.readdirSync(dirPath)
+      .filter(file => RULE_FILE_EXTENSIONS.includes(path.extname(file)))
+      .sort();
+
+    for (const file of files) {
+      const filePath = path.join(dirPath, file);
+      rules.push(...parseRuleFile(fs.readFileSync(filePath, 'utf-8'), filePath, definedIds));
+    }
+  }
+
+  return rules;
+}
+
 /**
  * Get default configuration
  */
@@ -213,9 +282,10 @@ export function getDefaultConfig(): XRulesExtendedConfig {
 }
 
 /**
- * Validate configuration
+ * Validate configuration. When the available rules are given, rule options are
+ * checked against each rule's optionsSchema.
  */
-export function validateConfig(config: XRulesExtendedConfig): string[] {
+export function validateConfig(config: XRulesExtendedConfig, rules: AnyRule[] = []): string[] {
   const errors: string[] = [];
 
   // Validate format
@@ -230,18 +300,74 @@ export function validateConfig(config: XRulesExtendedConfig): string[] {
 
   // Validate rules
   if (config.rules) {
+    const validSeverities: RuleSeverity[] = ['error', 'warning', 'info', 'off'];
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+
     for (const [ruleId, ruleConfig] of Object.entries(config.rules)) {
-      if (typeof ruleConfig === 'string') {
-        const validSeverities: RuleSeverity[] = ['error', 'warning', 'info', 'off'];
-        if (!validSeverities.includes(ruleConfig as RuleSeverity)) {
-          errors.push(
-            `Invalid severity "${ruleConfig}" for rule "${ruleId}". Must be one of: ${validSeverities.join(', ')}`
-          );
-        }
+      const severity = typeof ruleConfig === 'string' ? ruleConfig : ruleConfig?.severity;
+      if (!validSeverities.includes(severity as RuleSeverity)) {
+        errors.push(
+          `Invalid severity "${severity}" for rule "${ruleId}". Must be one of: ${validSeverities.join(', ')}`
+        );
+      }
+
+      // Options can only be checked against rules we know about
+      const rule = rulesById.get(ruleId);
+      if (rule && typeof ruleConfig === 'object' && ruleConfig !== null) {
+        errors.push(...validateRuleOptions(rule, ruleConfig.options));
       }
     }
   }
 
+  // Rules with a pattern that cannot be parsed are skipped when checking
+  for (const rule of rules) {
+    const patternError = getPatternError(rule);
+    if (patternError) {
+      errors.push(patternError);
+    }
+  }
+
+  // Validate suppressions
+  if (config.suppressions) {
+    const validSeverities: RuleSeverity[] = ['error', 'warning', 'info', 'off'];
+    const { reportUnused, requireJustification } = config.suppressions;
+
+    if (reportUnused !== undefined && !validSeverities.includes(reportUnused)) {
+      errors.push(
+        `Invalid suppressions.reportUnused "${reportUnused}". Must be one of: ${validSeverities.join(', ')}`
+      );
+    }
+    if (requireJustification !== undefined && typeof requireJustification !== 'boolean') {
+      errors.push('suppressions.requireJustification must be a boolean');
+    }
+  }
+
+  // Validate ruleDirectories
+  if (config.ruleDirectories !== undefined) {
+    if (!Array.isArray(config.ruleDirectories) || config.ruleDirectories.some(dir => typeof dir !== 'string')) {
+      errors.push('ruleDirectories must be an array of directory paths');
+    }
+  }
+
+  // Validate scopes
+  if (config.scopeFiles !== undefined) {
+    if (!Array.isArray(config.scopeFiles) || config.scopeFiles.some(pattern => typeof pattern !== 'string')) {
+      errors.push('scopeFiles must be an array of glob patterns');
+    }
+  }
+  for (const scope of config.scopes ?? []) {
+    if (typeof scope?.id !== 'string' || typeof scope.name !== 'string') {
+      errors.push('Each scope must have an id and a name');
+    } else if (scope.extends !== undefined && (!Array.isArray(scope.extends) || scope.extends.some(id => typeof id !== 'string'))) {
+      errors.push(`extends of scope "${scope.id}" must be an array of scope ids`);
+    } else if (scope.priority !== undefined && typeof scope.priority !== 'number') {
+      errors.push(`priority of scope "${scope.id}" must be a number`);
+    }
+  }
+  if (config.conflictResolution !== undefined && !CONFLICT_RESOLUTION_POLICIES.includes(config.conflictResolution)) {
+    errors.push(`conflictResolution must be one of ${CONFLICT_RESOLUTION_POLICIES.join(', ')}`);
+  }
+
   // Validate maxWarnings
   if (config.maxWarnings !== undefined) {
     if (typeof config.maxWarnings !== 'number' || config.maxWarnings < 0) {
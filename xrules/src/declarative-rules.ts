@@ -0,0 +1,413 @@
+/**
+ * Declarative Rules
+ *
+ * Rules written as YAML or JSON data instead of TypeScript, so house-style owners
+ * can maintain them as living documentation:
+ *
+ *   id: hero-image-alt
+ *   category: accessibility
+ *   severity: error
+ *   pattern: .hero img
+ *   require: "[alt]:not([alt=''])"
+ *   message: Hero image {{attr.src}} needs descriptive alt text
+ *   documentation: https://example.com/style-guide#hero
+ *
+ * Constraints (all optional, combined with AND):
+ * - require: pattern each matched element must also match
+ * - forbid: pattern each matched element must not match
+ * - textMatches: regular expression the element's trimmed text must match ("/.../flags" or a bare source)
+ * - count: { of?, min?, max? } bounds on the number of descendants matching `of`,
+ *   or on the number of elements matching `pattern` in the document when `of` is omitted
+ *
+ * With no constraints, every element matching `pattern` is a violation.
+ * Messages and suggestions may interpolate {{attr.name}}, {{tagName}}, {{text}} and {{count}}.
+ */
+
+import { LineCounter, parseDocument, isNode, isScalar } from 'yaml';
+import type { Rule, RuleSeverity, Element, CheckContext } from './types';
+import { parsePattern, matchesExtended, queryExtended, PatternSyntaxError } from './extended-matcher';
+
+/**
+ * Rule definition as written in a rule file
+ */
+export interface DeclarativeRuleDefinition {
+  id: string;
+  name?: string;
+  description?: string;
+  category: Rule['category'];
+  severity: RuleSeverity;
+  pattern: string;
+  require?: string;
+  forbid?: string;
+  textMatches?: string;
+  count?: DeclarativeCountConstraint;
+  message: string;
+  suggest?: string;
+  documentation?: string;
+}
+
+/**
+ * Bounds for the count constraint
+ */
+export interface DeclarativeCountConstraint {
+  /**
+   * Pattern counted among the element's descendants; omit to count `pattern` matches in the document
+   */
+  of?: string;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Problem found while validating a rule definition
+ */
+export interface RuleDefinitionIssue {
+  message: string;
+
+  /**
+   * Path to the offending value within the definition, e.g. ['count', 'min']
+   */
+  path: Array<string | number>;
+
+  /**
+   * Character offset of the problem within a string value, when known
+   */
+  offset?: number;
+}
+
+/**
+ * Problem in a rule file, located by file and line
+ */
+export interface RuleFileIssue {
+  message: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Raised when a rule file cannot be loaded
+ */
+export class RuleDefinitionError extends Error {
+  readonly issues: RuleFileIssue[];
+
+  constructor(issues: RuleFileIssue[]) {
+    super(issues.map(issue => `${issue.file}:${issue.line}:${issue.column}: ${issue.message}`).join('\n'));
+    this.name = 'RuleDefinitionError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * File extensions recognised as rule files
+ */
+export const RULE_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+const CATEGORIES: Array<Rule['category']> = ['accessibility', 'seo', 'security', 'performance', 'best-practice'];
+const SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info', 'off'];
+const KNOWN_KEYS = [
+  'id', 'name', 'description', 'category', 'severity', 'pattern',
+  'require', 'forbid', 'textMatches', 'count', 'message', 'suggest', 'documentation',
+];
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * Validate a rule definition, returning every problem found
+ */
+export function validateDeclarativeRule(definition: unknown): RuleDefinitionIssue[] {
+  const issues: RuleDefinitionIssue[] = [];
+
+  if (!isRecord(definition)) {
+    return [{ message: 'Rule definition must be an object', path: [] }];
+  }
+
+  for (const key of Object.keys(definition)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      issues.push({ message: `Unknown property "${key}"`, path: [key] });
+    }
+  }
+
+  const requireString = (key: string, required: boolean): string | undefined => {
+    const value = definition[key];
+    if (value === undefined) {
+      if (required) {
+        issues.push({ message: `Missing required property "${key}"`, path: [] });
+      }
+      return undefined;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({ message: `"${key}" must be a non-empty string`, path: [key] });
+      return undefined;
+    }
+    return value;
+  };
+
+  const id = requireString('id', true);
+  if (id !== undefined && !/^[a-z0-9]+(-[a-z0-9]+)*(\/[a-z0-9]+(-[a-z0-9]+)*)?$/.test(id)) {
+    issues.push({ message: `Rule id "${id}" must be kebab-case`, path: ['id'] });
+  }
+
+  requireString('name', false);
+  requireString('description', false);
+  requireString('documentation', false);
+
+  const category = requireString('category', true);
+  if (category !== undefined && !CATEGORIES.includes(category as Rule['category'])) {
+    issues.push({ message: `Invalid category "${category}". Must be one of: ${CATEGORIES.join(', ')}`, path: ['category'] });
+  }
+
+  const severity = requireString('severity', true);
+  if (severity !== undefined && !SEVERITIES.includes(severity as RuleSeverity)) {
+    issues.push({ message: `Invalid severity "${severity}". Must be one of: ${SEVERITIES.join(', ')}`, path: ['severity'] });
+  }
+
+  for (const key of ['pattern', 'require', 'forbid']) {
+    const pattern = requireString(key, key === 'pattern');
+    if (pattern !== undefined) {
+      validatePattern(pattern, [key], issues);
+    }
+  }
+
+  const textMatches = requireString('textMatches', false);
+  if (textMatches !== undefined) {
+    try {
+      toRegExp(textMatches);
+    } catch (error) {
+      issues.push({ message: `Invalid regular expression: ${(error as Error).message}`, path: ['textMatches'] });
+    }
+  }
+
+  if (definition.count !== undefined) {
+    validateCount(definition.count, issues);
+  }
+
+  for (const key of ['message', 'suggest']) {
+    const template = requireString(key, key === 'message');
+    if (template !== undefined) {
+      for (const [, placeholder] of template.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!/^(attr\.[\w:-]+|tagName|text|count)$/.test(placeholder)) {
+          issues.push({
+            message: `Unknown placeholder "{{${placeholder}}}". Use {{attr.name}}, {{tagName}}, {{text}} or {{count}}`,
+            path: [key],
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Compile a validated rule definition into a Rule
+ */
+export function compileDeclarativeRule(definition: DeclarativeRuleDefinition): Rule {
+  const issues = validateDeclarativeRule(definition);
+  if (issues.length > 0) {
+    const details = issues.map(issue => formatIssuePath(issue.path) + issue.message).join('; ');
+    throw new Error(`Invalid rule definition${definition?.id ? ` "${definition.id}"` : ''}: ${details}`);
+  }
+
+  const textPattern = definition.textMatches !== undefined ? toRegExp(definition.textMatches) : null;
+  const constrained = definition.require !== undefined || definition.forbid !== undefined ||
+    textPattern !== null || definition.count !== undefined;
+
+  const rule: Rule = {
+    id: definition.id,
+    name: definition.name || definition.id,
+    description: definition.description || definition.message,
+    category: definition.category,
+    severity: definition.severity,
+    pattern: definition.pattern,
+
+    check(element: Element, context: CheckContext): string | null {
+      const values: Record<string, string> = {};
+      let satisfied = constrained;
+
+      if (definition.require !== undefined && !matchesExtended(element, definition.require)) {
+        satisfied = false;
+      }
+
+      if (definition.forbid !== undefined && matchesExtended(element, definition.forbid)) {
+        satisfied = false;
+      }
+
+      if (textPattern) {
+        textPattern.lastIndex = 0;
+        if (!textPattern.test(element.textContent.trim())) {
+          satisfied = false;
+        }
+      }
+
+      if (definition.count) {
+        const { of, min, max } = definition.count;
+        const count = of !== undefined
+          ? queryExtended(element, of).filter(match => match !== element).length
+          : queryExtended(context.document.documentElement, definition.pattern).length;
+
+        values.count = String(count);
+        if ((min !== undefined && count < min) || (max !== undefined && count > max)) {
+          satisfied = false;
+        }
+      }
+
+      return satisfied ? null : interpolate(definition.message, element, values);
+    },
+  };
+
+  if (definition.suggest !== undefined) {
+    const template = definition.suggest;
+    rule.suggest = element => interpolate(template, element, {});
+  }
+
+  if (definition.documentation !== undefined) {
+    rule.documentation = definition.documentation;
+  }
+
+  return rule;
+}
+
+/**
+ * Parse a YAML or JSON rule file containing one rule (a mapping) or several (a sequence)
+ * Throws RuleDefinitionError listing every problem with its line and column.
+ * `definedIds` maps rule IDs already loaded to their files, to reject duplicates across files.
+ */
+export function parseRuleFile(
+  content: string,
+  filePath: string,
+  definedIds: Map<string, string> = new Map()
+): Rule[] {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, { lineCounter, prettyErrors: false, uniqueKeys: true });
+
+  const locate = (offset: number, message: string): RuleFileIssue => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { message, file: filePath, line, column: col };
+  };
+
+  if (document.errors.length > 0) {
+    throw new RuleDefinitionError(document.errors.map(error => locate(error.pos[0], error.message.split('\n')[0])));
+  }
+
+  const data: unknown = document.toJS();
+  const definitions = Array.isArray(data) ? data : [data];
+  const basePath = (index: number) => (Array.isArray(data) ? [index] : []);
+
+  const issues: RuleFileIssue[] = [];
+  definitions.forEach((definition, index) => {
+    const definitionIssues = validateDeclarativeRule(definition);
+
+    const id = isRecord(definition) ? definition.id : undefined;
+    if (typeof id === 'string') {
+      const existing = definedIds.get(id);
+      if (existing) {
+        definitionIssues.push({ message: `Duplicate rule id "${id}" (already defined in ${existing})`, path: ['id'] });
+      } else {
+        definedIds.set(id, filePath);
+      }
+    }
+
+    for (const issue of definitionIssues) {
+      // Point at the offending value, or the closest enclosing node that exists
+      const path = [...basePath(index), ...issue.path];
+      let node: unknown = null;
+      while (path.length > 0 && !isNode(node = document.getIn(path, true))) {
+        path.pop();
+      }
+      const range = isNode(node) ? node.range : document.contents?.range;
+      let offset = range?.[0] ?? 0;
+
+      // Single-line scalars map string offsets directly onto the source
+      if (issue.offset !== undefined && isScalar(node) && typeof node.source === 'string' && !node.source.includes('\n')) {
+        const quoted = node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE';
+        offset += issue.offset + (quoted ? 1 : 0);
+      }
+
+      issues.push(locate(offset, issue.message));
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new RuleDefinitionError(issues);
+  }
+
+  return (definitions as DeclarativeRuleDefinition[]).map(compileDeclarativeRule);
+}
+
+/**
+ * Turn "/source/flags" or a bare source string into a RegExp
+ */
+function toRegExp(value: string): RegExp {
+  const literal = /^\/([\s\S]*)\/([a-z]*)$/.exec(value);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+}
+
+/**
+ * Fill {{...}} placeholders from the element
+ */
+function interpolate(template: string, element: Element, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, placeholder: string) => {
+    if (placeholder.startsWith('attr.')) {
+      return element.getAttribute(placeholder.slice('attr.'.length)) ?? '';
+    }
+    if (placeholder === 'tagName') {
+      return element.tagName;
+    }
+    if (placeholder === 'text') {
+      return element.textContent.trim();
+    }
+    return values[placeholder] ?? '';
+  });
+}
+
+function validatePattern(pattern: string, path: string[], issues: RuleDefinitionIssue[]): void {
+  try {
+    parsePattern(pattern);
+  } catch (error) {
+    if (error instanceof PatternSyntaxError) {
+      issues.push({ message: `Invalid pattern: ${error.message}`, path, offset: error.column - 1 });
+    } else {
+      throw error;
+    }
+  }
+}
+
+function validateCount(count: unknown, issues: RuleDefinitionIssue[]): void {
+  if (!isRecord(count)) {
+    issues.push({ message: '"count" must be an object with "min" and/or "max"', path: ['count'] });
+    return;
+  }
+
+  for (const key of Object.keys(count)) {
+    if (!['of', 'min', 'max'].includes(key)) {
+      issues.push({ message: `Unknown property "count.${key}"`, path: ['count', key] });
+    }
+  }
+
+  for (const key of ['min', 'max']) {
+    const value = count[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+      issues.push({ message: `"count.${key}" must be a non-negative integer`, path: ['count', key] });
+    }
+  }
+
+  if (count.min === undefined && count.max === undefined) {
+    issues.push({ message: '"count" needs at least one of "min" or "max"', path: ['count'] });
+  }
+
+  if (count.of !== undefined) {
+    if (typeof count.of !== 'string' || count.of.trim() === '') {
+      issues.push({ message: '"count.of" must be a non-empty string', path: ['count', 'of'] });
+    } else {
+      validatePattern(count.of, ['count', 'of'], issues);
+    }
+  }
+}
+
+function formatIssuePath(path: Array<string | number>): string {
+  return path.length > 0 ? `${path.join('.')}: ` : '';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,38 +4,49 @@
 
 import type {
   Rule,
+  AnyRule,
+  AggregateRule,
+  DocumentRule,
+  RuleMetadata,
+  RuleReport,
+  RuleConfig,
+  RelatedInformation,
+  CheckContext,
   Document,
   Element,
   Violation,
   CheckResult,
-  CheckContext,
   CheckOptions,
   XRulesConfig,
 } from './types';
-import { parseHTML, querySelectorAll } from './parser';
-import { queryExtended } from './extended-matcher';
+import { parseHTML } from './parser';
+import { createCheckContext } from './check-context';
+import { resolveRuleOptions } from './rule-options';
+import { queryExtended, parsePattern, PatternSyntaxError } from './extended-matcher';
+import { collectSuppressions, SuppressionSet, toSuppression } from './suppressions';
 
 /**
  * Main XRules Engine class
  */
 export class XRulesEngine {
-  private rules: Rule[] = [];
+  private rules: AnyRule[] = [];
+  private invalidPatterns = new Set<string>(); // Rules skipped for their pattern, reported once
 
-  constructor(rules: Rule[] = []) {
+  constructor(rules: AnyRule[] = []) {
     this.rules = rules;
   }
 
   /**
    * Add a rule to the engine
    */
-  addRule(rule: Rule): void {
+  addRule(rule: AnyRule): void {
     this.rules.push(rule);
   }
 
   /**
    * Add multiple rules
    */
-  addRules(rules: Rule[]): void {
+  addRules(rules: AnyRule[]): void {
     this.rules.push(...rules);
   }
 
@@ -54,15 +65,68 @@ export class XRulesEngine {
     const violations: Violation[] = [];
     const config = options.config;
 
-    const context: CheckContext = {
-      document,
-      querySelector: (selector: string) => document.querySelector(selector),
-      querySelectorAll: (selector: string) => document.querySelectorAll(selector),
-      getElementById: (id: string) => document.getElementById(id),
+    // Run each rule
+    for (const rule of this.getActiveRules(config)) {
+      const { severity, options } = this.getRuleSettings(rule, config);
+      if (severity === 'off') {
+        continue;
+      }
+
+      const context = createCheckContext(document, resolveRuleOptions(rule, options));
+      violations.push(...this.checkRule(rule, document, context, severity));
+    }
+
+    return this.createResult(document, filePath, violations, config);
+  }
+
+  /**
+   * Effective severity and options of a rule: its default severity, overridden by the configuration
+   */
+  protected getRuleSettings(rule: AnyRule, config?: XRulesConfig): RuleConfig {
+    const ruleConfig = config?.rules[rule.id];
+    if (!ruleConfig) {
+      return { severity: rule.severity };
+    }
+
+    return typeof ruleConfig === 'string'
+      ? { severity: ruleConfig }
+      : { severity: ruleConfig.severity, options: ruleConfig.options };
+  }
+
+  /**
+   * Result of checking a document: the violations not silenced by inline suppression comments,
+   * counted by severity
+   */
+  protected createResult(
+    document: Document,
+    filePath: string,
+    violations: Violation[],
+    config?: XRulesConfig
+  ): CheckResult {
+    const suppressions = new SuppressionSet(collectSuppressions(document), config?.suppressions);
+    const reported = violations.filter(violation => !suppressions.suppresses(violation));
+    reported.push(...suppressions.getViolations());
+
+    // Count violations by severity
+    const errorCount = reported.filter(v => v.severity === 'error').length;
+    const warningCount = reported.filter(v => v.severity === 'warning').length;
+    const infoCount = reported.filter(v => v.severity === 'info').length;
+
+    return {
+      filePath,
+      violations: reported,
+      errorCount,
+      warningCount,
+      infoCount,
+      unusedSuppressions: suppressions.getUnused().map(toSuppression),
     };
+  }
 
-    // Filter rules based on configuration
-    const activeRules = this.rules.filter(rule => {
+  /**
+   * Rules that are not turned off by their default severity or the configuration
+   */
+  protected getActiveRules(config?: XRulesConfig): AnyRule[] {
+    return this.rules.filter(rule => {
       if (!config) return rule.severity !== 'off';
 
       const ruleConfig = config.rules[rule.id];
@@ -74,83 +138,209 @@ export class XRulesEngine {
 
       return ruleConfig.severity !== 'off';
     });
+  }
 
-    // Run each rule
-    for (const rule of activeRules) {
-      // Get effective severity
-      let severity = rule.severity;
-      if (config && config.rules[rule.id]) {
-        const ruleConfig = config.rules[rule.id];
-        if (typeof ruleConfig === 'string') {
-          severity = ruleConfig;
-        } else {
-          severity = ruleConfig.severity;
-        }
-      }
+  /**
+   * Run a single rule of any kind against a document
+   */
+  protected checkRule(
+    rule: AnyRule,
+    document: Document,
+    context: CheckContext,
+    severity: Violation['severity']
+  ): Violation[] {
+    if (isDocumentRule(rule)) {
+      return rule.checkDocument(document, context).map(violation => ({
+        ...violation,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity,
+      }));
+    }
 
-      if (severity === 'off') {
-        continue;
+    const patternError = getPatternError(rule);
+    if (patternError) {
+      // A rule whose pattern cannot be parsed is skipped rather than failing the whole check
+      if (!this.invalidPatterns.has(rule.id)) {
+        this.invalidPatterns.add(rule.id);
+        console.warn(`Warning: ${patternError}; the rule is skipped`);
       }
+      return [];
+    }
 
-      // Find all elements matching the rule's pattern
-      // Use extended matcher if pattern contains extended syntax
-      const isExtendedPattern = /:(contains|has|without|has-parent|has-ancestor|has-sibling|not|count)/.test(rule.pattern);
-      const elements = isExtendedPattern
-        ? queryExtended(document.documentElement, rule.pattern)
-        : querySelectorAll(document.documentElement, rule.pattern);
+    const elements = queryExtended(document.documentElement, rule.pattern);
 
-      // Check each matching element
+    if (isAggregateRule(rule)) {
+      const state = rule.createState();
       for (const element of elements) {
-        const violationMessage = rule.check(element, context);
-
-        if (violationMessage) {
-          const location = element.getSourceLocation();
-          const suggestion = rule.suggest ? rule.suggest(element) : undefined;
-
-          violations.push({
-            ruleId: rule.id,
-            ruleName: rule.name,
-            message: violationMessage,
-            severity,
-            line: location?.line,
-            column: location?.column,
-            element: formatElement(element),
-            context: getElementContext(element),
-            suggestion,
-          });
-        }
+        rule.collect(element, state, context);
       }
+      return rule.finalize(state, context).map(violation => ({
+        ...violation,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity,
+      }));
     }
 
-    // Count violations by severity
-    const errorCount = violations.filter(v => v.severity === 'error').length;
-    const warningCount = violations.filter(v => v.severity === 'warning').length;
-    const infoCount = violations.filter(v => v.severity === 'info').length;
+    // Check each matching element
+    const violations: Violation[] = [];
+    for (const element of elements) {
+      const result = rule.check(element, context);
 
-    return {
-      filePath,
-      violations,
-      errorCount,
-      warningCount,
-      infoCount,
-    };
+      for (const violation of violationsFromCheck(rule, element, result)) {
+        violations.push({ ...violation, severity });
+      }
+    }
+    return violations;
   }
 
   /**
    * Get all registered rules
    */
-  getRules(): Rule[] {
+  getRules(): AnyRule[] {
     return [...this.rules];
   }
 
   /**
    * Get a rule by ID
    */
-  getRule(id: string): Rule | undefined {
+  getRule(id: string): AnyRule | undefined {
     return this.rules.find(rule => rule.id === id);
   }
 }
 
+/**
+ * Check if a rule runs once per document
+ */
+export function isDocumentRule(rule: AnyRule): rule is DocumentRule {
+  return rule.kind === 'document';
+}
+
+/**
+ * Check if a rule collects elements and reports once finalized
+ */
+export function isAggregateRule(rule: AnyRule): rule is AggregateRule {
+  return rule.kind === 'aggregate';
+}
+
+/**
+ * Check if a rule is checked once per matching element
+ */
+export function isElementRule(rule: AnyRule): rule is Rule {
+  return rule.kind === undefined || rule.kind === 'element';
+}
+
+/**
+ * Create a violation located at an element, or at no element for document-wide problems.
+ * The rule's default severity is used; the engine applies the configured one.
+ */
+export function createViolation(
+  rule: RuleMetadata,
+  element: Element | null,
+  message: string,
+  suggestion?: string
+): Violation {
+  const location = element?.getSourceLocation();
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    message,
+    severity: rule.severity === 'off' ? 'info' : rule.severity,
+    line: location?.line,
+    column: location?.column,
+    element: element ? formatElement(element) : undefined,
+    context: element ? getElementContext(element) : undefined,
+    suggestion,
+  };
+}
+
+/**
+ * Convert the result of Rule.check on an element into violations
+ */
+export function violationsFromCheck(
+  rule: Rule,
+  element: Element,
+  result: string | null | RuleReport[]
+): Violation[] {
+  if (!result) {
+    return [];
+  }
+
+  if (typeof result === 'string') {
+    return [createViolation(rule, element, result, rule.suggest?.(element))];
+  }
+
+  return result.map(report => {
+    const target = report.element || element;
+    const violation = createViolation(
+      rule,
+      target,
+      formatMessage(report.message, report.data),
+      report.suggestion ?? rule.suggest?.(target)
+    );
+
+    if (report.related && report.related.length > 0) {
+      violation.relatedInformation = report.related.map(related =>
+        createRelatedInformation(related.element, formatMessage(related.message, report.data))
+      );
+    }
+    if (report.data) {
+      violation.data = report.data;
+    }
+    if (report.fix) {
+      violation.fix = report.fix;
+    }
+    return violation;
+  });
+}
+
+/**
+ * Describe a secondary element involved in a violation
+ */
+export function createRelatedInformation(element: Element, message: string): RelatedInformation {
+  const location = element.getSourceLocation();
+
+  return {
+    message,
+    line: location?.line,
+    column: location?.column,
+    element: formatElement(element),
+  };
+}
+
+/**
+ * Fill {{key}} placeholders from report data; unknown keys are left as written
+ */
+function formatMessage(template: string, data?: RuleReport['data']): string {
+  if (!data) {
+    return template;
+  }
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, key: string) =>
+    key in data ? String(data[key]) : placeholder
+  );
+}
+
+/**
+ * Describe the problem with an element or aggregate rule's pattern, if it cannot be parsed
+ */
+export function getPatternError(rule: AnyRule): string | undefined {
+  if (isDocumentRule(rule)) {
+    return undefined;
+  }
+
+  try {
+    parsePattern(rule.pattern);
+    return undefined;
+  } catch (error) {
+    if (error instanceof PatternSyntaxError) {
+      return `Rule "${rule.id}" has an invalid pattern: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
 /**
  * Format an element for display
  */
@@ -199,6 +389,7 @@ export function createDefaultEngine(): XRulesEngine {
     ariaValidAttributes,
     ariaHiddenFocusable,
     tableHeaders,
+    uniqueIds,
   } = require('./rules/accessibility');
 
   // Phase 3 - SEO rules
@@ -248,6 +439,9 @@ export function createDefaultEngine(): XRulesEngine {
     landmarkRegions,
     formInputAutocomplete,
     ariaHiddenFocusable,
+
+    // Off unless a preset or config enables it, e.g. accessibilityStrict
+    { ...uniqueIds, severity: 'off' },
   ]);
 
   return engine;
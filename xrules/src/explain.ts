@@ -0,0 +1,472 @@
+/**
+ * Scope Traceability Reports
+ *
+ * Explains why a rule has the settings it has somewhere in a project. For a file, or a
+ * line of it, the report lists the scopes that apply with their hierarchy, and for each
+ * rule the setting every layer contributes (the rule's default, presets, the config file,
+ * then each scope, nearest last) with the file and key it comes from, and how conflicting
+ * scopes were resolved. For the whole project it reports which rules each scope configures,
+ * what each scope matches, the scopes that match nothing, and the conflicts between scopes
+ * applying to the same elements.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AnyRule, Document, Element, RuleSeverity, XRulesConfig } from './types';
+import type { Scope, ScopeRuleConfig, ScopeConflict, ConflictResolution, ConflictResolutionPolicy } from './scope-types';
+import type { ComponentAnalysis } from './jsx-parser';
+import { ScopeRegistry } from './scope-registry';
+import { loadScopes, LoadedScopes, ScopeSource } from './scope-loader';
+import { loadConfigSource, loadRuleDirectories, getDefaultConfig } from './config-loader';
+import { getPreset } from './presets';
+import { createDefaultEngine } from './engine';
+import { JsxRulesEngine } from './jsx-engine';
+import { optInNextjsRules } from './rules/nextjs';
+import { parseHTML } from './parser';
+import { getFrontEnd } from './front-ends';
+
+/**
+ * A file and the key within it that a setting comes from
+ */
+export interface SettingSource {
+  file: string; // Path, or `preset:<name>` for presets
+  key: string;
+}
+
+/**
+ * Rule settings of a preset or the config file
+ */
+export interface ConfigLayer {
+  rules: XRulesConfig['rules'];
+  source: SettingSource; // Where the rules object is
+}
+
+/**
+ * Everything deciding the rule settings of a project
+ */
+export interface ProjectSettings {
+  rules: AnyRule[];
+  layers: ConfigLayer[]; // In the order they apply, presets first
+  scopes: LoadedScopes;
+  registry: ScopeRegistry;
+  engine: JsxRulesEngine; // Renders components to find the elements selector scopes match
+  conflictResolution: ConflictResolutionPolicy;
+}
+
+/**
+ * A setting of a rule and where it comes from; the first step is the rule's default
+ */
+export interface RuleSettingStep {
+  severity?: RuleSeverity;
+  options?: Record<string, unknown>;
+  message?: string;
+  source?: SettingSource; // None for the rule's default
+  scope?: string; // Applied scope the setting comes through, itself or a scope it extends
+}
+
+/**
+ * Effective settings of a rule and the steps that led to them
+ */
+export interface RuleExplanation {
+  ruleId: string;
+  severity: RuleSeverity;
+  options?: Record<string, unknown>;
+  message?: string;
+  steps: RuleSettingStep[];
+  resolution?: ConflictResolution; // When the applied scopes configure the rule differently
+}
+
+/**
+ * A scope applying to a file or line
+ */
+export interface AppliedScope {
+  scope: Scope;
+  match: 'file' | 'component' | 'element';
+  hierarchy: string[]; // Ids from ScopeRegistry.getHierarchy, parents first
+  source?: ScopeSource;
+}
+
+/**
+ * Scopes and rule settings of a file, or of the elements starting on a line of it
+ */
+export interface FileExplanation {
+  filePath: string;
+  line?: number;
+  scopes: AppliedScope[]; // In the order they apply, nearest last
+  rules: RuleExplanation[];
+}
+
+/**
+ * What a scope matches across a project
+ */
+export interface ScopeCoverage {
+  scope: Scope; // With the rules of the scopes it extends
+  source?: ScopeSource;
+  files: string[];
+  elements: number; // Elements in the scope, counted once per source position
+}
+
+/**
+ * A conflict between scopes applying to the same elements, and the files where they do
+ */
+export interface ProjectConflict extends ScopeConflict {
+  files: string[];
+}
+
+/**
+ * Scopes of a project, the rules they configure and what they match
+ */
+export interface CoverageReport {
+  rules: string[]; // Rules any scope configures
+  scopes: ScopeCoverage[];
+  unused: string[]; // Scopes matching no file or element, other than ones other scopes extend or nest in
+  conflicts: ProjectConflict[];
+}
+
+/**
+ * An analyzed form of a file and the source position of its elements
+ */
+interface RenderedDocument {
+  document: Document;
+  locate(element: Element): { line: number; column: number } | undefined;
+}
+
+/**
+ * Load what decides the rule settings of the project in `cwd`: its configuration with the
+ * presets it extends, its scopes and scope files, and its rules
+ */
+export async function loadProjectSettings(cwd: string = process.cwd(), tsConfigPath?: string): Promise<ProjectSettings> {
+  const loaded = await loadConfigSource(cwd);
+  const config = loaded?.config ?? getDefaultConfig();
+
+  const layers: ConfigLayer[] = [];
+  for (const name of config.extends ?? []) {
+    const preset = getPreset(name);
+    if (preset) {
+      layers.push({ rules: preset.rules, source: { file: `preset:${name}`, key: 'rules' } });
+    }
+  }
+  if (loaded) {
+    layers.push({ rules: config.rules ?? {}, source: { file: loaded.filePath, key: joinKey(loaded.key, 'rules') } });
+  }
+
+  const scopes = loadScopes(config, cwd, loaded ?? undefined);
+  const registry = new ScopeRegistry();
+  registry.registerAll(scopes.scopes);
+
+  const engine = new JsxRulesEngine(createDefaultEngine().getRules(), tsConfigPath);
+  engine.addRules(optInNextjsRules);
+  engine.addRules(loadRuleDirectories(config.ruleDirectories || [], cwd));
+  engine.addRules(scopes.rules);
+
+  return {
+    rules: engine.getRules(),
+    layers,
+    scopes,
+    registry,
+    engine,
+    conflictResolution: config.conflictResolution ?? 'nearest-wins',
+  };
+}
+
+/**
+ * Explain the scopes and rule settings of a file, as checked from the project root. With a
+ * line, the selector scopes of the elements starting on it apply too.
+ */
+export function explainFile(project: ProjectSettings, filePath: string, line?: number): FileExplanation {
+  const { registry } = project;
+  const components = project.engine.analyzeSource(filePath);
+  const scopes: AppliedScope[] = [];
+
+  const apply = (scope: Scope, match: AppliedScope['match']) => {
+    if (scopes.some(applied => applied.scope.id === scope.id)) return;
+    scopes.push({
+      scope,
+      match,
+      hierarchy: registry.getHierarchy(scope.id).map(current => current.id),
+      source: project.scopes.sources.get(scope.id),
+    });
+  };
+
+  // The same order as ScopeAwareEngine: file and component scopes, then selector scopes outermost first
+  registry.findByFile(filePath).filter(scope => !scope.selector).forEach(scope => apply(scope, 'file'));
+  for (const component of components) {
+    registry.findByComponent(component.name).filter(scope => !scope.selector).forEach(scope => apply(scope, 'component'));
+  }
+
+  if (line !== undefined) {
+    for (const { document, locate } of renderDocuments(project, filePath, components)) {
+      for (const [element, elementScopes] of registry.resolveElementScopes(document, filePath)) {
+        if (locate(element)?.line === line) {
+          elementScopes.forEach(scope => apply(scope, 'element'));
+        }
+      }
+    }
+  }
+
+  return {
+    filePath,
+    line,
+    scopes,
+    rules: project.rules.map(rule => explainRule(project, rule, scopes.map(applied => applied.scope))),
+  };
+}
+
+/**
+ * Report what each scope of the project matches in the given files, and the rules it configures
+ */
+export function createCoverageReport(project: ProjectSettings, filePaths: string[]): CoverageReport {
+  const { registry } = project;
+  const matches = new Map<string, { files: Set<string>; elements: number }>();
+  for (const id of registry.scopes.keys()) {
+    matches.set(id, { files: new Set(), elements: 0 });
+  }
+
+  // Conflicts between the scopes applying to a file, or to an element of it
+  const conflicts = new Map<string, ProjectConflict>();
+  const findConflicts = (filePath: string, scopes: Scope[]) => {
+    for (const ruleId of new Set(scopes.flatMap(scope => Object.keys(scope.rules)))) {
+      const conflict = registry.resolveConflict(ruleId, scopes, project.conflictResolution);
+      if (!conflict) continue;
+
+      const key = JSON.stringify([ruleId, conflict.resolution.scopes]);
+      const found = conflicts.get(key) ?? { ...conflict, files: [] };
+      if (!found.files.includes(filePath)) found.files.push(filePath);
+      conflicts.set(key, found);
+    }
+  };
+
+  for (const filePath of filePaths) {
+    const components = project.engine.analyzeSource(filePath);
+    const fileScopes = Array.from(new Set([
+      ...registry.findByFile(filePath),
+      ...components.flatMap(component => registry.findByComponent(component.name)),
+    ])).filter(scope => !scope.selector);
+    fileScopes.forEach(scope => matches.get(scope.id)?.files.add(filePath));
+    findConflicts(filePath, fileScopes);
+
+    // Elements are counted once across the forms of the file
+    const positions = new Map<string, Set<string>>();
+    for (const { document, locate } of renderDocuments(project, filePath, components)) {
+      for (const [element, elementScopes] of registry.resolveElementScopes(document, filePath)) {
+        const location = locate(element);
+        if (!location) continue;
+
+        findConflicts(filePath, Array.from(new Set([...fileScopes, ...elementScopes])));
+        for (const scope of elementScopes) {
+          const scopePositions = positions.get(scope.id) ?? new Set<string>();
+          scopePositions.add(`${location.line}:${location.column}`);
+          positions.set(scope.id, scopePositions);
+        }
+      }
+    }
+    for (const [id, scopePositions] of positions) {
+      const match = matches.get(id)!;
+      match.files.add(filePath);
+      match.elements += scopePositions.size;
+    }
+  }
+
+  const scopes = Array.from(registry.scopes.values());
+  const referenced = new Set(scopes.flatMap(scope => [...(scope.parent ? [scope.parent] : []), ...(scope.extends ?? [])]));
+
+  return {
+    rules: Array.from(new Set(scopes.flatMap(scope => Object.keys(scope.rules)))).sort(),
+    scopes: scopes.map(scope => ({
+      scope,
+      source: project.scopes.sources.get(scope.id),
+      files: Array.from(matches.get(scope.id)!.files),
+      elements: matches.get(scope.id)!.elements,
+    })),
+    unused: scopes
+      .filter(scope => scope.enabled !== false && !referenced.has(scope.id) && matches.get(scope.id)!.files.size === 0)
+      .map(scope => scope.id),
+    conflicts: Array.from(conflicts.values()),
+  };
+}
+
+/**
+ * Format an explanation for the terminal
+ */
+export function formatExplanation(explanation: FileExplanation, cwd: string = process.cwd()): string {
+  const lines: string[] = [explanation.line !== undefined ? `${explanation.filePath}:${explanation.line}` : explanation.filePath, ''];
+
+  lines.push('Scopes (nearest last):');
+  if (explanation.scopes.length === 0) {
+    lines.push('  none');
+  }
+  for (const { scope, match, hierarchy, source } of explanation.scopes) {
+    const matched = match === 'element' ? `selector ${scope.selector}` : match === 'component' ? 'component' : `files ${scope.filePattern}`;
+    lines.push(`  ${hierarchy.join(' > ')}  (${matched})${source ? `  ${describeSource(source, cwd)}` : ''}`);
+  }
+
+  lines.push('', 'Rules:');
+  for (const rule of explanation.rules) {
+    lines.push(`  ${rule.ruleId}: ${describeSetting(rule)}`);
+    if (rule.resolution) {
+      lines.push(`    conflict between ${rule.resolution.scopes.join(', ')}: ${describeResolution(rule.resolution)}`);
+    }
+    for (const step of rule.steps) {
+      const origin = step.source ? describeSource(step.source, cwd) : 'default';
+      const through = step.scope ? `  (scope ${step.scope})` : '';
+      lines.push(`    ${describeSetting(step)}  ${origin}${through}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a coverage report as a scope x rule matrix for the terminal, with the severity each
+ * scope gives each rule
+ */
+export function formatCoverageReport(report: CoverageReport): string {
+  const header = ['Scope', 'Files', 'Elements', ...report.rules];
+  const rows = report.scopes.map(({ scope, files, elements }) => [
+    scope.id,
+    String(files.length),
+    String(elements),
+    ...report.rules.map(ruleId => {
+      const config = scope.rules[ruleId];
+      return !config ? '-' : config.severity ?? '~';
+    }),
+  ]);
+
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  const lines = [format(header), ...rows.map(format)];
+
+  lines.push('', '- rule not configured, ~ options or message only');
+  lines.push(report.unused.length > 0
+    ? `Scopes matching no files or elements: ${report.unused.join(', ')}`
+    : 'Every scope matches files or elements');
+
+  if (report.conflicts.length > 0) {
+    lines.push('', 'Conflicts:');
+    for (const conflict of report.conflicts) {
+      lines.push(`  ${formatConflict(conflict)}`);
+      lines.push(`    in ${conflict.files.join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describe a conflict between scopes on one line: the rule, the scopes, and how it was resolved
+ */
+export function formatConflict(conflict: ScopeConflict): string {
+  return `${conflict.ruleId}: ${conflict.resolution.scopes.join(', ')} (${conflict.type}) ${describeResolution(conflict.resolution)}`;
+}
+
+/**
+ * Settings of a rule through the layers of configuration and the applied scopes
+ */
+function explainRule(project: ProjectSettings, rule: AnyRule, scopes: Scope[]): RuleExplanation {
+  const steps: RuleSettingStep[] = [{ severity: rule.severity }];
+  let current: Omit<RuleExplanation, 'ruleId' | 'steps'> = { severity: rule.severity };
+
+  // A configuration layer replaces the settings before it, as XRulesEngine reads them
+  for (const { rules, source } of project.layers) {
+    const config = rules[rule.id];
+    if (config === undefined) continue;
+
+    current = typeof config === 'string' ? { severity: config } : { severity: config.severity, options: config.options };
+    steps.push({ ...current, source: { file: source.file, key: joinKey(source.key, rule.id) } });
+  }
+
+  // Scopes override the severity and message, and merge options; the scope winning a conflict applies last
+  const resolution = project.registry.resolveConflict(rule.id, scopes, project.conflictResolution)?.resolution;
+  const winner = resolution?.winner;
+  const ordered = winner
+    ? [...scopes.filter(scope => scope.id !== winner), ...scopes.filter(scope => scope.id === winner)]
+    : scopes;
+  for (const scope of ordered) {
+    for (const step of getScopeSteps(project, scope.id, rule.id, new Set())) {
+      steps.push({ ...step, scope: step.scope === scope.id ? scope.id : `${scope.id} < ${step.scope}` });
+      current = {
+        severity: step.severity ?? current.severity,
+        options: step.options ? { ...current.options, ...step.options } : current.options,
+        message: step.message ?? current.message,
+      };
+    }
+  }
+
+  return { ruleId: rule.id, ...current, steps, resolution };
+}
+
+/**
+ * Settings a scope gives a rule: those of the scopes it extends, then its own
+ */
+function getScopeSteps(project: ProjectSettings, scopeId: string, ruleId: string, visited: Set<string>): RuleSettingStep[] {
+  const scope = project.scopes.scopes.find(current => current.id === scopeId) ?? project.registry.get(scopeId);
+  if (!scope || visited.has(scopeId)) return [];
+  visited.add(scopeId);
+
+  const steps = (scope.extends ?? []).flatMap(id => getScopeSteps(project, id, ruleId, visited));
+  const config: ScopeRuleConfig | undefined = scope.rules[ruleId];
+  if (config) {
+    const source = project.scopes.sources.get(scopeId);
+    const key = project.scopes.declaringScopes.get(ruleId) === scopeId ? 'ruleDefinitions' : `rules.${ruleId}`;
+    steps.push({
+      severity: config.severity,
+      options: config.options,
+      message: config.message,
+      source: source && { file: source.file, key: joinKey(source.key, key) },
+      scope: scopeId,
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * The forms of a file as documents: the file itself for HTML, the forms of its components otherwise
+ */
+function renderDocuments(project: ProjectSettings, filePath: string, components: ComponentAnalysis[]): RenderedDocument[] {
+  if (getFrontEnd(filePath) === 'html') {
+    return [{
+      document: parseHTML(fs.readFileSync(filePath, 'utf-8')),
+      locate: element => element.getSourceLocation() ?? undefined,
+    }];
+  }
+
+  const parser = project.engine.getJsxParser();
+  return components.flatMap(component => component.variants.map(({ node }) => {
+    const { html, elements } = parser.renderHtml(node);
+    return {
+      document: parseHTML(html),
+      locate: (element: Element) => {
+        const location = element.getSourceLocation();
+        const source = location ? elements.get(`${location.line}:${location.column}`) : undefined;
+
+        // Elements of layouts in other files are not positioned in this one
+        if (source?.line === undefined || (source.filePath && path.resolve(source.filePath) !== path.resolve(filePath))) {
+          return undefined;
+        }
+        return { line: source.line, column: source.column ?? 1 };
+      },
+    };
+  }));
+}
+
+function describeResolution({ policy, winner, resolved }: ConflictResolution): string {
+  return resolved ? `${winner} wins (${policy})` : `unresolved (${policy})`;
+}
+
+function describeSetting({ severity, options, message }: Pick<RuleSettingStep, 'severity' | 'options' | 'message'>): string {
+  return [
+    severity ?? '(severity unchanged)',
+    options ? JSON.stringify(options) : undefined,
+    message ? `message "${message}"` : undefined,
+  ].filter(Boolean).join(' ');
+}
+
+function describeSource(source: SettingSource, cwd: string): string {
+  const file = source.file.startsWith('preset:') || !path.isAbsolute(source.file) ? source.file : path.relative(cwd, source.file);
+  return source.key ? `${file} ${source.key}` : file;
+}
+
+function joinKey(base: string | undefined, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
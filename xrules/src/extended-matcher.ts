@@ -4,224 +4,643 @@
  * This module provides pattern matching capabilities that go beyond standard CSS selectors.
  *
  * Extended Features:
- * - Content matching: :contains("text"), :contains-regex(/pattern/)
- * - Structural constraints: :has(selector), :without(attr)
- * - Parent/ancestor queries: :has-parent(selector), :has-ancestor(selector)
- * - Sibling queries: :has-sibling(selector), :next-to(selector)
- * - Count constraints: :count(operator, number)
+ * - Content matching: :contains("text"), :contains-i("text"), :contains-regex(/pattern/)
+ * - Structural constraints: :has(pattern), :without(attr)
+ * - Parent/ancestor queries: :has-parent(pattern), :has-ancestor(pattern)
+ * - Sibling queries: :has-sibling(pattern)
+ * - Count constraints: :count(operator number)
  * - Negation: :not(pattern)
+ *
+ * Patterns are parsed by a recursive-descent parser into a typed AST. Modifiers
+ * may be combined with standard CSS anywhere in a pattern, nested inside each
+ * other (`form:has(label:not(:has(input)))`), joined by combinators
+ * (`nav:has(ul) > a:contains("Home")`) and grouped in comma-separated lists.
+ *
+ * Grammar:
+ *   pattern-list     = complex-pattern ("," complex-pattern)*
+ *   complex-pattern  = compound (combinator compound)*
+ *   relative-pattern = [combinator] complex-pattern          (inside :has)
+ *   compound         = [type | "*"] (id | class | attribute | pseudo | modifier)*
+ *   modifier         = ":" modifier-name "(" arguments ")"
  */
 
 import type { Element } from './types';
 import { querySelectorAll } from './parser';
+import { matchesSelector, parseSelector, SelectorSyntaxError } from './selector';
+import type { Combinator } from './selector';
 
 /**
  * Extended pattern syntax
+ *
+ * Each pattern describes one compound selector (the rightmost one) and links
+ * to the compound on its left through `context`.
  */
 export interface ExtendedPattern {
+  /**
+   * Standard CSS portion of the compound with extended modifiers removed ('' if none)
+   */
   baseSelector: string;
+
+  /**
+   * Extended modifiers applied to the compound, in source order
+   */
   modifiers: PatternModifier[];
+
+  /**
+   * Compound to the left of this one and the combinator joining them
+   */
+  context?: PatternContext;
+}
+
+/**
+ * Relation between a compound and the pattern to its left
+ */
+export interface PatternContext {
+  combinator: Combinator;
+
+  /**
+   * Pattern on the left of the combinator. Absent for the leading combinator of a
+   * relative pattern in :has(), where the combinator relates to the tested element.
+   */
+  pattern?: ExtendedPattern;
 }
 
 /**
  * Pattern modifiers that extend CSS selectors
+ *
+ * Modifiers that take a pattern argument keep its source text in `selector`
+ * (or `pattern` for :not). When the argument itself uses extended syntax,
+ * its parsed form is attached as `nested`; plain CSS arguments are matched
+ * directly by the selector engine.
  */
 export type PatternModifier =
   | { type: 'contains'; text: string; caseSensitive: boolean }
   | { type: 'contains-regex'; pattern: RegExp }
-  | { type: 'has'; selector: string }
-  | { type: 'has-parent'; selector: string }
-  | { type: 'has-ancestor'; selector: string }
-  | { type: 'has-sibling'; selector: string }
+  | { type: 'has'; selector: string; nested?: ExtendedPattern[] }
+  | { type: 'has-parent'; selector: string; nested?: ExtendedPattern[] }
+  | { type: 'has-ancestor'; selector: string; nested?: ExtendedPattern[] }
+  | { type: 'has-sibling'; selector: string; nested?: ExtendedPattern[] }
   | { type: 'without'; attribute: string }
   | { type: 'count'; operator: 'eq' | 'gt' | 'lt' | 'gte' | 'lte'; value: number }
-  | { type: 'not'; pattern: string };
+  | { type: 'not'; pattern: string; nested?: ExtendedPattern[] };
 
 /**
- * Parse an extended pattern string into structured form
+ * Raised when a pattern string cannot be parsed
  */
-export function parseExtendedPattern(pattern: string): ExtendedPattern {
-  // Find modifiers (pseudo-selectors starting with :)
-  const modifiers: PatternModifier[] = [];
-  let baseSelector = pattern;
+export class PatternSyntaxError extends Error {
+  /**
+   * 1-based column in the pattern string where the problem was found
+   */
+  readonly column: number;
+
+  readonly pattern: string;
+
+  /**
+   * Description of the problem without the location suffix
+   */
+  readonly reason: string;
+
+  constructor(reason: string, pattern: string, offset: number) {
+    super(`${reason} at column ${offset + 1} in pattern "${pattern}"`);
+    this.name = 'PatternSyntaxError';
+    this.pattern = pattern;
+    this.reason = reason;
+    this.column = offset + 1;
+  }
+}
+
+/**
+ * Names of the extended modifiers; every other pseudo-class is standard CSS
+ */
+const MODIFIER_NAMES = new Set([
+  'contains',
+  'contains-i',
+  'contains-regex',
+  'has',
+  'has-parent',
+  'has-ancestor',
+  'has-sibling',
+  'without',
+  'count',
+  'not',
+]);
+
+const COUNT_OPERATORS: Record<string, 'eq' | 'gt' | 'lt' | 'gte' | 'lte'> = {
+  '=': 'eq',
+  '==': 'eq',
+  '>': 'gt',
+  '<': 'lt',
+  '>=': 'gte',
+  '<=': 'lte',
+};
 
-  // Extract modifiers
-  const modifierRegex = /:([a-z-]+)(?:\(([^)]+)\))?/g;
-  let match;
-  const modifierMatches: Array<{ full: string; name: string; args: string }> = [];
+/**
+ * Recursive-descent parser for the extended pattern language
+ */
+class PatternParser {
+  private pos = 0;
 
-  while ((match = modifierRegex.exec(pattern)) !== null) {
-    modifierMatches.push({
-      full: match[0],
-      name: match[1],
-      args: match[2] || '',
-    });
+  constructor(private source: string) {}
+
+  parseList(): ExtendedPattern[] {
+    const list = this.parsePatternList(false);
+    this.expectEnd();
+    return list;
   }
 
-  // Remove modifiers from base selector
-  for (const mod of modifierMatches) {
-    baseSelector = baseSelector.replace(mod.full, '');
+  parseSingle(): ExtendedPattern {
+    const pattern = this.parseComplex(false);
+    this.skipWhitespace();
+    if (this.peek() === ',') {
+      this.fail('Expected a single pattern; use parsePattern() for comma-separated lists');
+    }
+    this.expectEnd();
+    return pattern;
   }
 
-  baseSelector = baseSelector.trim();
+  private parsePatternList(relative: boolean): ExtendedPattern[] {
+    const list = [this.parseComplex(relative)];
 
-  // Parse each modifier
-  for (const mod of modifierMatches) {
-    switch (mod.name) {
-      case 'contains':
-        {
-          // :contains("text") or :contains('text')
-          const textMatch = mod.args.match(/^["'](.+)["']$/);
-          if (textMatch) {
-            modifiers.push({
-              type: 'contains',
-              text: textMatch[1],
-              caseSensitive: true,
-            });
-          }
-        }
+    this.skipWhitespace();
+    while (this.peek() === ',') {
+      this.pos++;
+      list.push(this.parseComplex(relative));
+      this.skipWhitespace();
+    }
+
+    return list;
+  }
+
+  private parseComplex(relative: boolean): ExtendedPattern {
+    this.skipWhitespace();
+
+    let context: PatternContext | undefined;
+    if (relative && isCombinatorChar(this.peek())) {
+      context = { combinator: this.source[this.pos++] as Combinator };
+      this.skipWhitespace();
+    }
+
+    let pattern = this.parseCompound(context);
+
+    while (true) {
+      const hadWhitespace = this.skipWhitespace();
+      const ch = this.peek();
+
+      let combinator: Combinator | null = null;
+      if (isCombinatorChar(ch)) {
+        combinator = ch as Combinator;
+        this.pos++;
+        this.skipWhitespace();
+      } else if (hadWhitespace && this.startsCompound()) {
+        combinator = ' ';
+      }
+
+      if (!combinator) {
         break;
+      }
 
-      case 'contains-i':
-        {
-          // :contains-i("text") - case insensitive
-          const textMatch = mod.args.match(/^["'](.+)["']$/);
-          if (textMatch) {
-            modifiers.push({
-              type: 'contains',
-              text: textMatch[1],
-              caseSensitive: false,
-            });
-          }
+      pattern = this.parseCompound({ combinator, pattern });
+    }
+
+    return pattern;
+  }
+
+  private parseCompound(context?: PatternContext): ExtendedPattern {
+    const start = this.pos;
+    const cssParts: Array<{ text: string; start: number }> = [];
+    const modifiers: PatternModifier[] = [];
+
+    if (this.peek() === '*') {
+      cssParts.push({ text: '*', start: this.pos++ });
+    } else if (this.startsIdent()) {
+      const identStart = this.pos;
+      cssParts.push({ text: this.scanIdent(), start: identStart });
+    }
+
+    while (!this.atEnd()) {
+      const ch = this.peek();
+      const partStart = this.pos;
+
+      if (ch === '#' || ch === '.') {
+        this.pos++;
+        if (!this.startsIdent()) {
+          this.fail(ch === '#' ? 'Expected an id after "#"' : 'Expected a class name after "."');
         }
-        break;
+        cssParts.push({ text: ch + this.scanIdent(), start: partStart });
+      } else if (ch === '[') {
+        this.scanBalanced('[', ']');
+        cssParts.push({ text: this.source.slice(partStart, this.pos), start: partStart });
+      } else if (ch === ':') {
+        this.pos++;
+        if (this.peek() === ':') {
+          this.fail('Pseudo-elements are not supported');
+        }
+        if (!this.startsIdent()) {
+          this.fail('Expected a pseudo-class or modifier name after ":"');
+        }
+        const name = this.scanIdent();
+        const lower = name.toLowerCase();
 
-      case 'contains-regex':
-        {
-          // :contains-regex(/pattern/flags)
-          const regexMatch = mod.args.match(/^\/(.+)\/([gimuy]*)$/);
-          if (regexMatch) {
-            modifiers.push({
-              type: 'contains-regex',
-              pattern: new RegExp(regexMatch[1], regexMatch[2]),
-            });
+        if (this.peek() === '(' && MODIFIER_NAMES.has(lower)) {
+          modifiers.push(this.parseModifier(lower));
+        } else if (MODIFIER_NAMES.has(lower)) {
+          this.fail(`Modifier ":${name}" requires an argument in parentheses`, partStart);
+        } else {
+          if (this.peek() === '(') {
+            this.scanBalanced('(', ')');
           }
+          cssParts.push({ text: this.source.slice(partStart, this.pos), start: partStart });
         }
+      } else {
         break;
+      }
+    }
 
-      case 'has':
-        modifiers.push({
-          type: 'has',
-          selector: mod.args,
-        });
-        break;
+    if (this.pos === start) {
+      if (this.atEnd()) {
+        this.fail('Expected a pattern but reached the end');
+      }
+      this.fail(`Unexpected "${this.peek()}"`);
+    }
 
-      case 'has-parent':
-        modifiers.push({
-          type: 'has-parent',
-          selector: mod.args,
-        });
-        break;
+    // Let the CSS engine validate the standard parts, mapping its columns back onto the pattern
+    for (const part of cssParts) {
+      try {
+        parseSelector(part.text);
+      } catch (error) {
+        if (error instanceof SelectorSyntaxError) {
+          throw new PatternSyntaxError(error.reason, this.source, part.start + error.column - 1);
+        }
+        throw error;
+      }
+    }
 
-      case 'has-ancestor':
-        modifiers.push({
-          type: 'has-ancestor',
-          selector: mod.args,
-        });
-        break;
+    const pattern: ExtendedPattern = {
+      baseSelector: cssParts.map(part => part.text).join(''),
+      modifiers,
+    };
+    if (context) {
+      pattern.context = context;
+    }
+    return pattern;
+  }
+
+  /**
+   * Parse a modifier's argument list; the position is at the opening parenthesis
+   */
+  private parseModifier(name: string): PatternModifier {
+    const open = this.pos;
+    this.pos++;
+    this.skipWhitespace();
+
+    switch (name) {
+      case 'contains':
+      case 'contains-i': {
+        if (this.peek() !== '"' && this.peek() !== "'") {
+          this.fail(`Expected a quoted string in :${name}()`);
+        }
+        const text = this.scanString();
+        this.expectClose(name);
+        return { type: 'contains', text, caseSensitive: name === 'contains' };
+      }
+
+      case 'contains-regex': {
+        const pattern = this.scanRegex();
+        this.expectClose(name);
+        return { type: 'contains-regex', pattern };
+      }
 
+      case 'has':
+      case 'has-parent':
+      case 'has-ancestor':
       case 'has-sibling':
-        modifiers.push({
-          type: 'has-sibling',
-          selector: mod.args,
-        });
-        break;
+      case 'not': {
+        const argStart = this.pos;
+        const nested = this.parsePatternList(name === 'has');
+        const selector = this.source.slice(argStart, this.pos).trim();
+        this.expectClose(name);
+
+        const extended = nested.every(isPlainCss) ? {} : { nested };
+        return name === 'not'
+          ? { type: 'not', pattern: selector, ...extended }
+          : { type: name, selector, ...extended };
+      }
 
-      case 'without':
-        modifiers.push({
-          type: 'without',
-          attribute: mod.args,
-        });
-        break;
+      case 'without': {
+        if (!this.startsIdent()) {
+          this.fail('Expected an attribute name in :without()');
+        }
+        const attribute = this.scanIdent().toLowerCase();
+        this.expectClose(name);
+        return { type: 'without', attribute };
+      }
 
-      case 'count':
-        {
-          // :count(>5), :count(=1), :count(<3)
-          const countMatch = mod.args.match(/^([><=]+)(\d+)$/);
-          if (countMatch) {
-            let operator: 'eq' | 'gt' | 'lt' | 'gte' | 'lte';
-            switch (countMatch[1]) {
-              case '=':
-              case '==':
-                operator = 'eq';
-                break;
-              case '>':
-                operator = 'gt';
-                break;
-              case '<':
-                operator = 'lt';
-                break;
-              case '>=':
-                operator = 'gte';
-                break;
-              case '<=':
-                operator = 'lte';
-                break;
-              default:
-                operator = 'eq';
-            }
-
-            modifiers.push({
-              type: 'count',
-              operator,
-              value: parseInt(countMatch[2], 10),
-            });
-          }
+      case 'count': {
+        const operatorMatch = /^(==|>=|<=|=|>|<)/.exec(this.source.slice(this.pos));
+        if (!operatorMatch) {
+          this.fail('Expected a comparison operator (=, >, <, >=, <=) in :count()');
         }
-        break;
+        this.pos += operatorMatch[0].length;
+        this.skipWhitespace();
 
-      case 'not':
-        modifiers.push({
-          type: 'not',
-          pattern: mod.args,
-        });
+        const valueMatch = /^\d+/.exec(this.source.slice(this.pos));
+        if (!valueMatch) {
+          this.fail('Expected a number in :count()');
+        }
+        this.pos += valueMatch[0].length;
+        this.expectClose(name);
+
+        return {
+          type: 'count',
+          operator: COUNT_OPERATORS[operatorMatch[0]],
+          value: parseInt(valueMatch[0], 10),
+        };
+      }
+    }
+
+    return this.fail(`Unknown modifier ":${name}"`, open);
+  }
+
+  private expectClose(name: string): void {
+    this.skipWhitespace();
+    if (this.peek() !== ')') {
+      this.fail(this.atEnd()
+        ? `Missing closing ")" for :${name}()`
+        : `Expected ")" to close :${name}() but found "${this.peek()}"`);
+    }
+    this.pos++;
+  }
+
+  private expectEnd(): void {
+    this.skipWhitespace();
+    if (!this.atEnd()) {
+      this.fail(`Unexpected "${this.peek()}"`);
+    }
+  }
+
+  /**
+   * Read a quoted string, returning its unescaped contents
+   */
+  private scanString(): string {
+    const quote = this.source[this.pos];
+    const start = this.pos;
+    this.pos++;
+
+    let value = '';
+    while (!this.atEnd() && this.peek() !== quote) {
+      if (this.peek() === '\\' && this.pos + 1 < this.source.length) {
+        this.pos++;
+      }
+      value += this.source[this.pos++];
+    }
+
+    if (this.atEnd()) {
+      this.fail('Unterminated string', start);
+    }
+    this.pos++;
+    return value;
+  }
+
+  /**
+   * Read a /regex/flags literal
+   */
+  private scanRegex(): RegExp {
+    const start = this.pos;
+    if (this.peek() !== '/') {
+      this.fail('Expected a regular expression literal like /pattern/i in :contains-regex()');
+    }
+    this.pos++;
+
+    let body = '';
+    let inClass = false;
+    while (!this.atEnd()) {
+      const ch = this.peek();
+      if (ch === '\\' && this.pos + 1 < this.source.length) {
+        body += ch + this.source[this.pos + 1];
+        this.pos += 2;
+        continue;
+      }
+      if (ch === '/' && !inClass) break;
+      if (ch === '[') inClass = true;
+      if (ch === ']') inClass = false;
+      body += ch;
+      this.pos++;
+    }
+
+    if (this.atEnd()) {
+      this.fail('Unterminated regular expression', start);
+    }
+    this.pos++;
+
+    const flags = /^[a-z]*/.exec(this.source.slice(this.pos))![0];
+    this.pos += flags.length;
+
+    try {
+      return new RegExp(body, flags);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return this.fail(`Invalid regular expression: ${reason}`, start);
+    }
+  }
+
+  /**
+   * Skip a bracketed CSS fragment, honouring nesting and quoted strings
+   */
+  private scanBalanced(open: string, close: string): void {
+    const start = this.pos;
+    let depth = 0;
+
+    while (!this.atEnd()) {
+      const ch = this.peek();
+      if (ch === '"' || ch === "'") {
+        this.scanString();
+        continue;
+      }
+      if (ch === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      this.pos++;
+      if (ch === open) {
+        depth++;
+      } else if (ch === close && --depth === 0) {
+        return;
+      }
+    }
+
+    this.fail(`Missing closing "${close}"`, start);
+  }
+
+  private scanIdent(): string {
+    const start = this.pos;
+    while (!this.atEnd()) {
+      const ch = this.peek();
+      if (ch === '\\') {
+        this.pos += 2;
+      } else if (/[a-zA-Z0-9_-]/.test(ch) || ch.charCodeAt(0) >= 0x80) {
+        this.pos++;
+      } else {
         break;
+      }
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private startsIdent(): boolean {
+    const ch = this.peek();
+    const next = this.source[this.pos + 1];
+    if (ch === '-') {
+      return next !== undefined && (/[a-zA-Z_\\-]/.test(next) || next.charCodeAt(0) >= 0x80);
+    }
+    return ch !== '' && (/[a-zA-Z_\\]/.test(ch) || ch.charCodeAt(0) >= 0x80);
+  }
+
+  private startsCompound(): boolean {
+    const ch = this.peek();
+    return this.startsIdent() || ['*', '#', '.', '[', ':'].includes(ch);
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.pos;
+    while (!this.atEnd() && /\s/.test(this.peek())) {
+      this.pos++;
     }
+    return this.pos > start;
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? '';
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.source.length;
+  }
+
+  private fail(reason: string, offset: number = this.pos): never {
+    throw new PatternSyntaxError(reason, this.source, offset);
+  }
+}
+
+function isCombinatorChar(ch: string): boolean {
+  return ch === '>' || ch === '+' || ch === '~';
+}
+
+/**
+ * Check if a parsed pattern is expressible as standard CSS
+ * (only :has() and :not() modifiers with plain arguments)
+ */
+function isPlainCss(pattern: ExtendedPattern): boolean {
+  const plainModifiers = pattern.modifiers.every(modifier =>
+    (modifier.type === 'has' || modifier.type === 'not') && !modifier.nested
+  );
+  return plainModifiers && (!pattern.context?.pattern || isPlainCss(pattern.context.pattern));
+}
+
+const patternCache = new Map<string, ExtendedPattern[]>();
+
+/**
+ * Parse a (possibly comma-separated) pattern string into its AST
+ * Throws PatternSyntaxError with the column of the problem for invalid patterns.
+ */
+export function parsePattern(pattern: string): ExtendedPattern[] {
+  const cached = patternCache.get(pattern);
+  if (cached) {
+    return cached;
   }
 
-  return {
-    baseSelector,
-    modifiers,
-  };
+  const parsed = new PatternParser(pattern).parseList();
+  patternCache.set(pattern, parsed);
+  return parsed;
+}
+
+/**
+ * Parse a single extended pattern string into structured form
+ */
+export function parseExtendedPattern(pattern: string): ExtendedPattern {
+  return new PatternParser(pattern).parseSingle();
 }
 
 /**
  * Query elements using extended pattern syntax
  */
 export function queryExtended(root: Element, pattern: string): Element[] {
-  const parsed = parseExtendedPattern(pattern);
+  const alternatives = parsePattern(pattern);
+
+  // Plain CSS goes straight to the selector engine
+  if (alternatives.every(isPlainCss)) {
+    return querySelectorAll(root, pattern);
+  }
+
+  const elements = getAllElements(root);
+  const matched = new Set<Element>();
 
-  // Get base elements
-  let elements: Element[];
+  for (const alternative of alternatives) {
+    let results = elements.filter(el => matchesPattern(el, alternative));
 
-  if (parsed.baseSelector === '' || parsed.baseSelector === '*') {
-    elements = getAllElements(root);
-  } else {
-    elements = querySelectorAll(root, parsed.baseSelector);
+    // :count() constrains the whole result set rather than single elements
+    for (const modifier of alternative.modifiers) {
+      if (modifier.type === 'count') {
+        results = applyCountConstraint(results, modifier.operator, modifier.value);
+      }
+    }
+
+    results.forEach(el => matched.add(el));
   }
 
-  // Apply modifiers
-  for (const modifier of parsed.modifiers) {
-    elements = elements.filter(el => matchesModifier(el, modifier, root));
+  return elements.filter(el => matched.has(el));
+}
+
+/**
+ * Check if a single element matches an extended pattern
+ * :count() modifiers are ignored, since they only apply to result sets.
+ */
+export function matchesExtended(element: Element, pattern: string): boolean {
+  return parsePattern(pattern).some(alternative => matchesPattern(element, alternative));
+}
+
+/**
+ * Match a compound pattern against the element, then walk its context leftwards.
+ * `anchor` is the element a relative :has() pattern is evaluated against.
+ */
+function matchesPattern(element: Element, pattern: ExtendedPattern, anchor?: Element): boolean {
+  if (pattern.baseSelector !== '' && !matchesSelector(element, pattern.baseSelector)) {
+    return false;
   }
 
-  return elements;
+  if (!pattern.modifiers.every(modifier => matchesModifier(element, modifier))) {
+    return false;
+  }
+
+  const context = pattern.context;
+
+  if (!context?.pattern) {
+    // Leftmost compound: inside :has() it must relate to the anchor
+    return anchor ? isRelated(anchor, element, context?.combinator ?? ' ') : true;
+  }
+
+  const left = context.pattern;
+
+  switch (context.combinator) {
+    case '>':
+      return !!element.parent && matchesPattern(element.parent, left, anchor);
+
+    case ' ':
+      return ancestorsOf(element).some(ancestor => matchesPattern(ancestor, left, anchor));
+
+    case '+': {
+      const previous = precedingSiblings(element)[0];
+      return !!previous && matchesPattern(previous, left, anchor);
+    }
+
+    case '~':
+      return precedingSiblings(element).some(sibling => matchesPattern(sibling, left, anchor));
+  }
 }
 
 /**
  * Check if element matches a modifier
  */
-function matchesModifier(element: Element, modifier: PatternModifier, root: Element): boolean {
+function matchesModifier(element: Element, modifier: PatternModifier): boolean {
   switch (modifier.type) {
     case 'contains':
       {
@@ -234,79 +653,120 @@ function matchesModifier(element: Element, modifier: PatternModifier, root: Elem
       }
 
     case 'contains-regex':
+      modifier.pattern.lastIndex = 0;
       return modifier.pattern.test(element.textContent);
 
     case 'has':
       {
-        // Element must contain a child matching the selector
-        const children = querySelectorAll(element, modifier.selector);
-        return children.length > 0;
+        // Element must contain a descendant (or, with a leading combinator, a
+        // child or following sibling) matching the pattern
+        if (!modifier.nested) {
+          return matchesSelector(element, `:has(${modifier.selector})`);
+        }
+
+        return modifier.nested.some(pattern => {
+          const combinator = leftmostCombinator(pattern);
+          const candidates = combinator === '+' || combinator === '~'
+            ? followingSiblings(element).flatMap(getAllElements)
+            : element.children.flatMap(getAllElements);
+
+          return candidates.some(candidate => matchesPattern(candidate, pattern, element));
+        });
       }
 
     case 'has-parent':
-      {
-        // Element's immediate parent must match selector
-        if (!element.parent) return false;
-        const matches = querySelectorAll(root, modifier.selector);
-        return matches.includes(element.parent);
-      }
+      // Element's immediate parent must match
+      return !!element.parent && matchesArgument(element.parent, modifier.selector, modifier.nested);
 
     case 'has-ancestor':
-      {
-        // Element must have an ancestor matching selector
-        let current = element.parent;
-        const matches = querySelectorAll(root, modifier.selector);
-
-        while (current) {
-          if (matches.includes(current)) {
-            return true;
-          }
-          current = current.parent;
-        }
-
-        return false;
-      }
+      // Element must have an ancestor matching the pattern
+      return ancestorsOf(element).some(ancestor => matchesArgument(ancestor, modifier.selector, modifier.nested));
 
     case 'has-sibling':
       {
-        // Element must have a sibling matching selector
+        // Element must have a sibling matching the pattern
         if (!element.parent) return false;
 
-        const siblings = element.parent.children.filter(child => child !== element);
-        const matches = querySelectorAll(root, modifier.selector);
-
-        for (const sibling of siblings) {
-          if (matches.includes(sibling)) {
-            return true;
-          }
-        }
-
-        return false;
+        return element.parent.children
+          .filter(child => child !== element)
+          .some(sibling => matchesArgument(sibling, modifier.selector, modifier.nested));
       }
 
     case 'without':
       return !element.hasAttribute(modifier.attribute);
 
     case 'count':
-      {
-        // This is a special case - count applies to the whole result set
-        // So we need to handle this at a higher level
-        // For now, we'll skip it here and handle it separately
-        return true;
-      }
+      // Count applies to the whole result set and is handled in queryExtended
+      return true;
 
     case 'not':
-      {
-        // Element must NOT match the pattern
-        const matches = queryExtended(root, modifier.pattern);
-        return !matches.includes(element);
-      }
+      // Element must NOT match the pattern
+      return !matchesArgument(element, modifier.pattern, modifier.nested);
 
     default:
       return true;
   }
 }
 
+/**
+ * Match a modifier argument, using the parsed form when it has extended syntax
+ */
+function matchesArgument(element: Element, selector: string, nested?: ExtendedPattern[]): boolean {
+  return nested
+    ? nested.some(pattern => matchesPattern(element, pattern))
+    : matchesSelector(element, selector);
+}
+
+/**
+ * Combinator that relates the leftmost compound of a relative pattern to its anchor
+ */
+function leftmostCombinator(pattern: ExtendedPattern): Combinator {
+  let current = pattern;
+  while (current.context?.pattern) {
+    current = current.context.pattern;
+  }
+  return current.context?.combinator ?? ' ';
+}
+
+/**
+ * Check whether `target` stands in the given combinator relation to `anchor`
+ */
+function isRelated(anchor: Element, target: Element, combinator: Combinator): boolean {
+  switch (combinator) {
+    case '>':
+      return target.parent === anchor;
+    case ' ':
+      return ancestorsOf(target).includes(anchor);
+    case '+':
+      return precedingSiblings(target)[0] === anchor;
+    case '~':
+      return precedingSiblings(target).includes(anchor);
+  }
+}
+
+function ancestorsOf(element: Element): Element[] {
+  const ancestors: Element[] = [];
+  for (let current = element.parent; current; current = current.parent) {
+    ancestors.push(current);
+  }
+  return ancestors;
+}
+
+/**
+ * Preceding siblings, nearest first
+ */
+function precedingSiblings(element: Element): Element[] {
+  if (!element.parent) return [];
+  const siblings = element.parent.children;
+  return siblings.slice(0, siblings.indexOf(element)).reverse();
+}
+
+function followingSiblings(element: Element): Element[] {
+  if (!element.parent) return [];
+  const siblings = element.parent.children;
+  return siblings.slice(siblings.indexOf(element) + 1);
+}
+
 /**
  * Get all elements in the tree
  */
@@ -4,11 +4,14 @@
  * Engine that checks HTML and generates fixes for violations
  */
 
-import { XRulesEngine } from './engine';
+import { XRulesEngine, isElementRule, violationsFromCheck } from './engine';
 import { FixableViolation } from './fix-types';
-import { CheckContext, CheckResult, Violation, Element } from './types';
+import { CheckResult, Element } from './types';
 import { FixableRule, fixableRules } from './fixable-rules';
 import { parseHTML } from './parser';
+import { createCheckContext } from './check-context';
+import { resolveRuleOptions } from './rule-options';
+import { queryExtended } from './extended-matcher';
 
 /**
  * Helper: Serialize element to HTML string
@@ -83,18 +86,32 @@ export class FixAwareEngine extends XRulesEngine {
     for (const rule of allRules) {
       if (rule.severity === 'off') continue;
 
-      const elements = document.querySelectorAll(rule.pattern);
+      // Document and aggregate rules report whole-document problems, which are never fixable
+      if (!isElementRule(rule)) {
+        const context = createCheckContext(document, resolveRuleOptions(rule));
+        for (const violation of this.checkRule(rule, document, context, rule.severity)) {
+          violations.push({ ...violation, fixable: false });
+        }
+        continue;
+      }
+
+      const elements = queryExtended(document.documentElement, rule.pattern);
 
       for (const element of elements) {
-        const context: CheckContext = {
-          document,
-          querySelector: (selector: string) => document.querySelector(selector),
-          querySelectorAll: (selector: string) => document.querySelectorAll(selector),
-          getElementById: (id: string) => document.getElementById(id),
-        };
+        const context = createCheckContext(document, resolveRuleOptions(rule));
 
         const message = rule.check(element, context);
 
+        // Structured reports carry their own locations and fixes
+        if (Array.isArray(message)) {
+          const fixableRule = this.fixableRules.get(rule.id);
+          for (const violation of violationsFromCheck(rule, element, message)) {
+            const fix = violation.fix || fixableRule?.fix?.(element, context) || undefined;
+            violations.push({ ...violation, severity: rule.severity, fix, fixable: fix !== undefined });
+          }
+          continue;
+        }
+
         if (message) {
           const location = element.getSourceLocation();
 
@@ -234,7 +234,7 @@ export const formLabelsExplicitFixable: FixableRule = {
     }
 
     // Look for label with matching for attribute
-    const labels = context.querySelectorAll('label');
+    const labels = context.index.getByTag('label');
     const hasMatchingLabel = labels.some(
       (label) => label.getAttribute('for') === id
     );
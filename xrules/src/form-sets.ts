@@ -0,0 +1,266 @@
+/**
+ * Form Sets
+ *
+ * The forms a piece of markup can render, enumerated as the union of its
+ * branches and the combinations of the forms of its children. Shared by the
+ * JSX analysis and the Vue and Svelte template front-ends.
+ *
+ * Conditions are kept as source text. Forms whose conditions cannot hold
+ * together, like `tab === 'a'` with `tab === 'b'` from two independent
+ * siblings, are unreachable and dropped.
+ */
+
+import type { JsxNode } from './jsx-parser';
+
+/**
+ * A possible form of a JSX expression or template node; a null node renders nothing
+ */
+export interface Form {
+  node: JsxNode | null;
+  conditions: string[];
+}
+
+/**
+ * The forms kept for an expression and how many there were before sampling
+ */
+export interface FormSet {
+  forms: Form[];
+  total: number;
+}
+
+/**
+ * Union of alternative form sets, sampled round-robin when over the cap so every set keeps a form
+ */
+export function unionForms(sets: FormSet[], maxVariants: number): FormSet {
+  const total = sets.reduce((sum, set) => sum + set.total, 0);
+  const all = sets.flatMap(set => set.forms);
+
+  if (all.length <= maxVariants) {
+    return { forms: all, total };
+  }
+
+  const forms: Form[] = [];
+  for (let index = 0; forms.length < maxVariants; index++) {
+    for (const set of sets) {
+      if (index < set.forms.length && forms.length < maxVariants) {
+        forms.push(set.forms[index]);
+      }
+    }
+  }
+
+  return { forms, total };
+}
+
+/**
+ * Combine the forms of each child slot into the forms of their parent
+ */
+export function combineForms(slots: FormSet[], build: (picked: Form[]) => JsxNode, maxVariants: number): FormSet {
+  const normalized = slots.map(slot => slot.forms.length > 0 ? slot : nothing());
+  const total = normalized.reduce((product, slot) => product * slot.total, 1);
+
+  const selected = selectCombinations(normalized.map(slot => slot.forms.length), maxVariants)
+    .map(indices => indices.map((index, slot) => normalized[slot].forms[index]));
+  const reachable = selected.filter(picked => !isContradictory(picked.flatMap(form => form.conditions)));
+
+  const forms = reachable.map(picked => ({
+    node: build(picked),
+    conditions: picked.flatMap(form => form.conditions),
+  }));
+
+  // Unreachable combinations are not counted; those left out by sampling still are
+  return { forms, total: total - (selected.length - reachable.length) };
+}
+
+/**
+ * Pick which combinations of slot alternatives to enumerate.
+ *
+ * All of them while the product fits under the cap. Otherwise a sample: first enough
+ * combinations to use every alternative of every slot at least once, then pseudo-random
+ * combinations from a fixed seed so that repeated runs check the same variants.
+ */
+export function selectCombinations(sizes: number[], maxVariants: number): number[][] {
+  const count = sizes.reduce((product, size) => product * size, 1);
+
+  if (count <= maxVariants) {
+    const combinations: number[][] = [];
+    const indices = sizes.map(() => 0);
+    for (let n = 0; n < count; n++) {
+      combinations.push([...indices]);
+      for (let slot = sizes.length - 1; slot >= 0; slot--) {
+        if (++indices[slot] < sizes[slot]) break;
+        indices[slot] = 0;
+      }
+    }
+    return combinations;
+  }
+
+  const selected = new Map<string, number[]>();
+  const widest = Math.max(...sizes);
+
+  for (let n = 0; n < widest && selected.size < maxVariants; n++) {
+    const indices = sizes.map(size => n % size);
+    selected.set(indices.join(','), indices);
+  }
+
+  let seed = 1;
+  const random = () => (seed = (seed * 48271) % 2147483647) / 2147483647;
+  for (let attempt = 0; selected.size < maxVariants && attempt < maxVariants * 4; attempt++) {
+    const indices = sizes.map(size => Math.floor(random() * size));
+    selected.set(indices.join(','), indices);
+  }
+
+  return Array.from(selected.values());
+}
+
+export function toFragment(children: JsxNode[]): JsxNode {
+  return {
+    tagName: '#fragment',
+    attributes: {},
+    children,
+    isFragment: true,
+  };
+}
+
+export function nodesOf(forms: Form[]): JsxNode[] {
+  return forms.flatMap(form => form.node ? [form.node] : []);
+}
+
+export function single(node: JsxNode): FormSet {
+  return { forms: [{ node, conditions: [] }], total: 1 };
+}
+
+export function nothing(): FormSet {
+  return { forms: [{ node: null, conditions: [] }], total: 1 };
+}
+
+export function withConditions(set: FormSet, conditions: string[]): FormSet {
+  const forms = set.forms
+    .map(form => ({ node: form.node, conditions: [...conditions, ...form.conditions] }))
+    .filter(form => !isContradictory(form.conditions));
+
+  return { forms, total: set.total - (set.forms.length - forms.length) };
+}
+
+/**
+ * Whether conditions cannot all hold: one with its negation (`c` and `!c`, `a === b` and
+ * `a !== b`), or an expression strictly equal to two different literals. Conditions joined
+ * with `&&` are taken apart; anything else is assumed satisfiable.
+ */
+export function isContradictory(conditions: string[]): boolean {
+  const facts = new Set<string>();
+  const literals = new Map<string, string>();
+
+  for (const condition of conditions.flatMap(text => splitTopLevel(unwrap(text), ' && ')).map(canonical)) {
+    if (facts.has(negateText(condition))) return true;
+    facts.add(condition);
+
+    const comparison = splitTopLevel(condition, ' === ');
+    if (comparison.length !== 2) continue;
+
+    const [left, right] = comparison;
+    const [subject, literal] = LITERAL.test(right) ? [left, right] : LITERAL.test(left) ? [right, left] : [];
+    if (subject === undefined || literal === undefined) continue;
+
+    const value = normalizeLiteral(literal);
+    const known = literals.get(subject);
+    if (known !== undefined && known !== value) return true;
+    literals.set(subject, value);
+  }
+
+  return false;
+}
+
+/**
+ * Literals compared against in conditions: strings, numbers, booleans, null and undefined
+ */
+const LITERAL = /^('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?|true|false|null|undefined)$/;
+
+const NEGATED_OPERATORS: Record<string, string> = { ' === ': ' !== ', ' !== ': ' === ', ' == ': ' != ', ' != ': ' == ' };
+
+function normalizeLiteral(literal: string): string {
+  return /^["']/.test(literal) ? `'${literal.slice(1, -1)}'` : literal;
+}
+
+/**
+ * Text of a condition without parentheses around it or around the operand of its negation,
+ * so `!(open)` and `!open` compare equal
+ */
+function canonical(condition: string): string {
+  const text = unwrap(condition);
+  if (!isNegation(text)) return text;
+
+  const operand = unwrap(text.slice(1));
+  return isOperand(operand) ? `!${operand}` : `!(${operand})`;
+}
+
+/**
+ * Text of the negation of a canonical condition, in the form negations are written in
+ */
+function negateText(condition: string): string {
+  for (const [operator, negated] of Object.entries(NEGATED_OPERATORS)) {
+    const sides = splitTopLevel(condition, operator);
+    if (sides.length === 2) return sides.join(negated);
+  }
+
+  if (isNegation(condition)) {
+    return unwrap(condition.slice(1));
+  }
+
+  return isOperand(condition) ? `!${condition}` : `!(${condition})`;
+}
+
+/**
+ * Whether a condition is `!` applied to a single operand, e.g. `!open` or `!(n > 0)`
+ */
+function isNegation(text: string): boolean {
+  return text.startsWith('!') && !text.startsWith('!=') && isOperand(text.slice(1));
+}
+
+/**
+ * Whether a condition is a single operand, with no operator outside parentheses, brackets or strings
+ */
+function isOperand(text: string): boolean {
+  return text.length > 0 && splitTopLevel(text, ' ').length === 1;
+}
+
+/**
+ * Text without parentheses around all of it
+ */
+function unwrap(text: string): string {
+  let current = text;
+  while (current.startsWith('(') && current.endsWith(')') && splitTopLevel(current.slice(1, -1), ')').length === 1) {
+    current = current.slice(1, -1);
+  }
+  return current;
+}
+
+/**
+ * Split source text at a separator outside parentheses, brackets, braces and string literals
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) && depth > 0) {
+      depth--;
+    } else if (depth === 0 && text.startsWith(separator, index)) {
+      parts.push(text.slice(start, index));
+      index += separator.length - 1;
+      start = index + 1;
+    }
+  }
+
+  parts.push(text.slice(start));
+  return parts;
+}
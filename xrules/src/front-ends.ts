@@ -0,0 +1,37 @@
+/**
+ * Front-ends
+ *
+ * Which parser reads a source file, by its extension. HTML is checked as it
+ * is; JSX/TSX, Vue and Svelte components and Markdown/MDX documents are
+ * analyzed into the forms they can render, and each form is checked as an
+ * HTML document.
+ */
+
+import * as path from 'path';
+
+export type FrontEnd = 'html' | 'jsx' | 'vue' | 'svelte' | 'markdown';
+
+const FRONT_ENDS: Record<string, FrontEnd> = {
+  '.html': 'html',
+  '.htm': 'html',
+  '.tsx': 'jsx',
+  '.jsx': 'jsx',
+  '.vue': 'vue',
+  '.svelte': 'svelte',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.mdx': 'markdown',
+};
+
+/**
+ * Files every front-end can check, for commands without file patterns. Markdown files are
+ * mostly READMEs and changelogs rather than pages, so only MDX is checked by default.
+ */
+export const SOURCE_FILE_PATTERNS = ['**/*.html', '**/*.tsx', '**/*.jsx', '**/*.vue', '**/*.svelte', '**/*.mdx'];
+
+/**
+ * The front-end for a file; files with other extensions are read as HTML
+ */
+export function getFrontEnd(filePath: string): FrontEnd {
+  return FRONT_ENDS[path.extname(filePath).toLowerCase()] ?? 'html';
+}
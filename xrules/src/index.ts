@@ -4,8 +4,14 @@
 
 export * from './types';
 export * from './parser';
+export * from './selector';
+export * from './check-context';
+export * from './rule-options';
+export * from './aria-roles';
+export * from './accessible-name';
 export * from './engine';
 export * from './reporter';
+export * from './suppressions';
 
 // Export rules
 export * from './rules/form-labels-explicit';
@@ -17,6 +23,7 @@ export * from './rules/heading-hierarchy';
 export * from './rules/accessibility';
 export * from './rules/seo';
 export * from './rules/security';
+export * from './rules/nextjs';
 
 // Export extended matcher
 export * from './extended-matcher';
@@ -27,14 +34,29 @@ export * from './presets';
 // Phase 4: Type System Integration (TypeScript/JSX support)
 export * from './jsx-parser';
 export * from './jsx-engine';
+export * from './relevance';
+export * from './app-router';
+
+// Vue and Svelte front-ends
+export * from './front-ends';
+export * from './template-parser';
+export * from './vue-parser';
+export * from './svelte-parser';
+
+// Markdown and MDX front-end
+export * from './markdown-parser';
 
 // Phase 5: Scopes & Traceability
 export * from './scope-types';
 export * from './scope-registry';
 export * from './scope-engine';
+export * from './scope-classes';
+export * from './scope-loader';
+export * from './explain';
 
 // Phase 6: Integration & Tooling
 export * from './config-loader';
+export * from './declarative-rules';
 export * from './reporters';
 export * from './watcher';
 export { xrulesPlugin, xrules as vitePlugin } from './integrations/vite-plugin';
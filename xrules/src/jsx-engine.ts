@@ -5,10 +5,33 @@
  * performing static analysis to check rules against component code.
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { XRulesEngine } from './engine';
-import { Rule, CheckResult, Violation } from './types';
-import { JsxParser, ComponentAnalysis, JsxNode } from './jsx-parser';
+import { AnyRule, CheckResult, CheckOptions, Document, RelatedInformation, Suppression, Violation, XRulesConfig } from './types';
+import { JsxParser, JsxParserOptions, ComponentAnalysis, JsxNode } from './jsx-parser';
 import { parseHTML } from './parser';
+import { computeRelevanceFilter, isRelevantForm, RelevanceFilter } from './relevance';
+import { AppRoute, findAppRoutes, resolveRouteMetadata, createHeadNodes, withHead } from './app-router';
+import { getFrontEnd } from './front-ends';
+import { TemplateParser } from './template-parser';
+import { VueParser } from './vue-parser';
+import { SvelteParser } from './svelte-parser';
+import { MarkdownParser } from './markdown-parser';
+import { checkScopeClasses, STATIC_SCOPE_CLASS_RULE_ID } from './scope-classes';
+import { ScopeRegistry } from './scope-registry';
+import { ScopeAwareEngine } from './scope-engine';
+import type { Scope, ScopeCheckOptions, ScopeConflict } from './scope-types';
+import {
+  collectSuppressions,
+  createMissingJustificationViolation,
+  createUnusedSuppressionViolation,
+  parseSuppressionDirective,
+  LocatedDirective,
+  SUPPRESSION_JUSTIFICATION_RULE_ID,
+  SuppressionSet,
+  toSuppression,
+} from './suppressions';
 
 /**
  * Extended check result with component-level information
@@ -17,6 +40,24 @@ export interface JsxCheckResult extends CheckResult {
   componentName?: string;
   hasConditionalRendering?: boolean;
   checkedBranches?: number;
+  skippedBranches?: number; // Variants no active rule can match, skipped without checking
+  variantCount?: number; // Variants the component can render; more than checkedBranches when sampled
+}
+
+/**
+ * Results of checking a Next.js App Router route: one per file with violations, the page first
+ */
+export interface RouteCheckResult {
+  route: AppRoute;
+  results: JsxCheckResult[];
+}
+
+/**
+ * A suppression comment and the file it is written in
+ */
+interface SourceDirective {
+  directive: LocatedDirective;
+  filePath?: string;
 }
 
 /**
@@ -24,106 +65,423 @@ export interface JsxCheckResult extends CheckResult {
  */
 export class JsxRulesEngine extends XRulesEngine {
   private jsxParser: JsxParser;
+  private templateParsers: Record<'vue' | 'svelte', TemplateParser>;
+  private markdownParser: MarkdownParser;
+  private scopeEngine?: ScopeAwareEngine;
+  private scopeOptions: Pick<ScopeCheckOptions, 'conflictResolution'> = {};
 
-  constructor(rules: Rule[] = [], tsConfigPath?: string) {
+  constructor(rules: AnyRule[] = [], tsConfigPath?: string, parserOptions: JsxParserOptions = {}) {
     super(rules);
-    this.jsxParser = new JsxParser(tsConfigPath);
+    this.jsxParser = new JsxParser(tsConfigPath, parserOptions);
+    this.templateParsers = { vue: new VueParser(parserOptions), svelte: new SvelteParser(parserOptions) };
+    this.markdownParser = new MarkdownParser(this.jsxParser);
+  }
+
+  /**
+   * Apply the rule configuration of scopes per element of every checked document and component
+   * form, as `ScopeAwareEngine.checkDocumentWithScopes` does, so rules that scopes turn on run there
+   */
+  setScopes(registry: ScopeRegistry, options: Pick<ScopeCheckOptions, 'conflictResolution'> = {}): void {
+    this.scopeEngine = new ScopeAwareEngine(this.getRules(), registry);
+    this.scopeOptions = options;
+  }
+
+  /**
+   * Add a rule, also checked in scopes when they are set
+   */
+  addRule(rule: AnyRule): void {
+    super.addRule(rule);
+    this.scopeEngine?.addRule(rule);
+  }
+
+  /**
+   * Add multiple rules, also checked in scopes when they are set
+   */
+  addRules(rules: AnyRule[]): void {
+    super.addRules(rules);
+    this.scopeEngine?.addRules(rules);
+  }
+
+  /**
+   * Check a file with the front-end for its extension: HTML, JSX/TSX, Vue, Svelte or Markdown/MDX
+   */
+  checkSource(filePath: string, options: CheckOptions = {}): CheckResult[] {
+    const frontEnd = getFrontEnd(filePath);
+
+    if (frontEnd === 'jsx') {
+      return this.checkFile(filePath, options);
+    }
+
+    const code = fs.readFileSync(filePath, 'utf-8');
+    if (frontEnd === 'markdown') {
+      return this.checkMarkdown(code, filePath, options);
+    }
+    return frontEnd === 'html'
+      ? [this.checkRendered(parseHTML(code), filePath, options)]
+      : this.checkTemplate(code, filePath, options);
+  }
+
+  /**
+   * Analyze the components of a file with the front-end for its extension; HTML files have none
+   */
+  analyzeSource(filePath: string): ComponentAnalysis[] {
+    const frontEnd = getFrontEnd(filePath);
+    if (frontEnd === 'html') return [];
+    if (frontEnd === 'jsx') {
+      return this.jsxParser.analyzeComponent(this.jsxParser.addSourceFile(filePath));
+    }
+
+    const code = fs.readFileSync(filePath, 'utf-8');
+    const component = frontEnd === 'markdown'
+      ? this.markdownParser.analyzeCode(code, filePath)
+      : this.templateParsers[frontEnd].analyzeCode(code, filePath);
+    return component ? [component] : [];
+  }
+
+  /**
+   * Reload a TypeScript/TSX file that changed on disk, returning the files that import it and
+   * need to be checked again
+   */
+  refreshFile(filePath: string): string[] {
+    return this.jsxParser.refreshSourceFile(filePath);
+  }
+
+  /**
+   * Check a Vue single-file component or a Svelte component from string, by the extension of its file name
+   */
+  checkTemplate(code: string, fileName: string, options: CheckOptions = {}): JsxCheckResult[] {
+    const frontEnd = getFrontEnd(fileName);
+    if (frontEnd !== 'vue' && frontEnd !== 'svelte') {
+      throw new Error(`Not a Vue or Svelte file: ${fileName}`);
+    }
+
+    const component = this.templateParsers[frontEnd].analyzeCode(code, fileName);
+    return component ? this.checkComponents([component], options) : [];
+  }
+
+  /**
+   * Check a Markdown or MDX document from string; components an MDX document imports are
+   * resolved from the directory of its file
+   */
+  checkMarkdown(code: string, fileName: string, options: CheckOptions = {}): JsxCheckResult[] {
+    const document = this.markdownParser.analyzeCode(code, fileName);
+    return document ? this.checkComponents([document], options) : [];
   }
 
   /**
    * Check a TypeScript/TSX file
    */
-  checkFile(filePath: string): JsxCheckResult[] {
+  checkFile(filePath: string, options: CheckOptions = {}): JsxCheckResult[] {
     const sourceFile = this.jsxParser.addSourceFile(filePath);
     const components = this.jsxParser.analyzeComponent(sourceFile);
 
-    return this.checkComponents(components);
+    return this.checkComponents(components, options);
   }
 
   /**
    * Check TypeScript/TSX code from string
    */
-  checkCode(code: string, fileName: string = 'component.tsx'): JsxCheckResult[] {
+  checkCode(code: string, fileName: string = 'component.tsx', options: CheckOptions = {}): JsxCheckResult[] {
     const sourceFile = this.jsxParser.addSourceFromText(code, fileName);
     const components = this.jsxParser.analyzeComponent(sourceFile);
 
-    return this.checkComponents(components);
+    return this.checkComponents(components, options);
   }
 
   /**
    * Check a specific component
    */
-  checkComponent(filePath: string, componentName: string): JsxCheckResult | null {
+  checkComponent(filePath: string, componentName: string, options: CheckOptions = {}): JsxCheckResult | null {
     const sourceFile = this.jsxParser.addSourceFile(filePath);
     const components = this.jsxParser.analyzeComponent(sourceFile, componentName);
 
     if (components.length === 0) return null;
 
-    const results = this.checkComponents(components);
+    const results = this.checkComponents(components, options);
     return results[0] || null;
   }
 
+  /**
+   * Check that a TypeScript/TSX file never makes the class of a scope conditional. The metarule
+   * is configured like a rule, as `static-scope-classes`, and is an error by default.
+   */
+  checkScopeClasses(filePath: string, scopes: Scope[], options: CheckOptions = {}): CheckResult {
+    const ruleConfig = options.config?.rules[STATIC_SCOPE_CLASS_RULE_ID] ?? 'error';
+    const { severity, options: ruleOptions } = typeof ruleConfig === 'string' ? { severity: ruleConfig, options: {} } : ruleConfig;
+    const violations = severity === 'off'
+      ? []
+      : checkScopeClasses(this.jsxParser.addSourceFile(filePath), scopes, { ...ruleOptions, severity });
+
+    return {
+      filePath,
+      violations,
+      errorCount: violations.filter(v => v.severity === 'error').length,
+      warningCount: violations.filter(v => v.severity === 'warning').length,
+      infoCount: violations.filter(v => v.severity === 'info').length,
+    };
+  }
+
+  /**
+   * Check every route of a Next.js App Router app directory
+   */
+  checkAppRoutes(appDir: string, options: CheckOptions = {}): RouteCheckResult[] {
+    return findAppRoutes(appDir).map(route => this.checkRoute(route, options));
+  }
+
+  /**
+   * Check a route as a whole page: its page composed into its layouts, with their metadata
+   * rendered in the <head>, so that document rules apply. Violations are reported in the
+   * file of the element they concern.
+   */
+  checkRoute(route: AppRoute, options: CheckOptions = {}): RouteCheckResult {
+    const page = this.jsxParser.addSourceFile(route.pageFile);
+    const layouts = route.layoutFiles.map(filePath => this.jsxParser.addSourceFile(filePath));
+
+    const component = this.jsxParser.analyzeLayoutChain(page, layouts);
+    if (!component) {
+      return { route, results: [] };
+    }
+
+    const head = createHeadNodes(resolveRouteMetadata([...layouts, page]));
+    const variants = component.variants.map(variant => ({ ...variant, node: withHead(variant.node, head) }));
+    const filter = computeRelevanceFilter(this.getCheckedRules(options.config));
+
+    return {
+      route,
+      results: this.checkSingleComponent(
+        { ...component, variants, possibleReturns: variants.map(variant => variant.node) },
+        options,
+        filter
+      ),
+    };
+  }
+
   /**
    * Check multiple components
    */
-  private checkComponents(components: ComponentAnalysis[]): JsxCheckResult[] {
+  private checkComponents(components: ComponentAnalysis[], options: CheckOptions): JsxCheckResult[] {
     const results: JsxCheckResult[] = [];
+    const filter = computeRelevanceFilter(this.getCheckedRules(options.config));
 
     for (const component of components) {
-      const result = this.checkSingleComponent(component);
-      results.push(result);
+      results.push(...this.checkSingleComponent(component, options, filter));
     }
 
     return results;
   }
 
   /**
-   * Check a single component
+   * Check a single component: its first variant and every other one an active rule can match, reporting each
+   * violation once with the conditions of the first variant that produced it. The first result is
+   * the component's file; forms composed from several files add a result for each other file
+   * with violations.
    */
-  private checkSingleComponent(component: ComponentAnalysis): JsxCheckResult {
-    const violations: Violation[] = [];
+  private checkSingleComponent(component: ComponentAnalysis, options: CheckOptions, filter: RelevanceFilter): JsxCheckResult[] {
+    const violations: Array<{ violation: Violation; filePath?: string }> = [];
+    const reported = new Map<string, {
+      violation: Violation;
+      filePath?: string;
+      conditions: string[];
+      branch: number;
+      variants: number;
+    }>();
     let checkedBranches = 0;
+    let skippedBranches = 0;
+    const conflicts = new Map<string, ScopeConflict>();
+
+    // Suppression problems are reported once per component below, not once per branch
+    const suppressionOptions = options.config?.suppressions ?? {};
+    const branchOptions: CheckOptions = options.config
+      ? { ...options, config: { ...options.config, suppressions: { ...suppressionOptions, reportUnused: 'off' } } }
+      : options;
+    const suppressionUsage = new Map<string, SourceDirective & { used: boolean }>();
+
+    // Check each possible form (branch)
+    for (const [index, { node: jsxNode, conditions }] of component.variants.entries()) {
+      // Forms no active rule can match are not rendered; their suppressions still count as written.
+      // The first form is always checked, for what document and aggregate rules report missing.
+      if (index > 0 && !isRelevantForm(jsxNode, filter)) {
+        for (const { directive, filePath } of collectSuppressionComments(jsxNode, component.filePath)) {
+          const key = `${filePath}:${directive.line}:${directive.column}`;
+          suppressionUsage.set(key, suppressionUsage.get(key) || { directive, filePath, used: false });
+        }
+        skippedBranches++;
+        continue;
+      }
 
-    // Check each possible return value (branch)
-    for (const jsxNode of component.possibleReturns) {
-      const html = this.jsxParser.jsxNodeToHtml(jsxNode);
+      const { html, elements } = this.jsxParser.renderHtml(jsxNode);
 
       // Parse the generated HTML and check against rules
-      const result = this.checkHTML(html, component.filePath);
+      const document = parseHTML(html);
+      const result = this.checkRendered(document, component.filePath, branchOptions, component.name);
+      for (const conflict of result.conflicts ?? []) {
+        conflicts.set(JSON.stringify([conflict.ruleId, conflict.resolution.scopes]), conflict);
+      }
+
+      // Suppression comments also apply by their TSX lines, which several elements can share
+      const sourceDirectives = collectSuppressionComments(jsxNode, component.filePath);
+      const sourceSuppressions = new Map<string, SuppressionSet>();
+      for (const file of new Set(sourceDirectives.map(({ filePath }) => filePath ?? component.filePath))) {
+        const inFile = sourceDirectives.filter(({ filePath }) => (filePath ?? component.filePath) === file);
+        sourceSuppressions.set(file, new SuppressionSet(inFile.map(({ directive }) => directive), suppressionOptions));
+      }
 
-      // Add component context to violations
+      // Add component context to violations; the same violation in another variant is counted, not repeated
+      const occurrences = new Map<string, number>();
+      const seen = new Set<string>();
       for (const violation of result.violations) {
-        violations.push({
-          ...violation,
-          // Add component information
-          element: `${component.name}: ${violation.element}`,
+        if (violation.ruleId === SUPPRESSION_JUSTIFICATION_RULE_ID) continue;
+
+        // Point at the JSX tag in the TSX source instead of the generated HTML
+        const { violation: located, filePath, inlined } = mapToSource(violation, elements, component);
+        if (sourceSuppressions.get(filePath ?? component.filePath)?.suppresses(located)) continue;
+        const location = `${violation.ruleId}\0${filePath}:${located.line}:${located.column}`;
+        const identity = inlined ? location : `${location}\0${violation.element}\0${violation.message}`;
+        const occurrence = inlined ? 1 : (occurrences.get(identity) ?? 0) + 1;
+        occurrences.set(identity, occurrence);
+
+        const key = `${identity}\0${occurrence}`;
+        const existing = reported.get(key);
+
+        // Elements inlined from another file share the position of the tag using their component:
+        // a rule is reported there once, pointing at each of them
+        if (existing && inlined) {
+          existing.violation.relatedInformation = mergeRelatedInformation(
+            existing.violation.relatedInformation,
+            located.relatedInformation
+          );
+        }
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        if (existing) {
+          // Only the conditions of every variant with the violation describe when it happens
+          existing.conditions = existing.conditions.filter(condition => conditions.includes(condition));
+          existing.variants++;
+          continue;
+        }
+
+        reported.set(key, {
+          violation: {
+            ...located,
+            // Add component information
+            element: `${component.name}: ${violation.element}`,
+          },
+          filePath,
+          conditions: [...new Set(conditions)],
+          branch: index + 1,
+          variants: 1,
         });
       }
 
+      // Suppression comments appear in the generated HTML in the same order as in the JSX
+      const htmlDirectives = collectSuppressions(document);
+      const unused = new Set((result.unusedSuppressions || []).map(s => `${s.line}:${s.column}`));
+      const usedInSource = new Set([...sourceSuppressions.values()].flatMap(suppressions => suppressions.getUsed()));
+
+      sourceDirectives.forEach(({ directive, filePath }, index) => {
+        const htmlDirective = htmlDirectives[index];
+        const key = `${filePath}:${directive.line}:${directive.column}`;
+        const usage = suppressionUsage.get(key) || { directive, filePath, used: false };
+        const unjustified = suppressionOptions.requireJustification && !directive.justification;
+
+        if (htmlDirective && !unjustified && !unused.has(`${htmlDirective.line}:${htmlDirective.column}`)) {
+          usage.used = true;
+        }
+        if (usedInSource.has(directive)) {
+          usage.used = true;
+        }
+        suppressionUsage.set(key, usage);
+      });
+
       checkedBranches++;
     }
 
-    // Aggregate results
-    let errorCount = 0;
-    let warningCount = 0;
-    let infoCount = 0;
+    // Violations found in every variant do not depend on a condition
+    for (const { violation, filePath, conditions, branch, variants } of reported.values()) {
+      const traced = { ...violation, component: { name: component.name, branch, totalBranches: component.variants.length } };
+      if (variants < component.variants.length && conditions.length > 0) {
+        violations.push({ violation: { ...traced, message: `${violation.message} (when ${conditions.join(' && ')})`, conditions }, filePath });
+      } else {
+        violations.push({ violation: traced, filePath });
+      }
+    }
+
+    // A suppression is unused only if no branch needed it
+    const unusedSuppressions: Array<{ suppression: Suppression; filePath?: string }> = [];
+    const reportUnused = suppressionOptions.reportUnused ?? 'off';
 
-    for (const violation of violations) {
-      if (violation.severity === 'error') errorCount++;
-      else if (violation.severity === 'warning') warningCount++;
-      else if (violation.severity === 'info') infoCount++;
+    for (const { directive, filePath, used } of suppressionUsage.values()) {
+      if (directive.type === 'enable') continue;
+
+      if (suppressionOptions.requireJustification && !directive.justification) {
+        violations.push({ violation: createMissingJustificationViolation(directive), filePath });
+      } else if (!used) {
+        unusedSuppressions.push({ suppression: toSuppression(directive), filePath });
+        if (reportUnused !== 'off') {
+          violations.push({ violation: createUnusedSuppressionViolation(directive, reportUnused), filePath });
+        }
+      }
     }
 
-    return {
-      filePath: component.filePath,
-      violations,
-      errorCount,
-      warningCount,
-      infoCount,
-      componentName: component.name,
-      hasConditionalRendering: component.hasConditionalRendering,
-      checkedBranches,
-    };
+    // Aggregate results per file, the component's own file first
+    const files = new Set([component.filePath, ...violations.map(v => v.filePath ?? component.filePath)]);
+
+    return Array.from(files, (filePath, index) => {
+      const inFile = <T extends { filePath?: string }>(item: T) => (item.filePath ?? component.filePath) === filePath;
+      const fileViolations = violations.filter(inFile).map(item => item.violation);
+      const result: JsxCheckResult = {
+        filePath,
+        violations: fileViolations,
+        errorCount: fileViolations.filter(v => v.severity === 'error').length,
+        warningCount: fileViolations.filter(v => v.severity === 'warning').length,
+        infoCount: fileViolations.filter(v => v.severity === 'info').length,
+        unusedSuppressions: unusedSuppressions.filter(inFile).map(item => item.suppression),
+        componentName: component.name,
+      };
+
+      return index === 0
+        ? {
+          ...result,
+          hasConditionalRendering: component.hasConditionalRendering,
+          checkedBranches,
+          skippedBranches,
+          variantCount: component.variantCount,
+          ...(conflicts.size > 0 ? { conflicts: Array.from(conflicts.values()) } : {}),
+        }
+        : result;
+    });
+  }
+
+  /**
+   * Check a document, or a rendered form of a component, with the scopes set on the engine
+   * applied per element
+   */
+  private checkRendered(document: Document, filePath: string, options: CheckOptions, componentName?: string): CheckResult {
+    if (!this.scopeEngine) {
+      return this.checkDocument(document, filePath, options);
+    }
+
+    // File patterns of scopes are relative to the project root, like the paths given to check
+    const scopedPath = path.isAbsolute(filePath)
+      ? path.relative(process.cwd(), filePath).split(path.sep).join('/')
+      : filePath;
+    const result = this.scopeEngine.checkDocumentInScopes(document, scopedPath, { ...options, ...this.scopeOptions, componentName });
+    return { ...result, filePath };
+  }
+
+  /**
+   * Rules that may report: those active in the configuration, and those a scope turns on
+   */
+  private getCheckedRules(config?: XRulesConfig): AnyRule[] {
+    const active = this.getActiveRules(config);
+    if (!this.scopeEngine) return active;
+
+    const scopes = Array.from(this.scopeEngine.getScopeRegistry().scopes.values());
+    const enabled = new Set(scopes.flatMap(scope =>
+      Object.entries(scope.rules).filter(([, settings]) => settings.severity && settings.severity !== 'off').map(([id]) => id)
+    ));
+    return this.getRules().filter(rule => active.includes(rule) || enabled.has(rule.id));
   }
 
   /**
@@ -133,3 +491,93 @@ export class JsxRulesEngine extends XRulesEngine {
     return this.jsxParser;
   }
 }
+
+/**
+ * Replace positions in the generated HTML by those of the JSX tags that produced the elements,
+ * with the file of the tag when the form was composed from several files. Elements without a
+ * JSX tag, such as the implied <body>, are reported at the component.
+ */
+function mapToSource(
+  violation: Violation,
+  elements: Map<string, JsxNode>,
+  component: ComponentAnalysis
+): { violation: Violation; filePath?: string; inlined: boolean } {
+  const locate = (line?: number, column?: number) => {
+    const node = elements.get(`${line}:${column}`);
+    return node?.line !== undefined
+      ? { line: node.line, column: node.column, filePath: node.filePath }
+      : { line: component.line, column: component.column, filePath: undefined };
+  };
+
+  const { filePath, ...position } = locate(violation.line, violation.column);
+  const located: Violation = { ...violation, ...position };
+  if (violation.relatedInformation) {
+    // Related locations are only kept in the file of the violation
+    located.relatedInformation = violation.relatedInformation.map(related => {
+      // Elements inlined from another file are pointed at where they are written
+      const origin = elements.get(`${related.line}:${related.column}`)?.origin;
+      if (origin) return { ...related, ...origin };
+
+      const { filePath: relatedFile, ...relatedPosition } = locate(related.line, related.column);
+      return (relatedFile ?? component.filePath) === (filePath ?? component.filePath)
+        ? { ...related, ...relatedPosition }
+        : { ...related, line: undefined, column: undefined };
+    });
+  }
+
+  // An element inlined from another file is reported at the tag using its component, and points back to it
+  const origin = elements.get(`${violation.line}:${violation.column}`)?.origin;
+  if (origin) {
+    located.relatedInformation = [
+      ...(located.relatedInformation ?? []),
+      { message: 'Rendered by the component used here', ...origin },
+    ];
+  }
+
+  return { violation: located, filePath, inlined: origin !== undefined };
+}
+
+/**
+ * Related locations of both lists, each once
+ */
+function mergeRelatedInformation(
+  existing: RelatedInformation[] = [],
+  added: RelatedInformation[] = []
+): RelatedInformation[] {
+  const keyOf = (related: RelatedInformation) =>
+    `${related.filePath}:${related.line}:${related.column}\0${related.message}`;
+  const keys = new Set(existing.map(keyOf));
+  return [...existing, ...added.filter(related => !keys.has(keyOf(related)))];
+}
+
+/**
+ * Collect suppression comments from a JSX tree in document order, positioned in the TSX source
+ * (or Vue/Svelte template, or Markdown document) of the component
+ */
+function collectSuppressionComments(node: JsxNode, componentFile: string): SourceDirective[] {
+  const jsx = getFrontEnd(componentFile) === 'jsx' || componentFile.toLowerCase().endsWith('.mdx');
+  const directives: SourceDirective[] = [];
+
+  function visit(current: JsxNode) {
+    if (current.tagName === '#comment') {
+      const directive = parseSuppressionDirective(current.text || '');
+      if (directive) {
+        const line = current.line ?? 0;
+        directives.push({
+          directive: {
+            ...directive,
+            line,
+            column: current.column ?? 0,
+            endLine: line + (current.text?.match(/\n/g)?.length ?? 0),
+            text: jsx ? `{/*${current.text}*/}` : `<!--${current.text}-->`,
+          },
+          filePath: current.filePath,
+        });
+      }
+    }
+    current.children.forEach(visit);
+  }
+
+  visit(node);
+  return directives;
+}
@@ -5,6 +5,7 @@
  * extracting HTML patterns from JSX for rule checking.
  */
 
+import * as path from 'path';
 import {
   Project,
   SyntaxKind,
@@ -12,355 +13,737 @@ import {
   JsxElement,
   JsxSelfClosingElement,
   JsxFragment,
+  JsxExpression,
   SourceFile,
   FunctionDeclaration,
-  VariableDeclaration,
+  FunctionExpression,
   ArrowFunction,
-  ReturnStatement,
+  MethodDeclaration,
+  ClassDeclaration,
+  ClassExpression,
+  ObjectBindingPattern,
+  BinaryExpression,
+  CallExpression,
+  CaseClause,
+  DefaultClause,
+  SwitchStatement,
+  FileSystemRefreshResult,
+  ts,
 } from 'ts-morph';
+import { parseSuppressionDirective } from './suppressions';
+import { UNKNOWN_ATTRIBUTE_VALUE } from './unknown-values';
+import {
+  Form,
+  FormSet,
+  unionForms,
+  combineForms,
+  selectCombinations,
+  isContradictory,
+  single,
+  nothing,
+  nodesOf,
+  withConditions,
+  toFragment,
+} from './form-sets';
 
 /**
  * Represents a JSX element extracted from a component
  */
 export interface JsxNode {
   tagName: string;
-  attributes: Record<string, string>;
+  attributes: Record<string, JsxAttributeValue>;
   children: JsxNode[];
   text?: string;
   isFragment?: boolean;
+
+  /**
+   * Position of the JSX tag or suppression comment in the TSX source. Elements inlined from
+   * a component in another file take the position of the tag using that component.
+   */
+  line?: number;
+  column?: number;
+
+  /**
+   * File of the JSX tag when the analysis composes several files, e.g. layouts around a page
+   */
+  filePath?: string;
+
+  /**
+   * Position of an element inlined from a component in another file, in the file of that component
+   */
+  origin?: { line?: number; column?: number; filePath: string };
+
+  /**
+   * A component that could not be inlined (unresolved, without a body, or recursive)
+   */
+  opaque?: boolean;
+
+  /**
+   * Module an opaque component is imported from, e.g. `next/image`
+   */
+  module?: string;
+}
+
+/**
+ * Attribute naming the component on the placeholder rendered for an opaque node
+ */
+export const OPAQUE_COMPONENT_ATTRIBUTE = 'data-xrules-component';
+
+/**
+ * Attribute naming the module an opaque component is imported from, so that rules can match
+ * components of a library whatever local name they are imported as
+ */
+export const OPAQUE_MODULE_ATTRIBUTE = 'data-xrules-module';
+
+/**
+ * An attribute value that cannot be determined statically, e.g. a prop typed `string`
+ */
+export class UnknownValue {
+  constructor(
+    readonly expression: string, // Source text of the value
+    readonly type: string = 'unknown' // Its TypeScript type
+  ) {}
+}
+
+/**
+ * Value of a JSX attribute: a concrete string, a boolean, or an unknown value. `true` renders
+ * a bare boolean attribute and `false` leaves it out, except in `aria-*` and `data-*`
+ * attributes where React renders booleans as text.
+ */
+export type JsxAttributeValue = string | boolean | UnknownValue;
+
+// Rules check for unknown values without loading the TypeScript parser
+export { UNKNOWN_ATTRIBUTE_VALUE, isUnknownAttributeValue } from './unknown-values';
+
+/**
+ * One form a component can render, with the branch conditions that select it
+ */
+export interface JsxVariant {
+  node: JsxNode;
+
+  /**
+   * Conditions on the path to this form, outermost first (e.g. `!isLoading`, `type === 'error'`)
+   */
+  conditions: string[];
+}
+
+/**
+ * Options for JSX analysis
+ */
+export interface JsxParserOptions {
+  /**
+   * Maximum number of variants enumerated per JSX expression (default 64). Beyond it the
+   * combinations are sampled so that every branch still appears in at least one variant.
+   */
+  maxVariants?: number;
 }
 
+export const DEFAULT_MAX_VARIANTS = 64;
+
 /**
  * Represents a component and its possible return values
  */
 export interface ComponentAnalysis {
   name: string;
   filePath: string;
-  possibleReturns: JsxNode[];
+  line: number; // Position of the component declaration
+  column: number;
+  possibleReturns: JsxNode[]; // The nodes of `variants`
+  variants: JsxVariant[]; // Union of the forms the component can render
+  variantCount: number; // Number of forms before sampling, including ones that render nothing
   hasConditionalRendering: boolean;
   dependencies: string[]; // Other components this component uses
 }
 
+/**
+ * HTML generated for a JsxNode, with the JSX node behind each element keyed by the
+ * "line:column" of its start tag in the HTML
+ */
+export interface RenderedHtml {
+  html: string;
+  elements: Map<string, JsxNode>;
+}
+
+/**
+ * A component found in a source file
+ */
+interface ComponentDeclaration {
+  name: string;
+  func: FunctionLike;
+  declaration: Node; // Where the component is reported
+}
+
+interface HtmlOutput {
+  html: string;
+  starts: Array<{ offset: number; node: JsxNode }>;
+}
+
+/**
+ * Function rendering a component: a function component or the `render()` method of a class component
+ */
+type FunctionLike = FunctionDeclaration | ArrowFunction | FunctionExpression | MethodDeclaration;
+
+/**
+ * One possible value of an attribute or prop; an undefined value means it is absent
+ */
+interface AttributeChoice {
+  value?: JsxAttributeValue;
+  conditions: string[];
+}
+
+/**
+ * Value of a prop passed to an inlined component: its possible attribute values, and its forms when it is JSX
+ */
+interface PropValue {
+  choices: AttributeChoice[];
+  forms?: FormSet;
+}
+
+/**
+ * Props of the component being inlined and the local names they are bound to
+ */
+interface PropBindings {
+  values: Map<string, PropValue>;
+  locals: Map<string, string>; // Local name -> prop name, from a destructured parameter
+  destructured: Set<string>; // Prop names taken out of a `...rest` binding
+  propsObject?: string; // Name of a props parameter that is not destructured
+  rest?: string; // Name of the `...rest` binding
+}
+
+/**
+ * State threaded through extraction
+ */
+interface ExtractionContext {
+  dependencies: Set<string>;
+  props?: PropBindings;
+  inlining: Node[]; // Components being inlined, outermost first, to stop recursion
+}
+
 /**
  * JSX Parser for analyzing React/TSX components
  */
 export class JsxParser {
   private project: Project;
+  private maxVariants: number;
+  private dependenciesResolved = false;
 
-  constructor(tsConfigPath?: string) {
+  constructor(tsConfigPath?: string, options: JsxParserOptions = {}) {
     this.project = new Project({
       tsConfigFilePath: tsConfigPath,
       skipAddingFilesFromTsConfig: !tsConfigPath,
+      // Optional props are only typed as possibly undefined with strict null checks, and imports
+      // only resolve to .tsx files with a JSX mode
+      compilerOptions: tsConfigPath ? undefined : { strictNullChecks: true, jsx: ts.JsxEmit.Preserve },
     });
+    this.maxVariants = options.maxVariants ?? DEFAULT_MAX_VARIANTS;
+
+    if (!Number.isInteger(this.maxVariants) || this.maxVariants < 1) {
+      throw new Error(`maxVariants must be a positive integer, got ${this.maxVariants}`);
+    }
   }
 
   /**
    * Add a source file to the project
    */
   addSourceFile(filePath: string): SourceFile {
-    return this.project.addSourceFileAtPath(filePath);
+    const existing = this.project.getSourceFile(filePath);
+    if (existing) return existing;
+
+    const sourceFile = this.project.addSourceFileAtPath(filePath);
+    this.dependenciesResolved = false;
+    return sourceFile;
+  }
+
+  /**
+   * Reload a source file from disk after it changed or was removed. Returns the files that import
+   * it, directly or through other files, since its components are inlined into theirs.
+   */
+  refreshSourceFile(filePath: string): string[] {
+    const sourceFile = this.project.getSourceFile(filePath);
+    if (!sourceFile) return [];
+
+    const dependents = new Set<SourceFile>();
+    const collect = (file: SourceFile) => {
+      for (const referencing of file.getReferencingSourceFiles()) {
+        if (referencing !== sourceFile && !dependents.has(referencing)) {
+          dependents.add(referencing);
+          collect(referencing);
+        }
+      }
+    };
+    collect(sourceFile);
+
+    if (sourceFile.refreshFromFileSystemSync() !== FileSystemRefreshResult.NoChange) {
+      this.dependenciesResolved = false;
+    }
+    return [...dependents].map(file => file.getFilePath());
   }
 
   /**
    * Add source code from string
    */
   addSourceFromText(code: string, filePath: string = 'component.tsx'): SourceFile {
-    return this.project.createSourceFile(filePath, code, { overwrite: true });
+    const sourceFile = this.project.createSourceFile(filePath, code, { overwrite: true });
+    this.dependenciesResolved = false;
+    return sourceFile;
   }
 
   /**
    * Analyze a component and extract all possible JSX returns
+   *
+   * Components are function declarations, arrow functions and function expressions,
+   * class components with a `render()` method, and any of these wrapped in calls such as
+   * `forwardRef()`, `memo()` or higher-order components. Anonymous default exports are
+   * named after their file.
    */
   analyzeComponent(sourceFile: SourceFile, componentName?: string): ComponentAnalysis[] {
     const components: ComponentAnalysis[] = [];
-
-    // Find all function components
-    const functions = sourceFile.getFunctions();
-    for (const func of functions) {
-      if (!componentName || func.getName() === componentName) {
-        const analysis = this.analyzeFunctionComponent(func);
+    for (const { name, func, declaration } of this.findComponents(sourceFile)) {
+      if (!componentName || name === componentName) {
+        const analysis = this.analyzeFunctionComponent(name, func, declaration);
         if (analysis) {
           components.push(analysis);
         }
       }
     }
 
-    // Find all arrow function components (const Component = () => ...)
-    const variables = sourceFile.getVariableDeclarations();
-    for (const variable of variables) {
-      if (!componentName || variable.getName() === componentName) {
-        const initializer = variable.getInitializer();
-        if (initializer && Node.isArrowFunction(initializer)) {
-          const analysis = this.analyzeArrowComponent(variable.getName(), initializer);
-          if (analysis) {
-            components.push(analysis);
-          }
-        }
-      }
-    }
-
     return components;
   }
 
   /**
-   * Analyze a function component
+   * Analyze a page rendered inside its layouts (outermost first), each layout receiving what it
+   * wraps as `children`, as Next.js renders an App Router route. The default export of each file
+   * is the component; nodes carry the file they come from.
    */
-  private analyzeFunctionComponent(func: FunctionDeclaration): ComponentAnalysis | null {
-    const name = func.getName();
-    if (!name) return null;
-
-    // Check if it returns JSX (heuristic: starts with capital letter)
-    if (!/^[A-Z]/.test(name)) return null;
+  analyzeLayoutChain(page: SourceFile, layouts: SourceFile[]): ComponentAnalysis | null {
+    const pageComponent = this.getDefaultExportComponent(page);
+    if (!pageComponent) return null;
 
-    const possibleReturns: JsxNode[] = [];
     const dependencies = new Set<string>();
-    let hasConditionalRendering = false;
+    let set = withFilePath(
+      this.extractFunctionForms(pageComponent.func, { dependencies, inlining: [pageComponent.func] }),
+      page.getFilePath()
+    );
 
-    // Find all return statements
-    const returns = func.getDescendantsOfKind(SyntaxKind.ReturnStatement);
+    for (const layout of [...layouts].reverse()) {
+      const layoutComponent = this.getDefaultExportComponent(layout);
+      if (!layoutComponent) continue;
 
-    for (const returnStmt of returns) {
-      const expr = returnStmt.getExpression();
-      if (!expr) continue;
-
-      // Check if this return is inside a conditional
-      const parent = returnStmt.getParent();
-      if (parent && (
-        Node.isIfStatement(parent) ||
-        Node.isConditionalExpression(parent) ||
-        Node.isSwitchStatement(parent)
-      )) {
-        hasConditionalRendering = true;
+      const props = new Map<string, PropValue>([['children', {
+        choices: [{ value: new UnknownValue('children', 'ReactNode'), conditions: [] }],
+        forms: set,
+      }]]);
+      set = withFilePath(
+        this.extractFunctionForms(layoutComponent.func, {
+          dependencies,
+          props: bindProps(layoutComponent.func, props),
+          inlining: [layoutComponent.func],
+        }),
+        layout.getFilePath()
+      );
+    }
+
+    return this.createAnalysis(pageComponent.name, set, dependencies, pageComponent.declaration);
+  }
+
+  /**
+   * Find the components declared in a source file
+   */
+  private findComponents(sourceFile: SourceFile): ComponentDeclaration[] {
+    const candidates: ComponentDeclaration[] = [];
+
+    // Function components (function Component() {...}, export default function () {...})
+    for (const func of sourceFile.getFunctions()) {
+      const name = func.getName() ?? (func.isDefaultExport() ? getDefaultComponentName(sourceFile) : undefined);
+      if (name && func.getBody()) {
+        candidates.push({ name, func, declaration: func });
       }
+    }
 
-      const jsxNode = this.extractJsxFromExpression(expr, dependencies);
-      if (jsxNode) {
-        possibleReturns.push(jsxNode);
+    // Class components (class Component extends React.Component { render() {...} })
+    for (const cls of sourceFile.getClasses()) {
+      const name = cls.getName() ?? (cls.isDefaultExport() ? getDefaultComponentName(sourceFile) : undefined);
+      const render = getRenderMethod(cls);
+      if (name && render) {
+        candidates.push({ name, func: render, declaration: cls });
       }
     }
 
-    if (possibleReturns.length === 0) return null;
+    // Components assigned to variables (const Component = () => ..., forwardRef(...), memo(...), withHoc(...))
+    for (const variable of sourceFile.getVariableDeclarations()) {
+      const initializer = variable.getInitializer();
+      const func = initializer && this.unwrapComponent(initializer, false);
+      if (func) {
+        candidates.push({ name: variable.getName(), func, declaration: func });
+      }
+    }
 
-    return {
-      name,
-      filePath: func.getSourceFile().getFilePath(),
-      possibleReturns,
-      hasConditionalRendering,
-      dependencies: Array.from(dependencies),
-    };
+    // Default exported expressions (export default () => ..., export default memo(function Card() {...}))
+    for (const assignment of sourceFile.getExportAssignments()) {
+      const func = assignment.isExportEquals() ? null : this.unwrapComponent(assignment.getExpression(), false);
+      if (func) {
+        const name = (Node.isFunctionExpression(func) && func.getName()) || getDefaultComponentName(sourceFile);
+        candidates.push({ name, func, declaration: func });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * The component a source file exports as default
+   */
+  private getDefaultExportComponent(sourceFile: SourceFile): ComponentDeclaration | null {
+    const func = this.resolveDeclarations(sourceFile.getDefaultExportSymbol()?.getDeclarations() ?? []);
+    if (!func) return null;
+
+    return this.findComponents(func.getSourceFile()).find(component => component.func === func) ??
+      { name: getDefaultComponentName(sourceFile), func, declaration: func };
   }
 
   /**
-   * Analyze an arrow function component
+   * Analyze a function or class component
    */
-  private analyzeArrowComponent(name: string, arrow: ArrowFunction): ComponentAnalysis | null {
+  private analyzeFunctionComponent(name: string, func: FunctionLike, declaration: Node): ComponentAnalysis | null {
     // Check if it returns JSX (heuristic: starts with capital letter)
     if (!/^[A-Z]/.test(name)) return null;
 
-    const possibleReturns: JsxNode[] = [];
     const dependencies = new Set<string>();
-    let hasConditionalRendering = false;
+    const forms = this.extractFunctionForms(func, { dependencies, inlining: [func] });
 
-    // Check if arrow function directly returns JSX (no braces)
-    const body = arrow.getBody();
+    return this.createAnalysis(name, forms, dependencies, declaration);
+  }
 
-    if (Node.isJsxElement(body) || Node.isJsxSelfClosingElement(body) || Node.isJsxFragment(body)) {
-      const jsxNode = this.extractJsxNode(body, dependencies);
-      if (jsxNode) {
-        possibleReturns.push(jsxNode);
-      }
-    } else if (Node.isBlock(body)) {
-      // Find all return statements in the block
-      const returns = body.getDescendantsOfKind(SyntaxKind.ReturnStatement);
-
-      for (const returnStmt of returns) {
-        const expr = returnStmt.getExpression();
-        if (!expr) continue;
-
-        // Check if this return is inside a conditional
-        const parent = returnStmt.getParent();
-        if (parent && (
-          Node.isIfStatement(parent) ||
-          Node.isConditionalExpression(parent) ||
-          Node.isSwitchStatement(parent)
-        )) {
-          hasConditionalRendering = true;
-        }
+  /**
+   * Build the analysis of a component from its forms; null if it never renders JSX
+   */
+  private createAnalysis(
+    name: string,
+    { forms, total }: FormSet,
+    dependencies: Set<string>,
+    declaration: Node
+  ): ComponentAnalysis | null {
+    const variants = forms.filter((form): form is JsxVariant => form.node !== null);
 
-        const jsxNode = this.extractJsxFromExpression(expr, dependencies);
-        if (jsxNode) {
-          possibleReturns.push(jsxNode);
-        }
-      }
-    } else if (Node.isParenthesizedExpression(body)) {
-      const expr = body.getExpression();
-      const jsxNode = this.extractJsxFromExpression(expr, dependencies);
-      if (jsxNode) {
-        possibleReturns.push(jsxNode);
-      }
-    }
+    if (variants.length === 0) return null;
 
-    if (possibleReturns.length === 0) return null;
+    const position = declaration.getSourceFile().getLineAndColumnAtPos(declaration.getStart());
 
     return {
       name,
-      filePath: arrow.getSourceFile().getFilePath(),
-      possibleReturns,
-      hasConditionalRendering,
+      filePath: declaration.getSourceFile().getFilePath(),
+      line: position.line,
+      column: position.column,
+      possibleReturns: variants.map(variant => variant.node),
+      variants,
+      variantCount: total,
+      hasConditionalRendering: forms.some(form => form.conditions.length > 0),
       dependencies: Array.from(dependencies),
     };
   }
 
   /**
-   * Extract JSX from an expression
+   * The function rendering a component defined by an expression: a function, a class, or a call
+   * wrapping one (`forwardRef(...)`, `memo(...)`, `withRouter(...)`, `connect(...)(...)`).
+   * References to components declared elsewhere are followed only when `followReferences` is set,
+   * so that wrapping an existing component is not analyzed as a second component.
    */
-  private extractJsxFromExpression(expr: Node, dependencies: Set<string>): JsxNode | null {
-    // Unwrap parenthesized expressions
-    let current = expr;
-    while (Node.isParenthesizedExpression(current)) {
+  private unwrapComponent(expression: Node, followReferences: boolean): FunctionLike | null {
+    let current = expression;
+    while (
+      Node.isParenthesizedExpression(current) ||
+      Node.isAsExpression(current) ||
+      Node.isSatisfiesExpression(current) ||
+      Node.isNonNullExpression(current)
+    ) {
       current = current.getExpression();
     }
 
-    return this.extractJsxNode(current, dependencies);
+    if (Node.isArrowFunction(current) || Node.isFunctionExpression(current)) {
+      return current;
+    }
+
+    if (Node.isClassExpression(current)) {
+      return getRenderMethod(current);
+    }
+
+    if (Node.isCallExpression(current)) {
+      // The wrapped component is the first argument that is one
+      for (const argument of current.getArguments()) {
+        const func = this.unwrapComponent(argument, followReferences);
+        if (func) return func;
+      }
+      return null;
+    }
+
+    if (followReferences && (Node.isIdentifier(current) || Node.isPropertyAccessExpression(current))) {
+      return this.resolveComponent(current);
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract the forms a function can return, from its expression body or its own return statements
+   */
+  private extractFunctionForms(func: FunctionLike, context: ExtractionContext): FormSet {
+    const body = func.getBody();
+    if (!body) return { forms: [], total: 0 };
+
+    if (!Node.isBlock(body)) {
+      return this.extractForms(body, context);
+    }
+
+    // Returns inside nested functions (callbacks, helpers) belong to those functions
+    const returns = body.getDescendantsOfKind(SyntaxKind.ReturnStatement)
+      .filter(returnStmt => returnStmt.getFirstAncestor(isFunctionBoundary) === func);
+
+    return this.union(returns.map(returnStmt => {
+      const expr = returnStmt.getExpression();
+      const forms = expr ? this.extractForms(expr, context) : nothing();
+      return withConditions(forms, this.getPathConditions(returnStmt, body));
+    }));
   }
 
   /**
-   * Extract JSX node structure
+   * Extract every form of an expression: JSX, conditionals, logical operators and .map() callbacks
    */
-  private extractJsxNode(node: Node, dependencies: Set<string>): JsxNode | null {
-    if (Node.isJsxElement(node)) {
-      return this.extractJsxElement(node, dependencies);
-    } else if (Node.isJsxSelfClosingElement(node)) {
-      return this.extractJsxSelfClosingElement(node, dependencies);
-    } else if (Node.isJsxFragment(node)) {
-      return this.extractJsxFragment(node, dependencies);
-    } else if (Node.isConditionalExpression(node)) {
-      // Handle ternary: condition ? <A /> : <B />
-      const whenTrue = this.extractJsxFromExpression(node.getWhenTrue(), dependencies);
-      const whenFalse = this.extractJsxFromExpression(node.getWhenFalse(), dependencies);
+  private extractForms(node: Node, context: ExtractionContext): FormSet {
+    // Unwrap parenthesized expressions
+    let current = node;
+    while (Node.isParenthesizedExpression(current)) {
+      current = current.getExpression();
+    }
+
+    // Props of the component being inlined, e.g. {children}, or {label} rendering its text
+    const prop = resolveProp(current, context.props);
+    if (prop) {
+      return prop.forms ?? textForms(prop.choices);
+    }
 
-      // For now, return the "true" branch, but mark that there are alternatives
-      // In a full implementation, we'd track both branches
-      return whenTrue || whenFalse;
-    } else if (Node.isJsxExpression(node)) {
-      const expr = node.getExpression();
+    if (Node.isJsxElement(current) || Node.isJsxSelfClosingElement(current)) {
+      return this.extractJsxElement(current, context);
+    } else if (Node.isJsxFragment(current)) {
+      return this.extractJsxFragment(current, context);
+    } else if (Node.isConditionalExpression(current)) {
+      // cond ? <A /> : <B />
+      const condition = current.getCondition();
+      const known = getKnownTruthiness(condition, context.props);
+      if (known !== undefined) {
+        return this.extractForms(known ? current.getWhenTrue() : current.getWhenFalse(), context);
+      }
+      const whenTrue = this.extractForms(current.getWhenTrue(), narrowContext(condition, context, true));
+      const whenFalse = this.extractForms(current.getWhenFalse(), narrowContext(condition, context, false));
+      return this.union([
+        withConditions(whenTrue, [describeCondition(condition)]),
+        withConditions(whenFalse, [negateCondition(condition)]),
+      ]);
+    } else if (Node.isBinaryExpression(current)) {
+      return this.extractLogicalForms(current, context);
+    } else if (Node.isCallExpression(current)) {
+      return this.extractMapForms(current, context);
+    } else if (Node.isJsxExpression(current)) {
+      const expr = current.getExpression();
       if (expr) {
-        return this.extractJsxFromExpression(expr, dependencies);
+        return this.extractForms(expr, context);
       }
     }
 
-    return null;
+    return nothing();
   }
 
   /**
-   * Extract JSX element (with opening and closing tags)
+   * Extract the forms of `cond && <A />`, `value || <A />` and `value ?? <A />`
    */
-  private extractJsxElement(element: JsxElement, dependencies: Set<string>): JsxNode {
-    const openingElement = element.getOpeningElement();
-    const tagNameNode = openingElement.getTagNameNode();
-    const tagName = tagNameNode.getText();
+  private extractLogicalForms(expression: BinaryExpression, context: ExtractionContext): FormSet {
+    const left = expression.getLeft();
+    const right = expression.getRight();
+    const operator = expression.getOperatorToken().getKind();
+
+    // A passed or missing prop of the inlined component decides the branch
+    const known = getKnownTruthiness(left, context.props);
+    if (known !== undefined && operator === SyntaxKind.AmpersandAmpersandToken) {
+      return known ? this.extractForms(right, context) : nothing();
+    }
+    if (known !== undefined && operator === SyntaxKind.BarBarToken) {
+      return this.extractForms(known ? left : right, context);
+    }
 
-    // Track component dependencies
-    if (/^[A-Z]/.test(tagName)) {
-      dependencies.add(tagName);
+    switch (operator) {
+      case SyntaxKind.AmpersandAmpersandToken:
+        return this.union([
+          withConditions(this.extractForms(right, narrowContext(left, context, true)), [describeCondition(left)]),
+          withConditions(nothing(), [negateCondition(left)]),
+        ]);
+      case SyntaxKind.BarBarToken:
+        return this.union([
+          withConditions(this.extractForms(left, narrowContext(left, context, true)), [describeCondition(left)]),
+          withConditions(this.extractForms(right, narrowContext(left, context, false)), [negateCondition(left)]),
+        ]);
+      case SyntaxKind.QuestionQuestionToken:
+        return this.union([
+          withConditions(this.extractForms(left, context), [`${describeCondition(left)} != null`]),
+          withConditions(this.extractForms(right, context), [`${describeCondition(left)} == null`]),
+        ]);
+      default:
+        return nothing();
     }
+  }
 
-    const attributes = this.extractAttributes(element);
-    const children: JsxNode[] = [];
+  /**
+   * Extract the forms of `items.map(item => <li />)`: one representative item per callback form
+   */
+  private extractMapForms(call: CallExpression, context: ExtractionContext): FormSet {
+    const callee = call.getExpression();
+    const [callback] = call.getArguments();
 
-    for (const child of element.getJsxChildren()) {
-      if (Node.isJsxElement(child) || Node.isJsxSelfClosingElement(child) || Node.isJsxFragment(child)) {
-        const childNode = this.extractJsxNode(child, dependencies);
-        if (childNode) {
-          children.push(childNode);
-        }
-      } else if (Node.isJsxText(child)) {
-        const text = child.getText().trim();
-        if (text) {
-          children.push({
-            tagName: '#text',
-            attributes: {},
-            children: [],
-            text,
-          });
-        }
-      } else if (Node.isJsxExpression(child)) {
-        const expr = child.getExpression();
-        if (expr) {
-          const jsxNode = this.extractJsxFromExpression(expr, dependencies);
-          if (jsxNode) {
-            children.push(jsxNode);
-          }
-        }
-      }
+    if (
+      !Node.isPropertyAccessExpression(callee) ||
+      !['map', 'flatMap'].includes(callee.getName()) ||
+      !callback ||
+      !(Node.isArrowFunction(callback) || Node.isFunctionExpression(callback))
+    ) {
+      return nothing();
     }
 
-    return {
-      tagName,
-      attributes,
-      children,
-    };
+    // Iterating is not a branch: the item's forms keep only the conditions inside the callback
+    const forms = this.extractFunctionForms(callback, context);
+    return forms.forms.length > 0 ? forms : nothing();
   }
 
   /**
-   * Extract self-closing JSX element
+   * Extract JSX element, with opening and closing tags or self-closing
    */
-  private extractJsxSelfClosingElement(element: JsxSelfClosingElement, dependencies: Set<string>): JsxNode {
-    const tagNameNode = element.getTagNameNode();
+  private extractJsxElement(element: JsxElement | JsxSelfClosingElement, context: ExtractionContext): FormSet {
+    const tagNameNode = Node.isJsxElement(element)
+      ? element.getOpeningElement().getTagNameNode()
+      : element.getTagNameNode();
     const tagName = tagNameNode.getText();
+    const children = Node.isJsxElement(element) ? this.extractChildren(element.getJsxChildren(), context) : [];
+
+    if (isComponentName(tagName)) {
+      // Track component dependencies
+      context.dependencies.add(tagName);
+      return this.extractComponentUsage(element, tagName, children, context);
+    }
+
+    const shells = this.extractAttributeForms(element, tagName, context);
+
+    return this.combine([shells, ...children], ([shell, ...rest]) => ({
+      ...shell.node!,
+      children: nodesOf(rest),
+    }));
+  }
+
+  /**
+   * Inline the forms of a component used in JSX, with its props and children bound.
+   * Components that cannot be resolved to a body, or that are already being inlined,
+   * are kept as an opaque node.
+   */
+  private extractComponentUsage(
+    element: JsxElement | JsxSelfClosingElement,
+    tagName: string,
+    children: FormSet[],
+    context: ExtractionContext
+  ): FormSet {
+    const tagNameNode = Node.isJsxElement(element)
+      ? element.getOpeningElement().getTagNameNode()
+      : element.getTagNameNode();
+    const component = this.resolveComponent(tagNameNode);
 
-    // Track component dependencies
-    if (/^[A-Z]/.test(tagName)) {
-      dependencies.add(tagName);
+    if (!component || context.inlining.includes(component)) {
+      const shells = this.extractAttributeForms(element, tagName, context);
+      const importSource = component ? undefined : getImportModule(tagNameNode);
+      return this.combine([shells, ...children], ([shell, ...rest]) => ({
+        ...shell.node!,
+        children: nodesOf(rest),
+        opaque: true,
+        ...(importSource ? { module: importSource } : {}),
+      }));
     }
 
-    const attributes = this.extractAttributes(element);
+    const props = this.extractProps(element, context);
+    if (children.length > 0) {
+      props.set('children', {
+        choices: [{ value: new UnknownValue('children', 'ReactNode'), conditions: [] }],
+        forms: this.combine(children, picked => toFragment(nodesOf(picked))),
+      });
+    }
+
+    const forms = this.extractFunctionForms(component, {
+      dependencies: new Set(),
+      props: bindProps(component, props),
+      inlining: [...context.inlining, component],
+    });
+    if (forms.forms.length === 0) return nothing();
+
+    // Elements from another file are reported at the tag using the component
+    const relocate = component.getSourceFile() === element.getSourceFile()
+      ? (node: JsxNode | null) => node
+      : createRelocation(element, props, component.getSourceFile().getFilePath());
+
+    // Conditions of the props and children passed in belong to the caller and keep their text
+    const passed = new Set<string>();
+    for (const value of props.values()) {
+      value.choices.forEach(choice => choice.conditions.forEach(condition => passed.add(condition)));
+      value.forms?.forms.forEach(form => form.conditions.forEach(condition => passed.add(condition)));
+    }
 
     return {
-      tagName,
-      attributes,
-      children: [],
+      forms: forms.forms.map(form => ({
+        node: relocate(form.node),
+        conditions: form.conditions.map(condition => passed.has(condition) ? condition : `${tagName}: ${condition}`),
+      })),
+      total: forms.total,
     };
   }
 
   /**
-   * Extract JSX fragment (<>...</>)
+   * Find the function rendering a component, following imports, re-exports and wrapper calls
    */
-  private extractJsxFragment(fragment: JsxFragment, dependencies: Set<string>): JsxNode {
-    const children: JsxNode[] = [];
+  private resolveComponent(tagNameNode: Node): FunctionLike | null {
+    let symbol = tagNameNode.getSymbol();
+    if (symbol?.isAlias()) {
+      // Imported components are inlined, so the files they come from must be part of the project.
+      // Resolving dependencies is slow, so it is done once the first import is met.
+      if (!this.dependenciesResolved) {
+        this.project.resolveSourceFileDependencies();
+        this.dependenciesResolved = true;
+        symbol = tagNameNode.getSymbol();
+      }
+      symbol = symbol?.getAliasedSymbol();
+    }
 
-    for (const child of fragment.getJsxChildren()) {
-      if (Node.isJsxElement(child) || Node.isJsxSelfClosingElement(child) || Node.isJsxFragment(child)) {
-        const childNode = this.extractJsxNode(child, dependencies);
-        if (childNode) {
-          children.push(childNode);
-        }
-      } else if (Node.isJsxText(child)) {
-        const text = child.getText().trim();
-        if (text) {
-          children.push({
-            tagName: '#text',
-            attributes: {},
-            children: [],
-            text,
-          });
-        }
+    return this.resolveDeclarations(symbol?.getDeclarations() ?? []);
+  }
+
+  /**
+   * The function rendering a component from the declarations of its symbol
+   */
+  private resolveDeclarations(declarations: Node[]): FunctionLike | null {
+    for (const declaration of declarations) {
+      if (Node.isFunctionDeclaration(declaration) && declaration.getBody()) {
+        return declaration;
+      } else if (Node.isClassDeclaration(declaration)) {
+        return getRenderMethod(declaration);
+      } else if (Node.isVariableDeclaration(declaration)) {
+        const initializer = declaration.getInitializer();
+        const func = initializer && this.unwrapComponent(initializer, true);
+        if (func) return func;
+      } else if (Node.isExportAssignment(declaration)) {
+        // export default Component; export default memo(Component);
+        return this.unwrapComponent(declaration.getExpression(), true);
       }
     }
 
-    return {
-      tagName: '#fragment',
-      attributes: {},
-      children,
-      isFragment: true,
-    };
+    return null;
   }
 
   /**
-   * Extract attributes from JSX element
+   * Extract the props passed to a component, keeping React names and JSX values
    */
-  private extractAttributes(element: JsxElement | JsxSelfClosingElement): Record<string, string> {
-    const attributes: Record<string, string> = {};
+  private extractProps(element: JsxElement | JsxSelfClosingElement, context: ExtractionContext): Map<string, PropValue> {
+    const props = new Map<string, PropValue>();
     const openingElement = Node.isJsxElement(element) ? element.getOpeningElement() : element;
 
     for (const attr of openingElement.getAttributes()) {
@@ -368,95 +751,974 @@ export class JsxParser {
         const name = attr.getNameNode().getText();
         const initializer = attr.getInitializer();
 
-        // Convert React attributes to HTML attributes
-        const htmlName = this.reactToHtmlAttribute(name);
-
-        if (initializer) {
-          if (Node.isStringLiteral(initializer)) {
-            attributes[htmlName] = initializer.getLiteralValue();
-          } else if (Node.isJsxExpression(initializer)) {
-            const expr = initializer.getExpression();
-            if (expr && Node.isStringLiteral(expr)) {
-              attributes[htmlName] = expr.getLiteralValue();
-            } else {
-              // For dynamic expressions, use placeholder
-              attributes[htmlName] = '{expression}';
-            }
+        if (!initializer) {
+          props.set(name, { choices: [{ value: true, conditions: [] }] });
+        } else if (Node.isStringLiteral(initializer)) {
+          props.set(name, { choices: [{ value: initializer.getLiteralValue(), conditions: [] }] });
+        } else if (Node.isJsxExpression(initializer)) {
+          const expr = initializer.getExpression();
+          if (expr) {
+            props.set(name, this.extractPropValue(expr, context));
           }
-        } else {
-          // Boolean attribute (e.g., disabled, required)
-          attributes[htmlName] = 'true';
         }
       } else if (Node.isJsxSpreadAttribute(attr)) {
-        // Handle spread attributes {...props}
-        attributes['data-spread'] = 'true';
+        // Props forwarded from the component being inlined
+        for (const [name, value] of getForwardedProps(attr.getExpression(), context.props) ?? []) {
+          props.set(name, value);
+        }
       }
     }
 
-    return attributes;
+    return props;
   }
 
   /**
-   * Convert React attribute names to HTML attribute names
+   * Value of a prop expression: a prop of the enclosing component, JSX, or the values its type allows
    */
-  private reactToHtmlAttribute(name: string): string {
-    const mapping: Record<string, string> = {
-      'className': 'class',
-      'htmlFor': 'for',
-      'tabIndex': 'tabindex',
-      'readOnly': 'readonly',
-      'maxLength': 'maxlength',
-      'minLength': 'minlength',
-      'autoComplete': 'autocomplete',
-      'autoFocus': 'autofocus',
-      'srcSet': 'srcset',
-      'crossOrigin': 'crossorigin',
-      'noValidate': 'novalidate',
-    };
+  private extractPropValue(expr: Node, context: ExtractionContext): PropValue {
+    const forwarded = resolveProp(expr, context.props);
+    if (forwarded) return forwarded;
 
-    return mapping[name] || name.toLowerCase();
+    const forms = this.extractForms(expr, context);
+    if (forms.forms.some(form => form.node)) {
+      return { choices: [{ value: new UnknownValue(describeCondition(expr), 'JSX.Element'), conditions: [] }], forms };
+    }
+
+    return { choices: this.extractValueChoices(expr, context) };
   }
 
   /**
-   * Convert JsxNode to HTML string for rule checking
+   * Possible values of an attribute expression. String, number and boolean literal types
+   * become concrete values, `undefined` and `null` make the attribute possibly absent,
+   * and any other type is an unknown value. A conditional or logical expression yields the
+   * values of each branch under its condition.
    */
-  jsxNodeToHtml(node: JsxNode): string {
-    if (node.tagName === '#text') {
-      return node.text || '';
+  private extractValueChoices(node: Node, context: ExtractionContext): AttributeChoice[] {
+    let expr = node;
+    while (Node.isParenthesizedExpression(expr)) {
+      expr = expr.getExpression();
     }
 
-    if (node.tagName === '#fragment' || node.isFragment) {
-      return node.children.map(child => this.jsxNodeToHtml(child)).join('');
+    if (Node.isStringLiteral(expr) || Node.isNoSubstitutionTemplateLiteral(expr)) {
+      return [{ value: expr.getLiteralValue(), conditions: [] }];
     }
 
-    // Skip React components (capitalized), convert to placeholder divs
-    const tagName = /^[A-Z]/.test(node.tagName) ? 'div' : node.tagName;
+    const prop = resolveProp(expr, context.props);
+    if (prop) return prop.choices;
 
-    const attrs = Object.entries(node.attributes)
-      .filter(([key]) => key !== 'data-spread')
-      .map(([key, value]) => {
-        if (value === 'true') {
-          return key; // Boolean attribute
-        }
-        if (value === '{expression}') {
-          return `${key}="..."`; // Dynamic value
-        }
-        return `${key}="${value}"`;
-      })
-      .join(' ');
+    if (Node.isConditionalExpression(expr)) {
+      // cond ? 'page' : undefined
+      const condition = expr.getCondition();
+      const known = getKnownTruthiness(condition, context.props);
+      if (known !== undefined) {
+        return this.extractValueChoices(known ? expr.getWhenTrue() : expr.getWhenFalse(), context);
+      }
+
+      const branch = (branchExpr: Node, truthy: boolean) =>
+        this.extractValueChoices(branchExpr, narrowContext(condition, context, truthy))
+          .map(choice => ({
+            value: choice.value,
+            conditions: [truthy ? describeCondition(condition) : negateCondition(condition), ...choice.conditions],
+          }))
+          .filter(choice => !isContradictory(choice.conditions));
+
+      return [...branch(expr.getWhenTrue(), true), ...branch(expr.getWhenFalse(), false)];
+    }
+
+    if (Node.isBinaryExpression(expr)) {
+      // cond && 'page', label || 'Untitled', label ?? 'Untitled'
+      const choices = this.extractLogicalChoices(expr, context);
+      if (choices) return choices;
+    }
+
+    // Operators bind looser than the comparisons the conditions add
+    const text = isPrimaryExpression(expr) ? describeCondition(expr) : `(${describeCondition(expr)})`;
+    const type = expr.getType();
+    const choices: AttributeChoice[] = [];
+    const unknownTypes: string[] = [];
+    let nullable = false;
+
+    for (const member of type.isUnion() ? type.getUnionTypes() : [type]) {
+      if (member.isStringLiteral() || member.isNumberLiteral()) {
+        const value = String(member.getLiteralValue());
+        const literal = member.isStringLiteral() ? `'${value}'` : value;
+        choices.push({ value, conditions: [`${text} === ${literal}`] });
+      } else if (member.isBooleanLiteral()) {
+        choices.push(member.getText() === 'true'
+          ? { value: true, conditions: [text] }
+          : { value: false, conditions: [negateCondition(expr)] });
+      } else if (member.isUndefined() || member.isNull()) {
+        nullable = true;
+      } else {
+        unknownTypes.push(member.getText());
+      }
+    }
+
+    if (unknownTypes.length > 0) {
+      const unknownType = unknownTypes.join(' | ');
+      choices.push({
+        value: new UnknownValue(text, unknownType),
+        conditions: choices.length > 0 ? [`${text} is ${unknownType}`] : nullable ? [`${text} != null`] : [],
+      });
+    }
+
+    if (nullable) {
+      choices.push({ conditions: [`${text} == null`] });
+    }
+
+    // A single possibility is not a branch
+    return choices.length === 1 ? [{ value: choices[0].value, conditions: [] }] : choices;
+  }
+
+  /**
+   * Possible values of `cond && 'x'`, `value || 'x'` and `value ?? 'x'`: those of the left
+   * operand where it is the result, and those of the right one under the condition selecting it.
+   * Null for other operators.
+   */
+  private extractLogicalChoices(expression: BinaryExpression, context: ExtractionContext): AttributeChoice[] | null {
+    const left = expression.getLeft();
+    const right = expression.getRight();
+    const operator = expression.getOperatorToken().getKind();
+
+    // A passed or missing prop of the inlined component decides the branch
+    const known = getKnownTruthiness(left, context.props);
+    if (known !== undefined && operator === SyntaxKind.AmpersandAmpersandToken) {
+      return this.extractValueChoices(known ? right : left, context);
+    }
+    if (known !== undefined && operator === SyntaxKind.BarBarToken) {
+      return this.extractValueChoices(known ? left : right, context);
+    }
+
+    const branch = (
+      branchExpr: Node,
+      condition: string,
+      branchContext: ExtractionContext,
+      isResult: (value: JsxAttributeValue | undefined) => boolean = () => true
+    ) =>
+      this.extractValueChoices(branchExpr, branchContext)
+        .filter(choice => isResult(choice.value))
+        .map(choice => ({
+          value: choice.value,
+          conditions: [condition, ...choice.conditions.filter(text => text !== condition)],
+        }))
+        .filter(choice => !isContradictory(choice.conditions));
+
+    switch (operator) {
+      case SyntaxKind.AmpersandAmpersandToken:
+        return [
+          ...branch(left, negateCondition(left), narrowContext(left, context, false), value => truthinessOf(value) !== true),
+          ...branch(right, describeCondition(left), narrowContext(left, context, true)),
+        ];
+      case SyntaxKind.BarBarToken:
+        return [
+          ...branch(left, describeCondition(left), narrowContext(left, context, true), value => truthinessOf(value) !== false),
+          ...branch(right, negateCondition(left), narrowContext(left, context, false)),
+        ];
+      case SyntaxKind.QuestionQuestionToken:
+        return [
+          ...branch(left, `${describeCondition(left)} != null`, context, value => value !== undefined),
+          ...branch(right, `${describeCondition(left)} == null`, context),
+        ];
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Extract JSX fragment (<>...</>)
+   */
+  private extractJsxFragment(fragment: JsxFragment, context: ExtractionContext): FormSet {
+    const children = this.extractChildren(fragment.getJsxChildren(), context);
+
+    return this.combine(children, picked => toFragment(nodesOf(picked)));
+  }
+
+  /**
+   * Extract the forms of each child slot of an element or fragment
+   */
+  private extractChildren(jsxChildren: Node[], context: ExtractionContext): FormSet[] {
+    const children: FormSet[] = [];
+
+    for (const child of jsxChildren) {
+      if (Node.isJsxElement(child) || Node.isJsxSelfClosingElement(child) || Node.isJsxFragment(child)) {
+        children.push(this.extractForms(child, context));
+      } else if (Node.isJsxText(child)) {
+        const text = child.getText().trim();
+        if (text) {
+          children.push(single({
+            tagName: '#text',
+            attributes: {},
+            children: [],
+            text,
+          }));
+        }
+      } else if (Node.isJsxExpression(child)) {
+        if (child.getExpression()) {
+          children.push(this.extractForms(child, context));
+        } else {
+          children.push(...this.extractSuppressionComments(child).map(single));
+        }
+      }
+    }
+
+    return children;
+  }
+
+  /**
+   * Union of alternative form sets, capped at the variant limit
+   */
+  private union(sets: FormSet[]): FormSet {
+    return unionForms(sets, this.maxVariants);
+  }
+
+  /**
+   * Combine the forms of each child slot into the forms of their parent
+   */
+  private combine(slots: FormSet[], build: (picked: Form[]) => JsxNode): FormSet {
+    return combineForms(slots, build, this.maxVariants);
+  }
+
+  /**
+   * Pick which combinations of slot alternatives to enumerate
+   */
+  private selectCombinations(sizes: number[]): number[][] {
+    return selectCombinations(sizes, this.maxVariants);
+  }
+
+  /**
+   * Conditions under which a return statement is reached: enclosing if/else and switch
+   * branches, and earlier guards in the same blocks that return early
+   */
+  private getPathConditions(statement: Node, body: Node): string[] {
+    const conditions: string[] = [];
+    let child = statement;
+
+    while (child !== body) {
+      const parent = child.getParentOrThrow();
+      const level: string[] = [];
+
+      if (Node.isBlock(parent) || Node.isCaseClause(parent) || Node.isDefaultClause(parent)) {
+        for (const sibling of parent.getStatements()) {
+          if (sibling === child) break;
+          const guard = getGuardCondition(sibling);
+          if (guard) level.push(guard);
+        }
+      }
+
+      if (Node.isIfStatement(parent)) {
+        if (child === parent.getThenStatement()) {
+          level.push(describeCondition(parent.getExpression()));
+        } else if (child === parent.getElseStatement()) {
+          level.push(negateCondition(parent.getExpression()));
+        }
+      } else if (Node.isCaseClause(parent) || Node.isDefaultClause(parent)) {
+        const caseCondition = getCaseCondition(parent);
+        if (caseCondition) level.unshift(caseCondition);
+      }
+
+      conditions.unshift(...level);
+      child = parent;
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Extract xrules suppression comments from an empty JSX expression ({/* ... *\/})
+   */
+  private extractSuppressionComments(expression: JsxExpression): JsxNode[] {
+    const sourceFile = expression.getSourceFile();
+    const comments: JsxNode[] = [];
+    const commentPattern = /\/\*([\s\S]*?)\*\/|\/\/([^\n]*)/g;
+    const start = expression.getStart();
+
+    let match: RegExpExecArray | null;
+    while ((match = commentPattern.exec(expression.getText())) !== null) {
+      const text = match[1] ?? match[2];
+      if (!parseSuppressionDirective(text)) continue;
+
+      const position = sourceFile.getLineAndColumnAtPos(start + match.index);
+      comments.push({
+        tagName: '#comment',
+        attributes: {},
+        children: [],
+        text: text.replace(/-->/g, '-- >'),
+        line: position.line,
+        column: position.column,
+      });
+    }
+
+    return comments;
+  }
+
+  /**
+   * Extract the attributes of a JSX element as childless nodes, one per combination of attribute values
+   */
+  private extractAttributeForms(
+    element: JsxElement | JsxSelfClosingElement,
+    tagName: string,
+    context: ExtractionContext
+  ): FormSet {
+    const slots: Array<{ name: string; choices: AttributeChoice[] }> = [];
+    const openingElement = Node.isJsxElement(element) ? element.getOpeningElement() : element;
+
+    for (const attr of openingElement.getAttributes()) {
+      if (Node.isJsxAttribute(attr)) {
+        const name = attr.getNameNode().getText();
+        const initializer = attr.getInitializer();
+
+        // React consumes key and ref (e.g. forwarded by forwardRef) instead of rendering them
+        if (name === 'key' || name === 'ref') continue;
+
+        // Convert React attributes to HTML attributes
+        const htmlName = this.reactToHtmlAttribute(name);
+
+        if (initializer) {
+          if (Node.isStringLiteral(initializer)) {
+            slots.push({ name: htmlName, choices: [{ value: initializer.getLiteralValue(), conditions: [] }] });
+          } else if (Node.isJsxExpression(initializer)) {
+            const expr = initializer.getExpression();
+            if (expr) {
+              // Props of the component being inlined are substituted, other expressions expand by type
+              slots.push({ name: htmlName, choices: this.extractValueChoices(expr, context) });
+            }
+          }
+        } else {
+          // Boolean attribute (e.g., disabled, required)
+          slots.push({ name: htmlName, choices: [{ value: true, conditions: [] }] });
+        }
+      } else if (Node.isJsxSpreadAttribute(attr)) {
+        const forwarded = getForwardedProps(attr.getExpression(), context.props);
+        if (forwarded) {
+          // {...props} of the component being inlined: the props passed to it are known
+          for (const [name, value] of forwarded) {
+            slots.push({ name: this.reactToHtmlAttribute(name), choices: value.choices });
+          }
+        } else {
+          // Handle spread attributes {...props}
+          slots.push({ name: 'data-spread', choices: [{ value: true, conditions: [] }] });
+        }
+      }
+    }
+
+    const { line, column } = element.getSourceFile().getLineAndColumnAtPos(element.getStart());
+    const total = slots.reduce((product, slot) => product * slot.choices.length, 1);
+    const forms = this.selectCombinations(slots.map(slot => slot.choices.length)).map(indices => {
+      const attributes: Record<string, JsxAttributeValue> = {};
+      const conditions: string[] = [];
+
+      indices.forEach((index, slot) => {
+        const { name, choices } = slots[slot];
+        const { value } = choices[index];
+        // Later attributes win, and an absent value removes an earlier one
+        if (value === undefined) {
+          delete attributes[name];
+        } else {
+          attributes[name] = value;
+        }
+        conditions.push(...choices[index].conditions);
+      });
+
+      return { node: { tagName, attributes, children: [], line, column }, conditions };
+    });
+
+    // Combinations of values whose conditions cannot hold together are unreachable
+    const reachable = forms.filter(form => !isContradictory(form.conditions));
+    return { forms: reachable, total: total - (forms.length - reachable.length) };
+  }
+
+  /**
+   * Convert React attribute names to HTML attribute names
+   */
+  private reactToHtmlAttribute(name: string): string {
+    const mapping: Record<string, string> = {
+      'className': 'class',
+      'htmlFor': 'for',
+      'tabIndex': 'tabindex',
+      'readOnly': 'readonly',
+      'maxLength': 'maxlength',
+      'minLength': 'minlength',
+      'autoComplete': 'autocomplete',
+      'autoFocus': 'autofocus',
+      'srcSet': 'srcset',
+      'crossOrigin': 'crossorigin',
+      'noValidate': 'novalidate',
+    };
+
+    return mapping[name] || name.toLowerCase();
+  }
+
+  /**
+   * Convert JsxNode to HTML string for rule checking
+   */
+  jsxNodeToHtml(node: JsxNode): string {
+    return this.renderHtml(node).html;
+  }
+
+  /**
+   * Convert JsxNode to HTML, also returning the JSX node behind each generated element
+   */
+  renderHtml(node: JsxNode): RenderedHtml {
+    const output: HtmlOutput = { html: '', starts: [] };
+    this.appendHtml(node, output);
+
+    // Start tags were appended in order, so one pass turns their offsets into line:column keys
+    const elements = new Map<string, JsxNode>();
+    let line = 1;
+    let lineStart = 0;
+    let scanned = 0;
+
+    for (const { offset, node: element } of output.starts) {
+      for (; scanned < offset; scanned++) {
+        if (output.html[scanned] === '\n') {
+          line++;
+          lineStart = scanned + 1;
+        }
+      }
+      elements.set(`${line}:${offset - lineStart + 1}`, element);
+    }
+
+    return { html: output.html, elements };
+  }
+
+  /**
+   * Append the HTML of a JsxNode, recording where each start tag begins
+   */
+  private appendHtml(node: JsxNode, output: HtmlOutput): void {
+    if (node.tagName === '#text') {
+      output.html += node.text || '';
+      return;
+    }
+
+    if (node.tagName === '#comment') {
+      // Keep the directive on its own line so next-line suppressions target the following element
+      output.html += `<!--${node.text || ''}-->\n`;
+      return;
+    }
+
+    if (node.tagName === '#fragment' || node.isFragment) {
+      this.appendChildrenHtml(node.children, output);
+      return;
+    }
+
+    // Components that were not inlined become placeholder divs naming the component
+    const tagName = node.opaque || isComponentName(node.tagName) ? 'div' : node.tagName;
+    const attributes = node.opaque
+      ? {
+        [OPAQUE_COMPONENT_ATTRIBUTE]: node.tagName,
+        ...(node.module ? { [OPAQUE_MODULE_ATTRIBUTE]: node.module } : {}),
+        ...node.attributes,
+      }
+      : node.attributes;
+
+    // React renders booleans in aria-* and data-* attributes as text
+    const rendersBooleanText = (key: string) => /^(aria|data)-/.test(key);
+    const attrs = Object.entries(attributes)
+      .filter(([key, value]) => key !== 'data-spread' && (value !== false || rendersBooleanText(key)))
+      .map(([key, value]) => {
+        if (value instanceof UnknownValue) {
+          return `${key}="${UNKNOWN_ATTRIBUTE_VALUE}"`; // Dynamic value
+        }
+        if (value === true && !rendersBooleanText(key)) {
+          return key; // Boolean attribute
+        }
+        return `${key}="${value}"`;
+      })
+      .join(' ');
 
     const attrString = attrs ? ' ' + attrs : '';
+    output.starts.push({ offset: output.html.length, node });
 
     if (node.children.length === 0) {
       // Self-closing tags
       const selfClosing = ['img', 'br', 'hr', 'input', 'meta', 'link'];
       if (selfClosing.includes(tagName)) {
-        return `<${tagName}${attrString} />`;
+        output.html += `<${tagName}${attrString} />`;
+      } else {
+        output.html += `<${tagName}${attrString}></${tagName}>`;
       }
-      return `<${tagName}${attrString}></${tagName}>`;
+      return;
     }
 
-    const childrenHtml = node.children.map(child => this.jsxNodeToHtml(child)).join('');
-    return `<${tagName}${attrString}>${childrenHtml}</${tagName}>`;
+    output.html += `<${tagName}${attrString}>`;
+    this.appendChildrenHtml(node.children, output);
+    output.html += `</${tagName}>`;
   }
+
+  /**
+   * Append sibling JsxNodes, ending the line after the target of a next-line suppression
+   */
+  private appendChildrenHtml(children: JsxNode[], output: HtmlOutput): void {
+    children.forEach((child, index) => {
+      this.appendHtml(child, output);
+      const previous = children[index - 1];
+      const suppressed = previous?.tagName === '#comment' &&
+        parseSuppressionDirective(previous.text || '')?.type === 'disable-next-line';
+      if (suppressed) {
+        output.html += '\n';
+      }
+    });
+  }
+}
+
+/**
+ * Move the elements a component from another file renders to the position of the tag using it,
+ * leaving the children and JSX props passed by that tag where they are
+ */
+function createRelocation(
+  usage: Node,
+  props: Map<string, PropValue>,
+  componentFile: string
+): (node: JsxNode | null) => JsxNode | null {
+  const { line, column } = usage.getSourceFile().getLineAndColumnAtPos(usage.getStart());
+  const passed = new Set<JsxNode>();
+  const relocated = new Map<JsxNode, JsxNode>();
+
+  const collect = (node: JsxNode) => {
+    passed.add(node);
+    node.children.forEach(collect);
+  };
+  for (const value of props.values()) {
+    value.forms?.forms.forEach(form => form.node && collect(form.node));
+  }
+
+  const relocate = (node: JsxNode): JsxNode => {
+    if (passed.has(node) || node.tagName === '#comment') return node;
+
+    let moved = relocated.get(node);
+    if (!moved) {
+      const origin = node.origin ?? { line: node.line, column: node.column, filePath: node.filePath ?? componentFile };
+      moved = { ...node, line, column, origin, children: node.children.map(relocate) };
+      relocated.set(node, moved);
+    }
+    return moved;
+  };
+
+  return node => node && relocate(node);
+}
+
+/**
+ * Record the file of the nodes of a form set that do not have one yet
+ */
+function withFilePath(set: FormSet, filePath: string): FormSet {
+  const tag = (node: JsxNode): JsxNode => node.filePath
+    ? node
+    : { ...node, filePath, children: node.children.map(tag) };
+
+  return {
+    forms: set.forms.map(form => ({ node: form.node && tag(form.node), conditions: form.conditions })),
+    total: set.total,
+  };
+}
+
+/**
+ * The module a component tag is imported from (`Image` -> `next/image`, `UI.Button` -> `./ui`)
+ */
+function getImportModule(tagNameNode: Node): string | undefined {
+  let identifier = tagNameNode;
+  while (Node.isPropertyAccessExpression(identifier)) {
+    identifier = identifier.getExpression();
+  }
+
+  for (const declaration of identifier.getSymbol()?.getDeclarations() ?? []) {
+    const importDeclaration = declaration.getFirstAncestorByKind(SyntaxKind.ImportDeclaration);
+    if (importDeclaration) return importDeclaration.getModuleSpecifierValue();
+  }
+
+  return undefined;
+}
+
+/**
+ * Components are capitalized or accessed through a namespace (`<Form.Field>`)
+ */
+export function isComponentName(tagName: string): boolean {
+  return /^[A-Z]/.test(tagName) || tagName.includes('.');
+}
+
+/**
+ * Bind the props passed to a component to the names its first parameter declares, or for
+ * class components to `this.props`. Props destructured from the props object in the body
+ * (`const { label } = props`) are bound too.
+ */
+function bindProps(component: FunctionLike, values: Map<string, PropValue>): PropBindings {
+  const bindings: PropBindings = { values, locals: new Map(), destructured: new Set() };
+
+  if (Node.isMethodDeclaration(component)) {
+    bindings.propsObject = 'this.props';
+  } else {
+    const [parameter] = component.getParameters();
+    if (!parameter) return bindings;
+
+    const nameNode = parameter.getNameNode();
+    if (Node.isObjectBindingPattern(nameNode)) {
+      bindPattern(nameNode, bindings);
+      return bindings;
+    }
+    bindings.propsObject = nameNode.getText();
+  }
+
+  for (const declaration of component.getBody()?.getDescendantsOfKind(SyntaxKind.VariableDeclaration) ?? []) {
+    const nameNode = declaration.getNameNode();
+    if (
+      Node.isObjectBindingPattern(nameNode) &&
+      declaration.getInitializer()?.getText() === bindings.propsObject &&
+      declaration.getFirstAncestor(isFunctionBoundary) === component
+    ) {
+      bindPattern(nameNode, bindings);
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Bind the names of a destructuring pattern over the props
+ */
+function bindPattern(pattern: ObjectBindingPattern, bindings: PropBindings): void {
+  for (const element of pattern.getElements()) {
+    const local = element.getNameNode();
+    if (!Node.isIdentifier(local)) continue;
+
+    if (element.getDotDotDotToken()) {
+      bindings.rest = local.getText();
+      continue;
+    }
+
+    const propName = element.getPropertyNameNode()?.getText() ?? local.getText();
+    bindings.locals.set(local.getText(), propName);
+    bindings.destructured.add(propName);
+
+    // Defaults apply to props that were not passed
+    const initializer = element.getInitializer();
+    if (!bindings.values.has(propName) && initializer && Node.isStringLiteral(initializer)) {
+      bindings.values.set(propName, { choices: [{ value: initializer.getLiteralValue(), conditions: [] }] });
+    }
+  }
+}
+
+/**
+ * The `render()` method of a class component
+ */
+function getRenderMethod(cls: ClassDeclaration | ClassExpression): MethodDeclaration | null {
+  const render = cls.getInstanceMethod('render');
+  return render?.getBody() ? render : null;
+}
+
+/**
+ * Name of an anonymous default export, after its file
+ */
+function getDefaultComponentName(sourceFile: SourceFile): string {
+  return getComponentNameFromFile(sourceFile.getFilePath());
+}
+
+/**
+ * Name of the component a file defines: `user-card.tsx` -> `UserCard`, `profile/index.tsx` -> `Profile`
+ */
+export function getComponentNameFromFile(filePath: string): string {
+  let base = path.basename(filePath, path.extname(filePath));
+  if (base === 'index') {
+    base = path.basename(path.dirname(filePath));
+  }
+
+  const name = base
+    .split(/[^A-Za-z0-9]+/)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Z]/.test(name) ? name : 'Anonymous';
+}
+
+/**
+ * The prop an expression refers to (`label`, `props.label`) in the inlined component; props that
+ * were not passed are absent
+ */
+function resolveProp(node: Node, props: PropBindings | undefined): PropValue | undefined {
+  const name = getPropName(node, props);
+  if (!props || name === undefined) return undefined;
+  return props.values.get(name) ?? { choices: [{ conditions: [] }] };
+}
+
+/**
+ * Name of the prop an expression refers to in the inlined component
+ */
+function getPropName(node: Node, props: PropBindings | undefined): string | undefined {
+  if (!props) return undefined;
+
+  if (Node.isIdentifier(node)) {
+    return props.locals.get(node.getText());
+  }
+  if (Node.isPropertyAccessExpression(node) && props.propsObject && node.getExpression().getText() === props.propsObject) {
+    return node.getName();
+  }
+  return undefined;
+}
+
+/**
+ * Context for a branch taken when a condition on a prop of the inlined component is truthy or
+ * falsy, keeping only the prop values that agree, e.g. `error && <p>{error}</p>` has an error
+ */
+function narrowContext(condition: Node, context: ExtractionContext, truthy: boolean): ExtractionContext {
+  let current = condition;
+  let expected = truthy;
+  while (
+    Node.isParenthesizedExpression(current) ||
+    (Node.isPrefixUnaryExpression(current) && current.getOperatorToken() === SyntaxKind.ExclamationToken)
+  ) {
+    if (Node.isPrefixUnaryExpression(current)) expected = !expected;
+    current = Node.isParenthesizedExpression(current) ? current.getExpression() : current.getOperand();
+  }
+
+  const { props } = context;
+  const name = getPropName(current, props);
+  const prop = name !== undefined ? props?.values.get(name) : undefined;
+  if (!props || name === undefined || !prop || prop.forms) return context;
+
+  const choices = prop.choices.filter(({ value }) => (truthinessOf(value) ?? true) === expected);
+  if (choices.length === 0 || choices.length === prop.choices.length) return context;
+
+  // The branch condition already selects a single remaining value
+  const narrowed = choices.length === 1 ? [{ value: choices[0].value, conditions: [] }] : choices;
+  const values = new Map(props.values).set(name, { choices: narrowed });
+  return { ...context, props: { ...props, values } };
+}
+
+/**
+ * Whether a condition on a prop of the inlined component is known to be truthy or falsy
+ */
+function getKnownTruthiness(node: Node, props: PropBindings | undefined): boolean | undefined {
+  const prop = resolveProp(node, props);
+  if (!prop) return undefined;
+  if (prop.forms) return true;
+
+  const truthiness = prop.choices.map(({ value }) => truthinessOf(value));
+  return truthiness.every(truthy => truthy === truthiness[0]) ? truthiness[0] : undefined;
+}
+
+/**
+ * Whether an attribute or prop value is truthy; undefined when the value is unknown
+ */
+function truthinessOf(value: JsxAttributeValue | undefined): boolean | undefined {
+  if (value instanceof UnknownValue) return undefined;
+  return typeof value === 'string' ? value !== '' : value === true;
+}
+
+/**
+ * Forms of a prop rendered as a child: text for each value it may have, nothing when absent or a boolean
+ */
+function textForms(choices: AttributeChoice[]): FormSet {
+  const forms = choices.map(({ value, conditions }): Form => ({
+    node: value === undefined || typeof value === 'boolean' ? null : {
+      tagName: '#text',
+      attributes: {},
+      children: [],
+      text: value instanceof UnknownValue ? UNKNOWN_ATTRIBUTE_VALUE : value,
+    },
+    conditions,
+  }));
+
+  return { forms, total: forms.length };
+}
+
+/**
+ * The props forwarded by spreading the props object or the `...rest` binding of the inlined component
+ */
+function getForwardedProps(expression: Node, props: PropBindings | undefined): Map<string, PropValue> | null {
+  const name = expression.getText();
+  if (!props || (name !== props.propsObject && name !== props.rest)) return null;
+
+  const forwarded = new Map<string, PropValue>();
+  for (const [prop, value] of props.values) {
+    if (prop === 'children' || prop === 'key' || prop === 'ref') continue;
+    if (name === props.rest && props.destructured.has(prop)) continue;
+    forwarded.set(prop, value);
+  }
+
+  return forwarded;
+}
+
+function isFunctionBoundary(node: Node): boolean {
+  return Node.isFunctionDeclaration(node) ||
+    Node.isArrowFunction(node) ||
+    Node.isFunctionExpression(node) ||
+    Node.isMethodDeclaration(node);
+}
+
+/**
+ * Whether an expression can be compared without parentheses, e.g. `item.id` but not `a || b`
+ */
+function isPrimaryExpression(node: Node): boolean {
+  return Node.isIdentifier(node) ||
+    Node.isPropertyAccessExpression(node) ||
+    Node.isElementAccessExpression(node) ||
+    Node.isCallExpression(node) ||
+    Node.isLiteralExpression(node) ||
+    Node.isTrueLiteral(node) ||
+    Node.isFalseLiteral(node) ||
+    Node.isNullLiteral(node) ||
+    Node.isThisExpression(node);
+}
+
+/**
+ * Source text of a condition on a single line
+ */
+function describeCondition(node: Node): string {
+  return node.getText().replace(/\s+/g, ' ');
+}
+
+/**
+ * Source text of the negation of a condition, e.g. `isOpen` -> `!isOpen`, `a === b` -> `a !== b`
+ */
+function negateCondition(node: Node): string {
+  let current = node;
+  while (Node.isParenthesizedExpression(current)) {
+    current = current.getExpression();
+  }
+
+  if (Node.isPrefixUnaryExpression(current) && current.getOperatorToken() === SyntaxKind.ExclamationToken) {
+    return describeCondition(current.getOperand());
+  }
+
+  if (Node.isBinaryExpression(current)) {
+    const negated: Partial<Record<SyntaxKind, string>> = {
+      [SyntaxKind.EqualsEqualsEqualsToken]: '!==',
+      [SyntaxKind.ExclamationEqualsEqualsToken]: '===',
+      [SyntaxKind.EqualsEqualsToken]: '!=',
+      [SyntaxKind.ExclamationEqualsToken]: '==',
+    };
+    const operator = negated[current.getOperatorToken().getKind()];
+    if (operator) {
+      return `${describeCondition(current.getLeft())} ${operator} ${describeCondition(current.getRight())}`;
+    }
+  }
+
+  const simple = Node.isIdentifier(current) ||
+    Node.isPropertyAccessExpression(current) ||
+    Node.isElementAccessExpression(current) ||
+    Node.isCallExpression(current);
+
+  return simple ? `!${describeCondition(current)}` : `!(${describeCondition(current)})`;
+}
+
+/**
+ * Condition under which code after an `if` that returns early still runs
+ */
+function getGuardCondition(statement: Node): string | null {
+  if (Node.isSwitchStatement(statement)) return getSwitchGuardCondition(statement);
+  if (!Node.isIfStatement(statement)) return null;
+
+  const elseStatement = statement.getElseStatement();
+  const thenTerminates = terminates(statement.getThenStatement());
+  const elseTerminates = !!elseStatement && terminates(elseStatement);
+
+  if (thenTerminates && !elseTerminates) return negateCondition(statement.getExpression());
+  if (elseTerminates && !thenTerminates) return describeCondition(statement.getExpression());
+  return null;
+}
+
+/**
+ * Whether a statement always returns or throws
+ */
+function terminates(statement: Node): boolean {
+  if (Node.isReturnStatement(statement) || Node.isThrowStatement(statement)) return true;
+
+  if (Node.isBlock(statement)) {
+    const statements = statement.getStatements();
+    return statements.length > 0 && terminates(statements[statements.length - 1]);
+  }
+
+  if (Node.isIfStatement(statement)) {
+    const elseStatement = statement.getElseStatement();
+    return !!elseStatement && terminates(statement.getThenStatement()) && terminates(elseStatement);
+  }
+
+  if (Node.isSwitchStatement(statement)) {
+    const clauses = statement.getCaseBlock().getClauses();
+    return clauses.some(clause => Node.isDefaultClause(clause)) && getClauseExits(statement).every(Boolean);
+  }
+
+  return false;
+}
+
+/**
+ * Condition under which code after a switch whose cases return early still runs,
+ * e.g. `kind !== 'a'` after `case 'a': return ...` with other cases breaking
+ */
+function getSwitchGuardCondition(statement: SwitchStatement): string | null {
+  const subject = describeCondition(statement.getExpression());
+  const clauses = statement.getCaseBlock().getClauses();
+  const exits = getClauseExits(statement);
+  const defaultIndex = clauses.findIndex(clause => Node.isDefaultClause(clause));
+
+  const labels = (returning: boolean) => clauses.flatMap((clause, index) =>
+    Node.isCaseClause(clause) && exits[index] === returning ? [describeCondition(clause.getExpression())] : []
+  );
+
+  if (defaultIndex === -1 || !exits[defaultIndex]) {
+    const returning = labels(true);
+    return returning.length > 0 ? returning.map(label => `${subject} !== ${label}`).join(' && ') : null;
+  }
+
+  // The default returns too: only the cases that break continue past the switch
+  const cases = labels(false).map(label => `${subject} === ${label}`);
+  if (cases.length === 0) return null;
+  return cases.length > 1 ? `(${cases.join(' || ')})` : cases[0];
+}
+
+/**
+ * Whether each clause of a switch returns or throws, following fall-through into later clauses
+ */
+function getClauseExits(statement: SwitchStatement): boolean[] {
+  const clauses = statement.getCaseBlock().getClauses();
+  const exits: boolean[] = [];
+  let next = false;
+
+  for (let index = clauses.length - 1; index >= 0; index--) {
+    const statements = clauses[index].getStatements();
+    const last = statements[statements.length - 1];
+    if (last && terminates(last)) {
+      next = true;
+    } else if (last && breaks(last)) {
+      next = false;
+    }
+    exits[index] = next;
+  }
+
+  return exits;
+}
+
+/**
+ * Whether a statement ends with a `break` out of its switch
+ */
+function breaks(statement: Node): boolean {
+  if (Node.isBreakStatement(statement)) return !statement.getLabel();
+
+  if (Node.isBlock(statement)) {
+    const statements = statement.getStatements();
+    return statements.length > 0 && breaks(statements[statements.length - 1]);
+  }
+
+  return false;
+}
+
+/**
+ * Condition selecting a switch clause, including empty cases that fall through into it
+ */
+function getCaseCondition(clause: CaseClause | DefaultClause): string | null {
+  const switchStatement = clause.getFirstAncestorByKindOrThrow(SyntaxKind.SwitchStatement);
+  const subject = describeCondition(switchStatement.getExpression());
+  const clauses = switchStatement.getCaseBlock().getClauses();
+
+  if (Node.isDefaultClause(clause)) {
+    const labels = clauses.flatMap(other => Node.isCaseClause(other) ? [describeCondition(other.getExpression())] : []);
+    return labels.length > 0 ? labels.map(label => `${subject} !== ${label}`).join(' && ') : null;
+  }
+
+  const labels = [describeCondition(clause.getExpression())];
+  for (let index = clauses.indexOf(clause) - 1; index >= 0; index--) {
+    const previous = clauses[index];
+    if (!Node.isCaseClause(previous) || previous.getStatements().length > 0) break;
+    labels.unshift(describeCondition(previous.getExpression()));
+  }
+
+  const cases = labels.map(label => `${subject} === ${label}`);
+  return cases.length > 1 ? `(${cases.join(' || ')})` : cases[0];
 }
@@ -0,0 +1,1109 @@
+/**
+ * Markdown and MDX Front-end
+ *
+ * A `.md` or `.mdx` document is compiled to a TSX module with one component
+ * rendering it, as MDX does: headings, paragraphs, lists, links, images and
+ * the other CommonMark and GFM constructs become the JSX elements they render
+ * to, and the JSX and `{expressions}` of an MDX document are copied as they
+ * are written, with its `import` and `export` statements. The component is
+ * then analyzed like any other, so imported components are inlined and
+ * conditionals enumerated. A source map from the generated TSX back to the
+ * document puts every node at the construct it comes from.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ComponentAnalysis, JsxNode } from './jsx-parser';
+import { JsxParser, getComponentNameFromFile } from './jsx-parser';
+import { parseMarkup, MarkupElement } from './template-parser';
+import { parseSuppressionDirective } from './suppressions';
+
+/**
+ * A document compiled to TSX
+ */
+export interface CompiledMarkdown {
+  code: string;
+  componentName: string;
+
+  /**
+   * Position in the document of a position in the generated code
+   */
+  getSourcePosition(line: number, column: number): { line: number; column: number };
+}
+
+/**
+ * Text taken from the document, with the offset in the document of each character and of its end
+ */
+interface SourceText {
+  text: string;
+  offsets: number[];
+}
+
+/**
+ * Generated code from `generated` on comes from `source`: character by character for the
+ * `length` characters of copied text, otherwise as a whole
+ */
+interface MapPoint {
+  generated: number;
+  source: number;
+  length: number;
+}
+
+interface LinkReference {
+  href: string;
+  title?: string;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}>/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)/;
+const INTERRUPTING_LIST_ITEM = /^ {0,3}(?:[-+*]|1[.)])[ \t]+\S/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const REFERENCE_DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+const ESM_STATEMENT = /^(?:import|export)\b/;
+const AUTOLINK = /^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)>/;
+const HTML_TAG = /^<\/?[A-Za-z][A-Za-z0-9-]*(?:\s+[^\s"'=<>`/]+(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>/;
+const JSX_NAME = /^[A-Za-z][\w-]*$/;
+const JSX_ATTRIBUTE_NAME = /^[A-Za-z_][\w:-]*$/;
+
+// HTML blocks started by these tags may interrupt a paragraph; others must be alone on their line
+const HTML_BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'fieldset', 'figcaption',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p',
+  'picture', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const TEXT_ENTITIES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '{': '&#123;', '}': '&#125;' };
+
+/**
+ * Front-end for Markdown and MDX documents
+ */
+export class MarkdownParser {
+  constructor(private jsxParser: JsxParser = new JsxParser()) {}
+
+  /**
+   * Analyze a document file
+   */
+  analyzeFile(filePath: string): ComponentAnalysis | null {
+    return this.analyzeCode(fs.readFileSync(filePath, 'utf-8'), filePath);
+  }
+
+  /**
+   * Analyze a document from string; `.mdx` files are read as MDX, others as Markdown
+   */
+  analyzeCode(code: string, filePath: string): ComponentAnalysis | null {
+    const compiled = compileMarkdown(code, filePath);
+
+    // Next to the document, so that imports resolve from where they are written
+    const sourceFile = this.jsxParser.addSourceFromText(compiled.code, `${filePath}.tsx`);
+    const [analysis] = this.jsxParser.analyzeComponent(sourceFile, compiled.componentName);
+    if (!analysis) return null;
+
+    const remap = (node: JsxNode): JsxNode => ({
+      ...node,
+      ...(!node.filePath && node.line !== undefined
+        ? compiled.getSourcePosition(node.line, node.column ?? 1)
+        : {}),
+      children: node.children.map(remap),
+    });
+    const variants = analysis.variants.map(variant => ({ ...variant, node: remap(variant.node) }));
+
+    return {
+      ...analysis,
+      filePath,
+      line: 1,
+      column: 1,
+      possibleReturns: variants.map(variant => variant.node),
+      variants,
+    };
+  }
+}
+
+/**
+ * Compile a Markdown or MDX document to a TSX module whose default export renders it
+ */
+export function compileMarkdown(source: string, filePath: string): CompiledMarkdown {
+  return new MarkdownCompiler(source, path.extname(filePath).toLowerCase() === '.mdx')
+    .compile(getComponentNameFromFile(filePath));
+}
+
+/**
+ * Generated code and the source map back to the document
+ */
+class TsxWriter {
+  code = '';
+  points: MapPoint[] = [];
+
+  /**
+   * Write generated code
+   */
+  write(code: string): void {
+    this.code += code;
+  }
+
+  /**
+   * Write text content, escaped for JSX
+   */
+  text(text: string): void {
+    this.code += text.replace(/[<>{}]/g, char => TEXT_ENTITIES[char]);
+  }
+
+  /**
+   * Map the code written next to a position in the document
+   */
+  mark(source: number): void {
+    this.points.push({ generated: this.code.length, source, length: 0 });
+  }
+
+  /**
+   * Copy document text as code, mapped character by character
+   */
+  copy({ text, offsets }: SourceText): void {
+    let start = 0;
+    for (let index = 1; index <= text.length; index++) {
+      if (index === text.length || offsets[index] !== offsets[index - 1] + 1) {
+        this.points.push({ generated: this.code.length, source: offsets[start], length: index - start });
+        this.code += text.slice(start, index);
+        start = index;
+      }
+    }
+    this.mark(offsets[text.length]);
+  }
+
+  /**
+   * Append the code of another writer
+   */
+  append(other: TsxWriter): void {
+    const shift = this.code.length;
+    this.points.push(...other.points.map(point => ({ ...point, generated: point.generated + shift })));
+    this.code += other.code;
+  }
+
+  /**
+   * Offset in the document of an offset in the generated code
+   */
+  getSourceOffset(generated: number): number {
+    let low = 0;
+    let high = this.points.length - 1;
+    if (high < 0 || this.points[0].generated > generated) return 0;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.points[middle].generated <= generated) low = middle;
+      else high = middle - 1;
+    }
+
+    const point = this.points[low];
+    return point.source + Math.min(generated - point.generated, point.length);
+  }
+}
+
+class MarkdownCompiler {
+  private lines: SourceText[] = [];
+  private references = new Map<string, LinkReference>();
+  private head = new TsxWriter(); // MDX import and export statements
+  private writer = new TsxWriter();
+  private openElements: string[] = []; // HTML elements left open by Markdown HTML
+  private floor = 0; // Open elements outside the element being written, which its HTML cannot close
+
+  constructor(private source: string, private mdx: boolean) {
+    let offset = 0;
+    for (const raw of source.split('\n')) {
+      const text = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+      this.lines.push({ text, offsets: Array.from({ length: text.length + 1 }, (_, index) => offset + index) });
+      offset += raw.length + 1;
+    }
+  }
+
+  compile(name: string): CompiledMarkdown {
+    const lines = this.lines.slice(this.getFrontmatterEnd());
+    for (const { text } of lines) {
+      const match = REFERENCE_DEFINITION.exec(text.replace(/^[ \t>]*/, ''));
+      if (match && !this.references.has(normalizeLabel(match[1]))) {
+        this.references.set(normalizeLabel(match[1]), { href: match[2], title: match[3] ?? match[4] ?? match[5] });
+      }
+    }
+
+    this.blocks(lines, false, true);
+
+    // The component takes another name when an import or export already uses the one of the file
+    const statements = this.head.code.replace(/(['"`])(?:\\.|(?!\1)[^\\])*\1/g, "''");
+    const componentName = new RegExp(`\\b${name}\\b`).test(statements) ? `${name}Content` : name;
+
+    const output = new TsxWriter();
+    output.append(this.head);
+    output.mark(0);
+    output.write(`\nexport default function ${componentName}(props: Record<string, any>) {\n  return (\n    <>\n`);
+    output.append(this.writer);
+    output.write('\n    </>\n  );\n}\n');
+
+    const generatedLines = lineStarts(output.code);
+    const sourceLines = lineStarts(this.source);
+
+    return {
+      code: output.code,
+      componentName,
+      getSourcePosition: (line, column) => {
+        const offset = output.getSourceOffset((generatedLines[line - 1] ?? output.code.length) + column - 1);
+        return toPosition(sourceLines, offset);
+      },
+    };
+  }
+
+  /**
+   * Index of the first line after YAML frontmatter
+   */
+  private getFrontmatterEnd(): number {
+    if (this.lines[0]?.text !== '---') return 0;
+
+    const end = this.lines.findIndex((line, index) => index > 0 && /^(?:---|\.\.\.)[ \t]*$/.test(line.text));
+    return end === -1 ? 0 : end + 1;
+  }
+
+  // Blocks
+
+  /**
+   * Write a sequence of blocks; paragraphs of tight list items render without `<p>`
+   */
+  private blocks(lines: SourceText[], tight: boolean, topLevel: boolean): void {
+    const floor = this.openElements.length;
+
+    let index = 0;
+    while (index < lines.length) {
+      index = isBlank(lines[index].text) ? index + 1 : this.block(lines, index, tight, topLevel);
+    }
+
+    this.closeElements(floor);
+  }
+
+  /**
+   * Write the block starting at a line and return the index of the line after it
+   */
+  private block(lines: SourceText[], index: number, tight: boolean, topLevel: boolean): number {
+    const line = lines[index];
+    const { text } = line;
+
+    if (topLevel && this.mdx && ESM_STATEMENT.test(text)) return this.esm(lines, index);
+    if (!this.mdx && indentWidth(text) >= 4) return this.indentedCode(lines, index);
+    if (FENCE.test(text)) return this.fencedCode(lines, index);
+
+    const heading = ATX_HEADING.exec(text);
+    if (heading) {
+      const rest = text.slice(heading[0].length).replace(/(?:^|[ \t]+)#+[ \t]*$/, '');
+      const content = trim(line, heading[0].length, heading[0].length + rest.length);
+      this.element(`h${heading[1].length}`, line.offsets[text.indexOf('#')], () => this.inline(content));
+      return index + 1;
+    }
+
+    if (THEMATIC_BREAK.test(text)) {
+      this.writer.mark(line.offsets[indentOf(text)]);
+      this.writer.write('<hr />');
+      return index + 1;
+    }
+
+    if (BLOCKQUOTE.test(text)) return this.blockquote(lines, index);
+    if (LIST_ITEM.test(text)) return this.list(lines, index);
+    if (REFERENCE_DEFINITION.test(text)) return index + 1;
+    if (text.includes('|') && TABLE_DELIMITER.test(lines[index + 1]?.text ?? '') &&
+      lines[index + 1].text.includes('-')) {
+      return this.table(lines, index);
+    }
+
+    if (this.mdx) {
+      const end = this.flowJsx(lines, index);
+      if (end !== null) return end;
+    } else if (this.startsHtmlBlock(text, false)) {
+      return this.htmlBlock(lines, index);
+    }
+
+    return this.paragraph(lines, index, tight);
+  }
+
+  /**
+   * Whether a line starts a block that ends a paragraph or a lazy continuation line
+   */
+  private interrupts(text: string): boolean {
+    return ATX_HEADING.test(text) || FENCE.test(text) || THEMATIC_BREAK.test(text) || BLOCKQUOTE.test(text) ||
+      INTERRUPTING_LIST_ITEM.test(text) ||
+      (this.mdx ? isJsxStart(text, indentOf(text)) && readFlowJsx(text, indentOf(text)) !== null
+        : this.startsHtmlBlock(text, true));
+  }
+
+  private paragraph(lines: SourceText[], index: number, tight: boolean): number {
+    const content: SourceText[] = [];
+    let end = index;
+    let level = 0;
+
+    while (end < lines.length && !isBlank(lines[end].text)) {
+      const { text } = lines[end];
+      if (content.length > 0) {
+        const underline = SETEXT_UNDERLINE.exec(text);
+        if (underline) {
+          level = underline[1][0] === '=' ? 1 : 2;
+          end++;
+          break;
+        }
+        if (this.interrupts(text)) break;
+      }
+      content.push(slice(lines[end], indentOf(text)));
+      end++;
+    }
+
+    const inline = trim(joinLines(content));
+    const start = inline.offsets[0];
+
+    if (level) {
+      this.element(`h${level}`, start, () => this.inline(inline));
+    } else if (tight || (this.mdx && /^<[A-Za-z][\s\S]*(?:\/>|<\/[\w.:-]*>)$/.test(inline.text))) {
+      // A paragraph of JSX alone is block content in MDX
+      this.inline(inline);
+    } else {
+      this.element('p', start, () => this.inline(inline));
+    }
+
+    return end;
+  }
+
+  private indentedCode(lines: SourceText[], index: number): number {
+    const content: SourceText[] = [];
+    let end = index;
+
+    while (end < lines.length && (isBlank(lines[end].text) || indentWidth(lines[end].text) >= 4)) {
+      content.push(stripIndent(lines[end], 4));
+      end++;
+    }
+    while (content.length > 0 && isBlank(content[content.length - 1].text)) content.pop();
+
+    this.code(lines[index].offsets[indentOf(lines[index].text)], content.map(line => line.text).join('\n'));
+    return index + content.length;
+  }
+
+  private fencedCode(lines: SourceText[], index: number): number {
+    const { text } = lines[index];
+    const fence = FENCE.exec(text)![1];
+    const info = text.slice(text.indexOf(fence) + fence.length).trim().split(/\s+/)[0];
+    const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+
+    let end = index + 1;
+    while (end < lines.length && !closing.test(lines[end].text)) end++;
+
+    const content = lines.slice(index + 1, end).map(line => line.text).join('\n');
+    this.code(lines[index].offsets[indentOf(text)], content, info ? `language-${info.replace(/[`]/g, '')}` : undefined);
+    return Math.min(end + 1, lines.length);
+  }
+
+  private code(start: number, content: string, className?: string): void {
+    this.writer.mark(start);
+    this.writer.write(className ? `<pre><code className={${JSON.stringify(className)}}>` : '<pre><code>');
+    this.writer.text(content);
+    this.writer.write('</code></pre>');
+  }
+
+  private blockquote(lines: SourceText[], index: number): number {
+    const content: SourceText[] = [];
+    let end = index;
+
+    while (end < lines.length) {
+      const { text } = lines[end];
+      const marker = /^ {0,3}> ?/.exec(text);
+      if (marker) {
+        content.push(slice(lines[end], marker[0].length));
+      } else if (!isBlank(text) && content.length > 0 && !isBlank(content[content.length - 1].text) &&
+        !this.interrupts(text)) {
+        content.push(lines[end]); // A lazy continuation of the paragraph
+      } else {
+        break;
+      }
+      end++;
+    }
+
+    this.element('blockquote', lines[index].offsets[indentOf(lines[index].text)], () => this.blocks(content, false, false));
+    return end;
+  }
+
+  private list(lines: SourceText[], index: number): number {
+    const first = LIST_ITEM.exec(lines[index].text)!;
+    const ordered = /\d/.test(first[2]);
+    const delimiter = first[2][first[2].length - 1];
+    const items: { start: number; lines: SourceText[] }[] = [];
+    let contentIndent = 0;
+    let loose = false;
+    let end = index;
+
+    for (; end < lines.length; end++) {
+      const line = lines[end];
+      const { text } = line;
+      const item = LIST_ITEM.exec(text);
+      const current = items[items.length - 1];
+
+      if (item && !THEMATIC_BREAK.test(text) && (!current || indentWidth(text) < contentIndent)) {
+        if (/\d/.test(item[2]) !== ordered || item[2][item[2].length - 1] !== delimiter) break;
+
+        const spacing = item[3].length > 4 || !item[3] ? 1 : item[3].length;
+        contentIndent = item[1].length + item[2].length + spacing;
+        if (current && isBlank(current.lines[current.lines.length - 1].text)) loose = true;
+        items.push({ start: line.offsets[item[1].length], lines: [slice(line, Math.min(contentIndent, text.length))] });
+      } else if (isBlank(text)) {
+        current.lines.push(slice(line, text.length));
+      } else if (indentWidth(text) >= contentIndent) {
+        if (isBlank(current.lines[current.lines.length - 1].text)) loose = true;
+        current.lines.push(stripIndent(line, contentIndent));
+      } else if (!isBlank(current.lines[current.lines.length - 1].text) && !this.interrupts(text)) {
+        current.lines.push(slice(line, indentOf(text))); // A lazy continuation of the paragraph
+      } else {
+        break;
+      }
+    }
+
+    // Blank lines after the last item are not part of it
+    const last = items[items.length - 1];
+    while (last.lines.length > 1 && isBlank(last.lines[last.lines.length - 1].text)) last.lines.pop();
+    if (items.some(item => item.lines.slice(1).some(line => isBlank(line.text)))) loose = true;
+
+    const start = ordered ? parseInt(first[2], 10) : 1;
+    this.writer.mark(items[0].start);
+    this.writer.write(ordered ? (start === 1 ? '<ol>' : `<ol start={${start}}>`) : '<ul>');
+    for (const item of items) {
+      this.element('li', item.start, () => this.blocks(item.lines, !loose, false));
+    }
+    this.writer.write(ordered ? '</ol>' : '</ul>');
+
+    return end;
+  }
+
+  private table(lines: SourceText[], index: number): number {
+    let end = index + 2;
+    while (end < lines.length && !isBlank(lines[end].text) && lines[end].text.includes('|') &&
+      !this.interrupts(lines[end].text)) {
+      end++;
+    }
+
+    const row = (line: SourceText, cell: string) => {
+      this.element('tr', line.offsets[indentOf(line.text)], () => {
+        for (const content of splitCells(line)) {
+          this.element(cell, content.offsets[0], () => this.inline(content));
+        }
+      });
+    };
+
+    this.element('table', lines[index].offsets[indentOf(lines[index].text)], () => {
+      this.writer.write('<thead>');
+      row(lines[index], 'th');
+      this.writer.write('</thead>');
+
+      if (end > index + 2) {
+        this.writer.write('<tbody>');
+        lines.slice(index + 2, end).forEach(line => row(line, 'td'));
+        this.writer.write('</tbody>');
+      }
+    });
+
+    return end;
+  }
+
+  /**
+   * MDX `import` and `export` statements, up to a blank line, hoisted to the top of the module
+   */
+  private esm(lines: SourceText[], index: number): number {
+    let end = index;
+    while (end < lines.length && !isBlank(lines[end].text)) end++;
+
+    this.head.copy(joinLines(lines.slice(index, end)));
+    this.head.write('\n');
+    return end;
+  }
+
+  /**
+   * MDX JSX tags and `{expressions}` alone on their lines, copied as they are; the Markdown between
+   * an opening and a closing tag is read as blocks. Returns null when the line has other content.
+   */
+  private flowJsx(lines: SourceText[], index: number): number | null {
+    const start = indentOf(lines[index].text);
+    if (!isJsxStart(lines[index].text, start) && lines[index].text[start] !== '{') return null;
+
+    const joined = joinLines(lines.slice(index));
+    const end = readFlowJsx(joined.text, start);
+    if (end === null) return null;
+
+    this.writer.copy(slice(joined, start, end));
+    return index + (joined.text.slice(0, end).match(/\n/g)?.length ?? 0) + 1;
+  }
+
+  /**
+   * Whether a Markdown line starts an HTML block: a comment, a block-level tag, or, when not
+   * interrupting a paragraph, any tag alone on its line
+   */
+  private startsHtmlBlock(text: string, interrupting: boolean): boolean {
+    const trimmed = text.replace(/^ {0,3}/, '');
+    if (trimmed.startsWith('<!--')) return true;
+
+    const name = /^<\/?([A-Za-z][A-Za-z0-9-]*)(?=[\s/>]|$)/.exec(trimmed)?.[1];
+    if (!name) return false;
+    if (HTML_BLOCK_TAGS.has(name.toLowerCase())) return true;
+
+    return !interrupting && HTML_TAG.test(trimmed) && isBlank(trimmed.replace(HTML_TAG, ''));
+  }
+
+  /**
+   * A Markdown HTML block: up to a blank line, or to the end of the comment it starts with
+   */
+  private htmlBlock(lines: SourceText[], index: number): number {
+    let end = index;
+
+    if (lines[index].text.trimStart().startsWith('<!--')) {
+      while (end < lines.length - 1 && !lines[end].text.includes('-->')) end++;
+      end++;
+    } else {
+      while (end < lines.length && !isBlank(lines[end].text)) end++;
+    }
+
+    this.html(joinLines(lines.slice(index, end)));
+    return end;
+  }
+
+  // Inline content
+
+  private inline(content: SourceText): void {
+    const { text } = content;
+    let buffer = '';
+    let index = 0;
+
+    const flush = () => {
+      this.writer.text(buffer);
+      buffer = '';
+    };
+
+    while (index < text.length) {
+      const char = text[index];
+      let next: number | null = null;
+
+      if (char === '\\' && index + 1 < text.length && /[!-/:-@[-`{-~\n]/.test(text[index + 1])) {
+        if (text[index + 1] === '\n') {
+          flush();
+          this.writer.write('<br />');
+        } else {
+          buffer += text[index + 1];
+        }
+        next = index + 2;
+      } else if (char === '\n') {
+        if (/ {2,}$/.test(buffer)) {
+          buffer = buffer.trimEnd();
+          flush();
+          this.writer.write('<br />');
+        } else {
+          buffer += '\n';
+        }
+        next = index + 1;
+      } else if (char === '`') {
+        flush();
+        next = this.codeSpan(content, index);
+      } else if (char === '!' && text[index + 1] === '[') {
+        flush();
+        next = this.link(content, index + 1, true);
+      } else if (char === '[') {
+        flush();
+        next = this.link(content, index, false);
+      } else if (char === '*' || char === '_' || (char === '~' && text[index + 1] === '~')) {
+        flush();
+        next = this.emphasis(content, index);
+      } else if (char === '<' && this.mdx && isJsxStart(text, index)) {
+        flush();
+        next = readJsxTag(text, index);
+        this.writer.copy(slice(content, index, next));
+      } else if (char === '{' && this.mdx) {
+        flush();
+        next = readBraces(text, index);
+        this.writer.copy(slice(content, index, next));
+      } else if (char === '<' && !this.mdx) {
+        flush();
+        next = this.autolinkOrHtml(content, index);
+      }
+
+      if (next === null) {
+        buffer += char;
+        index++;
+      } else {
+        index = next;
+      }
+    }
+
+    flush();
+  }
+
+  private codeSpan(content: SourceText, index: number): number | null {
+    const { text } = content;
+    const run = /^`+/.exec(text.slice(index))![0];
+    const closing = new RegExp(`(?<!\`)${run}(?!\`)`, 'g');
+    closing.lastIndex = index + run.length;
+
+    const match = closing.exec(text);
+    if (!match) {
+      this.writer.text(run);
+      return index + run.length;
+    }
+
+    let code = text.slice(index + run.length, match.index).replace(/\n/g, ' ');
+    if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+
+    this.element('code', content.offsets[index], () => this.writer.text(code));
+    return match.index + run.length;
+  }
+
+  /**
+   * A link or image (`index` at its `[`): inline, full, collapsed or shortcut reference. Returns
+   * null when the brackets are not a link.
+   */
+  private link(content: SourceText, index: number, image: boolean): number | null {
+    const { text } = content;
+    const close = findClosingBracket(text, index);
+    if (close === -1) return null;
+
+    const label = slice(content, index + 1, close);
+    let target: LinkReference | undefined;
+    let end = close + 1;
+
+    const inline = text[end] === '(' ? parseInlineDestination(text, end) : null;
+    if (inline) {
+      target = inline.target;
+      end = inline.end;
+    } else {
+      const reference = /^\[([^\]]*)\]/.exec(text.slice(end));
+      const key = normalizeLabel(reference?.[1] || label.text);
+      target = this.references.get(key);
+      if (reference && target) end += reference[0].length;
+    }
+
+    if (!target) return null;
+
+    const start = content.offsets[image ? index - 1 : index];
+    const title = target.title !== undefined ? ` title={${JSON.stringify(target.title)}}` : '';
+
+    this.writer.mark(start);
+    if (image) {
+      this.writer.write(`<img src={${JSON.stringify(target.href)}} alt={${JSON.stringify(toPlainText(label.text))}}${title} />`);
+    } else {
+      this.writer.write(`<a href={${JSON.stringify(target.href)}}${title}>`);
+      this.inline(label);
+      this.writer.write('</a>');
+    }
+
+    return end;
+  }
+
+  /**
+   * Emphasis (`*` / `_`), strong emphasis (`**` / `__`), both (`***`) and strikethrough (`~~`)
+   */
+  private emphasis(content: SourceText, index: number): number | null {
+    const { text } = content;
+    const char = text[index];
+    const run = new RegExp(`^\\${char}+`).exec(text.slice(index))![0];
+    const opens = /\S/.test(text[index + run.length] ?? ' ') &&
+      (char !== '_' || !/[A-Za-z0-9]/.test(text[index - 1] ?? ' '));
+
+    if (!opens) {
+      this.writer.text(run);
+      return index + run.length;
+    }
+
+    for (let length = Math.min(run.length, 3); length >= (char === '~' ? 2 : 1); length--) {
+      const close = findClosingDelimiter(text, index + length, char, length);
+      if (close === -1) continue;
+
+      const tags = char === '~' ? ['del'] : length === 3 ? ['em', 'strong'] : length === 2 ? ['strong'] : ['em'];
+      const inner = slice(content, index + length, close);
+
+      this.writer.text(run.slice(length));
+      this.writer.mark(content.offsets[index + run.length - length]);
+      this.writer.write(tags.map(tag => `<${tag}>`).join(''));
+      this.inline(inner);
+      this.writer.write(tags.reverse().map(tag => `</${tag}>`).join(''));
+      return close + length;
+    }
+
+    this.writer.text(run);
+    return index + run.length;
+  }
+
+  /**
+   * Markdown `<https://...>` autolinks and inline HTML
+   */
+  private autolinkOrHtml(content: SourceText, index: number): number | null {
+    const rest = content.text.slice(index);
+
+    const autolink = AUTOLINK.exec(rest);
+    if (autolink) {
+      const href = autolink[1].includes(':') ? autolink[1] : `mailto:${autolink[1]}`;
+      this.writer.mark(content.offsets[index]);
+      this.writer.write(`<a href={${JSON.stringify(href)}}>`);
+      this.writer.text(autolink[1]);
+      this.writer.write('</a>');
+      return index + autolink[0].length;
+    }
+
+    const comment = rest.startsWith('<!--') ? rest.indexOf('-->') : -1;
+    const length = comment !== -1 ? comment + 3 : HTML_TAG.exec(rest)?.[0].length;
+    if (!length) return null;
+
+    this.html(slice(content, index, index + length));
+    return index + length;
+  }
+
+  // HTML
+
+  /**
+   * Markdown HTML, tag by tag: elements may open in one block and close in another, as around
+   * Markdown content. Suppression comments are kept; elements left open are closed at the end of
+   * the container they opened in.
+   */
+  private html(content: SourceText): void {
+    const { text, offsets } = content;
+    let index = 0;
+
+    while (index < text.length) {
+      const rest = text.slice(index);
+
+      if (rest.startsWith('<!--')) {
+        const end = rest.indexOf('-->');
+        const comment = rest.slice(4, end === -1 ? undefined : end);
+        if (parseSuppressionDirective(comment)) {
+          this.writer.mark(offsets[index]);
+          this.writer.write(`{/*${comment.replace(/\*\//g, '* /')}*/}`);
+        }
+        index += end === -1 ? rest.length : end + 3;
+        continue;
+      }
+
+      const tag = HTML_TAG.exec(rest);
+      if (!tag) {
+        const next = rest.slice(1).search(/<(?:[A-Za-z/]|!--)/);
+        this.writer.text(next === -1 ? rest : rest.slice(0, next + 1));
+        index += next === -1 ? rest.length : next + 1;
+        continue;
+      }
+
+      if (tag[0].startsWith('</')) {
+        this.closeElement(tag[0].slice(2).replace(/[\s>]+$/, '').toLowerCase());
+      } else {
+        this.openElement(parseMarkup(tag[0], 'html')[0] as MarkupElement, tag[0].endsWith('/>'), offsets[index]);
+
+        // Script and style content is text
+        const name = /^<([A-Za-z][A-Za-z0-9-]*)/.exec(tag[0])![1].toLowerCase();
+        if (name === 'script' || name === 'style') {
+          const end = text.toLowerCase().indexOf(`</${name}`, index + tag[0].length);
+          const close = end === -1 ? text.length : end;
+          this.writer.text(text.slice(index + tag[0].length, close));
+          index = close;
+          continue;
+        }
+      }
+
+      index += tag[0].length;
+    }
+  }
+
+  private openElement(element: MarkupElement, selfClosing: boolean, start: number): void {
+    const name = element.name.toLowerCase();
+    if (!JSX_NAME.test(name)) return;
+
+    const attributes = element.attributes
+      .filter(attribute => JSX_ATTRIBUTE_NAME.test(attribute.name))
+      .map(({ name: attribute, value }) => value === undefined ? ` ${attribute}` : ` ${attribute}={${JSON.stringify(value)}}`)
+      .join('');
+
+    this.writer.mark(start);
+    if (selfClosing || VOID_ELEMENTS.has(name)) {
+      this.writer.write(`<${name}${attributes} />`);
+    } else {
+      this.writer.write(`<${name}${attributes}>`);
+      this.openElements.push(name);
+    }
+  }
+
+  /**
+   * Close an open element and those left open inside it; end tags of elements that are not
+   * open in the current container are ignored
+   */
+  private closeElement(name: string): void {
+    const depth = this.openElements.lastIndexOf(name);
+    if (depth !== -1 && depth >= this.floor) this.closeElements(depth);
+  }
+
+  private closeElements(depth: number): void {
+    while (this.openElements.length > depth) {
+      this.writer.write(`</${this.openElements.pop()}>`);
+    }
+  }
+
+  /**
+   * Write an element whose content is written by `content`
+   */
+  private element(name: string, start: number, content: () => void): void {
+    const floor = this.floor;
+    this.floor = this.openElements.length;
+
+    this.writer.mark(start);
+    this.writer.write(`<${name}>`);
+    content();
+    this.closeElements(this.floor);
+    this.writer.write(`</${name}>`);
+
+    this.floor = floor;
+  }
+}
+
+// Source text
+
+function slice(source: SourceText, start: number, end: number = source.text.length): SourceText {
+  return { text: source.text.slice(start, end), offsets: source.offsets.slice(start, end + 1) };
+}
+
+/**
+ * Lines joined by newlines, each newline at the end of its line
+ */
+function joinLines(lines: SourceText[]): SourceText {
+  const joined: SourceText = { text: '', offsets: [] };
+  lines.forEach((line, index) => {
+    joined.text += index > 0 ? `\n${line.text}` : line.text;
+    joined.offsets.push(...line.offsets.slice(0, -1), line.offsets[line.offsets.length - 1]);
+  });
+  if (lines.length === 0) joined.offsets.push(0);
+  return joined;
+}
+
+/**
+ * Text from `start` to `end`, without the whitespace around it
+ */
+function trim(source: SourceText, start = 0, end = source.text.length): SourceText {
+  let from = start;
+  while (from < end && /\s/.test(source.text[from])) from++;
+  let to = end;
+  while (to > from && /\s/.test(source.text[to - 1])) to--;
+  return slice(source, from, to);
+}
+
+/**
+ * A line without up to `width` columns of indentation
+ */
+function stripIndent(line: SourceText, width: number): SourceText {
+  let column = 0;
+  let index = 0;
+  while (index < line.text.length && column < width && /[ \t]/.test(line.text[index])) {
+    column += line.text[index] === '\t' ? 4 - (column % 4) : 1;
+    index++;
+  }
+  return slice(line, index);
+}
+
+function isBlank(text: string): boolean {
+  return /^[ \t]*$/.test(text);
+}
+
+function indentOf(text: string): number {
+  return /^[ \t]*/.exec(text)![0].length;
+}
+
+function indentWidth(text: string): number {
+  let column = 0;
+  for (const char of /^[ \t]*/.exec(text)![0]) {
+    column += char === '\t' ? 4 - (column % 4) : 1;
+  }
+  return column;
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') starts.push(index + 1);
+  }
+  return starts;
+}
+
+function toPosition(starts: number[], offset: number): { line: number; column: number } {
+  let line = 0;
+  while (line + 1 < starts.length && starts[line + 1] <= offset) line++;
+  return { line: line + 1, column: offset - starts[line] + 1 };
+}
+
+/**
+ * The cells of a table row, without the pipes around them
+ */
+function splitCells(line: SourceText): SourceText[] {
+  const { text } = line;
+  const cells: SourceText[] = [];
+  let start = indentOf(text);
+  if (text[start] === '|') start++;
+
+  let inCode = false;
+  for (let index = start; index <= text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '`') {
+      inCode = !inCode;
+    } else if ((char === '|' && !inCode) || index === text.length) {
+      const cell = trim(line, start, index);
+      if (index < text.length || cell.text) cells.push(cell);
+      start = index + 1;
+    }
+  }
+
+  return cells;
+}
+
+// Links and emphasis
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Text of a link or image label without its Markdown, for image `alt` text
+ */
+function toPlainText(label: string): string {
+  return label
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\\([!-/:-@[-`{-~])|[*_`~]/g, (match, escaped?: string) => escaped ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Index of the `]` closing the `[` at `index`, or -1
+ */
+function findClosingBracket(text: string, index: number): number {
+  let depth = 0;
+  for (let current = index; current < text.length; current++) {
+    const char = text[current];
+    if (char === '\\') {
+      current++;
+    } else if (char === '`') {
+      const run = /^`+/.exec(text.slice(current))![0];
+      const close = text.indexOf(run, current + run.length);
+      if (close !== -1) current = close + run.length - 1;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return current;
+    }
+  }
+  return -1;
+}
+
+/**
+ * `(destination "title")` after a link label
+ */
+function parseInlineDestination(text: string, index: number): { target: LinkReference; end: number } | null {
+  const match = /^\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?\s*\)/
+    .exec(text.slice(index));
+  if (!match) return null;
+
+  const href = (match[1] ?? match[2]).replace(/\\([!-/:-@[-`{-~])/g, '$1');
+  return { target: { href, title: match[3] ?? match[4] ?? match[5] }, end: index + match[0].length };
+}
+
+/**
+ * Index of a run of exactly `length` delimiters closing emphasis, or -1
+ */
+function findClosingDelimiter(text: string, from: number, char: string, length: number): number {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (text[index] === '`') {
+      const run = /^`+/.exec(text.slice(index))![0];
+      const close = text.indexOf(run, index + run.length);
+      if (close !== -1) index = close + run.length - 1;
+      continue;
+    }
+    if (text[index] !== char) continue;
+
+    let end = index;
+    while (text[end] === char) end++;
+    const closes = end - index === length && index > from && /\S/.test(text[index - 1]) &&
+      (char !== '_' || !/[A-Za-z0-9]/.test(text[end] ?? ' '));
+    if (closes) return index;
+    index = end - 1;
+  }
+  return -1;
+}
+
+// MDX
+
+/**
+ * Index after the JSX tags and expressions from `index` to the end of their line, or null when
+ * the line has other content
+ */
+function readFlowJsx(text: string, index: number): number | null {
+  let position = index;
+  while (isJsxStart(text, position) || text[position] === '{') {
+    position = text[position] === '{' ? readBraces(text, position) : readJsxTag(text, position);
+    while (text[position] === ' ' || text[position] === '\t') position++;
+  }
+  return position > index && (position === text.length || text[position] === '\n') ? position : null;
+}
+
+function isJsxStart(text: string, index: number): boolean {
+  return text[index] === '<' && /[A-Za-z/>]/.test(text[index + 1] ?? '');
+}
+
+/**
+ * Index after the JSX tag at `index`, with expressions and strings in its attributes
+ */
+function readJsxTag(text: string, index: number): number {
+  let current = index + 1;
+  while (current < text.length) {
+    const char = text[current];
+    if (char === '>') return current + 1;
+    if (char === '{') {
+      current = readBraces(text, current);
+    } else if (char === '"' || char === "'") {
+      const close = text.indexOf(char, current + 1);
+      current = close === -1 ? text.length : close + 1;
+    } else {
+      current++;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Index after the `}` matching the `{` at `index`, skipping strings and comments
+ */
+function readBraces(text: string, index: number): number {
+  let depth = 0;
+  let current = index;
+
+  while (current < text.length) {
+    const char = text[current];
+    if (char === '"' || char === "'" || char === '`') {
+      let close = current + 1;
+      while (close < text.length && text[close] !== char) close += text[close] === '\\' ? 2 : 1;
+      current = close + 1;
+      continue;
+    }
+    if (text.startsWith('/*', current)) {
+      const close = text.indexOf('*/', current + 2);
+      current = close === -1 ? text.length : close + 2;
+      continue;
+    }
+    if (text.startsWith('//', current)) {
+      const close = text.indexOf('\n', current);
+      current = close === -1 ? text.length : close;
+      continue;
+    }
+
+    if (char === '{') depth++;
+    if (char === '}' && --depth === 0) return current + 1;
+    current++;
+  }
+
+  return text.length;
+}
@@ -3,7 +3,8 @@
  */
 
 import * as parse5 from 'parse5';
-import type { Document, Element, SourceLocation } from './types';
+import type { Document, Element, Node, TextNode, CommentNode, SourceLocation } from './types';
+import { matchesSelector, selectAll } from './selector';
 
 /**
  * Parse HTML string into our Document representation
@@ -13,8 +14,19 @@ export function parseHTML(html: string): Document {
     sourceCodeLocationInfo: true,
   });
 
+  // Comments before and after <html> live at the top level
+  const childNodes = (document.childNodes || [])
+    .map((child: any) => convertNode(child))
+    .filter(Boolean) as Node[];
+  linkSiblings(childNodes);
+
+  // Use the html element as the document element
+  const elements = childNodes.filter(isElement);
+  const documentElement = elements.find(c => c.tagName === 'html') || elements[0] || createEmptyElement();
+
   return {
-    documentElement: convertNode(document) as Element,
+    documentElement,
+    childNodes,
     querySelector: function (selector: string) {
       return querySelector(this.documentElement, selector);
     },
@@ -28,21 +40,34 @@ export function parseHTML(html: string): Document {
 }
 
 /**
- * Convert parse5 node to our Element interface
+ * Convert parse5 node to our Node representation
  */
-function convertNode(node: any, parent?: Element): Element | null {
-  if (node.nodeName === '#document') {
-    // For document nodes, process children
-    const children = (node.childNodes || [])
-      .map((child: any) => convertNode(child))
-      .filter(Boolean) as Element[];
+function convertNode(node: any, parent?: Element): Node | null {
+  if (node.nodeName === '#text') {
+    const text: TextNode = {
+      nodeType: 'text',
+      data: node.value || '',
+      parent,
+      previousSibling: null,
+      nextSibling: null,
+      getSourceLocation: () => toSourceLocation(node),
+    };
+    return text;
+  }
 
-    // Return the html element as the document element
-    const htmlElement = children.find(c => c.tagName === 'html');
-    return htmlElement || children[0] || createEmptyElement();
+  if (node.nodeName === '#comment') {
+    const comment: CommentNode = {
+      nodeType: 'comment',
+      data: node.data || '',
+      parent,
+      previousSibling: null,
+      nextSibling: null,
+      getSourceLocation: () => toSourceLocation(node),
+    };
+    return comment;
   }
 
-  if (node.nodeName === '#text' || node.nodeName === '#comment') {
+  if (node.nodeName === '#documentType') {
     return null;
   }
 
@@ -56,10 +81,14 @@ function convertNode(node: any, parent?: Element): Element | null {
   const textContent = getTextContent(node);
 
   const element: Element = {
+    nodeType: 'element',
     tagName: node.nodeName.toLowerCase(),
     attributes,
     children: [],
+    childNodes: [],
     parent,
+    previousSibling: null,
+    nextSibling: null,
     textContent,
     getAttribute(name: string) {
       return this.attributes[name] || null;
@@ -68,28 +97,48 @@ function convertNode(node: any, parent?: Element): Element | null {
       return name in this.attributes;
     },
     getSourceLocation(): SourceLocation | null {
-      if (node.sourceCodeLocation) {
-        const loc = node.sourceCodeLocation;
-        return {
-          line: loc.startLine || 0,
-          column: loc.startCol || 0,
-          startOffset: loc.startOffset || 0,
-          endOffset: loc.endOffset || 0,
-        };
-      }
-      return null;
+      return toSourceLocation(node);
     },
   };
 
   if (node.childNodes) {
-    element.children = node.childNodes
+    element.childNodes = node.childNodes
       .map((child: any) => convertNode(child, element))
-      .filter(Boolean) as Element[];
+      .filter(Boolean) as Node[];
+
+    linkSiblings(element.childNodes);
+    element.children = element.childNodes.filter(isElement);
   }
 
   return element;
 }
 
+/**
+ * Set previousSibling/nextSibling across a list of sibling nodes
+ */
+function linkSiblings(nodes: Node[]): void {
+  nodes.forEach((node, index) => {
+    node.previousSibling = nodes[index - 1] || null;
+    node.nextSibling = nodes[index + 1] || null;
+  });
+}
+
+/**
+ * Read a parse5 source location
+ */
+function toSourceLocation(node: any): SourceLocation | null {
+  if (node.sourceCodeLocation) {
+    const loc = node.sourceCodeLocation;
+    return {
+      line: loc.startLine || 0,
+      column: loc.startCol || 0,
+      startOffset: loc.startOffset || 0,
+      endOffset: loc.endOffset || 0,
+    };
+  }
+  return null;
+}
+
 /**
  * Get text content from a node
  */
@@ -112,9 +161,13 @@ function getTextContent(node: any): string {
  */
 function createEmptyElement(): Element {
   return {
+    nodeType: 'element',
     tagName: 'html',
     attributes: {},
     children: [],
+    childNodes: [],
+    previousSibling: null,
+    nextSibling: null,
     textContent: '',
     getAttribute() { return null; },
     hasAttribute() { return false; },
@@ -123,8 +176,28 @@ function createEmptyElement(): Element {
 }
 
 /**
- * Simple querySelector implementation
- * Note: This is a basic implementation, will be enhanced in Phase 2
+ * Check if a node is an element
+ */
+export function isElement(node: Node | null | undefined): node is Element {
+  return !!node && node.nodeType === 'element';
+}
+
+/**
+ * Check if a node is a text node
+ */
+export function isTextNode(node: Node | null | undefined): node is TextNode {
+  return !!node && node.nodeType === 'text';
+}
+
+/**
+ * Check if a node is a comment
+ */
+export function isCommentNode(node: Node | null | undefined): node is CommentNode {
+  return !!node && node.nodeType === 'comment';
+}
+
+/**
+ * Find the first element in the subtree (including root) matching a selector
  */
 export function querySelector(element: Element, selector: string): Element | null {
   const results = querySelectorAll(element, selector);
@@ -132,67 +205,18 @@ export function querySelector(element: Element, selector: string): Element | nul
 }
 
 /**
- * Simple querySelectorAll implementation
- * Currently supports: tag names, classes, IDs, attribute selectors, and basic combinators
+ * Find all elements in the subtree (including root) matching a selector, in document order
+ * Supports CSS Selectors Level 4 as implemented in ./selector
  */
 export function querySelectorAll(root: Element, selector: string): Element[] {
-  const results: Element[] = [];
-
-  // Simple selector parsing (will be enhanced in Phase 2)
-  const matches = (element: Element, sel: string): boolean => {
-    sel = sel.trim();
-
-    // Tag selector
-    if (sel === '*' || sel === element.tagName) {
-      return true;
-    }
-
-    // ID selector
-    if (sel.startsWith('#')) {
-      const id = sel.substring(1);
-      return element.getAttribute('id') === id;
-    }
-
-    // Class selector
-    if (sel.startsWith('.')) {
-      const className = sel.substring(1);
-      const classAttr = element.getAttribute('class') || '';
-      return classAttr.split(/\s+/).includes(className);
-    }
-
-    // Attribute selector [attr] or [attr="value"]
-    if (sel.startsWith('[') && sel.endsWith(']')) {
-      const attrMatch = sel.slice(1, -1);
-      if (attrMatch.includes('=')) {
-        const [attr, value] = attrMatch.split('=').map(s => s.trim().replace(/['"]/g, ''));
-        return element.getAttribute(attr) === value;
-      } else {
-        return element.hasAttribute(attrMatch.trim());
-      }
-    }
-
-    // Tag with attribute (e.g., "input[type='text']")
-    if (sel.includes('[')) {
-      const tagPart = sel.substring(0, sel.indexOf('['));
-      const attrPart = sel.substring(sel.indexOf('['));
-      return matches(element, tagPart) && matches(element, attrPart);
-    }
-
-    return false;
-  };
-
-  const traverse = (element: Element) => {
-    if (matches(element, selector)) {
-      results.push(element);
-    }
-
-    for (const child of element.children) {
-      traverse(child);
-    }
-  };
+  return selectAll(root, selector);
+}
 
-  traverse(root);
-  return results;
+/**
+ * Check if an element matches a selector
+ */
+export function matches(element: Element, selector: string): boolean {
+  return matchesSelector(element, selector);
 }
 
 /**
@@ -214,10 +238,10 @@ export function getElementById(root: Element, id: string): Element | null {
 }
 
 /**
- * Check if an element has a child matching selector
+ * Check if an element has a descendant matching selector
  */
 export function hasChild(element: Element, selector: string): boolean {
-  return querySelectorAll(element, selector).length > 0;
+  return element.children.some(child => querySelectorAll(child, selector).length > 0);
 }
 
 /**
@@ -227,8 +251,7 @@ export function closest(element: Element, selector: string): Element | null {
   let current = element.parent;
 
   while (current) {
-    const results = querySelectorAll(current, selector);
-    if (results.includes(current)) {
+    if (matchesSelector(current, selector)) {
       return current;
     }
     current = current.parent;
@@ -38,6 +38,7 @@ export const accessibilityStrict: XRulesConfig = {
     'aria-valid-attributes': 'error',
     'aria-required-parent': 'error',
     'aria-hidden-focusable': 'error',
+    'unique-ids': 'error',
 
     // Tables
     'table-headers': 'error',
@@ -119,6 +120,28 @@ export const recommended: XRulesConfig = {
   },
 };
 
+/**
+ * Next.js preset
+ * For App Router apps checked with `xrules check-app`
+ */
+export const nextjs: XRulesConfig = {
+  rules: {
+    // Next.js components
+    'next-image-alt': 'error',
+    'next-link-no-nested-a': 'error',
+    'next-link-target-blank-rel': 'warning',
+    'next-no-img-element': 'warning',
+    'next-script-component': 'warning',
+    'next-no-head-element': 'warning',
+
+    // Metadata and page structure
+    'meta-title': 'error',
+    'meta-description': 'warning',
+    'single-h1': 'warning',
+    'landmark-regions': 'warning',
+  },
+};
+
 /**
  * All rules enabled (for auditing)
  */
@@ -151,6 +174,7 @@ export function getPreset(name: string): XRulesConfig | null {
     'seo-recommended': seoRecommended,
     'security-strict': securityStrict,
     recommended,
+    nextjs,
     all,
     minimal,
   };
@@ -167,6 +191,7 @@ export function listPresets(): string[] {
     'seo-recommended',
     'security-strict',
     'recommended',
+    'nextjs',
     'all',
     'minimal',
   ];
@@ -0,0 +1,151 @@
+/**
+ * Relevance Filtering
+ *
+ * Only forms referenced by some rule need checking. From the patterns of the
+ * active rules we compute what an element must have for any of them to match
+ * it: the tag name and attribute names of each pattern's subject compound.
+ * A component variant containing no such element cannot produce a violation
+ * and is skipped without rendering or parsing its HTML.
+ *
+ * The requirements over-approximate the patterns (pseudo-classes, :not(),
+ * attribute values and extended modifiers are ignored), so a skipped form has
+ * no element an element rule would have matched. Rules can instead declare the
+ * elements they read, which lets document rules and rules matching any element
+ * skip forms too. What a rule reports missing is found on the first form of each
+ * component, which is always checked.
+ */
+
+import type { AnyRule, RuleReads } from './types';
+import type { JsxNode } from './jsx-parser';
+import { OPAQUE_COMPONENT_ATTRIBUTE, OPAQUE_MODULE_ATTRIBUTE } from './jsx-parser';
+import { parsePattern } from './extended-matcher';
+import { parseSelector } from './selector';
+
+/**
+ * What an element needs for a pattern to possibly match it
+ */
+export interface FormRequirement {
+  tagName?: string; // Any element when absent
+  attributes: string[];
+}
+
+/**
+ * Requirements of all active rules; null when every form may be relevant
+ */
+export type RelevanceFilter = FormRequirement[] | null;
+
+/**
+ * Elements every parsed document has, whatever the form
+ */
+const DOCUMENT_ELEMENTS = new Set(['html', 'head', 'body']);
+
+/**
+ * Compute the relevance filter for a set of active rules
+ *
+ * Rules are relevant to forms containing an element they read or, without a
+ * declaration, an element their pattern may match. A document rule without a
+ * declaration may read anything, so it makes every form relevant.
+ */
+export function computeRelevanceFilter(rules: AnyRule[]): RelevanceFilter {
+  const requirements: FormRequirement[] = [];
+
+  for (const rule of rules) {
+    if (rule.reads) {
+      requirements.push(...getReadRequirements(rule.reads));
+      continue;
+    }
+    if (rule.kind === 'document') return null;
+
+    const ruleRequirements = getPatternRequirements(rule.pattern);
+    if (!ruleRequirements) return null;
+    requirements.push(...ruleRequirements);
+  }
+
+  return requirements;
+}
+
+/**
+ * Requirements of the subject of each alternative of a pattern; null if it may match any element
+ */
+export function getPatternRequirements(pattern: string): FormRequirement[] | null {
+  const requirements: FormRequirement[] = [];
+
+  try {
+    for (const alternative of parsePattern(pattern)) {
+      const requirement: FormRequirement = { attributes: [] };
+
+      for (const complex of alternative.baseSelector ? parseSelector(alternative.baseSelector) : []) {
+        for (const simple of complex.compounds[complex.compounds.length - 1]) {
+          if (simple.type === 'type') {
+            requirement.tagName = simple.name.toLowerCase();
+          } else if (simple.type === 'attribute') {
+            requirement.attributes.push(simple.name.toLowerCase());
+          } else if (simple.type === 'id' || simple.type === 'class') {
+            requirement.attributes.push(simple.type);
+          }
+        }
+      }
+
+      const alwaysPresent = !requirement.tagName || DOCUMENT_ELEMENTS.has(requirement.tagName);
+      if (alwaysPresent && requirement.attributes.length === 0) {
+        return null;
+      }
+
+      requirements.push(requirement);
+    }
+  } catch {
+    // Invalid patterns are reported when the rule runs
+    return null;
+  }
+
+  return requirements;
+}
+
+/**
+ * Requirements of the elements a rule declares it reads
+ */
+export function getReadRequirements(reads: RuleReads): FormRequirement[] {
+  return [
+    ...(reads.tags || []).map(tagName => ({ tagName: tagName.toLowerCase(), attributes: [] })),
+    ...(reads.attributes || []).map(attribute => ({ attributes: [attribute.toLowerCase()] })),
+  ];
+}
+
+/**
+ * Whether an element's attribute names include one, where a trailing `*` matches any suffix
+ */
+function hasAttribute(attributes: Set<string>, attribute: string): boolean {
+  if (!attribute.endsWith('*')) return attributes.has(attribute);
+
+  const prefix = attribute.slice(0, -1);
+  return [...attributes].some(name => name.startsWith(prefix));
+}
+
+/**
+ * Whether a JSX form contains an element some requirement allows
+ */
+export function isRelevantForm(node: JsxNode, filter: RelevanceFilter): boolean {
+  if (filter === null) return true;
+  if (filter.length === 0) return false;
+
+  const visit = (current: JsxNode): boolean => {
+    if (!current.tagName.startsWith('#')) {
+      // Opaque components are rendered as placeholder divs naming the component
+      const tagName = current.opaque ? 'div' : current.tagName.toLowerCase();
+      const attributes = new Set(Object.keys(current.attributes).map(name => name.toLowerCase()));
+      if (current.opaque) attributes.add(OPAQUE_COMPONENT_ATTRIBUTE);
+      if (current.module) attributes.add(OPAQUE_MODULE_ATTRIBUTE);
+
+      // The html, head and body every document has only carry the attributes a form writes on them
+      const matched = filter.some(requirement =>
+        (!requirement.tagName || requirement.tagName === tagName) &&
+        requirement.attributes.every(attribute => hasAttribute(attributes, attribute))
+      );
+      if (matched) return true;
+    }
+
+    return current.children.some(visit);
+  };
+
+  return visit(node);
+}
@@ -147,7 +147,12 @@ function formatViolation(violation: Violation, options: ReporterOptions = {}): s
   // Rule ID
   parts.push(colorize(`[${violation.ruleId}]`, colors.gray, useColors));
 
-  return parts.join('  ');
+  const related = (violation.relatedInformation || []).map(info => {
+    const location = info.line !== undefined ? `${info.line}:${info.column || 0}` : 'unknown';
+    return colorize(`      ↳ ${location}  ${info.message}`, colors.gray, useColors);
+  });
+
+  return [parts.join('  '), ...related].join('\n');
 }
 
 /**
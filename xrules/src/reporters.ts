@@ -5,7 +5,7 @@
  */
 
 import chalk from 'chalk';
-import { CheckResult, Violation } from './types';
+import { CheckResult, RelatedInformation, Violation } from './types';
 import { ScopeCheckResult, TraceableViolation } from './scope-types';
 
 export interface EnhancedReporterOptions {
@@ -35,6 +35,25 @@ function getColumn(violation: Violation | TraceableViolation): number | undefine
   return violation.column;
 }
 
+/**
+ * Helper: Get related locations from violation
+ */
+function getRelated(violation: Violation | TraceableViolation): RelatedInformation[] {
+  return violation.relatedInformation || [];
+}
+
+/**
+ * Helper: Format a related location as ":line:col" (empty when unknown), after its file
+ * when it is in another file than the violation
+ */
+function formatRelatedLocation(related: RelatedInformation, cwd: string): string {
+  const position = related.line ? `:${related.line}:${related.column || 0}` : '';
+  if (!related.filePath) return position;
+
+  const relativePath = related.filePath.startsWith(cwd) ? related.filePath.slice(cwd.length + 1) : related.filePath;
+  return `${relativePath}${position}`;
+}
+
 /**
  * Stylish reporter (default) - colorful, detailed output
  */
@@ -81,6 +100,11 @@ export function formatStylish(
 
       lines.push(`  ${location}  ${icon}  ${severity}  ${violation.message}  ${ruleId}`);
 
+      for (const related of getRelated(violation)) {
+        const text = `      ↳ ${formatRelatedLocation(related, cwd)}  ${related.message}`;
+        lines.push(colors ? chalk.dim(text) : text);
+      }
+
       if (verbose && violation.context) {
         lines.push(colors ? chalk.dim(`      ${violation.context}`) : `      ${violation.context}`);
       }
@@ -134,8 +158,12 @@ export function formatCompact(
       const line = getLine(violation);
       const column = getColumn(violation);
       const location = line ? `:${line}:${column || 0}` : ':0:0';
+      const related = getRelated(violation)
+        .map(info => `${info.filePath ? '' : relativePath}${formatRelatedLocation(info, cwd) || ':0:0'} ${info.message}`)
+        .join('; ');
       lines.push(
-        `${relativePath}${location}: ${violation.severity}: ${violation.message} [${violation.ruleId}]`
+        `${relativePath}${location}: ${violation.severity}: ${violation.message} [${violation.ruleId}]` +
+          (related ? ` (related: ${related})` : '')
       );
     }
   }
@@ -196,6 +224,10 @@ export function formatJUnit(
           `      <${failureType} message="${escapeXml(message)}" type="${violation.severity}">`
         );
         lines.push(`${escapeXml(location)}: ${escapeXml(violation.message)}`);
+        for (const related of getRelated(violation)) {
+          const relatedLocation = related.line ? `Line ${related.line}` : 'Unknown location';
+          lines.push(`  Related ${escapeXml(relatedLocation)}: ${escapeXml(related.message)}`);
+        }
         lines.push(`      </${failureType}>`);
       }
 
@@ -228,8 +260,12 @@ export function formatGitHubActions(
         ? `file=${result.filePath},line=${line},col=${column || 1}`
         : `file=${result.filePath}`;
 
+      // Annotations are single-line; %0A encodes a newline within the message
+      const related = getRelated(violation)
+        .map(info => `%0ARelated${info.line ? ` line ${info.line}` : ''}: ${info.message}`)
+        .join('');
       lines.push(
-        `::${level} ${location}::${violation.ruleName}: ${violation.message} [${violation.ruleId}]`
+        `::${level} ${location}::${violation.ruleName}: ${violation.message} [${violation.ruleId}]${related}`
       );
     }
   }
@@ -267,6 +303,11 @@ export function formatTable(
         truncate(violation.message, 48),
       ];
       lines.push(formatTableRow(row, colWidths, colors));
+
+      for (const related of getRelated(violation)) {
+        const relatedRow = ['', related.line?.toString() || '-', '', '', truncate(`↳ ${related.message}`, 48)];
+        lines.push(formatTableRow(relatedRow, colWidths, colors));
+      }
     }
   }
 
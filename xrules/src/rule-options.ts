@@ -0,0 +1,131 @@
+/**
+ * Rule Options
+ *
+ * Rules declare their options with a small JSON-schema-like `optionsSchema`:
+ * one entry per option with its type, default and constraints. Configured
+ * options are validated against the schema and merged over the defaults
+ * before being handed to the rule as `CheckContext.options`.
+ */
+
+import type { AnyRule, OptionSchema, RuleOptions } from './types';
+
+/**
+ * Merge configured options over the defaults declared by a rule
+ */
+export function resolveRuleOptions(rule: AnyRule, configured: RuleOptions = {}): RuleOptions {
+  const options: RuleOptions = {};
+
+  for (const [name, schema] of Object.entries(rule.optionsSchema || {})) {
+    if (schema.default !== undefined) {
+      options[name] = cloneDefault(schema.default);
+    }
+  }
+
+  return { ...options, ...configured };
+}
+
+/**
+ * Check configured options against a rule's schema; returns one message per problem
+ */
+export function validateRuleOptions(rule: AnyRule, options: unknown): string[] {
+  if (options === undefined) {
+    return [];
+  }
+
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return [`Options for rule "${rule.id}" must be an object`];
+  }
+
+  const schema = rule.optionsSchema || {};
+  const known = Object.keys(schema);
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(options)) {
+    const optionSchema = schema[name];
+
+    if (!optionSchema) {
+      errors.push(
+        known.length > 0
+          ? `Unknown option "${name}" for rule "${rule.id}". Available options: ${known.join(', ')}`
+          : `Unknown option "${name}" for rule "${rule.id}". This rule has no options`
+      );
+      continue;
+    }
+
+    const problem = checkValue(value, optionSchema);
+    if (problem) {
+      errors.push(`Option "${name}" for rule "${rule.id}" ${problem}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Describe an option's type for messages and listings, e.g. "string[]"
+ */
+export function describeOptionType(schema: OptionSchema): string {
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  return schema.type === 'array' ? `${schema.items?.type || 'any'}[]` : schema.type;
+}
+
+/**
+ * Describe why a value does not match its schema, or return null if it does
+ */
+function checkValue(value: unknown, schema: OptionSchema): string | null {
+  if (!matchesType(value, schema.type)) {
+    return `must be ${article(schema.type)}, got ${describeValue(value)}`;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `must be one of ${describeOptionType(schema)}, got ${JSON.stringify(value)}`;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `must be at least ${schema.minimum}, got ${value}`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `must be at most ${schema.maximum}, got ${value}`;
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const index = value.findIndex(item => !matchesType(item, schema.items!.type));
+    if (index !== -1) {
+      return `must contain only ${schema.items.type} values, got ${describeValue(value[index])} at index ${index}`;
+    }
+  }
+
+  return null;
+}
+
+function matchesType(value: unknown, type: OptionSchema['type']): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return typeof value === 'string' ? `string ${JSON.stringify(value)}` : `${typeof value} ${String(value)}`;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function cloneDefault(value: unknown): unknown {
+  return Array.isArray(value) ? [...value] : value;
+}
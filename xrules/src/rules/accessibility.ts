@@ -4,7 +4,9 @@
  * Based on WCAG 2.1 Guidelines
  */
 
-import type { Rule } from '../types';
+import type { AggregateRule, DocumentRule, Element, Rule, Violation } from '../types';
+import { createRelatedInformation, createViolation } from '../engine';
+import { isHiddenFromAccessibility } from '../accessible-name';
 
 /**
  * Links should have descriptive text, not "click here" or "read more"
@@ -15,23 +17,22 @@ export const linkDescriptiveText: Rule = {
   description: 'Links should describe their destination, not use generic text like "click here"',
   category: 'accessibility',
   severity: 'warning',
-  pattern: 'a',
+  pattern: 'a[href]',
+
+  optionsSchema: {
+    vaguePhrases: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Link names that do not describe the destination (compared case-insensitively)',
+      default: ['click here', 'click', 'read more', 'learn more', 'more', 'here', 'link', 'this'],
+    },
+  },
 
-  check(element): string | null {
-    const text = element.textContent.trim().toLowerCase();
-
-    const nonDescriptiveTerms = [
-      'click here',
-      'click',
-      'read more',
-      'learn more',
-      'more',
-      'here',
-      'link',
-      'this',
-    ];
+  check(element, context): string | null {
+    const text = context.computeAccessibleName(element).toLowerCase();
+    const vaguePhrases = (context.options.vaguePhrases as string[]).map(phrase => phrase.toLowerCase());
 
-    if (nonDescriptiveTerms.includes(text)) {
+    if (vaguePhrases.includes(text)) {
       return `Link text "${text}" is not descriptive. Use text that describes the link destination.`;
     }
 
@@ -143,23 +144,40 @@ export const interactiveControlsSize: Rule = {
   severity: 'info',
   pattern: 'button, a[href], input[type="button"], input[type="submit"]',
 
-  check(element): string | null {
+  optionsSchema: {
+    minSize: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Minimum target size in CSS pixels, used in messages',
+      default: 44,
+    },
+    minTextLength: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Visible text shorter than this many characters suggests a small target',
+      default: 2,
+    },
+  },
+
+  check(element, context): string | null {
     // This is a heuristic - we can't measure actual size from HTML
     // but we can check for common patterns that might indicate small controls
 
     const text = element.textContent.trim();
+    const minSize = context.options.minSize as number;
+    const minTextLength = context.options.minTextLength as number;
 
-    // Single character or very short text might be too small
-    if (text.length === 1 && !element.getAttribute('aria-label')) {
+    // Very short text might be too small
+    if (text.length > 0 && text.length < minTextLength && !element.getAttribute('aria-label')) {
       return 'Interactive element has very short text which may indicate it is too small. ' +
-        'Ensure it is at least 44x44 pixels or has sufficient padding.';
+        `Ensure it is at least ${minSize}x${minSize} pixels or has sufficient padding.`;
     }
 
     return null;
   },
 
   suggest(): string {
-    return 'Ensure the element is at least 44x44 pixels, or add aria-label for context';
+    return 'Ensure the element is large enough to tap (WCAG recommends 44x44 pixels), or add aria-label for context';
   },
 
   documentation: 'https://www.w3.org/WAI/WCAG21/Understanding/target-size.html',
@@ -168,20 +186,28 @@ export const interactiveControlsSize: Rule = {
 /**
  * Skip links for keyboard navigation
  */
-export const skipLinks: Rule = {
+export const skipLinks: DocumentRule = {
+  kind: 'document',
   id: 'skip-links',
   name: 'Page Should Have Skip Links',
   description: 'Pages should have skip links to allow keyboard users to bypass repetitive content',
   category: 'accessibility',
   severity: 'warning',
-  pattern: 'body',
+  reads: { tags: ['a'] },
+
+  checkDocument(document, context): Violation[] {
+    const suggestion = 'Add a skip link as the first element: <a href="#main-content">Skip to main content</a>';
 
-  check(element, context): string | null {
     // Look for skip link (usually first link in body)
     const firstLink = context.querySelector('a[href^="#"]');
 
     if (!firstLink) {
-      return 'Page should have a skip link (e.g., "Skip to main content") as the first focusable element.';
+      return [createViolation(
+        skipLinks,
+        context.querySelector('body'),
+        'Page should have a skip link (e.g., "Skip to main content") as the first focusable element.',
+        suggestion
+      )];
     }
 
     // Check if it looks like a skip link
@@ -190,14 +216,15 @@ export const skipLinks: Rule = {
     const isSkipLink = skipTerms.some(term => text.includes(term));
 
     if (!isSkipLink) {
-      return 'First link does not appear to be a skip link. Consider adding "Skip to main content" as the first link.';
+      return [createViolation(
+        skipLinks,
+        firstLink,
+        'First link does not appear to be a skip link. Consider adding "Skip to main content" as the first link.',
+        suggestion
+      )];
     }
 
-    return null;
-  },
-
-  suggest(): string {
-    return 'Add a skip link as the first element: <a href="#main-content">Skip to main content</a>';
+    return [];
   },
 
   documentation: 'https://www.w3.org/WAI/WCAG21/Understanding/bypass-blocks.html',
@@ -206,15 +233,16 @@ export const skipLinks: Rule = {
 /**
  * Landmark regions for screen readers
  */
-export const landmarkRegions: Rule = {
+export const landmarkRegions: DocumentRule = {
+  kind: 'document',
   id: 'landmark-regions',
   name: 'Page Should Have Landmark Regions',
   description: 'Pages should use HTML5 landmark elements (header, nav, main, aside, footer)',
   category: 'accessibility',
   severity: 'warning',
-  pattern: 'body',
+  reads: { tags: ['main', 'nav'] },
 
-  check(element, context): string | null {
+  checkDocument(document, context): Violation[] {
     const hasMain = context.querySelector('main') !== null;
     const hasNav = context.querySelector('nav') !== null;
 
@@ -229,18 +257,66 @@ export const landmarkRegions: Rule = {
     }
 
     if (missingLandmarks.length > 0) {
-      return `Page is missing landmark regions: ${missingLandmarks.join(', ')}. ` +
-        'Use HTML5 semantic elements to help screen reader users navigate.';
+      return [createViolation(
+        landmarkRegions,
+        context.querySelector('body'),
+        `Page is missing landmark regions: ${missingLandmarks.join(', ')}. ` +
+          'Use HTML5 semantic elements to help screen reader users navigate.',
+        'Add semantic HTML5 landmark elements: <header>, <nav>, <main>, <aside>, <footer>'
+      )];
     }
 
-    return null;
+    return [];
   },
 
-  suggest(): string {
-    return 'Add semantic HTML5 landmark elements: <header>, <nav>, <main>, <aside>, <footer>';
+  documentation: 'https://www.w3.org/WAI/WCAG21/Understanding/bypass-blocks.html',
+};
+
+/**
+ * IDs must be unique so labels and ARIA references resolve to the intended element
+ */
+export const uniqueIds: AggregateRule<Map<string, Element[]>> = {
+  kind: 'aggregate',
+  id: 'unique-ids',
+  name: 'IDs Must Be Unique',
+  description: 'id attribute values must be unique within the document',
+  category: 'accessibility',
+  severity: 'error',
+  pattern: '[id]',
+
+  createState: () => new Map(),
+
+  collect(element, elementsById): void {
+    const id = element.getAttribute('id');
+    if (id) {
+      elementsById.set(id, [...(elementsById.get(id) || []), element]);
+    }
   },
 
-  documentation: 'https://www.w3.org/WAI/WCAG21/Understanding/bypass-blocks.html',
+  finalize(elementsById): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const [id, elements] of elementsById) {
+      // The first element keeps the id; every later one is reported
+      for (const duplicate of elements.slice(1)) {
+        violations.push({
+          ...createViolation(
+            uniqueIds,
+            duplicate,
+            `Duplicate id "${id}" is used by ${elements.length} elements. ` +
+              'Labels and ARIA references only resolve to the first one.',
+            'Rename this id or remove it if nothing references it'
+          ),
+          relatedInformation: [createRelatedInformation(elements[0], `First element with id "${id}"`)],
+          data: { id, count: elements.length },
+        });
+      }
+    }
+
+    return violations;
+  },
+
+  documentation: 'https://www.w3.org/WAI/WCAG21/Understanding/parsing.html',
 };
 
 /**
@@ -253,6 +329,7 @@ export const ariaValidAttributes: Rule = {
   category: 'accessibility',
   severity: 'error',
   pattern: '*',
+  reads: { attributes: ['aria-*'] },
 
   check(element): string | null {
     // Check for common ARIA attribute mistakes
@@ -469,13 +546,18 @@ export const svgAccessible: Rule = {
   severity: 'warning',
   pattern: 'svg',
 
-  check(element): string | null {
-    const hasTitle = element.children.some(child => child.tagName === 'title');
-    const hasAriaLabel = element.getAttribute('aria-label');
-    const role = element.getAttribute('role');
+  check(element, context): string | null {
+    const role = context.computeRole(element);
+
+    // Decorative SVGs hidden from assistive technology need no name
+    if (isHiddenFromAccessibility(element) || role === 'presentation' || role === 'none') {
+      return null;
+    }
+
+    const hasAriaLabel = element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby');
 
     // SVG should either have title/desc or role="img" with aria-label
-    if (!hasTitle && !hasAriaLabel) {
+    if (!context.computeAccessibleName(element)) {
       return 'SVG element should have either a <title> child element or aria-label attribute for screen readers.';
     }
 
@@ -549,7 +631,7 @@ export const formRequiredIndicators: Rule = {
     const id = element.getAttribute('id');
 
     if (id) {
-      const label = context.querySelector(`label[for="${id}"]`);
+      const label = context.index.getByTag('label').find(candidate => candidate.getAttribute('for') === id);
 
       if (label) {
         const labelText = label.textContent;
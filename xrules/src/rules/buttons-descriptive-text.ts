@@ -9,17 +9,6 @@
 
 import type { Rule } from '../types';
 
-const NON_DESCRIPTIVE_PATTERNS = [
-  'click here',
-  'click',
-  'read more',
-  'learn more',
-  'more',
-  'submit',
-  'go',
-  'ok',
-];
-
 export const buttonsDescriptiveText: Rule = {
   id: 'buttons-descriptive-text',
   name: 'Buttons Must Have Descriptive Text',
@@ -30,20 +19,26 @@ export const buttonsDescriptiveText: Rule = {
   // Match all buttons (we'll check text in the check function)
   pattern: 'button',
 
-  check(element): string | null {
-    const text = element.textContent.trim().toLowerCase();
+  optionsSchema: {
+    vaguePhrases: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Button names that do not describe the action (compared case-insensitively)',
+      default: ['click here', 'click', 'read more', 'learn more', 'more', 'submit', 'go', 'ok'],
+    },
+  },
+
+  check(element, context): string | null {
+    const text = context.computeAccessibleName(element).toLowerCase();
+    const vaguePhrases = (context.options.vaguePhrases as string[]).map(phrase => phrase.toLowerCase());
 
-    // Check if button has no text
+    // Check if button has no accessible name (text, aria-label, aria-labelledby, title...)
     if (!text) {
-      // Check for aria-label
-      if (!element.getAttribute('aria-label')) {
-        return 'Button has no text content and no aria-label. Buttons must have descriptive text.';
-      }
-      return null; // Has aria-label, so it's OK
+      return 'Button has no accessible name. Buttons must have descriptive text or an aria-label.';
     }
 
     // Check if text is too generic
-    if (NON_DESCRIPTIVE_PATTERNS.includes(text)) {
+    if (vaguePhrases.includes(text)) {
       return `Button text "${text}" is not descriptive. Use text that clearly indicates what the button does ` +
         '(e.g., "Submit Form", "Download Report", "Close Dialog").';
     }
@@ -16,7 +16,7 @@
  *   </label>
  */
 
-import type { Rule, CheckContext, Element } from '../types';
+import type { Rule, RuleReport, CheckContext, Element } from '../types';
 import { querySelectorAll } from '../parser';
 
 export const formLabelsExplicit: Rule = {
@@ -28,7 +28,7 @@ export const formLabelsExplicit: Rule = {
   pattern: 'label',
   documentation: 'https://simonwillison.net/2025/Oct/17/form-labels/',
 
-  check(element: Element, context: CheckContext): string | null {
+  check(element: Element, context: CheckContext): string | null | RuleReport[] {
     // Check if label has a 'for' attribute
     const forAttr = element.getAttribute('for');
 
@@ -46,8 +46,13 @@ export const formLabelsExplicit: Rule = {
 
     // Label contains a form input
     if (!forAttr) {
-      return 'Label contains a form control but lacks explicit "for" attribute. ' +
-        'Voice control software (Dragon Naturally Speaking, Voice Control) requires explicit association.';
+      const [control] = getFormControls(element);
+      return [{
+        message: 'Label contains a form control but lacks explicit "for" attribute. ' +
+          'Voice control software (Dragon Naturally Speaking, Voice Control) requires explicit association.',
+        related: [{ element: control, message: 'Implicitly labelled <{{control}}>' }],
+        data: { control: control.tagName },
+      }];
     }
 
     // Label has 'for' attribute, verify it matches an input inside
@@ -59,7 +64,7 @@ export const formLabelsExplicit: Rule = {
 
     if (!hasMatchingInput) {
       // Check if the 'for' attribute points to an element elsewhere in the document
-      const targetElement = context.getElementById(forAttr);
+      const [targetElement] = context.resolveIdRef(element, 'for');
       if (targetElement && isFormControl(targetElement)) {
         // Valid: label points to a form control outside itself
         return null;
@@ -6,12 +6,17 @@
  * - h2 should follow h1, h3 should follow h2, etc.
  * - Don't skip heading levels (e.g., h1 -> h3 is bad)
  *
+ * Both rules collect the headings in document order and report once every
+ * heading has been seen.
+ *
  * WCAG 2.1 Success Criterion 1.3.1 Info and Relationships (Level A)
  */
 
-import type { Rule, CheckContext, Element } from '../types';
+import type { AggregateRule, Element, Violation } from '../types';
+import { createViolation } from '../engine';
 
-export const headingHierarchy: Rule = {
+export const headingHierarchy: AggregateRule<Element[]> = {
+  kind: 'aggregate',
   id: 'heading-hierarchy',
   name: 'Headings Must Follow Logical Hierarchy',
   description: 'Headings should follow a logical order without skipping levels',
@@ -21,58 +26,45 @@ export const headingHierarchy: Rule = {
   // Match all headings
   pattern: 'h1, h2, h3, h4, h5, h6',
 
-  check(element, context): string | null {
-    const tagName = element.tagName;
-    const level = parseInt(tagName.charAt(1), 10);
+  createState: () => [],
 
-    // Check for multiple h1s
-    if (level === 1) {
-      const allH1s = context.querySelectorAll('h1');
-      if (allH1s.length > 1) {
-        const location = element.getSourceLocation();
-        const isFirst = allH1s[0] === element;
+  collect(element, headings): void {
+    headings.push(element);
+  },
 
-        if (!isFirst) {
-          return 'Page should have only one h1 element. Multiple h1s confuse the document structure for screen readers.';
-        }
+  finalize(headings): Violation[] {
+    const violations: Violation[] = [];
+    const seenLevels = new Set<number>();
+    let h1Count = 0;
+
+    for (const heading of headings) {
+      const level = getHeadingLevel(heading);
+
+      // Check for multiple h1s
+      if (level === 1 && ++h1Count > 1) {
+        violations.push(createViolation(
+          headingHierarchy,
+          heading,
+          'Page should have only one h1 element. Multiple h1s confuse the document structure for screen readers.',
+          'Remove this h1 or change it to a lower heading level. Page should have only one h1.'
+        ));
       }
-    }
-
-    // Check for skipped levels
-    if (level > 1) {
-      const previousLevel = level - 1;
-      const previousHeadingSelector = `h${previousLevel}`;
 
-      // Get all headings before this one
-      const allHeadings = context.querySelectorAll('h1, h2, h3, h4, h5, h6');
-      const currentIndex = allHeadings.indexOf(element);
-
-      // Get headings before current
-      const previousHeadings = allHeadings.slice(0, currentIndex);
-
-      // Check if there's a heading of level-1 before this one
-      const hasPreviousLevel = previousHeadings.some(h => {
-        const prevLevel = parseInt(h.tagName.charAt(1), 10);
-        return prevLevel === previousLevel;
-      });
-
-      if (!hasPreviousLevel) {
-        return `Heading level ${level} appears without a preceding level ${previousLevel} heading. ` +
-          'Heading levels should not be skipped for proper document structure.';
+      // Check for skipped levels: a heading of the level above must come first
+      if (level > 1 && !seenLevels.has(level - 1)) {
+        violations.push(createViolation(
+          headingHierarchy,
+          heading,
+          `Heading level ${level} appears without a preceding level ${level - 1} heading. ` +
+            'Heading levels should not be skipped for proper document structure.',
+          `Add an h${level - 1} heading before this ${heading.tagName}, or change this to h${level - 1}`
+        ));
       }
-    }
 
-    return null;
-  },
-
-  suggest(element): string {
-    const level = parseInt(element.tagName.charAt(1), 10);
-
-    if (level === 1) {
-      return 'Remove this h1 or change it to a lower heading level. Page should have only one h1.';
+      seenLevels.add(level);
     }
 
-    return `Add an h${level - 1} heading before this ${element.tagName}, or change this to h${level - 1}`;
+    return violations;
   },
 
   documentation: 'https://www.w3.org/WAI/WCAG21/Understanding/info-and-relationships.html',
@@ -81,7 +73,8 @@ export const headingHierarchy: Rule = {
 /**
  * Simpler rule: Just check for multiple h1s
  */
-export const singleH1: Rule = {
+export const singleH1: AggregateRule<Element[]> = {
+  kind: 'aggregate',
   id: 'single-h1',
   name: 'Page Should Have Single H1',
   description: 'HTML documents should have exactly one h1 element',
@@ -90,21 +83,23 @@ export const singleH1: Rule = {
 
   pattern: 'h1',
 
-  check(element, context): string | null {
-    const allH1s = context.querySelectorAll('h1');
+  createState: () => [],
 
-    if (allH1s.length > 1) {
-      // Only report on the second and subsequent h1s
-      const isFirst = allH1s[0] === element;
-      if (!isFirst) {
-        return `Page has ${allH1s.length} h1 elements. There should be only one h1 per page for SEO and accessibility.`;
-      }
-    }
-
-    return null;
+  collect(element, h1s): void {
+    h1s.push(element);
   },
 
-  suggest(): string {
-    return 'Change this heading to h2 or lower level, or remove if redundant';
+  finalize(h1s): Violation[] {
+    // Only report on the second and subsequent h1s
+    return h1s.slice(1).map(h1 => createViolation(
+      singleH1,
+      h1,
+      `Page has ${h1s.length} h1 elements. There should be only one h1 per page for SEO and accessibility.`,
+      'Change this heading to h2 or lower level, or remove if redundant'
+    ));
   },
 };
+
+function getHeadingLevel(heading: Element): number {
+  return parseInt(heading.tagName.charAt(1), 10);
+}
@@ -5,10 +5,14 @@
  * accessibility. Even decorative images should use alt="" to indicate
  * they are decorative.
  *
+ * Images hidden from assistive technology or marked presentational, and images
+ * named through aria-label, aria-labelledby or title, are not reported.
+ *
  * WCAG 2.1 Success Criterion 1.1.1 Non-text Content (Level A)
  */
 
 import type { Rule } from '../types';
+import { isHiddenFromAccessibility } from '../accessible-name';
 
 export const imagesAltText: Rule = {
   id: 'images-alt-text',
@@ -20,8 +24,15 @@ export const imagesAltText: Rule = {
   // Use extended pattern matcher: find images WITHOUT alt attribute
   pattern: 'img:without(alt)',
 
-  check(): string | null {
-    // If we found the element, it's a violation (since pattern already filtered)
+  check(element, context): string | null {
+    const role = context.computeRole(element);
+    if (isHiddenFromAccessibility(element) || role === 'presentation' || role === 'none') {
+      return null;
+    }
+    if (context.computeAccessibleName(element)) {
+      return null;
+    }
+
     return 'Image element is missing alt attribute. All images must have alt text for screen readers. ' +
       'Use alt="" for decorative images.';
   },
@@ -0,0 +1,198 @@
+/**
+ * Next.js Rules
+ *
+ * Rules for Next.js apps, checked on the JSX analysis of their components
+ * (e.g. `xrules check-app`). Components imported from a Next.js module are
+ * not inlined; they render as placeholder elements naming their module in
+ * `data-xrules-module`, so `<Image>` is matched however it was imported.
+ */
+
+import type { Rule } from '../types';
+import { OPAQUE_MODULE_ATTRIBUTE } from '../jsx-parser';
+import { isUnknownAttributeValue } from '../unknown-values';
+
+/**
+ * Pattern matching the components imported from a module
+ */
+function fromModule(module: string): string {
+  return `[${OPAQUE_MODULE_ATTRIBUTE}="${module}"]`;
+}
+
+/**
+ * next/image must have alt text
+ */
+export const nextImageAlt: Rule = {
+  id: 'next-image-alt',
+  name: 'next/image Must Have Alt Text',
+  description: 'The Image component of next/image requires an alt prop',
+  category: 'accessibility',
+  severity: 'error',
+  pattern: fromModule('next/image'),
+
+  check(element): string | null {
+    if (element.hasAttribute('alt')) {
+      return null;
+    }
+
+    return 'Image is missing an alt prop. next/image renders an <img> that needs alternative text; ' +
+      'use alt="" for decorative images.';
+  },
+
+  suggest(): string {
+    return 'Add an alt prop describing the image, or alt="" if it is decorative';
+  },
+
+  documentation: 'https://nextjs.org/docs/app/api-reference/components/image#alt',
+};
+
+/**
+ * next/link renders its own <a>, so it must not wrap another one
+ */
+export const nextLinkNoNestedA: Rule = {
+  id: 'next-link-no-nested-a',
+  name: 'next/link Must Not Wrap an <a>',
+  description: 'Link renders an <a> element; a nested <a> produces invalid, nested links',
+  category: 'best-practice',
+  severity: 'error',
+  pattern: `${fromModule('next/link')}:not([legacybehavior]) a`,
+
+  check(): string | null {
+    return 'Link already renders an <a> element. The nested <a> creates a link inside a link, ' +
+      'which is invalid HTML and confuses assistive technology.';
+  },
+
+  suggest(): string {
+    return 'Move the attributes of the <a> to the Link and remove the <a>';
+  },
+
+  documentation: 'https://nextjs.org/docs/app/api-reference/components/link',
+};
+
+/**
+ * Images should use next/image
+ */
+export const nextNoImgElement: Rule = {
+  id: 'next-no-img-element',
+  name: 'Use next/image Instead of <img>',
+  description: 'Plain <img> elements miss the resizing, lazy loading and layout stability of next/image',
+  category: 'performance',
+  severity: 'warning',
+  pattern: 'img',
+
+  check(): string | null {
+    return 'Use the Image component of next/image instead of <img> for automatic optimization ' +
+      'and to avoid layout shift.';
+  },
+
+  suggest(): string {
+    return "Replace <img> with <Image> imported from 'next/image', with width and height or fill";
+  },
+
+  documentation: 'https://nextjs.org/docs/app/building-your-application/optimizing/images',
+};
+
+/**
+ * Scripts should use next/script
+ */
+export const nextScriptComponent: Rule = {
+  id: 'next-script-component',
+  name: 'Use next/script Instead of <script>',
+  description: 'Plain <script> elements bypass the loading strategies of next/script',
+  category: 'performance',
+  severity: 'warning',
+  // Structured data is not executed and belongs in a plain <script>
+  pattern: 'script:not([type="application/ld+json"])',
+
+  check(): string | null {
+    return 'Use the Script component of next/script instead of <script> to control when the script loads.';
+  },
+
+  suggest(): string {
+    return "Replace <script> with <Script> imported from 'next/script' and choose a strategy";
+  },
+
+  documentation: 'https://nextjs.org/docs/app/building-your-application/optimizing/scripts',
+};
+
+/**
+ * The App Router manages <head> through the Metadata API
+ */
+export const nextNoHeadElement: Rule = {
+  id: 'next-no-head-element',
+  name: 'Use the Metadata API Instead of <head>',
+  description: 'In the App Router, head elements come from exported metadata, not <head> or next/head',
+  category: 'best-practice',
+  severity: 'warning',
+  pattern: `head, ${fromModule('next/head')}`,
+
+  check(element): string | null {
+    if (element.tagName === 'head') {
+      // The head the metadata renders into is implied and has no source
+      if (!element.getSourceLocation()) return null;
+
+      return 'Do not write a <head> element in the App Router. ' +
+        'Export metadata or generateMetadata from the layout or page instead.';
+    }
+
+    return 'next/head is not supported in the App Router. ' +
+      'Export metadata or generateMetadata from the layout or page instead.';
+  },
+
+  suggest(): string {
+    return 'Move the title and meta tags to `export const metadata: Metadata = { ... }`';
+  },
+
+  documentation: 'https://nextjs.org/docs/app/building-your-application/optimizing/metadata',
+};
+
+/**
+ * next/link opening a new tab needs rel
+ */
+export const nextLinkTargetBlankRel: Rule = {
+  id: 'next-link-target-blank-rel',
+  name: 'next/link With target="_blank" Needs rel',
+  description: 'A Link opening in a new tab should have rel="noopener noreferrer"',
+  category: 'security',
+  severity: 'warning',
+  pattern: `${fromModule('next/link')}[target="_blank"]`,
+
+  check(element): string | null {
+    const rel = element.getAttribute('rel');
+
+    if (isUnknownAttributeValue(rel)) {
+      return null;
+    }
+
+    const relValues = (rel ?? '').toLowerCase().split(/\s+/);
+    if (relValues.includes('noopener') || relValues.includes('noreferrer')) {
+      return null;
+    }
+
+    return 'Link opens in a new tab without rel="noopener noreferrer", ' +
+      'giving the opened page access to window.opener.';
+  },
+
+  suggest(): string {
+    return 'Add rel="noopener noreferrer" to the Link';
+  },
+
+  documentation: 'https://mathiasbynens.github.io/rel-noopener/',
+};
+
+/**
+ * All Next.js rules, for registering on an engine checking a Next.js app
+ */
+export const nextjsRules: Rule[] = [
+  nextImageAlt,
+  nextLinkNoNestedA,
+  nextNoImgElement,
+  nextScriptComponent,
+  nextNoHeadElement,
+  nextLinkTargetBlankRel,
+];
+
+/**
+ * The Next.js rules, off until the configuration turns them on (e.g. `extends: ["nextjs"]`), for
+ * engines checking files that need not belong to a Next.js app
+ */
+export const optInNextjsRules: Rule[] = nextjsRules.map(rule => ({ ...rule, severity: 'off' }));
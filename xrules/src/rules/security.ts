@@ -37,6 +37,7 @@ export const inlineEventHandlers: Rule = {
   category: 'security',
   severity: 'warning',
   pattern: '*',
+  reads: { attributes: ['on*'] },
 
   check(element): string | null {
     const dangerousAttrs = [
@@ -2,45 +2,50 @@
  * SEO Rules - Search Engine Optimization
  */
 
-import type { Rule } from '../types';
+import type { DocumentRule, Rule, Violation } from '../types';
+import { createViolation } from '../engine';
+import { isUnknownAttributeValue } from '../unknown-values';
 
 /**
  * Page must have a title
  */
-export const metaTitle: Rule = {
+export const metaTitle: DocumentRule = {
+  kind: 'document',
   id: 'meta-title',
   name: 'Page Must Have Title',
   description: 'Every page must have a <title> element for SEO',
   category: 'seo',
   severity: 'error',
-  pattern: 'head',
+  reads: { tags: ['title'] },
 
-  check(element, context): string | null {
+  checkDocument(document, context): Violation[] {
+    const suggestion = 'Ensure title is 50-60 characters with descriptive keywords';
     const title = context.querySelector('title');
 
     if (!title) {
-      return 'Page is missing <title> element. Title is critical for SEO and browser tabs.';
+      return [createViolation(
+        metaTitle,
+        context.querySelector('head'),
+        'Page is missing <title> element. Title is critical for SEO and browser tabs.',
+        suggestion
+      )];
     }
 
     const titleText = title.textContent.trim();
-
-    if (!titleText) {
-      return 'Title element is empty. Provide a descriptive title for the page.';
-    }
-
-    if (titleText.length < 10) {
-      return `Title "${titleText}" is too short (${titleText.length} chars). Recommended: 50-60 characters.`;
+    let message: string | null = null;
+
+    if (isUnknownAttributeValue(titleText)) {
+      // Set at runtime, e.g. by generateMetadata()
+      return [];
+    } else if (!titleText) {
+      message = 'Title element is empty. Provide a descriptive title for the page.';
+    } else if (titleText.length < 10) {
+      message = `Title "${titleText}" is too short (${titleText.length} chars). Recommended: 50-60 characters.`;
+    } else if (titleText.length > 70) {
+      message = `Title is too long (${titleText.length} chars). Search engines may truncate it. Recommended: 50-60 characters.`;
     }
 
-    if (titleText.length > 70) {
-      return `Title is too long (${titleText.length} chars). Search engines may truncate it. Recommended: 50-60 characters.`;
-    }
-
-    return null;
-  },
-
-  suggest(): string {
-    return 'Ensure title is 50-60 characters with descriptive keywords';
+    return message ? [createViolation(metaTitle, title, message, suggestion)] : [];
   },
 };
 
@@ -54,6 +59,7 @@ export const metaDescription: Rule = {
   category: 'seo',
   severity: 'warning',
   pattern: 'head',
+  reads: { tags: ['head', 'meta'] },
 
   check(element, context): string | null {
     const metaDesc = context?.querySelector('meta[name="description"]');
@@ -68,6 +74,10 @@ export const metaDescription: Rule = {
       return 'Meta description is empty. Provide a compelling summary of the page (150-160 characters).';
     }
 
+    if (isUnknownAttributeValue(content)) {
+      return null;
+    }
+
     if (content.length < 50) {
       return `Meta description is too short (${content.length} chars). Recommended: 150-160 characters.`;
     }
@@ -94,6 +104,7 @@ export const metaViewport: Rule = {
   category: 'seo',
   severity: 'error',
   pattern: 'head',
+  reads: { tags: ['head', 'meta'] },
 
   check(element, context): string | null {
     const viewport = context?.querySelector('meta[name="viewport"]');
@@ -126,6 +137,7 @@ export const metaCharset: Rule = {
   category: 'seo',
   severity: 'error',
   pattern: 'head',
+  reads: { tags: ['head', 'meta'] },
 
   check(element, context): string | null {
     const charset = context?.querySelector('meta[charset]');
@@ -172,32 +184,33 @@ export const descriptiveLinkText: Rule = {
 /**
  * Canonical URL for duplicate content
  */
-export const canonicalUrl: Rule = {
+export const canonicalUrl: DocumentRule = {
+  kind: 'document',
   id: 'canonical-url',
   name: 'Page Should Have Canonical URL',
   description: 'Pages should specify canonical URL to avoid duplicate content issues',
   category: 'seo',
   severity: 'info',
-  pattern: 'head',
+  reads: { tags: ['link'] },
 
-  check(element, context): string | null {
-    const canonical = context?.querySelector('link[rel="canonical"]');
+  checkDocument(document, context): Violation[] {
+    const suggestion = 'Add <link rel="canonical" href="https://example.com/page"> in <head>';
+    const canonical = context.querySelector('link[rel="canonical"]');
 
     if (!canonical) {
-      return 'Page should have a canonical URL to help search engines identify the primary version.';
+      return [createViolation(
+        canonicalUrl,
+        context.querySelector('head'),
+        'Page should have a canonical URL to help search engines identify the primary version.',
+        suggestion
+      )];
     }
 
-    const href = canonical.getAttribute('href');
-
-    if (!href) {
-      return 'Canonical link is missing href attribute.';
+    if (!canonical.getAttribute('href')) {
+      return [createViolation(canonicalUrl, canonical, 'Canonical link is missing href attribute.', suggestion)];
     }
 
-    return null;
-  },
-
-  suggest(): string {
-    return 'Add <link rel="canonical" href="https://example.com/page"> in <head>';
+    return [];
   },
 };
 
@@ -341,6 +354,7 @@ export const htmlLang: Rule = {
   category: 'seo',
   severity: 'warning',
   pattern: 'html',
+  reads: { tags: ['html'] },
 
   check(element): string | null {
     const lang = element.getAttribute('lang');
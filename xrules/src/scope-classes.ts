@@ -0,0 +1,380 @@
+/**
+ * Static Scope Classes
+ *
+ * Scopes selected by a CSS class (`.admin-panel *`) are resolved from the markup the
+ * analysis sees, which only holds if whether an element has the class never changes at
+ * run time. This metarule checks the `className` expressions of JSX for scope classes
+ * they may add or leave out: ternaries, `&&`, template literals, class-merging helpers
+ * such as `clsx` and `cn`, and props passed through whose type allows a scope class.
+ */
+
+import { Node, SourceFile, SyntaxKind, TemplateExpression, VariableDeclarationKind } from 'ts-morph';
+import type { Scope } from './scope-types';
+import type { RuleSeverity, Violation } from './types';
+import { getComponentNameFromFile } from './jsx-parser';
+
+export const STATIC_SCOPE_CLASS_RULE_ID = 'static-scope-classes';
+
+/**
+ * Helpers that join their arguments into a class string, leaving out falsy arguments and
+ * keeping the keys of objects whose value is truthy
+ */
+export const CLASS_MERGING_HELPERS = ['clsx', 'classnames', 'classNames', 'cn', 'cx', 'twMerge', 'twJoin'];
+
+/**
+ * Options of the metarule
+ */
+export interface ScopeClassOptions {
+  severity?: Exclude<RuleSeverity, 'off'>;
+  helpers?: string[]; // Class-merging helpers of the project, in addition to CLASS_MERGING_HELPERS
+  reportUnknown?: boolean; // Also report classes that are not known statically, e.g. a `string` prop
+}
+
+/**
+ * Classes an expression evaluates to
+ */
+interface ClassSet {
+  always: Set<string>;
+  maybe: Map<string, Node>; // Conditional classes, with the expression deciding each
+  unknown?: Node; // A part whose classes are not known statically
+}
+
+interface EvaluationContext {
+  helpers: Set<string>;
+  scopeClasses: Map<string, Scope>;
+  resolving: Set<Node>; // Variable initializers being evaluated, to stop recursion
+}
+
+// Stands for a substitution when splitting a template literal into classes
+const PLACEHOLDER = '\u0000';
+
+/**
+ * Class names a scope selector requires: `.admin-panel *` -> `admin-panel`
+ */
+export function getScopeClassNames(selector: string): string[] {
+  const stripped = selector.replace(/\[[^\]]*\]|"[^"]*"|'[^']*'/g, '');
+  return Array.from(stripped.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g), match => match[1]);
+}
+
+/**
+ * Report the `className` (or `class`) attributes of a source file that may add or leave out
+ * the class of a scope, with the component they are in
+ */
+export function checkScopeClasses(sourceFile: SourceFile, scopes: Scope[], options: ScopeClassOptions = {}): Violation[] {
+  const scopeClasses = new Map<string, Scope>();
+  for (const scope of scopes) {
+    if (scope.enabled === false || !scope.selector) continue;
+    for (const name of getScopeClassNames(scope.selector)) {
+      if (!scopeClasses.has(name)) scopeClasses.set(name, scope);
+    }
+  }
+  if (scopeClasses.size === 0) return [];
+
+  const context: EvaluationContext = {
+    helpers: new Set([...CLASS_MERGING_HELPERS, ...(options.helpers ?? [])]),
+    scopeClasses,
+    resolving: new Set(),
+  };
+  const severity = options.severity ?? 'error';
+  const violations: Violation[] = [];
+
+  for (const attribute of sourceFile.getDescendantsOfKind(SyntaxKind.JsxAttribute)) {
+    const name = attribute.getNameNode().getText();
+    const initializer = attribute.getInitializer();
+    const expression = initializer && Node.isJsxExpression(initializer) ? initializer.getExpression() : undefined;
+    if ((name !== 'className' && name !== 'class') || !expression) continue;
+
+    const classes = evaluate(expression, context, false);
+    const element = attribute.getFirstAncestor(node => Node.isJsxOpeningElement(node) || Node.isJsxSelfClosingElement(node));
+    const tagName = element && (Node.isJsxOpeningElement(element) || Node.isJsxSelfClosingElement(element))
+      ? element.getTagNameNode().getText()
+      : 'element';
+    const component = getComponentName(attribute);
+    const { line, column } = sourceFile.getLineAndColumnAtPos(attribute.getStart());
+    const report = (message: string, data: Record<string, string>) => violations.push({
+      ruleId: STATIC_SCOPE_CLASS_RULE_ID,
+      ruleName: 'Static Scope Classes',
+      message,
+      severity,
+      line,
+      column,
+      element: tagName,
+      context: describe(attribute),
+      suggestion: 'Apply the scope class unconditionally, or render a separate element that always has it',
+      data: { component, ...data },
+    });
+
+    for (const [className, origin] of classes.maybe) {
+      const scope = scopeClasses.get(className);
+      if (scope) {
+        report(
+          `Scope class "${className}" is conditional in ${component}: \`${describe(origin)}\` decides whether <${tagName}> has it`,
+          { scope: scope.id, scopeClass: className }
+        );
+      }
+    }
+
+    if (options.reportUnknown && classes.unknown) {
+      report(
+        `Classes of <${tagName}> in ${component} are not known statically: \`${describe(classes.unknown)}\` could add or leave out a scope class`,
+        {}
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Classes of a class expression; in an argument of a class-merging helper, objects and arrays
+ * stand for the classes they select
+ */
+function evaluate(node: Node, context: EvaluationContext, argument: boolean): ClassSet {
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isNonNullExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return evaluate(node.getExpression(), context, argument);
+  }
+
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+    return classesOf(node.getLiteralValue());
+  }
+
+  if (Node.isTemplateExpression(node)) {
+    return evaluateTemplate(node, context);
+  }
+
+  if (Node.isConditionalExpression(node)) {
+    return either(evaluate(node.getWhenTrue(), context, argument), evaluate(node.getWhenFalse(), context, argument), node);
+  }
+
+  if (Node.isBinaryExpression(node)) {
+    const operator = node.getOperatorToken().getKind();
+    const right = evaluate(node.getRight(), context, argument);
+
+    if (operator === SyntaxKind.AmpersandAmpersandToken) {
+      return either(right, empty(), node);
+    }
+    if (operator === SyntaxKind.BarBarToken || operator === SyntaxKind.QuestionQuestionToken) {
+      return either(evaluate(node.getLeft(), context, argument), right, node);
+    }
+    if (operator === SyntaxKind.PlusToken) {
+      return concat([evaluate(node.getLeft(), context, argument), right]);
+    }
+  }
+
+  if (Node.isCallExpression(node)) {
+    const callee = node.getExpression();
+    const name = Node.isIdentifier(callee) ? callee.getText() : Node.isPropertyAccessExpression(callee) ? callee.getName() : undefined;
+
+    if (name && context.helpers.has(name)) {
+      return concat(node.getArguments().map(arg => evaluate(arg, context, true)));
+    }
+
+    // ['card', active && 'active'].filter(Boolean).join(' ')
+    if (name === 'join' && Node.isPropertyAccessExpression(callee)) {
+      let list = callee.getExpression();
+      const filter = Node.isCallExpression(list) ? list.getExpression() : undefined;
+      if (filter && Node.isPropertyAccessExpression(filter) && filter.getName() === 'filter') {
+        list = filter.getExpression();
+      }
+      if (Node.isArrayLiteralExpression(list)) {
+        return evaluate(list, context, true);
+      }
+    }
+  }
+
+  if (argument && Node.isArrayLiteralExpression(node)) {
+    return concat(node.getElements().map(element => evaluate(element, context, true)));
+  }
+
+  if (argument && Node.isObjectLiteralExpression(node)) {
+    return concat(node.getProperties().map(property => {
+      if (Node.isShorthandPropertyAssignment(property)) {
+        return either(classesOf(property.getName()), empty(), property);
+      }
+      if (!Node.isPropertyAssignment(property)) {
+        return { ...empty(), unknown: property };
+      }
+
+      const nameNode = property.getNameNode();
+      const classes = Node.isComputedPropertyName(nameNode)
+        ? evaluate(nameNode.getExpression(), context, false)
+        : classesOf(Node.isStringLiteral(nameNode) ? nameNode.getLiteralValue() : nameNode.getText());
+      const value = property.getInitializer();
+
+      if (value?.getKind() === SyntaxKind.TrueKeyword) return classes;
+      if (value?.getKind() === SyntaxKind.FalseKeyword) return empty();
+      return either(classes, empty(), property);
+    }));
+  }
+
+  if (Node.isIdentifier(node)) {
+    const initializer = getConstInitializer(node);
+    if (initializer && !context.resolving.has(initializer)) {
+      context.resolving.add(initializer);
+      try {
+        return evaluate(initializer, context, argument);
+      } finally {
+        context.resolving.delete(initializer);
+      }
+    }
+  }
+
+  return evaluateType(node);
+}
+
+/**
+ * Classes of a template literal. Substitutions between spaces are evaluated as classes;
+ * classes joined to a substitution (`panel-${size}`) are only known to match a pattern.
+ */
+function evaluateTemplate(template: TemplateExpression, context: EvaluationContext): ClassSet {
+  const spans = template.getTemplateSpans();
+  const text = template.getHead().getLiteralText() +
+    spans.map(span => PLACEHOLDER + span.getLiteral().getLiteralText()).join('');
+  const parts: ClassSet[] = [];
+  let next = 0;
+
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const count = token.split(PLACEHOLDER).length - 1;
+    const substitution = spans[next]?.getExpression();
+    next += count;
+
+    if (count === 0 || !substitution) {
+      parts.push(classesOf(token));
+    } else if (token === PLACEHOLDER) {
+      parts.push(evaluate(substitution, context, false));
+    } else {
+      // Any scope class the pattern matches may be formed
+      const pattern = new RegExp(`^${token.split(PLACEHOLDER).map(escapeRegExp).join('\\S*')}$`);
+      const maybe = new Map<string, Node>();
+      for (const className of context.scopeClasses.keys()) {
+        if (pattern.test(className)) maybe.set(className, substitution);
+      }
+      parts.push({ always: new Set(), maybe, unknown: substitution });
+    }
+  }
+
+  return concat(parts);
+}
+
+/**
+ * Classes of an expression from its type: string literal types are classes that may be
+ * present, `undefined`, `null` and booleans add none, and other types any
+ */
+function evaluateType(node: Node): ClassSet {
+  const type = node.getType();
+
+  return (type.isUnion() ? type.getUnionTypes() : [type])
+    .map(member => {
+      if (member.isStringLiteral() || member.isNumberLiteral()) {
+        return classesOf(String(member.getLiteralValue()));
+      }
+      if (member.isUndefined() || member.isNull() || member.isBooleanLiteral() || member.isBoolean()) {
+        return empty();
+      }
+      return { ...empty(), unknown: node };
+    })
+    .reduce((result, classes) => either(result, classes, node));
+}
+
+/**
+ * Initializer of the `const` variable an identifier refers to, in this file or imported
+ */
+function getConstInitializer(identifier: Node): Node | undefined {
+  const symbol = identifier.getSymbol();
+  const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+  const declarations = target?.getDeclarations() ?? [];
+  const [declaration] = declarations;
+
+  if (
+    declarations.length !== 1 ||
+    !Node.isVariableDeclaration(declaration) ||
+    !Node.isIdentifier(declaration.getNameNode()) ||
+    declaration.getVariableStatement()?.getDeclarationKind() !== VariableDeclarationKind.Const
+  ) {
+    return undefined;
+  }
+  return declaration.getInitializer();
+}
+
+/**
+ * Name of the component a node is in: its nearest capitalized enclosing declaration, or the
+ * name of the file
+ */
+function getComponentName(node: Node): string {
+  for (const ancestor of node.getAncestors()) {
+    if (
+      Node.isFunctionDeclaration(ancestor) ||
+      Node.isFunctionExpression(ancestor) ||
+      Node.isClassDeclaration(ancestor) ||
+      Node.isClassExpression(ancestor) ||
+      Node.isVariableDeclaration(ancestor)
+    ) {
+      const name = ancestor.getName();
+      if (name && /^[A-Z]/.test(name)) return name;
+    }
+  }
+
+  return getComponentNameFromFile(node.getSourceFile().getFilePath());
+}
+
+function empty(): ClassSet {
+  return { always: new Set(), maybe: new Map() };
+}
+
+function classesOf(text: string): ClassSet {
+  return { always: new Set(text.split(/\s+/).filter(Boolean)), maybe: new Map() };
+}
+
+/**
+ * Classes of parts joined together; a class some part always adds is not conditional
+ */
+function concat(parts: ClassSet[]): ClassSet {
+  const result = empty();
+
+  for (const part of parts) {
+    part.always.forEach(className => result.always.add(className));
+    part.maybe.forEach((origin, className) => {
+      if (!result.maybe.has(className)) result.maybe.set(className, origin);
+    });
+    result.unknown = result.unknown ?? part.unknown;
+  }
+
+  result.always.forEach(className => result.maybe.delete(className));
+  return result;
+}
+
+/**
+ * Classes of one of two alternatives chosen by `origin`: classes only one of them always adds
+ * become conditional on it
+ */
+function either(a: ClassSet, b: ClassSet, origin: Node): ClassSet {
+  const result: ClassSet = {
+    always: new Set([...a.always].filter(className => b.always.has(className))),
+    maybe: new Map([...b.maybe, ...a.maybe]),
+    unknown: a.unknown ?? b.unknown,
+  };
+
+  for (const className of [...a.always, ...b.always]) {
+    if (!result.always.has(className) && !result.maybe.has(className)) {
+      result.maybe.set(className, origin);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Source text of a node on a single line
+ */
+function describe(node: Node): string {
+  return node.getText().replace(/\s+/g, ' ');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
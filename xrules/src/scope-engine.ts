@@ -5,15 +5,29 @@
  */
 
 import { XRulesEngine } from './engine';
-import { Rule, Element, Document, CheckContext } from './types';
+import { AnyRule, Element, Document, CheckResult, RuleConfig, Violation } from './types';
 import {
   Scope,
   ScopeCheckOptions,
   ScopeCheckResult,
+  ScopeConflict,
+  ConflictResolution,
   TraceableViolation,
-  ScopeContext,
 } from './scope-types';
 import { ScopeRegistry } from './scope-registry';
+import { parseHTML } from './parser';
+import { createCheckContext } from './check-context';
+import { resolveRuleOptions } from './rule-options';
+
+/**
+ * Settings of a rule for an element, the scope that decided them, and how conflicting scopes
+ * were resolved
+ */
+interface ScopedRuleSettings extends RuleConfig {
+  message?: string;
+  scope?: Scope;
+  resolution?: ConflictResolution;
+}
 
 /**
  * Scope-aware rule engine
@@ -21,7 +35,7 @@ import { ScopeRegistry } from './scope-registry';
 export class ScopeAwareEngine extends XRulesEngine {
   private scopeRegistry: ScopeRegistry;
 
-  constructor(rules: Rule[] = [], scopeRegistry: ScopeRegistry) {
+  constructor(rules: AnyRule[] = [], scopeRegistry: ScopeRegistry) {
     super(rules);
     this.scopeRegistry = scopeRegistry;
   }
@@ -34,23 +48,157 @@ export class ScopeAwareEngine extends XRulesEngine {
     filePath: string,
     options: ScopeCheckOptions = {}
   ): ScopeCheckResult {
-    const baseResult = this.checkHTML(html, filePath);
+    return this.checkDocumentWithScopes(parseHTML(html), filePath, options);
+  }
+
+  /**
+   * Check a document with the rule configuration of scopes applied per element: the scopes of
+   * the file and component apply to every element, then the selector scopes enclosing it,
+   * outermost first. The nearest scope configuring a rule decides its severity, options and
+   * message for the element, unless the conflict resolution policy picks another of the scopes
+   * configuring it differently.
+   */
+  checkDocumentWithScopes(
+    document: Document,
+    filePath: string,
+    options: ScopeCheckOptions = {}
+  ): ScopeCheckResult {
+    const { result, appliedScopes, conflicts, decisions } = this.checkInScopes(document, filePath, options);
+    return this.createScopeResult(result, appliedScopes, conflicts, options, violation => decisions.get(violation) ?? {});
+  }
+
+  /**
+   * Check a document with the rule configuration of scopes applied per element, like
+   * `checkDocumentWithScopes`, as a plain check result with the conflicts met, e.g. for each
+   * form of a component
+   */
+  checkDocumentInScopes(
+    document: Document,
+    filePath: string,
+    options: ScopeCheckOptions = {}
+  ): CheckResult {
+    const { result, conflicts } = this.checkInScopes(document, filePath, options);
+    return conflicts.length > 0 ? { ...result, conflicts } : result;
+  }
+
+  /**
+   * Check a document with scopes applied per element: the result, the scopes that applied, the
+   * conflicts met, and the settings each violation was reported with
+   */
+  private checkInScopes(
+    document: Document,
+    filePath: string,
+    options: ScopeCheckOptions
+  ): { result: CheckResult; appliedScopes: Scope[]; conflicts: ScopeConflict[]; decisions: Map<Violation, ScopedRuleSettings> } {
+    const applicable = this.findApplicableScopes(filePath, options);
+    const policy = options.conflictResolution ?? 'nearest-wins';
+    const fileScopes = applicable.filter(scope => !scope.selector);
+
+    const elementScopes = new Map<Element, Scope[]>();
+    for (const [element, scopes] of this.scopeRegistry.resolveElementScopes(document, filePath)) {
+      const selected = options.scopes ? scopes.filter(scope => options.scopes!.includes(scope.id)) : scopes;
+      if (selected.length > 0) {
+        elementScopes.set(element, options.includeParents ? this.withParents(selected) : selected);
+      }
+    }
+
+    // Violations are located at the start tag of their element
+    const elementsByLocation = new Map<string, Element>();
+    for (const element of elementScopes.keys()) {
+      const location = element.getSourceLocation();
+      if (location) elementsByLocation.set(`${location.line}:${location.column}`, element);
+    }
+
+    // Conflicts are met once per rule and set of conflicting scopes
+    const conflicts = new Map<string, ScopeConflict>();
+    const resolve = (rule: AnyRule, settings: ScopedRuleSettings, scopes: Scope[]) => {
+      const conflict = this.scopeRegistry.resolveConflict(rule.id, scopes, policy);
+      if (conflict) conflicts.set(JSON.stringify([rule.id, conflict.resolution.scopes]), conflict);
+      return applyScopes(rule, settings, scopes, conflict?.resolution);
+    };
+
+    const violations: Violation[] = [];
+    const decisions = new Map<Violation, ScopedRuleSettings>();
 
-    // Find applicable scopes
-    const appliedScopes = this.findApplicableScopes(filePath, options);
+    for (const rule of this.getRules()) {
+      const ruleSettings = this.getRuleSettings(rule, options.config);
+      const base = resolve(rule, ruleSettings, fileScopes);
+
+      // Elements with the same settings are checked together
+      const baseKey = settingsKey(base);
+      const groups = new Map<string, ScopedRuleSettings>([[baseKey, base]]);
+      const elementGroups = new Map<Element, string>();
+      for (const [element, scopes] of elementScopes) {
+        const settings = resolve(rule, ruleSettings, Array.from(new Set([...fileScopes, ...scopes])));
+        const key = settingsKey(settings);
+        if (!groups.has(key)) groups.set(key, settings);
+        elementGroups.set(element, key);
+      }
+
+      for (const [key, settings] of groups) {
+        if (settings.severity === 'off') continue;
+
+        const context = createCheckContext(document, resolveRuleOptions(rule, settings.options));
+        for (const violation of this.checkRule(rule, document, context, settings.severity)) {
+          // Each violation is kept from the check with the settings of its element
+          const element = elementsByLocation.get(`${violation.line}:${violation.column}`);
+          if ((element ? elementGroups.get(element) : baseKey) !== key) continue;
+
+          const decided = settings.message ? { ...violation, message: settings.message } : violation;
+          violations.push(decided);
+          decisions.set(decided, settings);
+        }
+      }
+    }
+
+    const appliedScopes = new Set([...applicable, ...Array.from(elementScopes.values()).flat()]);
+    return {
+      result: this.createResult(document, filePath, violations, options.config),
+      appliedScopes: Array.from(appliedScopes),
+      conflicts: Array.from(conflicts.values()),
+      decisions,
+    };
+  }
+
+  /**
+   * Add scope and component traceability to a check result, e.g. one from JsxRulesEngine. The
+   * nearest scope of the file or component configuring a rule, or the one the conflict
+   * resolution policy picks, is named on its violations.
+   */
+  traceResult(
+    result: CheckResult & { componentName?: string },
+    options: ScopeCheckOptions = {}
+  ): ScopeCheckResult {
+    const traceOptions = { ...options, componentName: options.componentName ?? result.componentName };
+    const appliedScopes = this.findApplicableScopes(result.filePath, traceOptions);
+    const conflicts = this.scopeRegistry.detectConflicts(appliedScopes.map(s => s.id), options.conflictResolution);
+
+    return this.createScopeResult(result, appliedScopes, conflicts, traceOptions, violation => {
+      const resolution = conflicts.find(conflict => conflict.ruleId === violation.ruleId)?.resolution;
+      const scope = resolution?.winner
+        ? this.scopeRegistry.get(resolution.winner)
+        : [...appliedScopes].reverse().find(s => s.rules[violation.ruleId] !== undefined);
+      return { scope, resolution };
+    });
+  }
+
+  /**
+   * Traceable result of a check, with the scope that decided each violation
+   */
+  private createScopeResult(
+    result: CheckResult,
+    appliedScopes: Scope[],
+    conflicts: ScopeConflict[],
+    options: ScopeCheckOptions,
+    getDecision: (violation: Violation) => Pick<ScopedRuleSettings, 'scope' | 'resolution'>
+  ): ScopeCheckResult {
+    const filePath = result.filePath;
 
     // Convert violations to traceable violations
-    const violations = this.enhanceViolations(
-      baseResult.violations,
-      filePath,
-      appliedScopes,
-      options
-    );
+    const violations = this.enhanceViolations(result.violations, filePath, getDecision, options);
 
-    // Detect conflicts if requested
-    const conflicts = options.detectConflicts
-      ? this.scopeRegistry.detectConflicts(appliedScopes.map(s => s.id))
-      : undefined;
+    // Unresolved conflicts are reported even when conflicts are not requested
+    const unresolved = conflicts.filter(conflict => !conflict.resolution.resolved);
 
     // Group by scope
     const byScope = this.groupByScope(violations);
@@ -59,7 +207,7 @@ export class ScopeAwareEngine extends XRulesEngine {
       filePath,
       violations,
       appliedScopes: appliedScopes.map(s => s.id),
-      conflicts,
+      conflicts: options.detectConflicts ? conflicts : unresolved.length > 0 ? unresolved : undefined,
       errorCount: violations.filter(v => v.severity === 'error').length,
       warningCount: violations.filter(v => v.severity === 'warning').length,
       infoCount: violations.filter(v => v.severity === 'info').length,
@@ -94,16 +242,19 @@ export class ScopeAwareEngine extends XRulesEngine {
     }
 
     // Include parent scopes if requested
-    if (options.includeParents) {
-      const withParents = new Set<Scope>();
-      for (const scope of scopes) {
-        const hierarchy = this.scopeRegistry.getHierarchy(scope.id);
-        hierarchy.forEach(s => withParents.add(s));
-      }
-      scopes = Array.from(withParents);
-    }
+    return options.includeParents ? this.withParents(scopes) : scopes;
+  }
 
-    return scopes;
+  /**
+   * Scopes with their parent scopes, parents first
+   */
+  private withParents(scopes: Scope[]): Scope[] {
+    const withParents = new Set<Scope>();
+    for (const scope of scopes) {
+      const hierarchy = this.scopeRegistry.getHierarchy(scope.id);
+      hierarchy.forEach(s => withParents.add(s));
+    }
+    return Array.from(withParents);
   }
 
   /**
@@ -112,15 +263,11 @@ export class ScopeAwareEngine extends XRulesEngine {
   private enhanceViolations(
     violations: any[],
     filePath: string,
-    scopes: Scope[],
+    getDecision: (violation: Violation) => Pick<ScopedRuleSettings, 'scope' | 'resolution'>,
     options: ScopeCheckOptions
   ): TraceableViolation[] {
     return violations.map(violation => {
-      // Find which scope this violation belongs to (if any)
-      const matchingScope = scopes.find(scope => {
-        // Check if rule is configured in this scope
-        return scope.rules[violation.ruleId] !== undefined;
-      });
+      const { scope: matchingScope, resolution } = getDecision(violation);
 
       // Build element path
       const elementPath = this.buildElementPath(violation.element);
@@ -140,14 +287,17 @@ export class ScopeAwareEngine extends XRulesEngine {
           name: matchingScope.name,
           selector: matchingScope.selector,
         } : undefined,
-        component: options.componentName ? {
+        component: violation.component ?? (options.componentName ? {
           name: options.componentName,
-        } : undefined,
+        } : undefined),
+        conditions: violation.conditions,
         elementPath,
         element: violation.element,
         context: violation.context,
         suggestion: violation.suggestion,
+        relatedInformation: violation.relatedInformation,
         documentation: violation.documentation,
+        resolution,
       };
     });
   }
@@ -208,23 +358,6 @@ export class ScopeAwareEngine extends XRulesEngine {
     return this.scopeRegistry;
   }
 
-  /**
-   * Apply scope-specific rule configuration
-   */
-  applyScope(scope: Scope): void {
-    // This modifies the engine's rules based on scope configuration
-    for (const rule of this.getRules()) {
-      const scopeConfig = scope.rules[rule.id];
-      if (scopeConfig) {
-        // Override severity if specified
-        if (scopeConfig.severity) {
-          // Note: This would require making rules mutable or creating copies
-          // For now, this is a placeholder for the concept
-        }
-      }
-    }
-  }
-
   /**
    * Check multiple files with scope awareness
    */
@@ -262,3 +395,37 @@ export function createScopeAwareEngine(
 
   return new ScopeAwareEngine(rules, scopeRegistry);
 }
+
+/**
+ * Rule settings overridden by the scopes configuring the rule, outermost first. The scope
+ * winning a conflict applies last.
+ */
+function applyScopes(
+  rule: AnyRule,
+  settings: ScopedRuleSettings,
+  scopes: Scope[],
+  resolution?: ConflictResolution
+): ScopedRuleSettings {
+  const winner = resolution?.winner;
+  const ordered = winner
+    ? [...scopes.filter(scope => scope.id !== winner), ...scopes.filter(scope => scope.id === winner)]
+    : scopes;
+
+  const applied = ordered.reduce<ScopedRuleSettings>((current, scope) => {
+    const config = scope.rules[rule.id];
+    if (!config) return current;
+
+    return {
+      severity: config.severity ?? current.severity,
+      options: config.options ? { ...current.options, ...config.options } : current.options,
+      message: config.message ?? current.message,
+      scope,
+    };
+  }, settings);
+
+  return resolution ? { ...applied, resolution } : applied;
+}
+
+function settingsKey({ severity, options, message, scope, resolution }: ScopedRuleSettings): string {
+  return JSON.stringify([severity, options, message, scope?.id, resolution]);
+}
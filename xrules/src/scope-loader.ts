@@ -0,0 +1,210 @@
+/**
+ * Scope Loading
+ *
+ * Collects the scopes of a project: the `scopes` of the configuration and those in
+ * `*.scope.json` files kept next to the components they govern. A scope file holds one
+ * scope or a list; file patterns in it are relative to its directory, which a scope
+ * without one covers. Rules a scope declares in `ruleDefinitions` are compiled and
+ * turned on in that scope only, so house rules can be written as scope-local rules:
+ *
+ *   {
+ *     "id": "article",
+ *     "name": "Article body",
+ *     "selector": ".article-body",
+ *     "extends": ["editorial"],
+ *     "ruleDefinitions": [{
+ *       "id": "article-figure-caption",
+ *       "category": "accessibility",
+ *       "severity": "error",
+ *       "pattern": "img",
+ *       "require": "figure:has(figcaption) > img",
+ *       "message": "Images in articles must be in a <figure> with a <figcaption>"
+ *     }]
+ *   }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { globSync } from 'glob';
+import type { AnyRule } from './types';
+import type { Scope } from './scope-types';
+import type { XRulesExtendedConfig, ConfigSource } from './config-loader';
+import { compileDeclarativeRule, parseRuleFile, RULE_FILE_EXTENSIONS } from './declarative-rules';
+
+/**
+ * Scope files found when the configuration does not list any
+ */
+export const SCOPE_FILE_PATTERN = '**/*.scope.json';
+
+const DEFAULT_IGNORE = ['node_modules/**', 'dist/**', 'build/**', '.next/**'];
+
+/**
+ * Where a scope is declared: a config or scope file, and the key of the scope in it
+ */
+export interface ScopeSource {
+  file: string;
+  key: string; // Empty when the file holds the scope alone
+}
+
+/**
+ * Scopes of a project and the rules they declare
+ */
+export interface LoadedScopes {
+  scopes: Scope[];
+  rules: AnyRule[]; // Off by default; the declaring scopes turn them on
+  sources: Map<string, ScopeSource>; // By scope id
+  declaringScopes: Map<string, string>; // Scope id by the id of the rule it declares
+}
+
+/**
+ * Load the scopes of the configuration and of the scope files under `cwd`, with the rules they
+ * declare. Register the scopes with `ScopeRegistry.registerAll` and add the rules to the engine.
+ * The file of the configuration, when known, is reported as the source of its scopes.
+ */
+export function loadScopes(
+  config: XRulesExtendedConfig,
+  cwd: string = process.cwd(),
+  configSource?: Omit<ConfigSource, 'config'>
+): LoadedScopes {
+  const declared: Array<{ scope: Scope; baseDir: string; source: ScopeSource }> = (config.scopes ?? []).map((scope, index) => ({
+    scope,
+    baseDir: cwd,
+    source: {
+      file: configSource?.filePath ?? 'config',
+      key: [configSource?.key, `scopes[${index}]`].filter(Boolean).join('.'),
+    },
+  }));
+
+  const scopeFiles = globSync(config.scopeFiles ?? [SCOPE_FILE_PATTERN], {
+    cwd,
+    ignore: config.ignore ?? DEFAULT_IGNORE,
+    nodir: true,
+  }).sort();
+  for (const file of scopeFiles) {
+    const filePath = path.resolve(cwd, file);
+    const { scopes, list } = readScopeFile(filePath, cwd);
+    scopes.forEach((scope, index) => declared.push({
+      scope,
+      baseDir: path.dirname(filePath),
+      source: { file: filePath, key: list ? `[${index}]` : '' },
+    }));
+  }
+
+  const scopes: Scope[] = [];
+  const rules: AnyRule[] = [];
+  const sources = new Map<string, ScopeSource>();
+  const declaringScopes = new Map<string, string>();
+
+  for (const { scope, baseDir, source } of declared) {
+    sources.set(scope.id, source);
+
+    const scopeRules = loadScopeRules(scope, baseDir);
+    const enabled = { ...scope.rules };
+
+    for (const rule of scopeRules) {
+      const existing = declaringScopes.get(rule.id);
+      if (existing) {
+        throw new Error(`Duplicate rule id "${rule.id}" declared by scopes "${existing}" and "${scope.id}"`);
+      }
+      declaringScopes.set(rule.id, scope.id);
+
+      // The rule keeps its severity in the scope unless the scope configures it
+      enabled[rule.id] = { severity: rule.severity, ...enabled[rule.id] };
+      rules.push({ ...rule, severity: 'off' });
+    }
+
+    scopes.push(scopeRules.length > 0 ? { ...scope, rules: enabled } : scope);
+  }
+
+  return { scopes, rules, sources, declaringScopes };
+}
+
+/**
+ * Read the scopes of a scope file. File patterns become relative to `cwd`, the project root
+ * that checked file paths are relative to.
+ */
+export function loadScopeFile(filePath: string, cwd: string = process.cwd()): Scope[] {
+  return readScopeFile(filePath, cwd).scopes;
+}
+
+function readScopeFile(filePath: string, cwd: string): { scopes: Scope[]; list: boolean } {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid scope file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const directory = path.relative(cwd, path.dirname(filePath)).split(path.sep).join('/');
+
+  const scopes = (Array.isArray(data) ? data : [data]).map((scope, index) => {
+    if (typeof scope !== 'object' || scope === null || typeof scope.id !== 'string' || typeof scope.name !== 'string') {
+      throw new Error(`Invalid scope file ${filePath}: scope ${index + 1} must be an object with an id and a name`);
+    }
+
+    const pattern = scope.filePattern ?? '**';
+    return {
+      ...scope,
+      rules: scope.rules ?? {},
+      filePattern: directory ? `${directory}/${pattern}` : pattern,
+    } as Scope;
+  });
+
+  return { scopes, list: Array.isArray(data) };
+}
+
+/**
+ * Compile the rules a scope declares inline, in rule files, or in modules
+ */
+function loadScopeRules(scope: Scope, baseDir: string): AnyRule[] {
+  const rules: AnyRule[] = [];
+
+  for (const definition of scope.ruleDefinitions ?? []) {
+    if (typeof definition !== 'string') {
+      rules.push(compileDeclarativeRule(definition));
+      continue;
+    }
+
+    const filePath = path.resolve(baseDir, definition);
+    rules.push(...(RULE_FILE_EXTENSIONS.includes(path.extname(filePath))
+      ? parseRuleFile(fs.readFileSync(filePath, 'utf-8'), filePath)
+      : loadRuleModule(filePath, scope)));
+  }
+
+  return rules;
+}
+
+/**
+ * Rules a module exports: as its default export, a list, or named exports
+ */
+function loadRuleModule(filePath: string, scope: Scope): AnyRule[] {
+  const exported = require(filePath);
+  const value = exported?.default ?? exported;
+  const candidates: unknown[] = Array.isArray(value) ? value : isRule(value) ? [value] : Object.values(value ?? {});
+  const rules = candidates.filter(isRule);
+
+  if (rules.length === 0) {
+    throw new Error(`Rule module ${filePath} of scope "${scope.id}" exports no rules`);
+  }
+  return rules;
+}
+
+/**
+ * Whether a value is a rule of any kind: checked per element, per document, or aggregated
+ */
+function isRule(value: unknown): value is AnyRule {
+  if (typeof value !== 'object' || value === null || typeof (value as AnyRule).id !== 'string') return false;
+
+  const rule = value as Record<string, unknown>;
+  switch (rule.kind) {
+    case 'document':
+      return typeof rule.checkDocument === 'function';
+    case 'aggregate':
+      return typeof rule.createState === 'function' && typeof rule.collect === 'function' && typeof rule.finalize === 'function';
+    case undefined:
+    case 'element':
+      return typeof rule.check === 'function';
+    default:
+      return false;
+  }
+}
@@ -8,10 +8,28 @@ import {
   Scope,
   IScopeRegistry,
   ScopeConflict,
+  ScopeRuleConfig,
+  ConflictResolutionPolicy,
 } from './scope-types';
 import { Element, Document } from './types';
 import { minimatch } from 'minimatch';
 
+/**
+ * Policies resolving conflicts between scopes
+ */
+export const CONFLICT_RESOLUTION_POLICIES: ConflictResolutionPolicy[] = [
+  'nearest-wins',
+  'strictest-wins',
+  'explicit-priority',
+  'error-on-conflict',
+];
+
+/**
+ * Rank of severities under the `strictest-wins` policy; a scope leaving the severity unset
+ * gives way to any that sets one
+ */
+const SEVERITY_STRICTNESS: Record<string, number> = { default: -1, off: 0, info: 1, warning: 2, error: 3 };
+
 /**
  * Implementation of the scope registry
  */
@@ -44,7 +62,50 @@ export class ScopeRegistry implements IScopeRegistry {
       );
     }
 
-    this.scopes.set(scope.id, scope);
+    // Extended scopes lend their rule configuration, which the scope's own overrides
+    const extended = (scope.extends ?? []).map(id => {
+      const base = this.scopes.get(id);
+      if (!base) {
+        throw new Error(`Extended scope "${id}" not found for scope "${scope.id}"`);
+      }
+      return base;
+    });
+
+    this.scopes.set(
+      scope.id,
+      extended.length > 0
+        ? { ...scope, rules: [...extended, scope].reduce((rules, current) => mergeRuleConfigs(rules, current.rules), {}) }
+        : scope
+    );
+  }
+
+  /**
+   * Register scopes in any order, e.g. loaded from several files: parents and extended scopes
+   * are registered before the scopes referring to them
+   */
+  registerAll(scopes: Scope[]): void {
+    const dependencies = (scope: Scope) => [...(scope.parent ? [scope.parent] : []), ...(scope.extends ?? [])];
+    let pending = [...scopes];
+
+    while (pending.length > 0) {
+      const ready = pending.filter(scope => dependencies(scope).every(id => this.scopes.has(id)));
+
+      if (ready.length === 0) {
+        // A scope referring to one that is nowhere reports it as missing
+        const missing = pending.find(scope =>
+          dependencies(scope).some(id => !this.scopes.has(id) && !pending.some(other => other.id === id))
+        );
+        if (missing) {
+          this.register(missing);
+        }
+        throw new Error(
+          `Circular dependency detected between scopes: ${pending.map(scope => `"${scope.id}"`).join(', ')}`
+        );
+      }
+
+      ready.forEach(scope => this.register(scope));
+      pending = pending.filter(scope => !ready.includes(scope));
+    }
   }
 
   /**
@@ -114,6 +175,50 @@ export class ScopeRegistry implements IScopeRegistry {
     return this.sortByHierarchy(matchingScopes);
   }
 
+  /**
+   * Selector scopes enclosing each element of a document, outermost first. A scope covers the
+   * elements its selector matches (`.admin-panel` or `.admin-panel *`) and everything inside
+   * them; a scope with a file pattern only applies in the files it matches.
+   */
+  resolveElementScopes(document: Document, filePath?: string): Map<Element, Scope[]> {
+    const roots = new Map<Element, Scope[]>();
+
+    for (const scope of this.scopes.values()) {
+      if (!scope.selector || scope.enabled === false) continue;
+      if (scope.filePattern && filePath && !minimatch(filePath, scope.filePattern)) continue;
+
+      const selector = scope.selector.endsWith(' *') ? scope.selector.slice(0, -2).trim() : scope.selector;
+      let matches: Element[];
+      try {
+        matches = document.querySelectorAll(selector);
+      } catch (error) {
+        console.warn(`Invalid scope selector: ${scope.selector}`, error);
+        continue;
+      }
+
+      for (const element of matches) {
+        roots.set(element, [...(roots.get(element) ?? []), scope]);
+      }
+    }
+
+    const resolved = new Map<Element, Scope[]>();
+    const visit = (element: Element, enclosing: Scope[]) => {
+      const rooted = roots.get(element);
+
+      // A scope entered again inside another becomes the nearest one
+      const scopes = rooted
+        ? [...enclosing.filter(scope => !rooted.includes(scope)), ...this.sortByHierarchy(rooted)]
+        : enclosing;
+      if (scopes.length > 0) {
+        resolved.set(element, scopes);
+      }
+      element.children.forEach(child => visit(child, scopes));
+    };
+    visit(document.documentElement, []);
+
+    return resolved;
+  }
+
   /**
    * Get all scopes in hierarchy order (parents first)
    */
@@ -136,58 +241,66 @@ export class ScopeRegistry implements IScopeRegistry {
   }
 
   /**
-   * Detect conflicting rules across scopes
+   * Detect conflicting rules across scopes, resolved with a policy
    */
-  detectConflicts(scopeIds: string[]): ScopeConflict[] {
-    const conflicts: ScopeConflict[] = [];
-    const ruleConfigs: Map<string, Array<{
-      scopeId: string;
-      scope: Scope;
-      config: any;
-    }>> = new Map();
-
-    // Collect all rule configurations from all scopes
-    for (const scopeId of scopeIds) {
-      const scope = this.scopes.get(scopeId);
-      if (!scope) continue;
-
-      for (const [ruleId, config] of Object.entries(scope.rules)) {
-        if (!ruleConfigs.has(ruleId)) {
-          ruleConfigs.set(ruleId, []);
-        }
-
-        ruleConfigs.get(ruleId)!.push({
-          scopeId,
-          scope,
-          config,
-        });
-      }
-    }
+  detectConflicts(scopeIds: string[], policy: ConflictResolutionPolicy = 'nearest-wins'): ScopeConflict[] {
+    const scopes = scopeIds
+      .map(id => this.scopes.get(id))
+      .filter((scope): scope is Scope => scope !== undefined);
+    const ruleIds = new Set(scopes.flatMap(scope => Object.keys(scope.rules)));
+
+    return Array.from(ruleIds)
+      .map(ruleId => this.resolveConflict(ruleId, scopes, policy))
+      .filter((conflict): conflict is ScopeConflict => conflict !== undefined);
+  }
 
-    // Check for conflicts
-    for (const [ruleId, configs] of ruleConfigs.entries()) {
-      if (configs.length < 2) continue;
-
-      const severities = new Set(configs.map(c => c.config.severity));
-      const hasOptionsDiff = this.hasOptionsDifferences(configs.map(c => c.config.options || {}));
-
-      if (severities.size > 1 || hasOptionsDiff) {
-        conflicts.push({
-          ruleId,
-          scopes: configs.map(c => ({
-            scopeId: c.scopeId,
-            scopeName: c.scope.name,
-            severity: c.config.severity || 'default',
-            options: c.config.options,
-          })),
-          type: severities.size > 1 && hasOptionsDiff ? 'both' :
-                severities.size > 1 ? 'severity' : 'options',
-          suggestion: this.generateConflictSuggestion(ruleId, configs),
-        });
-      }
+  /**
+   * Resolve a conflict between scopes configuring a rule for the same elements, outermost
+   * first. Undefined when the scopes configuring the rule agree on its severity and options,
+   * once the settings of declared ancestors overridden by their descendants are left out.
+   */
+  resolveConflict(
+    ruleId: string,
+    scopes: Scope[],
+    policy: ConflictResolutionPolicy = 'nearest-wins'
+  ): ScopeConflict | undefined {
+    const configuring = scopes.filter(scope => scope.rules[ruleId] !== undefined);
+    const configs = configuring
+      .filter(scope => !configuring.some(other => other !== scope && this.getHierarchy(other.id).includes(scope)))
+      .map(scope => ({ scopeId: scope.id, scope, config: scope.rules[ruleId] }));
+    const type = this.getConflictType(configs.map(c => c.config));
+    if (!type) return undefined;
+
+    // Candidates for the policy, the nearest last
+    let candidates = configs;
+    if (policy === 'strictest-wins') {
+      const strictest = Math.max(...configs.map(c => SEVERITY_STRICTNESS[c.config.severity ?? 'default']));
+      candidates = configs.filter(c => SEVERITY_STRICTNESS[c.config.severity ?? 'default'] === strictest);
+    } else if (policy === 'explicit-priority') {
+      const highest = Math.max(...configs.map(c => c.scope.priority ?? 0));
+      candidates = configs.filter(c => (c.scope.priority ?? 0) === highest);
     }
 
-    return conflicts;
+    const resolved = policy !== 'error-on-conflict' &&
+      (policy !== 'explicit-priority' || !this.getConflictType(candidates.map(c => c.config)));
+
+    return {
+      ruleId,
+      scopes: configs.map(c => ({
+        scopeId: c.scopeId,
+        scopeName: c.scope.name,
+        severity: c.config.severity || 'default',
+        options: c.config.options,
+      })),
+      type,
+      suggestion: this.generateConflictSuggestion(ruleId, configs),
+      resolution: {
+        policy,
+        scopes: configs.map(c => c.scopeId),
+        winner: resolved ? candidates[candidates.length - 1].scopeId : undefined,
+        resolved,
+      },
+    };
   }
 
   /**
@@ -301,6 +414,19 @@ export class ScopeRegistry implements IScopeRegistry {
     return sorted;
   }
 
+  /**
+   * How the configurations of a rule differ, if they do
+   */
+  private getConflictType(configs: ScopeRuleConfig[]): ScopeConflict['type'] | undefined {
+    if (configs.length < 2) return undefined;
+
+    const severities = new Set(configs.map(config => config.severity));
+    const hasOptionsDiff = this.hasOptionsDifferences(configs.map(config => config.options || {}));
+    if (severities.size > 1 && hasOptionsDiff) return 'both';
+    if (severities.size > 1) return 'severity';
+    return hasOptionsDiff ? 'options' : undefined;
+  }
+
   /**
    * Check if there are differences in options across configurations
    */
@@ -321,6 +447,25 @@ export class ScopeRegistry implements IScopeRegistry {
   }
 }
 
+/**
+ * Rule configuration of a scope over that of the scopes it extends; options are merged
+ */
+function mergeRuleConfigs(
+  base: Record<string, ScopeRuleConfig>,
+  overrides: Record<string, ScopeRuleConfig>
+): Record<string, ScopeRuleConfig> {
+  const merged = { ...base };
+
+  for (const [ruleId, config] of Object.entries(overrides)) {
+    const inherited = merged[ruleId];
+    merged[ruleId] = inherited?.options && config.options
+      ? { ...inherited, ...config, options: { ...inherited.options, ...config.options } }
+      : { ...inherited, ...config };
+  }
+
+  return merged;
+}
+
 /**
  * Create a scope definition
  */
@@ -332,7 +477,10 @@ export function createScope(config: {
   filePattern?: string;
   components?: string[];
   parent?: string;
+  extends?: string[];
   rules: Record<string, any>;
+  ruleDefinitions?: Scope['ruleDefinitions'];
+  priority?: number;
   enabled?: boolean;
 }): Scope {
   return {
@@ -343,7 +491,10 @@ export function createScope(config: {
     filePattern: config.filePattern,
     components: config.components,
     parent: config.parent,
+    extends: config.extends,
     rules: config.rules,
+    ruleDefinitions: config.ruleDefinitions,
+    priority: config.priority,
     enabled: config.enabled !== undefined ? config.enabled : true,
   };
 }
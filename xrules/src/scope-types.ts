@@ -6,6 +6,9 @@
  * for tracking violation sources.
  */
 
+import type { Document, Element, RelatedInformation, XRulesConfig } from './types';
+import type { DeclarativeRuleDefinition } from './declarative-rules';
+
 /**
  * Defines a scope where specific rules apply
  */
@@ -26,7 +29,8 @@ export interface Scope {
   description?: string;
 
   /**
-   * Selector pattern that identifies elements in this scope
+   * Selector pattern that identifies elements in this scope; the scope covers the matched
+   * elements and everything inside them
    * Examples:
    * - '.admin-panel *' - All elements inside admin panel
    * - '[data-scope="checkout"]' - Elements with specific data attribute
@@ -55,12 +59,31 @@ export interface Scope {
    */
   parent?: string;
 
+  /**
+   * Scopes whose rule configuration this scope takes on, in order, before its own
+   * Example: ['editorial'] - a bundle of house rules shared by several scopes
+   */
+  extends?: string[];
+
   /**
    * Rules that apply in this scope
    * Maps rule IDs to their configuration
    */
   rules: Record<string, ScopeRuleConfig>;
 
+  /**
+   * Rules this scope declares, which are off outside it and the scopes extending it: declarative
+   * rule definitions, or paths to rule files or JavaScript modules exporting rules, relative to
+   * the file declaring the scope
+   */
+  ruleDefinitions?: Array<DeclarativeRuleDefinition | string>;
+
+  /**
+   * Priority of this scope's rule configuration under the `explicit-priority` policy; the
+   * highest wins (default: 0)
+   */
+  priority?: number;
+
   /**
    * Whether this scope is enabled
    */
@@ -142,7 +165,8 @@ export interface TraceableViolation {
   };
 
   /**
-   * Scope information
+   * The scope that decided the severity, options and message of the rule for the element: the
+   * nearest enclosing scope configuring the rule
    */
   scope?: {
     id: string;
@@ -159,6 +183,11 @@ export interface TraceableViolation {
     totalBranches?: number;
   };
 
+  /**
+   * Conditions under which the component renders the violating element
+   */
+  conditions?: string[];
+
   /**
    * Element path for traceability
    * Shows the path from root to the violating element
@@ -176,10 +205,20 @@ export interface TraceableViolation {
    */
   suggestion?: string;
 
+  /**
+   * Other locations involved in the violation
+   */
+  relatedInformation?: RelatedInformation[];
+
   /**
    * Rule documentation URL
    */
   documentation?: string;
+
+  /**
+   * How scopes configuring the rule differently for the element were resolved
+   */
+  resolution?: ConflictResolution;
 }
 
 /**
@@ -196,6 +235,11 @@ export interface IScopeRegistry {
    */
   register(scope: Scope): void;
 
+  /**
+   * Register scopes in any order, each after its parent and the scopes it extends
+   */
+  registerAll(scopes: Scope[]): void;
+
   /**
    * Get a scope by ID
    */
@@ -214,7 +258,12 @@ export interface IScopeRegistry {
   /**
    * Find scopes that match an element
    */
-  findByElement(element: any, document: any): Scope[];
+  findByElement(element: Element, document: Document): Scope[];
+
+  /**
+   * Selector scopes enclosing each element of a document, outermost first
+   */
+  resolveElementScopes(document: Document, filePath?: string): Map<Element, Scope[]>;
 
   /**
    * Get all scopes in hierarchy order (parents first)
@@ -222,9 +271,44 @@ export interface IScopeRegistry {
   getHierarchy(scopeId: string): Scope[];
 
   /**
-   * Detect conflicting rules across scopes
+   * Detect conflicting rules across scopes, resolved with a policy
    */
-  detectConflicts(scopeIds: string[]): ScopeConflict[];
+  detectConflicts(scopeIds: string[], policy?: ConflictResolutionPolicy): ScopeConflict[];
+
+  /**
+   * Resolve a conflict between scopes configuring a rule for the same elements, outermost first
+   */
+  resolveConflict(ruleId: string, scopes: Scope[], policy?: ConflictResolutionPolicy): ScopeConflict | undefined;
+}
+
+/**
+ * How conflicts between scopes configuring a rule for the same elements are resolved:
+ * - 'nearest-wins' - the innermost scope (default)
+ * - 'strictest-wins' - the scope with the strictest severity, the nearest of those on a tie
+ * - 'explicit-priority' - the scope with the highest `priority`; a tie is unresolved
+ * - 'error-on-conflict' - every conflict is unresolved
+ * The winning scope's settings apply over those of the others. Unresolved conflicts fall back
+ * to the nearest scope and fail `xrules explain --ci`.
+ */
+export type ConflictResolutionPolicy = 'nearest-wins' | 'strictest-wins' | 'explicit-priority' | 'error-on-conflict';
+
+/**
+ * Outcome of a conflict under a resolution policy
+ */
+export interface ConflictResolution {
+  policy: ConflictResolutionPolicy;
+
+  /**
+   * Scopes in conflict, outermost first
+   */
+  scopes: string[];
+
+  /**
+   * Scope whose settings apply, when the conflict is resolved
+   */
+  winner?: string;
+
+  resolved: boolean;
 }
 
 /**
@@ -255,6 +339,11 @@ export interface ScopeConflict {
    * Suggested resolution
    */
   suggestion?: string;
+
+  /**
+   * How the policy resolved the conflict
+   */
+  resolution: ConflictResolution;
 }
 
 /**
@@ -276,6 +365,12 @@ export interface ScopeCheckOptions {
    */
   detectConflicts?: boolean;
 
+  /**
+   * How conflicts between scopes configuring a rule for the same elements are resolved
+   * (default: 'nearest-wins')
+   */
+  conflictResolution?: ConflictResolutionPolicy;
+
   /**
    * File path being checked (for scope matching)
    */
@@ -285,6 +380,11 @@ export interface ScopeCheckOptions {
    * Component name being checked (for scope matching)
    */
   componentName?: string;
+
+  /**
+   * Configuration whose rule settings the scopes override
+   */
+  config?: XRulesConfig;
 }
 
 /**
@@ -307,7 +407,7 @@ export interface ScopeCheckResult {
   appliedScopes: string[];
 
   /**
-   * Detected conflicts (if enabled)
+   * Conflicts between the applied scopes (if enabled), and always those left unresolved
    */
   conflicts?: ScopeConflict[];
 
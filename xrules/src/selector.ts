@@ -0,0 +1,995 @@
+/**
+ * CSS Selector Engine - Selectors Level 4 subset
+ *
+ * Tokenizes and parses selector strings into a small AST, then matches
+ * elements right-to-left the way browser style engines do: the rightmost
+ * compound selector is tested against the candidate, and combinators walk
+ * outwards through parents and previous siblings.
+ *
+ * Supported:
+ * - Type, universal, #id and .class selectors
+ * - Attribute selectors: [a], [a=v], [a~=v], [a|=v], [a^=v], [a$=v], [a*=v], with i/s flags
+ * - Combinators: descendant ( ), child (>), next-sibling (+), subsequent-sibling (~)
+ * - Selector lists: a, b
+ * - Structural pseudo-classes: :root, :empty, :first-child, :last-child, :only-child,
+ *   :nth-child(An+B [of S]), :nth-last-child(), :first-of-type, :last-of-type,
+ *   :only-of-type, :nth-of-type(), :nth-last-of-type()
+ * - Logical pseudo-classes: :is(), :where(), :not(), :has()
+ * - Input and link pseudo-classes: :any-link, :link, :checked, :disabled, :enabled,
+ *   :required, :optional
+ */
+
+import type { Element } from './types';
+
+/**
+ * Combinator between two compound selectors
+ */
+export type Combinator = ' ' | '>' | '+' | '~';
+
+/**
+ * Attribute selector operators
+ */
+export type AttributeOperator = '=' | '~=' | '|=' | '^=' | '$=' | '*=';
+
+/**
+ * The An+B micro-syntax used by :nth-* pseudo-classes
+ */
+export interface NthExpression {
+  a: number;
+  b: number;
+}
+
+/**
+ * A single simple selector
+ */
+export type SimpleSelector =
+  | { type: 'universal' }
+  | { type: 'type'; name: string }
+  | { type: 'id'; name: string }
+  | { type: 'class'; name: string }
+  | {
+      type: 'attribute';
+      name: string;
+      operator?: AttributeOperator;
+      value?: string;
+      caseInsensitive?: boolean;
+    }
+  | { type: 'pseudo'; name: string }
+  | { type: 'pseudo-selector'; name: 'is' | 'where' | 'not'; selectors: SelectorList }
+  | { type: 'pseudo-has'; selectors: RelativeSelector[] }
+  | { type: 'pseudo-nth'; name: string; nth: NthExpression; of?: SelectorList };
+
+/**
+ * A sequence of simple selectors not separated by a combinator (e.g. `input.large[required]`)
+ */
+export type CompoundSelector = SimpleSelector[];
+
+/**
+ * Compound selectors joined by combinators (e.g. `form > label input`)
+ */
+export interface ComplexSelector {
+  /**
+   * Compound selectors, left to right
+   */
+  compounds: CompoundSelector[];
+
+  /**
+   * combinators[i] joins compounds[i] and compounds[i + 1]
+   */
+  combinators: Combinator[];
+}
+
+/**
+ * Complex selector anchored to the element being tested, as used by :has()
+ */
+export interface RelativeSelector {
+  combinator: Combinator;
+  selector: ComplexSelector;
+}
+
+/**
+ * Comma-separated list of complex selectors
+ */
+export type SelectorList = ComplexSelector[];
+
+/**
+ * Raised when a selector string cannot be parsed
+ */
+export class SelectorSyntaxError extends Error {
+  /**
+   * 1-based column in the selector string where the problem was found
+   */
+  readonly column: number;
+
+  readonly selector: string;
+
+  /**
+   * Description of the problem without the location suffix
+   */
+  readonly reason: string;
+
+  constructor(reason: string, selector: string, offset: number) {
+    super(`${reason} at column ${offset + 1} in selector "${selector}"`);
+    this.name = 'SelectorSyntaxError';
+    this.selector = selector;
+    this.reason = reason;
+    this.column = offset + 1;
+  }
+}
+
+/**
+ * Pseudo-classes defined in terms of other selectors
+ */
+const PSEUDO_ALIASES: Record<string, string> = {
+  'any-link': ':is(a, area, link)[href]',
+  link: ':any-link',
+  checked: ':is(input[type="checkbox"], input[type="radio"])[checked], ' +
+    'option:is([selected], select:not([multiple]):not(:has(> option[selected])) > :first-of-type)',
+  disabled: ':is(button, input, select, textarea, optgroup, option, fieldset)[disabled], ' +
+    'optgroup[disabled] > option, ' +
+    'fieldset[disabled] :is(button, input, select, textarea):not(fieldset[disabled] > legend:first-of-type *)',
+  enabled: ':is(button, input, select, textarea, optgroup, option, fieldset):not(:disabled)',
+  required: ':is(input, select, textarea)[required]',
+  optional: ':is(input, select, textarea):not([required])',
+};
+
+/**
+ * Pseudo-classes that take no argument
+ */
+const SIMPLE_PSEUDOS = new Set([
+  'root',
+  'empty',
+  'first-child',
+  'last-child',
+  'only-child',
+  'first-of-type',
+  'last-of-type',
+  'only-of-type',
+  ...Object.keys(PSEUDO_ALIASES),
+]);
+
+/**
+ * Pseudo-classes that take an An+B argument
+ */
+const NTH_PSEUDOS = new Set([
+  'nth-child',
+  'nth-last-child',
+  'nth-of-type',
+  'nth-last-of-type',
+]);
+
+/**
+ * Attributes whose values match case-insensitively in HTML documents
+ * See: https://html.spec.whatwg.org/multipage/semantics-other.html#case-sensitivity-of-selectors
+ */
+const CASE_INSENSITIVE_ATTRIBUTES = new Set([
+  'accept', 'accept-charset', 'align', 'alink', 'axis', 'bgcolor', 'charset', 'checked',
+  'clear', 'codetype', 'color', 'compact', 'declare', 'defer', 'dir', 'direction',
+  'disabled', 'enctype', 'face', 'frame', 'hreflang', 'http-equiv', 'lang', 'language',
+  'link', 'media', 'method', 'multiple', 'nohref', 'noresize', 'noshade', 'nowrap',
+  'readonly', 'rel', 'rev', 'rules', 'scope', 'scrolling', 'selected', 'shape', 'target',
+  'text', 'type', 'valign', 'valuetype', 'vlink',
+]);
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType =
+  | 'ident'
+  | 'function'
+  | 'hash'
+  | 'string'
+  | 'number'
+  | 'match'
+  | 'delim'
+  | 'whitespace'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  /**
+   * Unescaped value (identifier name, string contents, delimiter character)
+   */
+  value: string;
+  /**
+   * Offset of the first character of the token in the source
+   */
+  start: number;
+  /**
+   * Offset just past the last character of the token
+   */
+  end: number;
+}
+
+/**
+ * Split a selector string into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const isIdentStart = (ch: string | undefined): boolean =>
+    ch !== undefined && (/[a-zA-Z_]/.test(ch) || ch.charCodeAt(0) >= 0x80 || ch === '\\');
+
+  const isIdentChar = (ch: string | undefined): boolean =>
+    ch !== undefined && (isIdentStart(ch) || /[0-9-]/.test(ch));
+
+  const startsIdent = (at: number): boolean => {
+    const ch = source[at];
+    if (ch === '-') {
+      const next = source[at + 1];
+      return isIdentStart(next) || next === '-';
+    }
+    return isIdentStart(ch);
+  };
+
+  const readEscape = (): string => {
+    // pos is just past the backslash
+    const hex = /^[0-9a-fA-F]{1,6}/.exec(source.slice(pos));
+    if (hex) {
+      pos += hex[0].length;
+      if (/\s/.test(source[pos] || '')) pos++;
+      const codePoint = parseInt(hex[0], 16);
+      return codePoint === 0 || codePoint > 0x10ffff ? '�' : String.fromCodePoint(codePoint);
+    }
+    if (pos >= source.length) {
+      return '�';
+    }
+    return source[pos++];
+  };
+
+  const readName = (): string => {
+    let name = '';
+    while (pos < source.length && isIdentChar(source[pos])) {
+      if (source[pos] === '\\') {
+        pos++;
+        name += readEscape();
+      } else {
+        name += source[pos++];
+      }
+    }
+    return name;
+  };
+
+  while (pos < source.length) {
+    const start = pos;
+    const ch = source[pos];
+
+    if (/\s/.test(ch)) {
+      while (pos < source.length && /\s/.test(source[pos])) pos++;
+      tokens.push({ type: 'whitespace', value: ' ', start, end: pos });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      pos++;
+      let value = '';
+      while (pos < source.length && source[pos] !== ch) {
+        if (source[pos] === '\\') {
+          pos++;
+          if (source[pos] === '\n') {
+            pos++;
+          } else {
+            value += readEscape();
+          }
+        } else if (source[pos] === '\n') {
+          throw new SelectorSyntaxError('Unterminated string', source, start);
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (pos >= source.length) {
+        throw new SelectorSyntaxError('Unterminated string', source, start);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, start, end: pos });
+      continue;
+    }
+
+    if (ch === '#' && pos + 1 < source.length && isIdentChar(source[pos + 1])) {
+      pos++;
+      const value = readName();
+      tokens.push({ type: 'hash', value, start, end: pos });
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      while (pos < source.length && /[0-9]/.test(source[pos])) pos++;
+      tokens.push({ type: 'number', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (startsIdent(pos)) {
+      const value = readName();
+      if (source[pos] === '(') {
+        pos++;
+        tokens.push({ type: 'function', value, start, end: pos });
+      } else {
+        tokens.push({ type: 'ident', value, start, end: pos });
+      }
+      continue;
+    }
+
+    if ('~|^$*'.includes(ch) && source[pos + 1] === '=') {
+      pos += 2;
+      tokens.push({ type: 'match', value: ch + '=', start, end: pos });
+      continue;
+    }
+
+    if (ch === '=') {
+      pos++;
+      tokens.push({ type: 'match', value: '=', start, end: pos });
+      continue;
+    }
+
+    pos++;
+    tokens.push({ type: 'delim', value: ch, start, end: pos });
+  }
+
+  tokens.push({ type: 'eof', value: '', start: pos, end: pos });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+class SelectorParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): SelectorList {
+    const list = this.parseSelectorList();
+    this.skipWhitespace();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.fail(`Unexpected "${this.describe(token)}"`, token);
+    }
+    return list;
+  }
+
+  private parseSelectorList(): SelectorList {
+    const list: SelectorList = [this.parseComplex()];
+
+    this.skipWhitespace();
+    while (this.isDelim(this.peek(), ',')) {
+      this.next();
+      list.push(this.parseComplex());
+      this.skipWhitespace();
+    }
+
+    return list;
+  }
+
+  private parseRelativeList(): RelativeSelector[] {
+    const list: RelativeSelector[] = [this.parseRelative()];
+
+    this.skipWhitespace();
+    while (this.isDelim(this.peek(), ',')) {
+      this.next();
+      list.push(this.parseRelative());
+      this.skipWhitespace();
+    }
+
+    return list;
+  }
+
+  private parseRelative(): RelativeSelector {
+    this.skipWhitespace();
+    const token = this.peek();
+    let combinator: Combinator = ' ';
+
+    if (token.type === 'delim' && (token.value === '>' || token.value === '+' || token.value === '~')) {
+      combinator = token.value;
+      this.next();
+    }
+
+    return { combinator, selector: this.parseComplex() };
+  }
+
+  private parseComplex(): ComplexSelector {
+    this.skipWhitespace();
+
+    const compounds: CompoundSelector[] = [this.parseCompound()];
+    const combinators: Combinator[] = [];
+
+    while (true) {
+      const hadWhitespace = this.skipWhitespace();
+      const token = this.peek();
+
+      let combinator: Combinator | null = null;
+      if (token.type === 'delim' && (token.value === '>' || token.value === '+' || token.value === '~')) {
+        combinator = token.value;
+        this.next();
+        this.skipWhitespace();
+      } else if (hadWhitespace && this.startsCompound(token)) {
+        combinator = ' ';
+      }
+
+      if (!combinator) {
+        break;
+      }
+
+      combinators.push(combinator);
+      compounds.push(this.parseCompound());
+    }
+
+    return { compounds, combinators };
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = [];
+    const first = this.peek();
+
+    if (first.type === 'ident') {
+      this.next();
+      compound.push({ type: 'type', name: first.value.toLowerCase() });
+    } else if (this.isDelim(first, '*')) {
+      this.next();
+      compound.push({ type: 'universal' });
+    }
+
+    while (true) {
+      const token = this.peek();
+
+      if (token.type === 'hash') {
+        this.next();
+        compound.push({ type: 'id', name: token.value });
+      } else if (this.isDelim(token, '.')) {
+        this.next();
+        const name = this.expect('ident', 'class name');
+        compound.push({ type: 'class', name: name.value });
+      } else if (this.isDelim(token, '[')) {
+        this.next();
+        compound.push(this.parseAttribute());
+      } else if (this.isDelim(token, ':')) {
+        this.next();
+        compound.push(this.parsePseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (compound.length === 0) {
+      const token = this.peek();
+      this.fail(
+        token.type === 'eof' ? 'Expected a selector but reached the end' : `Unexpected "${this.describe(token)}"`,
+        token
+      );
+    }
+
+    return compound;
+  }
+
+  private parseAttribute(): SimpleSelector {
+    this.skipWhitespace();
+    const name = this.expect('ident', 'attribute name');
+    this.skipWhitespace();
+
+    const token = this.peek();
+    if (this.isDelim(token, ']')) {
+      this.next();
+      return { type: 'attribute', name: name.value.toLowerCase() };
+    }
+
+    if (token.type !== 'match') {
+      this.fail(`Expected attribute operator or "]" but found "${this.describe(token)}"`, token);
+    }
+    this.next();
+    const operator = token.value as AttributeOperator;
+
+    this.skipWhitespace();
+    const valueToken = this.peek();
+    if (valueToken.type !== 'ident' && valueToken.type !== 'string' && valueToken.type !== 'number') {
+      this.fail(`Expected attribute value but found "${this.describe(valueToken)}"`, valueToken);
+    }
+    this.next();
+    this.skipWhitespace();
+
+    let caseInsensitive: boolean | undefined;
+    const flag = this.peek();
+    if (flag.type === 'ident') {
+      const lower = flag.value.toLowerCase();
+      if (lower !== 'i' && lower !== 's') {
+        this.fail(`Unknown attribute selector flag "${flag.value}"`, flag);
+      }
+      this.next();
+      this.skipWhitespace();
+      caseInsensitive = lower === 'i';
+    }
+
+    const close = this.peek();
+    if (!this.isDelim(close, ']')) {
+      this.fail(`Expected "]" but found "${this.describe(close)}"`, close);
+    }
+    this.next();
+
+    return {
+      type: 'attribute',
+      name: name.value.toLowerCase(),
+      operator,
+      value: valueToken.value,
+      caseInsensitive,
+    };
+  }
+
+  private parsePseudo(): SimpleSelector {
+    const token = this.peek();
+
+    if (this.isDelim(token, ':')) {
+      this.fail('Pseudo-elements are not supported', token);
+    }
+
+    if (token.type === 'ident') {
+      this.next();
+      const name = token.value.toLowerCase();
+      if (!SIMPLE_PSEUDOS.has(name)) {
+        this.fail(`Unknown pseudo-class ":${token.value}"`, token);
+      }
+      return { type: 'pseudo', name };
+    }
+
+    if (token.type === 'function') {
+      this.next();
+      const name = token.value.toLowerCase();
+
+      if (name === 'is' || name === 'where' || name === 'not') {
+        const selectors = this.parseSelectorList();
+        this.expectClose();
+        return { type: 'pseudo-selector', name, selectors };
+      }
+
+      if (name === 'has') {
+        const selectors = this.parseRelativeList();
+        this.expectClose();
+        return { type: 'pseudo-has', selectors };
+      }
+
+      if (NTH_PSEUDOS.has(name)) {
+        return this.parseNth(name, token);
+      }
+
+      this.fail(`Unknown functional pseudo-class ":${token.value}()"`, token);
+    }
+
+    return this.fail(`Expected pseudo-class name but found "${this.describe(token)}"`, token);
+  }
+
+  private parseNth(name: string, functionToken: Token): SimpleSelector {
+    this.skipWhitespace();
+
+    // Collect the raw An+B text up to "of" or ")"
+    let raw = '';
+    const start = this.peek();
+    while (true) {
+      const token = this.peek();
+      if (token.type === 'eof' || this.isDelim(token, ')')) break;
+      if (token.type === 'ident' && token.value.toLowerCase() === 'of') break;
+      if (token.type !== 'whitespace') {
+        raw += this.source.slice(token.start, token.end);
+      }
+      this.next();
+    }
+
+    const nth = parseNthExpression(raw);
+    if (!nth) {
+      this.fail(`Invalid An+B expression "${raw}" in :${name}()`, raw ? start : functionToken);
+    }
+
+    let of: SelectorList | undefined;
+    const token = this.peek();
+    if (token.type === 'ident' && token.value.toLowerCase() === 'of') {
+      if (name !== 'nth-child' && name !== 'nth-last-child') {
+        this.fail(`":${name}()" does not accept an "of" clause`, token);
+      }
+      this.next();
+      of = this.parseSelectorList();
+    }
+
+    this.expectClose();
+    return { type: 'pseudo-nth', name, nth, of };
+  }
+
+  private expectClose(): void {
+    this.skipWhitespace();
+    const token = this.peek();
+    if (!this.isDelim(token, ')')) {
+      this.fail(
+        token.type === 'eof' ? 'Missing closing ")"' : `Expected ")" but found "${this.describe(token)}"`,
+        token
+      );
+    }
+    this.next();
+  }
+
+  private expect(type: TokenType, what: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      this.fail(`Expected ${what} but found "${this.describe(token)}"`, token);
+    }
+    this.next();
+    return token;
+  }
+
+  private startsCompound(token: Token): boolean {
+    return token.type === 'ident' ||
+      token.type === 'hash' ||
+      (token.type === 'delim' && ['*', '.', '[', ':'].includes(token.value));
+  }
+
+  private skipWhitespace(): boolean {
+    let skipped = false;
+    while (this.peek().type === 'whitespace') {
+      this.next();
+      skipped = true;
+    }
+    return skipped;
+  }
+
+  private isDelim(token: Token, value: string): boolean {
+    return token.type === 'delim' && token.value === value;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (this.index < this.tokens.length - 1) {
+      this.index++;
+    }
+    return token;
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of selector' : this.source.slice(token.start, token.end);
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new SelectorSyntaxError(message, this.source, token.start);
+  }
+}
+
+/**
+ * Parse the An+B micro-syntax (e.g. "2n+1", "-n+3", "odd", "5")
+ */
+function parseNthExpression(raw: string): NthExpression | null {
+  const text = raw.toLowerCase();
+
+  if (text === 'odd') return { a: 2, b: 1 };
+  if (text === 'even') return { a: 2, b: 0 };
+
+  if (/^[+-]?\d+$/.test(text)) {
+    return { a: 0, b: parseInt(text, 10) };
+  }
+
+  const match = /^([+-]?)(\d*)n(?:([+-])(\d+))?$/.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const coefficient = match[2] === '' ? 1 : parseInt(match[2], 10);
+  const a = match[1] === '-' ? -coefficient : coefficient;
+  const b = match[4] ? parseInt(match[4], 10) * (match[3] === '-' ? -1 : 1) : 0;
+
+  return { a, b };
+}
+
+const selectorCache = new Map<string, SelectorList>();
+
+/**
+ * Parse a selector string into a selector list
+ * Parsed selectors are cached, so repeated queries with the same selector are cheap.
+ * Throws SelectorSyntaxError for invalid selectors.
+ */
+export function parseSelector(selector: string): SelectorList {
+  const cached = selectorCache.get(selector);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = new SelectorParser(selector).parse();
+  selectorCache.set(selector, parsed);
+  return parsed;
+}
+
+// ---------------------------------------------------------------------------
+// Matcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Check if an element matches a selector (string or parsed list)
+ */
+export function matchesSelector(element: Element, selector: string | SelectorList): boolean {
+  const list = typeof selector === 'string' ? parseSelector(selector) : selector;
+  return list.some(complex => matchesComplex(element, complex, complex.compounds.length - 1));
+}
+
+/**
+ * Collect all elements in the subtree rooted at `root` (including root) that match
+ * the selector, in document order
+ */
+export function selectAll(root: Element, selector: string | SelectorList): Element[] {
+  const list = typeof selector === 'string' ? parseSelector(selector) : selector;
+  const results: Element[] = [];
+
+  const traverse = (element: Element) => {
+    if (matchesSelector(element, list)) {
+      results.push(element);
+    }
+
+    for (const child of element.children) {
+      traverse(child);
+    }
+  };
+
+  traverse(root);
+  return results;
+}
+
+/**
+ * Match compounds[index] against the element, then walk the combinator chain leftwards
+ */
+function matchesComplex(
+  element: Element,
+  complex: ComplexSelector,
+  index: number,
+  anchor?: RelativeSelector & { element: Element }
+): boolean {
+  if (!matchesCompound(element, complex.compounds[index])) {
+    return false;
+  }
+
+  if (index === 0) {
+    return anchor ? isRelated(anchor.element, element, anchor.combinator) : true;
+  }
+
+  const combinator = complex.combinators[index - 1];
+
+  switch (combinator) {
+    case '>':
+      return !!element.parent && matchesComplex(element.parent, complex, index - 1, anchor);
+
+    case ' ': {
+      for (let current = element.parent; current; current = current.parent) {
+        if (matchesComplex(current, complex, index - 1, anchor)) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    case '+': {
+      const previous = previousElementSibling(element);
+      return !!previous && matchesComplex(previous, complex, index - 1, anchor);
+    }
+
+    case '~': {
+      for (let previous = previousElementSibling(element); previous; previous = previousElementSibling(previous)) {
+        if (matchesComplex(previous, complex, index - 1, anchor)) {
+          return true;
+        }
+      }
+      return false;
+    }
+  }
+}
+
+/**
+ * Check whether `target` stands in the given combinator relation to `anchor`
+ */
+function isRelated(anchor: Element, target: Element, combinator: Combinator): boolean {
+  switch (combinator) {
+    case '>':
+      return target.parent === anchor;
+
+    case ' ': {
+      for (let current = target.parent; current; current = current.parent) {
+        if (current === anchor) return true;
+      }
+      return false;
+    }
+
+    case '+':
+      return previousElementSibling(target) === anchor;
+
+    case '~': {
+      for (let previous = previousElementSibling(target); previous; previous = previousElementSibling(previous)) {
+        if (previous === anchor) return true;
+      }
+      return false;
+    }
+  }
+}
+
+/**
+ * Check every simple selector of a compound against the element
+ */
+function matchesCompound(element: Element, compound: CompoundSelector): boolean {
+  return compound.every(simple => matchesSimple(element, simple));
+}
+
+function matchesSimple(element: Element, simple: SimpleSelector): boolean {
+  switch (simple.type) {
+    case 'universal':
+      return true;
+
+    case 'type':
+      return element.tagName.toLowerCase() === simple.name;
+
+    case 'id':
+      return element.getAttribute('id') === simple.name;
+
+    case 'class': {
+      const classAttr = element.getAttribute('class');
+      return !!classAttr && classAttr.split(/\s+/).includes(simple.name);
+    }
+
+    case 'attribute':
+      return matchesAttribute(element, simple);
+
+    case 'pseudo':
+      return matchesPseudo(element, simple.name);
+
+    case 'pseudo-selector': {
+      const matched = matchesSelector(element, simple.selectors);
+      return simple.name === 'not' ? !matched : matched;
+    }
+
+    case 'pseudo-has':
+      return simple.selectors.some(relative => matchesRelative(element, relative));
+
+    case 'pseudo-nth':
+      return matchesNth(element, simple.name, simple.nth, simple.of);
+  }
+}
+
+function matchesAttribute(
+  element: Element,
+  selector: Extract<SimpleSelector, { type: 'attribute' }>
+): boolean {
+  if (!element.hasAttribute(selector.name)) {
+    return false;
+  }
+
+  if (!selector.operator) {
+    return true;
+  }
+
+  const ignoreCase = selector.caseInsensitive ?? CASE_INSENSITIVE_ATTRIBUTES.has(selector.name);
+  let actual = element.attributes[selector.name] ?? '';
+  let expected = selector.value ?? '';
+
+  if (ignoreCase) {
+    actual = actual.toLowerCase();
+    expected = expected.toLowerCase();
+  }
+
+  switch (selector.operator) {
+    case '=':
+      return actual === expected;
+    case '~=':
+      return expected !== '' && !/\s/.test(expected) && actual.split(/\s+/).includes(expected);
+    case '|=':
+      return actual === expected || actual.startsWith(expected + '-');
+    case '^=':
+      return expected !== '' && actual.startsWith(expected);
+    case '$=':
+      return expected !== '' && actual.endsWith(expected);
+    case '*=':
+      return expected !== '' && actual.includes(expected);
+  }
+}
+
+function matchesPseudo(element: Element, name: string): boolean {
+  switch (name) {
+    case 'root':
+      return !element.parent;
+
+    case 'empty':
+      return element.children.length === 0 && element.textContent === '';
+
+    case 'first-child':
+      return previousElementSibling(element) === null;
+
+    case 'last-child':
+      return nextElementSibling(element) === null;
+
+    case 'only-child':
+      return siblingsOf(element).length === 1;
+
+    case 'first-of-type':
+      return matchesNth(element, 'nth-of-type', { a: 0, b: 1 });
+
+    case 'last-of-type':
+      return matchesNth(element, 'nth-last-of-type', { a: 0, b: 1 });
+
+    case 'only-of-type':
+      return siblingsOf(element).filter(sibling => sibling.tagName === element.tagName).length === 1;
+
+    default: {
+      const alias = PSEUDO_ALIASES[name];
+      return alias !== undefined && matchesSelector(element, alias);
+    }
+  }
+}
+
+function matchesRelative(anchor: Element, relative: RelativeSelector): boolean {
+  const last = relative.selector.compounds.length - 1;
+  const context = { ...relative, element: anchor };
+
+  // Candidates are the anchor's descendants, plus (for sibling combinators)
+  // its following siblings and their descendants
+  const candidates: Element[] = [];
+  const collect = (element: Element) => {
+    candidates.push(element);
+    element.children.forEach(collect);
+  };
+
+  if (relative.combinator === '+' || relative.combinator === '~') {
+    let sibling = nextElementSibling(anchor);
+    while (sibling) {
+      collect(sibling);
+      sibling = nextElementSibling(sibling);
+    }
+  } else {
+    anchor.children.forEach(collect);
+  }
+
+  return candidates.some(candidate => matchesComplex(candidate, relative.selector, last, context));
+}
+
+function matchesNth(element: Element, name: string, nth: NthExpression, of?: SelectorList): boolean {
+  let siblings = siblingsOf(element);
+
+  if (name === 'nth-of-type' || name === 'nth-last-of-type') {
+    siblings = siblings.filter(sibling => sibling.tagName === element.tagName);
+  } else if (of) {
+    if (!matchesSelector(element, of)) {
+      return false;
+    }
+    siblings = siblings.filter(sibling => matchesSelector(sibling, of));
+  }
+
+  if (name === 'nth-last-child' || name === 'nth-last-of-type') {
+    siblings = [...siblings].reverse();
+  }
+
+  const position = siblings.indexOf(element) + 1;
+  if (position === 0) {
+    return false;
+  }
+
+  // position = a*k + b for some integer k >= 0
+  if (nth.a === 0) {
+    return position === nth.b;
+  }
+
+  const k = (position - nth.b) / nth.a;
+  return Number.isInteger(k) && k >= 0;
+}
+
+function siblingsOf(element: Element): Element[] {
+  return element.parent ? element.parent.children : [element];
+}
+
+function previousElementSibling(element: Element): Element | null {
+  const siblings = siblingsOf(element);
+  const index = siblings.indexOf(element);
+  return index > 0 ? siblings[index - 1] : null;
+}
+
+function nextElementSibling(element: Element): Element | null {
+  const siblings = siblingsOf(element);
+  const index = siblings.indexOf(element);
+  return index >= 0 && index < siblings.length - 1 ? siblings[index + 1] : null;
+}
@@ -0,0 +1,278 @@
+/**
+ * Inline Suppressions
+ *
+ * Comments that silence rules in place instead of turning them off in the config:
+ *
+ *   <!-- xrules-disable-next-line form-labels-explicit -- legacy widget -->
+ *   <!-- xrules-disable images-alt-text, empty-links -->
+ *   ...
+ *   <!-- xrules-enable -->
+ *
+ * In TSX the same directives are written as {/* xrules-disable-next-line ... *\/}.
+ * Rule lists are comma-separated; omitting them silences every rule. Text after
+ * "--" is the justification.
+ */
+
+import type {
+  Document,
+  Node,
+  RuleSeverity,
+  Suppression,
+  SuppressionOptions,
+  Violation,
+} from './types';
+
+/**
+ * Parsed suppression comment text
+ */
+export interface SuppressionDirective {
+  type: 'disable' | 'disable-next-line' | 'enable';
+  rules: string[];
+  justification?: string;
+}
+
+/**
+ * Suppression comment found in a document, with its position
+ */
+export interface LocatedDirective extends SuppressionDirective {
+  line: number;
+  column: number;
+
+  /**
+   * Line the comment ends on; disable-next-line applies to the line after it
+   */
+  endLine: number;
+
+  /**
+   * Original comment text, for reporting
+   */
+  text: string;
+}
+
+/**
+ * Rule IDs used when reporting problems with the suppressions themselves
+ */
+export const UNUSED_SUPPRESSION_RULE_ID = 'unused-suppression';
+export const SUPPRESSION_JUSTIFICATION_RULE_ID = 'suppression-justification';
+
+const DIRECTIVE_PATTERN = /^\s*xrules-(disable-next-line|disable|enable)(?=\s|$)([\s\S]*)$/;
+
+/**
+ * Parse the text of a comment as a suppression directive
+ * Returns null for ordinary comments.
+ */
+export function parseSuppressionDirective(text: string): SuppressionDirective | null {
+  const match = DIRECTIVE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const type = match[1] as SuppressionDirective['type'];
+  let rest = match[2];
+  let justification: string | undefined;
+
+  const separator = rest.search(/(^|\s)--(\s|$)/);
+  if (separator !== -1) {
+    justification = rest.slice(separator).replace(/^\s*--/, '').trim() || undefined;
+    rest = rest.slice(0, separator);
+  }
+
+  const rules = rest
+    .split(',')
+    .map(rule => rule.trim())
+    .filter(Boolean);
+
+  const directive: SuppressionDirective = { type, rules };
+  if (justification) {
+    directive.justification = justification;
+  }
+  return directive;
+}
+
+/**
+ * Find all suppression comments in a parsed HTML document, in document order
+ */
+export function collectSuppressions(document: Document): LocatedDirective[] {
+  const directives: LocatedDirective[] = [];
+
+  function visit(node: Node) {
+    if (node.nodeType === 'comment') {
+      const directive = parseSuppressionDirective(node.data);
+      const location = node.getSourceLocation();
+      if (directive && location) {
+        directives.push({
+          ...directive,
+          line: location.line,
+          column: location.column,
+          endLine: location.line + (node.data.match(/\n/g)?.length ?? 0),
+          text: `<!--${node.data}-->`,
+        });
+      }
+    } else if (node.nodeType === 'element') {
+      node.childNodes.forEach(visit);
+    }
+  }
+
+  document.childNodes.forEach(visit);
+  return directives;
+}
+
+/**
+ * Suppression comments for one document, tracking which ones were used
+ */
+export class SuppressionSet {
+  private disables: LocatedDirective[];
+  private enables: LocatedDirective[];
+  private unjustified: LocatedDirective[];
+  private used = new Set<LocatedDirective>();
+
+  constructor(directives: LocatedDirective[], private options: SuppressionOptions = {}) {
+    const disables = directives.filter(directive => directive.type !== 'enable');
+
+    this.enables = directives.filter(directive => directive.type === 'enable');
+    this.unjustified = options.requireJustification
+      ? disables.filter(directive => !directive.justification)
+      : [];
+    this.disables = disables.filter(directive => !this.unjustified.includes(directive));
+  }
+
+  /**
+   * Check if a violation is silenced by a suppression comment, marking that comment as used
+   */
+  suppresses(violation: Violation): boolean {
+    if (violation.line === undefined) {
+      return false;
+    }
+
+    const position = { line: violation.line, column: violation.column ?? 0 };
+    let suppressed = false;
+
+    for (const directive of this.disables) {
+      if (!appliesToRule(directive, violation.ruleId)) {
+        continue;
+      }
+
+      const matches = directive.type === 'disable-next-line'
+        ? position.line === directive.endLine + 1
+        : isAfter(position, directive) && !this.isReenabled(directive, position, violation.ruleId);
+
+      if (matches) {
+        this.used.add(directive);
+        suppressed = true;
+      }
+    }
+
+    return suppressed;
+  }
+
+  /**
+   * Suppression comments that have silenced a violation
+   */
+  getUsed(): LocatedDirective[] {
+    return this.disables.filter(directive => this.used.has(directive));
+  }
+
+  /**
+   * Suppression comments that have not silenced any violation
+   */
+  getUnused(): LocatedDirective[] {
+    return this.disables.filter(directive => !this.used.has(directive));
+  }
+
+  /**
+   * Violations describing problems with the suppression comments themselves
+   */
+  getViolations(): Violation[] {
+    const violations = this.unjustified.map(createMissingJustificationViolation);
+
+    const severity = this.options.reportUnused ?? 'off';
+    if (severity !== 'off') {
+      for (const directive of this.getUnused()) {
+        violations.push(createUnusedSuppressionViolation(directive, severity));
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Check for an xrules-enable between the directive and the position that covers the rule
+   */
+  private isReenabled(directive: LocatedDirective, position: { line: number; column: number }, ruleId: string): boolean {
+    return this.enables.some(enable =>
+      isAfter(enable, directive) &&
+      !isAfter(enable, position) &&
+      appliesToRule(enable, ruleId)
+    );
+  }
+}
+
+/**
+ * Report a suppression comment that silenced nothing
+ */
+export function createUnusedSuppressionViolation(
+  directive: LocatedDirective,
+  severity: Exclude<RuleSeverity, 'off'>
+): Violation {
+  const target = directive.rules.length > 0 ? directive.rules.join(', ') : 'all rules';
+  return createSuppressionViolation(
+    directive,
+    UNUSED_SUPPRESSION_RULE_ID,
+    `Unused suppression for ${target}`,
+    severity
+  );
+}
+
+/**
+ * Report a suppression comment that was ignored because it has no justification
+ */
+export function createMissingJustificationViolation(directive: LocatedDirective): Violation {
+  return createSuppressionViolation(
+    directive,
+    SUPPRESSION_JUSTIFICATION_RULE_ID,
+    'Suppression comment requires a justification after "--"',
+    'error'
+  );
+}
+
+/**
+ * Strip the bookkeeping fields from a located directive
+ */
+export function toSuppression(directive: LocatedDirective): Suppression {
+  const suppression: Suppression = {
+    kind: directive.type === 'disable-next-line' ? 'disable-next-line' : 'disable',
+    rules: directive.rules,
+    line: directive.line,
+    column: directive.column,
+  };
+  if (directive.justification) {
+    suppression.justification = directive.justification;
+  }
+  return suppression;
+}
+
+function createSuppressionViolation(
+  directive: LocatedDirective,
+  ruleId: string,
+  message: string,
+  severity: Exclude<RuleSeverity, 'off'>
+): Violation {
+  return {
+    ruleId,
+    ruleName: ruleId === UNUSED_SUPPRESSION_RULE_ID ? 'Unused Suppression' : 'Suppression Justification',
+    message,
+    severity,
+    line: directive.line,
+    column: directive.column,
+    element: directive.text,
+    context: directive.text,
+  };
+}
+
+function appliesToRule(directive: SuppressionDirective, ruleId: string): boolean {
+  return directive.rules.length === 0 || directive.rules.includes(ruleId);
+}
+
+function isAfter(a: { line: number; column: number }, b: { line: number; column: number }): boolean {
+  return a.line > b.line || (a.line === b.line && a.column > b.column);
+}
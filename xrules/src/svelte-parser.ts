@@ -0,0 +1,110 @@
+/**
+ * Svelte Component Front-end
+ *
+ * Analyzes the markup of a `.svelte` file: everything but its top-level
+ * `<script>` and `<style>`. `{#if}`, `{#each}` and `{#await}` blocks become
+ * unions of their branches like JSX conditionals; `{expression}` attribute
+ * values are known when literal and unknown otherwise, and directives
+ * (`on:click`, `bind:value`, `class:active`, ...) render nothing.
+ */
+
+import type { JsxAttributeValue } from './jsx-parser';
+import { UnknownValue, isComponentName } from './jsx-parser';
+import {
+  TemplateParser,
+  TemplateSource,
+  MarkupNode,
+  MarkupElement,
+  ElementKind,
+  evaluateExpression,
+} from './template-parser';
+
+const DIRECTIVES = new Set(['on', 'bind', 'class', 'style', 'use', 'transition', 'in', 'out', 'animate', 'let']);
+
+const SPECIAL_ELEMENTS: Record<string, ElementKind> = {
+  'svelte:head': 'fragment',
+  'svelte:fragment': 'fragment',
+  'svelte:boundary': 'fragment',
+  'svelte:window': 'none',
+  'svelte:document': 'none',
+  'svelte:body': 'none',
+  'svelte:options': 'none',
+  'svelte:self': 'component',
+  'svelte:component': 'component',
+  'svelte:element': 'component',
+  slot: 'fragment',
+};
+
+/**
+ * Front-end for Svelte components
+ */
+export class SvelteParser extends TemplateParser {
+  protected readonly syntax = 'svelte';
+
+  protected getTemplate(nodes: MarkupNode[]): TemplateSource {
+    const markup = nodes.filter(node => !(node.type === 'element' && ['script', 'style'].includes(node.name)));
+    return { nodes: markup, line: 1, column: 1 };
+  }
+
+  protected getElementKind(element: MarkupElement): ElementKind {
+    return SPECIAL_ELEMENTS[element.name] ?? (isComponentName(element.name) ? 'component' : 'element');
+  }
+
+  protected getAttributes(element: MarkupElement): Record<string, JsxAttributeValue> {
+    const attributes: Record<string, JsxAttributeValue> = {};
+
+    for (const { name, value, expression } of element.attributes) {
+      if (expression?.startsWith('...')) {
+        attributes['data-spread'] = true;
+        continue;
+      }
+
+      // Directives, and the `this` of <svelte:element> and <svelte:component>
+      const prefix = name.split(':')[0];
+      if ((name.includes(':') && DIRECTIVES.has(prefix)) || name === 'this') continue;
+
+      if (expression !== undefined) {
+        // Event handler props (Svelte 5 `onclick={...}`) are not inline handlers
+        if (/^on[a-z]/.test(name)) continue;
+
+        const evaluated = evaluateExpression(expression);
+        if (evaluated === undefined) {
+          delete attributes[name];
+        } else {
+          attributes[name] = evaluated;
+        }
+      } else if (value !== undefined) {
+        // Text with interpolations, e.g. alt="Photo of {name}"
+        attributes[name] = value.includes('{') ? new UnknownValue(value) : value;
+      } else {
+        attributes[name] = true;
+      }
+    }
+
+    return attributes;
+  }
+
+  protected parseEach(expression: string): { item: string; list: string } {
+    // `items as item`, `items as item, index (item.id)`, `items as { id, name }`
+    const match = /^([\s\S]+?)\s+as\s+([\s\S]+)$/.exec(expression);
+    if (!match) return { item: 'item', list: expression.trim() };
+
+    const binding = match[2].replace(/\s*\([^)]*\)\s*$/, '').trim();
+    const item = /^[{[]/.test(binding)
+      ? binding.slice(0, matchingBracket(binding) + 1)
+      : binding.split(',')[0].trim();
+    return { item, list: match[1].trim() };
+  }
+}
+
+/**
+ * Index of the bracket closing the one a string starts with
+ */
+function matchingBracket(text: string): number {
+  let depth = 0;
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '{' || text[index] === '[') depth++;
+    if ((text[index] === '}' || text[index] === ']') && --depth === 0) return index;
+  }
+  return text.length - 1;
+}
@@ -0,0 +1,650 @@
+/**
+ * Template Parser for Vue and Svelte components
+ *
+ * Vue `<template>` blocks and Svelte markup are HTML with a template syntax on
+ * top: bound attributes (`:alt="photo.caption"`, `alt={photo.caption}`),
+ * interpolations (`{{ name }}`, `{name}`) and control flow (`v-if` chains,
+ * `{#if}` blocks). parse5 cannot read them as written (it lowercases component
+ * names and ignores `/>` on them), so they are parsed here into a small markup
+ * tree. From it the front-ends enumerate the forms a component can render the
+ * way the JSX analysis does: a conditional is a union of its branches, a loop
+ * renders one representative item, and a bound value is an unknown value.
+ */
+
+import * as fs from 'fs';
+import type { JsxNode, JsxAttributeValue, JsxParserOptions, ComponentAnalysis } from './jsx-parser';
+import { UnknownValue, DEFAULT_MAX_VARIANTS, getComponentNameFromFile } from './jsx-parser';
+import { Form, FormSet, unionForms, combineForms, single, nothing, nodesOf, withConditions, toFragment } from './form-sets';
+import { parseSuppressionDirective } from './suppressions';
+import { UNKNOWN_ATTRIBUTE_VALUE } from './unknown-values';
+
+/**
+ * Template syntax of the markup: plain HTML, `{{ }}` interpolations, or Svelte `{...}` tags and blocks
+ */
+export type MarkupSyntax = 'html' | 'vue' | 'svelte';
+
+interface MarkupPosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * An attribute as written. Svelte `{expression}` values and `{name}` / `{...rest}` shorthands
+ * set `expression`.
+ */
+export interface MarkupAttribute extends MarkupPosition {
+  name: string;
+  value?: string;
+  expression?: string;
+}
+
+export interface MarkupElement extends MarkupPosition {
+  type: 'element';
+  name: string; // As written, e.g. `UserCard` or `svelte:head`
+  attributes: MarkupAttribute[];
+  children: MarkupNode[];
+}
+
+export interface MarkupText extends MarkupPosition {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Interpolated content: `{{ name }}`, `{name}`, `{@html content}` or `v-html="content"`
+ */
+export interface MarkupExpression extends MarkupPosition {
+  type: 'expression';
+  expression: string;
+}
+
+export interface MarkupComment extends MarkupPosition {
+  type: 'comment';
+  text: string;
+}
+
+/**
+ * A control flow block (`if`, `each`, `await`, `key`, `snippet`) and its branches, e.g. the
+ * `{:else if}` and `{:else}` of an `{#if}`, or the `v-else-if` and `v-else` siblings of a `v-if`
+ */
+export interface MarkupBlock extends MarkupPosition {
+  type: 'block';
+  name: string;
+  branches: MarkupBranch[];
+}
+
+export interface MarkupBranch {
+  keyword: string; // `if`, `else if`, `else`, `each`, `await`, `then`, `catch`, ...
+  expression: string;
+  children: MarkupNode[];
+}
+
+export type MarkupNode = MarkupElement | MarkupText | MarkupExpression | MarkupComment | MarkupBlock;
+
+/**
+ * How an element renders
+ */
+export type ElementKind =
+  | 'element' // An HTML element
+  | 'component' // A component, rendered as an opaque placeholder around its slot content
+  | 'fragment' // Only its children, e.g. `<template>` or `<svelte:head>`
+  | 'none'; // Nothing, e.g. `<svelte:window>`
+
+/**
+ * The markup a component renders and where it starts
+ */
+export interface TemplateSource {
+  nodes: MarkupNode[];
+  line: number;
+  column: number;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Their content is text, not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+type Frame = { element: MarkupElement } | { block: MarkupBlock };
+
+/**
+ * Parse markup with a template syntax into a tree, keeping the line and column of each node
+ */
+export function parseMarkup(source: string, syntax: MarkupSyntax): MarkupNode[] {
+  return new MarkupReader(source, syntax).read();
+}
+
+class MarkupReader {
+  private index = 0;
+  private lineStarts: number[] = [0];
+  private root: MarkupNode[] = [];
+  private stack: Frame[] = [];
+
+  constructor(private source: string, private syntax: MarkupSyntax) {
+    for (let offset = 0; offset < source.length; offset++) {
+      if (source[offset] === '\n') this.lineStarts.push(offset + 1);
+    }
+  }
+
+  read(): MarkupNode[] {
+    const { source } = this;
+
+    while (this.index < source.length) {
+      if (source.startsWith('<!--', this.index)) {
+        this.readComment();
+      } else if (source.startsWith('</', this.index)) {
+        this.readEndTag();
+      } else if (source[this.index] === '<' && /[A-Za-z]/.test(source[this.index + 1] ?? '')) {
+        this.readStartTag();
+      } else if (this.syntax === 'svelte' && source[this.index] === '{') {
+        this.readSvelteTag();
+      } else if (this.syntax === 'vue' && source.startsWith('{{', this.index)) {
+        this.readInterpolation();
+      } else {
+        this.readText();
+      }
+    }
+
+    return this.root;
+  }
+
+  private position(offset: number): MarkupPosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+
+  private get children(): MarkupNode[] {
+    const top = this.stack[this.stack.length - 1];
+    if (!top) return this.root;
+    return 'element' in top ? top.element.children : top.block.branches[top.block.branches.length - 1].children;
+  }
+
+  private readComment(): void {
+    const start = this.index;
+    const end = this.source.indexOf('-->', start + 4);
+    const close = end === -1 ? this.source.length : end;
+
+    this.children.push({ type: 'comment', text: this.source.slice(start + 4, close), ...this.position(start) });
+    this.index = end === -1 ? this.source.length : end + 3;
+  }
+
+  private readText(): void {
+    const start = this.index;
+    this.index++;
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === '<' && /[A-Za-z!/]/.test(this.source[this.index + 1] ?? '')) break;
+      if (this.syntax === 'svelte' && char === '{') break;
+      if (this.syntax === 'vue' && this.source.startsWith('{{', this.index)) break;
+      this.index++;
+    }
+
+    this.children.push({ type: 'text', text: this.source.slice(start, this.index), ...this.position(start) });
+  }
+
+  private readInterpolation(): void {
+    const start = this.index;
+    const end = this.source.indexOf('}}', start + 2);
+    const close = end === -1 ? this.source.length : end;
+
+    this.children.push({ type: 'expression', expression: this.source.slice(start + 2, close).trim(), ...this.position(start) });
+    this.index = end === -1 ? this.source.length : end + 2;
+  }
+
+  private readEndTag(): void {
+    const match = /^<\/([^\s>]*)\s*>?/.exec(this.source.slice(this.index));
+    const name = match?.[1] ?? '';
+    this.index += match?.[0].length ?? 2;
+
+    // Close the element and any left open inside it, but not across a block
+    for (let depth = this.stack.length - 1; depth >= 0; depth--) {
+      const frame = this.stack[depth];
+      if (!('element' in frame)) return;
+      if (frame.element.name === name || frame.element.name.toLowerCase() === name.toLowerCase()) {
+        this.stack.length = depth;
+        return;
+      }
+    }
+  }
+
+  private readStartTag(): void {
+    const start = this.index;
+    const nameMatch = /^<([^\s/>]+)/.exec(this.source.slice(start));
+    const name = nameMatch![1];
+    this.index += nameMatch![0].length;
+
+    const element: MarkupElement = { type: 'element', name, attributes: [], children: [], ...this.position(start) };
+    let selfClosing = false;
+
+    while (this.index < this.source.length) {
+      this.skipWhitespace();
+      const char = this.source[this.index];
+
+      if (char === '>') {
+        this.index++;
+        break;
+      }
+      if (this.source.startsWith('/>', this.index)) {
+        this.index += 2;
+        selfClosing = true;
+        break;
+      }
+      if (char === '/') {
+        this.index++;
+        continue;
+      }
+
+      element.attributes.push(this.readAttribute());
+    }
+
+    this.children.push(element);
+
+    const lowerName = name.toLowerCase();
+    if (selfClosing || VOID_ELEMENTS.has(lowerName)) return;
+
+    if (RAW_TEXT_ELEMENTS.has(lowerName)) {
+      const end = this.source.toLowerCase().indexOf(`</${lowerName}`, this.index);
+      const close = end === -1 ? this.source.length : end;
+      const text = this.source.slice(this.index, close);
+      if (text.trim()) {
+        element.children.push({ type: 'text', text, ...this.position(this.index) });
+      }
+      this.index = close;
+      this.readEndTag();
+      return;
+    }
+
+    this.stack.push({ element });
+  }
+
+  private readAttribute(): MarkupAttribute {
+    const start = this.index;
+
+    if (this.syntax === 'svelte' && this.source[start] === '{') {
+      // {name} and {...rest}
+      const expression = this.readBraces().trim();
+      return { name: expression, expression, ...this.position(start) };
+    }
+
+    const nameMatch = /^[^\s=>/]+/.exec(this.source.slice(start));
+    const name = nameMatch ? nameMatch[0] : this.source[start];
+    this.index += name.length;
+
+    this.skipWhitespace();
+    if (this.source[this.index] !== '=') {
+      return { name, ...this.position(start) };
+    }
+
+    this.index++;
+    this.skipWhitespace();
+    const quote = this.source[this.index];
+
+    if (this.syntax === 'svelte' && quote === '{') {
+      return { name, expression: this.readBraces().trim(), ...this.position(start) };
+    }
+
+    let value: string;
+    if (quote === '"' || quote === "'") {
+      const end = this.source.indexOf(quote, this.index + 1);
+      const close = end === -1 ? this.source.length : end;
+      value = this.source.slice(this.index + 1, close);
+      this.index = close + 1;
+    } else {
+      const valueMatch = /^[^\s>]*/.exec(this.source.slice(this.index))!;
+      value = valueMatch[0];
+      this.index += value.length;
+    }
+
+    // A quoted value that is a single Svelte expression: alt="{caption}"
+    const single = this.syntax === 'svelte' ? /^\{([^{}]*)\}$/.exec(value.trim()) : null;
+    return single
+      ? { name, expression: single[1].trim(), ...this.position(start) }
+      : { name, value, ...this.position(start) };
+  }
+
+  /**
+   * Svelte `{...}`: an expression, a block opening (`{#if}`), continuation (`{:else}`) or end
+   * (`{/if}`), or a special tag (`{@html}`)
+   */
+  private readSvelteTag(): void {
+    const start = this.index;
+    const position = this.position(start);
+    const content = this.readBraces().trim();
+    const [, sigil, keyword, expression] = /^([#:/@]?)\s*(else\s+if|[A-Za-z]*)\s*([\s\S]*)$/.exec(content) ?? [];
+
+    switch (sigil) {
+      case '#': {
+        const block: MarkupBlock = { type: 'block', name: keyword, branches: [], ...position };
+        block.branches.push({ keyword, expression: expression.trim(), children: [] });
+        this.children.push(block);
+        this.stack.push({ block });
+        break;
+      }
+      case ':': {
+        const block = this.closeToBlock();
+        block?.branches.push({ keyword: keyword.replace(/\s+/, ' '), expression: expression.trim(), children: [] });
+        break;
+      }
+      case '/':
+        if (this.closeToBlock()) this.stack.pop();
+        break;
+      case '@':
+        // {@html} renders content only known at runtime; {@const}, {@debug} and {@render} render no markup
+        if (keyword === 'html') {
+          this.children.push({ type: 'expression', expression: expression.trim(), ...position });
+        }
+        break;
+      default:
+        this.children.push({ type: 'expression', expression: content, ...position });
+    }
+  }
+
+  /**
+   * Close the elements left open in the innermost block and return that block
+   */
+  private closeToBlock(): MarkupBlock | null {
+    for (let depth = this.stack.length - 1; depth >= 0; depth--) {
+      const frame = this.stack[depth];
+      if ('block' in frame) {
+        this.stack.length = depth + 1;
+        return frame.block;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read a balanced `{...}` starting at the current index, skipping braces in string literals;
+   * returns its content
+   */
+  private readBraces(): string {
+    const start = this.index;
+    let depth = 0;
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+
+      if (char === '"' || char === "'" || char === '`') {
+        this.index++;
+        while (this.index < this.source.length && this.source[this.index] !== char) {
+          if (this.source[this.index] === '\\') this.index++;
+          this.index++;
+        }
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        this.index++;
+        return this.source.slice(start + 1, this.index - 1);
+      }
+
+      this.index++;
+    }
+
+    return this.source.slice(start + 1);
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.source.length && /\s/.test(this.source[this.index])) {
+      this.index++;
+    }
+  }
+}
+
+/**
+ * Base of the Vue and Svelte front-ends: enumerates the forms of the markup a component
+ * renders, as the JSX parser does for a React component
+ */
+export abstract class TemplateParser {
+  private maxVariants: number;
+
+  constructor(options: JsxParserOptions = {}) {
+    this.maxVariants = options.maxVariants ?? DEFAULT_MAX_VARIANTS;
+
+    if (!Number.isInteger(this.maxVariants) || this.maxVariants < 1) {
+      throw new Error(`maxVariants must be a positive integer, got ${this.maxVariants}`);
+    }
+  }
+
+  /**
+   * Template syntax of the component files
+   */
+  protected abstract readonly syntax: MarkupSyntax;
+
+  /**
+   * The markup the component renders, from the parsed file; null when it has none
+   */
+  protected abstract getTemplate(nodes: MarkupNode[]): TemplateSource | null;
+
+  /**
+   * How an element renders
+   */
+  protected abstract getElementKind(element: MarkupElement): ElementKind;
+
+  /**
+   * The HTML attributes an element renders
+   */
+  protected abstract getAttributes(element: MarkupElement): Record<string, JsxAttributeValue>;
+
+  /**
+   * The item and list of an `each` block, e.g. `item` and `items`
+   */
+  protected abstract parseEach(expression: string): { item: string; list: string };
+
+  /**
+   * Analyze a component file
+   */
+  analyzeFile(filePath: string): ComponentAnalysis | null {
+    return this.analyzeCode(fs.readFileSync(filePath, 'utf-8'), filePath);
+  }
+
+  /**
+   * Analyze a component from source code; the component is named after its file
+   */
+  analyzeCode(code: string, filePath: string): ComponentAnalysis | null {
+    const template = this.getTemplate(parseMarkup(code, this.syntax));
+    if (!template) return null;
+
+    const dependencies = new Set<string>();
+    const { forms, total } = this.combine(
+      this.extractChildren(template.nodes, dependencies),
+      picked => toFragment(nodesOf(picked))
+    );
+    const variants = forms.flatMap(form => form.node ? [{ node: form.node, conditions: form.conditions }] : []);
+
+    return {
+      name: getComponentNameFromFile(filePath),
+      filePath,
+      line: template.line,
+      column: template.column,
+      possibleReturns: variants.map(variant => variant.node),
+      variants,
+      variantCount: total,
+      hasConditionalRendering: forms.some(form => form.conditions.length > 0),
+      dependencies: Array.from(dependencies),
+    };
+  }
+
+  /**
+   * Extract the forms of each child slot of an element or branch
+   */
+  private extractChildren(nodes: MarkupNode[], dependencies: Set<string>): FormSet[] {
+    const children: FormSet[] = [];
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text': {
+          const text = node.text.trim();
+          if (text) {
+            children.push(single({ tagName: '#text', attributes: {}, children: [], text }));
+          }
+          break;
+        }
+        case 'expression':
+          // Text only known at runtime
+          children.push(single({ tagName: '#text', attributes: {}, children: [], text: UNKNOWN_ATTRIBUTE_VALUE }));
+          break;
+        case 'comment':
+          // Only suppression comments are kept, as in JSX
+          if (parseSuppressionDirective(node.text)) {
+            children.push(single({
+              tagName: '#comment',
+              attributes: {},
+              children: [],
+              text: node.text,
+              line: node.line,
+              column: node.column,
+            }));
+          }
+          break;
+        case 'element':
+          children.push(this.extractElement(node, dependencies));
+          break;
+        case 'block':
+          children.push(this.extractBlock(node, dependencies));
+          break;
+      }
+    }
+
+    return children;
+  }
+
+  private extractElement(element: MarkupElement, dependencies: Set<string>): FormSet {
+    const kind = this.getElementKind(element);
+    if (kind === 'none') return nothing();
+    if (kind === 'component') dependencies.add(element.name);
+
+    const children = this.extractChildren(element.children, dependencies);
+    if (kind === 'fragment') {
+      return this.combine(children, picked => toFragment(nodesOf(picked)));
+    }
+
+    const node: JsxNode = {
+      tagName: element.name,
+      attributes: this.getAttributes(element),
+      children: [],
+      line: element.line,
+      column: element.column,
+      ...(kind === 'component' ? { opaque: true } : {}),
+    };
+
+    return this.combine(children, picked => ({ ...node, children: nodesOf(picked) }));
+  }
+
+  /**
+   * Forms of a control flow block: the union of its branches, with the conditions selecting each
+   */
+  private extractBlock(block: MarkupBlock, dependencies: Set<string>): FormSet {
+    const branch = (children: MarkupNode[]) =>
+      this.combine(this.extractChildren(children, dependencies), picked => toFragment(nodesOf(picked)));
+
+    switch (block.name) {
+      case 'if': {
+        // Each branch applies when the earlier ones do not; without an else, nothing may render
+        const sets: FormSet[] = [];
+        const negated: string[] = [];
+        let hasElse = false;
+
+        for (const { keyword, expression, children } of block.branches) {
+          if (keyword === 'else') {
+            sets.push(withConditions(branch(children), negated));
+            hasElse = true;
+            break;
+          }
+          const condition = describeExpression(expression);
+          sets.push(withConditions(branch(children), [...negated, condition]));
+          negated.push(negateExpression(expression));
+        }
+
+        if (!hasElse) {
+          sets.push(withConditions(nothing(), negated));
+        }
+        return this.union(sets);
+      }
+
+      case 'each': {
+        const [items, empty] = block.branches;
+        const { list } = this.parseEach(items.expression);
+        // Iterating is not a branch, only choosing between the items and the else block is
+        if (!empty) return branch(items.children);
+
+        return this.union([
+          withConditions(branch(items.children), [`${list}.length`]),
+          withConditions(branch(empty.children), [`!${list}.length`]),
+        ]);
+      }
+
+      case 'await': {
+        // {#await promise}pending{:then value}resolved{:catch error}rejected{/await}
+        const promise = describeExpression(block.branches[0].expression.replace(/\s+(then|catch)\b[\s\S]*$/, ''));
+        const inline = /\s(then|catch)\b/.exec(block.branches[0].expression)?.[1];
+
+        return this.union(block.branches.map((current, index) => {
+          const state = index === 0 ? inline ?? 'await' : current.keyword;
+          const condition = { await: 'pending', then: 'resolved', catch: 'rejected' }[state] ?? state;
+          return withConditions(branch(current.children), [`${promise} ${condition}`]);
+        }));
+      }
+
+      case 'key':
+        return branch(block.branches[0].children);
+
+      default:
+        // Snippets render where they are used, not where they are defined
+        return nothing();
+    }
+  }
+
+  private union(sets: FormSet[]): FormSet {
+    return unionForms(sets, this.maxVariants);
+  }
+
+  private combine(slots: FormSet[], build: (picked: Form[]) => JsxNode): FormSet {
+    return combineForms(slots, build, this.maxVariants);
+  }
+}
+
+/**
+ * Value of a bound attribute: literals are known, anything else is an unknown value.
+ * `false`, `null` and `undefined` remove the attribute.
+ */
+export function evaluateExpression(expression: string): JsxAttributeValue | undefined {
+  const trimmed = expression.trim();
+
+  const string = /^(['"])([^'"\\]*)\1$/.exec(trimmed) ?? /^(`)([^`$\\]*)`$/.exec(trimmed);
+  if (string) return string[2];
+  if (trimmed === 'true') return true;
+  if (['false', 'null', 'undefined'].includes(trimmed)) return undefined;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return trimmed;
+
+  return new UnknownValue(trimmed);
+}
+
+function describeExpression(expression: string): string {
+  return expression.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Source text of the negation of a condition, e.g. `isOpen` -> `!isOpen`, `a === b` -> `a !== b`
+ */
+function negateExpression(expression: string): string {
+  const condition = describeExpression(expression);
+
+  const not = /^!\s*([\w$.]+)$/.exec(condition);
+  if (not) return not[1];
+
+  const comparison = /^([\w$.'"]+) (===|!==|==|!=) ([\w$.'"-]+)$/.exec(condition);
+  if (comparison) {
+    const negated: Record<string, string> = { '===': '!==', '!==': '===', '==': '!=', '!=': '==' };
+    return `${comparison[1]} ${negated[comparison[2]]} ${comparison[3]}`;
+  }
+
+  return /^[\w$.]+(\([^()]*\))?$/.test(condition) ? `!${condition}` : `!(${condition})`;
+}
@@ -2,6 +2,9 @@
  * Core types for the xrules engine
  */
 
+import type { Fix } from './fix-types';
+import type { ScopeConflict } from './scope-types';
+
 /**
  * Represents a single violation of a rule
  */
@@ -15,6 +18,82 @@ export interface Violation {
   element?: string;
   context?: string;
   suggestion?: string;
+
+  /**
+   * Other locations involved in the violation, e.g. the first element using a duplicate id
+   */
+  relatedInformation?: RelatedInformation[];
+
+  /**
+   * Structured data the rule attached to the violation
+   */
+  data?: Record<string, string | number | boolean>;
+
+  /**
+   * Fix proposed by the rule
+   */
+  fix?: Fix;
+
+  /**
+   * Branch conditions of the component variant that produced the violation, for JSX checks
+   */
+  conditions?: string[];
+
+  /**
+   * Component and variant that produced the violation, for JSX checks
+   */
+  component?: {
+    name: string;
+    branch?: number; // 1-based index of the first variant that produced it
+    totalBranches?: number;
+  };
+}
+
+/**
+ * A secondary location attached to a violation
+ */
+export interface RelatedInformation {
+  message: string;
+  line?: number;
+  column?: number;
+  element?: string;
+
+  /**
+   * File of the location when it is not the file of the violation
+   */
+  filePath?: string;
+}
+
+/**
+ * A single finding returned by Rule.check
+ */
+export interface RuleReport {
+  /**
+   * Message; {{key}} placeholders are filled from data
+   */
+  message: string;
+
+  /**
+   * Element the violation is located at (default: the checked element)
+   */
+  element?: Element;
+
+  /**
+   * Other elements involved, each with its own message
+   */
+  related?: Array<{ element: Element; message: string }>;
+
+  /**
+   * Values for message placeholders, also kept on the violation
+   */
+  data?: Record<string, string | number | boolean>;
+
+  /**
+   * Suggestion for fixing; defaults to the rule's suggest()
+   */
+  suggestion?: string;
+
+  fix?: Fix;
 }
 
 /**
@@ -23,15 +102,78 @@ export interface Violation {
 export type RuleSeverity = 'error' | 'warning' | 'info' | 'off';
 
 /**
- * Rule definition
+ * Metadata shared by every kind of rule
  */
-export interface Rule {
+export interface RuleMetadata {
   id: string;
   name: string;
   description: string;
   category: 'accessibility' | 'seo' | 'security' | 'performance' | 'best-practice';
   severity: RuleSeverity;
 
+  /**
+   * Documentation URL
+   */
+  documentation?: string;
+
+  /**
+   * Options the rule accepts in RuleConfig.options, with their defaults
+   */
+  optionsSchema?: RuleOptionsSchema;
+
+  /**
+   * Elements the rule reads, when narrower than its pattern or for document rules
+   */
+  reads?: RuleReads;
+}
+
+/**
+ * Elements a rule reads, by tag name or by attribute name where a trailing `*`
+ * matches any suffix. JSX forms containing none of them are skipped for the rule,
+ * except the first form of each component, which is always checked.
+ */
+export interface RuleReads {
+  tags?: string[];
+  attributes?: string[];
+}
+
+/**
+ * Options passed to a rule, keyed by option name
+ */
+export type RuleOptions = Record<string, unknown>;
+
+/**
+ * JSON-schema-like description of a rule's options, keyed by option name
+ */
+export type RuleOptionsSchema = Record<string, OptionSchema>;
+
+/**
+ * Schema for a single rule option
+ */
+export interface OptionSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  default?: unknown;
+
+  /**
+   * Allowed values
+   */
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+
+  /**
+   * Element type of an array option
+   */
+  items?: { type: 'string' | 'number' };
+}
+
+/**
+ * Rule definition, checked once per element matching its pattern
+ */
+export interface Rule extends RuleMetadata {
+  kind?: 'element';
+
   /**
    * CSS selector pattern to match elements
    */
@@ -39,21 +181,64 @@ export interface Rule {
 
   /**
    * Function that checks if an element satisfies the rule's constraints
-   * Returns null if valid, or a violation message if invalid
+   * Returns null if valid, a violation message if invalid, or a list of
+   * reports for several or richer findings
    */
-  check: (element: Element, context: CheckContext) => string | null;
+  check: (element: Element, context: CheckContext) => string | null | RuleReport[];
 
   /**
    * Optional suggestion for fixing the violation
    */
   suggest?: (element: Element) => string;
+}
+
+/**
+ * Rule checked once per document, e.g. "the page has a <title>"
+ */
+export interface DocumentRule extends RuleMetadata {
+  kind: 'document';
 
   /**
-   * Documentation URL
+   * Return every violation in the document, each located at its own element.
+   * The engine fills in ruleId, ruleName and the configured severity.
    */
-  documentation?: string;
+  checkDocument: (document: Document, context: CheckContext) => Violation[];
+}
+
+/**
+ * Two-phase rule that collects state from every element matching its pattern,
+ * then reports once all elements have been seen, e.g. "ids are unique"
+ */
+export interface AggregateRule<State = unknown> extends RuleMetadata {
+  kind: 'aggregate';
+
+  /**
+   * CSS selector pattern to match elements passed to collect
+   */
+  pattern: string;
+
+  /**
+   * Create the empty state for a document
+   */
+  createState(): State;
+
+  /**
+   * Record a matching element, in document order
+   */
+  collect(element: Element, state: State, context: CheckContext): void;
+
+  /**
+   * Report violations from the collected state; the engine fills in ruleId,
+   * ruleName and the configured severity
+   */
+  finalize(state: State, context: CheckContext): Violation[];
 }
 
+/**
+ * Any rule the engine can run
+ */
+export type AnyRule = Rule | DocumentRule | AggregateRule;
+
 /**
  * Context provided to rule checkers
  */
@@ -73,16 +258,115 @@ export interface CheckContext {
    * Get element by ID
    */
   getElementById: (id: string) => Element | null;
+
+  /**
+   * Resolve an ID reference attribute (for, list, form, aria-labelledby, aria-describedby,
+   * aria-controls, ...) to the referenced elements, in reference order
+   */
+  resolveIdRef: (element: Element, attribute: string) => Element[];
+
+  /**
+   * Compute the accessible name of an element following the accname spec
+   */
+  computeAccessibleName: (element: Element) => string;
+
+  /**
+   * Compute the accessible description of an element following the accname spec
+   */
+  computeAccessibleDescription: (element: Element) => string;
+
+  /**
+   * Compute the ARIA role of an element: a valid explicit role, else its implicit HTML-AAM role
+   */
+  computeRole: (element: Element) => string | null;
+
+  /**
+   * Ancestors of an element, nearest first, optionally filtered by pattern
+   */
+  ancestors: (element: Element, selector?: string) => Element[];
+
+  /**
+   * Siblings of an element (excluding itself), optionally filtered by pattern
+   */
+  siblings: (element: Element, selector?: string) => Element[];
+
+  /**
+   * Memoised per-document index of elements by id, class and tag
+   */
+  index: DocumentIndex;
+
+  /**
+   * Options for the running rule: configured values merged over the schema defaults
+   */
+  options: RuleOptions;
+}
+
+/**
+ * Lookup tables over all elements of a document, built once per document
+ */
+export interface DocumentIndex {
+  /**
+   * First element with the id, as getElementById
+   */
+  getById(id: string): Element | null;
+
+  /**
+   * All elements sharing the id (more than one means duplicates)
+   */
+  getAllById(id: string): Element[];
+  getByClass(className: string): Element[];
+  getByTag(tagName: string): Element[];
+
+  /**
+   * All elements in document order
+   */
+  getAll(): Element[];
+}
+
+/**
+ * Any node in the document tree
+ */
+export type Node = Element | TextNode | CommentNode;
+
+/**
+ * Properties shared by all node kinds
+ */
+interface NodeBase {
+  parent?: Element;
+
+  /**
+   * Adjacent nodes among the parent's childNodes, including text and comments
+   */
+  previousSibling: Node | null;
+  nextSibling: Node | null;
+
+  /**
+   * Get source location if available
+   */
+  getSourceLocation(): SourceLocation | null;
 }
 
 /**
  * Simplified DOM element interface
  */
-export interface Element {
+export interface Element extends NodeBase {
+  nodeType: 'element';
   tagName: string;
   attributes: Record<string, string>;
+
+  /**
+   * Child elements only; see childNodes for text and comments
+   */
   children: Element[];
-  parent?: Element;
+
+  /**
+   * All child nodes in document order
+   */
+  childNodes: Node[];
+
+  /**
+   * Concatenated text of all descendant text nodes
+   */
   textContent: string;
 
   /**
@@ -94,11 +378,26 @@ export interface Element {
    * Check if element has attribute
    */
   hasAttribute(name: string): boolean;
+}
+
+/**
+ * Text node, including whitespace-only text between elements
+ */
+export interface TextNode extends NodeBase {
+  nodeType: 'text';
+  data: string;
+}
+
+/**
+ * HTML comment node
+ */
+export interface CommentNode extends NodeBase {
+  nodeType: 'comment';
 
   /**
-   * Get source location if available
+   * Comment text between <!-- and -->
    */
-  getSourceLocation(): SourceLocation | null;
+  data: string;
 }
 
 /**
@@ -116,6 +415,12 @@ export interface SourceLocation {
  */
 export interface Document {
   documentElement: Element;
+
+  /**
+   * Top-level nodes: the document element plus any comments outside it
+   */
+  childNodes: Node[];
+
   querySelector(selector: string): Element | null;
   querySelectorAll(selector: string): Element[];
   getElementById(id: string): Element | null;
@@ -130,6 +435,53 @@ export interface CheckResult {
   errorCount: number;
   warningCount: number;
   infoCount: number;
+
+  /**
+   * Inline suppression comments that did not silence any violation
+   */
+  unusedSuppressions?: Suppression[];
+  /**
+   * Conflicts between the scopes configuring a rule for the same checked elements
+   */
+  conflicts?: ScopeConflict[];
+}
+
+/**
+ * Inline suppression comment, e.g. <!-- xrules-disable-next-line rule-id -- reason -->
+ */
+export interface Suppression {
+  kind: 'disable' | 'disable-next-line';
+
+  /**
+   * Rule IDs to silence; empty means every rule
+   */
+  rules: string[];
+
+  /**
+   * Text after "--" explaining why the rule is silenced
+   */
+  justification?: string;
+
+  /**
+   * Location of the comment
+   */
+  line: number;
+  column: number;
+}
+
+/**
+ * Options controlling inline suppression comments
+ */
+export interface SuppressionOptions {
+  /**
+   * Ignore suppressions without a "-- reason" and report them as errors
+   */
+  requireJustification?: boolean;
+
+  /**
+   * Severity for reporting suppressions that silence nothing (default: off)
+   */
+  reportUnused?: RuleSeverity;
 }
 
 /**
@@ -139,6 +491,7 @@ export interface XRulesConfig {
   rules: Record<string, RuleSeverity | RuleConfig>;
   extends?: string[];
   ignore?: string[];
+  suppressions?: SuppressionOptions;
 }
 
 /**
@@ -146,7 +499,7 @@ export interface XRulesConfig {
  */
 export interface RuleConfig {
   severity: RuleSeverity;
-  options?: Record<string, unknown>;
+  options?: RuleOptions;
 }
 
 /**
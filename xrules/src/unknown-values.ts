@@ -0,0 +1,19 @@
+/**
+ * Unknown Values
+ *
+ * Attribute values that cannot be determined statically (e.g. a JSX prop typed
+ * `string`) are rendered with a placeholder in the generated HTML.
+ */
+
+/**
+ * Text an unknown attribute value is rendered as in the generated HTML
+ */
+export const UNKNOWN_ATTRIBUTE_VALUE = '{unknown}';
+
+/**
+ * Whether an attribute value of the generated HTML is unknown, for rules that want to tell
+ * "alt may be anything" apart from a literal value
+ */
+export function isUnknownAttributeValue(value: string | null | undefined): boolean {
+  return value === UNKNOWN_ATTRIBUTE_VALUE;
+}
@@ -0,0 +1,208 @@
+/**
+ * Vue Single-File Component Front-end
+ *
+ * Analyzes the `<template>` block of a `.vue` file. `v-if` / `v-else-if` /
+ * `v-else` siblings become one conditional block and `v-for` a loop, so the
+ * template enumerates forms like JSX conditionals and `.map()` do. Bound
+ * attributes (`:alt`, `v-bind:alt`) are known when literal and unknown
+ * otherwise; listeners and other directives render nothing.
+ */
+
+import type { JsxAttributeValue } from './jsx-parser';
+import { UnknownValue, isComponentName } from './jsx-parser';
+import {
+  TemplateParser,
+  TemplateSource,
+  MarkupNode,
+  MarkupElement,
+  MarkupBlock,
+  ElementKind,
+  evaluateExpression,
+} from './template-parser';
+
+/**
+ * Built-in components that render only their content
+ */
+const TRANSPARENT_COMPONENTS = new Set([
+  'template',
+  'slot',
+  'transition',
+  'transitiongroup',
+  'transition-group',
+  'keepalive',
+  'keep-alive',
+  'teleport',
+  'suspense',
+]);
+
+/**
+ * Front-end for Vue single-file components
+ */
+export class VueParser extends TemplateParser {
+  protected readonly syntax = 'vue';
+
+  protected getTemplate(nodes: MarkupNode[]): TemplateSource | null {
+    const template = nodes.find(
+      (node): node is MarkupElement => node.type === 'element' && node.name === 'template'
+    );
+
+    // Templates in another language (e.g. Pug) are not analyzed
+    const lang = template && getAttribute(template, 'lang');
+    if (!template || (lang !== undefined && lang !== 'html')) return null;
+
+    return { nodes: toBlocks(template.children), line: template.line, column: template.column };
+  }
+
+  protected getElementKind(element: MarkupElement): ElementKind {
+    if (TRANSPARENT_COMPONENTS.has(element.name.toLowerCase())) return 'fragment';
+    if (isComponentName(element.name) || element.name === 'component') return 'component';
+    return 'element';
+  }
+
+  protected getAttributes(element: MarkupElement): Record<string, JsxAttributeValue> {
+    const attributes: Record<string, JsxAttributeValue> = {};
+
+    for (const { name, value } of element.attributes) {
+      const bound = /^(?::|v-bind:)([^.[]+)/.exec(name)?.[1];
+
+      if (bound === 'key' || bound === 'ref') {
+        continue;
+      } else if (bound) {
+        // `:alt` alone is short for `:alt="alt"`
+        const evaluated = evaluateExpression(value ?? camelize(bound));
+        const existing = attributes[bound];
+
+        if (evaluated === undefined) {
+          delete attributes[bound];
+        } else if (existing !== undefined && (bound === 'class' || bound === 'style')) {
+          // Bound classes and styles are merged with the static ones
+          attributes[bound] = new UnknownValue(value ?? bound);
+        } else {
+          attributes[bound] = evaluated;
+        }
+      } else if (name === 'v-bind') {
+        attributes['data-spread'] = true;
+      } else if (/^(v-|@|#|:)/.test(name) || name === 'key' || name === 'ref') {
+        // Listeners, other directives, slot names and keys render nothing
+        continue;
+      } else if (attributes[name] instanceof UnknownValue && (name === 'class' || name === 'style')) {
+        continue;
+      } else {
+        attributes[name] = value ?? true;
+      }
+    }
+
+    return attributes;
+  }
+
+  protected parseEach(expression: string): { item: string; list: string } {
+    // `item in items`, `(item, index) in items`, `item of items`
+    const match = /^\s*\(?\s*([^,()]+?)\s*(?:,[^)]*)?\)?\s+(?:in|of)\s+([\s\S]+)$/.exec(expression);
+    return match
+      ? { item: match[1], list: match[2].trim() }
+      : { item: 'item', list: expression.trim() };
+  }
+}
+
+/**
+ * Turn directives that control rendering into the structure they stand for: `v-if` chains into
+ * `if` blocks, `v-for` into `each` blocks, and `v-html` / `v-text` into interpolated content
+ */
+function toBlocks(nodes: MarkupNode[]): MarkupNode[] {
+  const result: MarkupNode[] = [];
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.type !== 'element') {
+      result.push(node);
+      continue;
+    }
+
+    const element = withContent({ ...node, children: toBlocks(node.children) });
+    const condition = getAttribute(element, 'v-if');
+
+    if (condition === undefined) {
+      result.push(withLoop(withoutAttributes(element, ['v-else-if', 'v-else'])));
+      continue;
+    }
+
+    const block: MarkupBlock = {
+      type: 'block',
+      name: 'if',
+      branches: [{ keyword: 'if', expression: condition, children: [withLoop(withoutAttributes(element, ['v-if']))] }],
+      line: element.line,
+      column: element.column,
+    };
+
+    // Later siblings with v-else-if / v-else continue the chain; comments between go to the next branch
+    const comments: MarkupNode[] = [];
+    for (let next = index + 1; next < nodes.length; next++) {
+      const sibling = nodes[next];
+      if (sibling.type === 'comment') {
+        comments.push(sibling);
+        continue;
+      }
+      if (sibling.type === 'text' && !sibling.text.trim()) continue;
+      if (sibling.type !== 'element') break;
+
+      const elseIf = getAttribute(sibling, 'v-else-if');
+      const isElse = getAttribute(sibling, 'v-else') !== undefined;
+      if (elseIf === undefined && !isElse) break;
+
+      const branch = withContent({ ...sibling, children: toBlocks(sibling.children) });
+      block.branches.push({
+        keyword: isElse ? 'else' : 'else if',
+        expression: elseIf ?? '',
+        children: [...comments.splice(0), withLoop(withoutAttributes(branch, ['v-else-if', 'v-else']))],
+      });
+      index = next;
+      if (isElse) break;
+    }
+
+    result.push(block);
+  }
+
+  return result;
+}
+
+/**
+ * An element with `v-for` as a loop rendering it; `v-if` on the same element applies first
+ */
+function withLoop(element: MarkupElement): MarkupNode {
+  const expression = getAttribute(element, 'v-for');
+  if (expression === undefined) return element;
+
+  return {
+    type: 'block',
+    name: 'each',
+    branches: [{ keyword: 'each', expression, children: [withoutAttributes(element, ['v-for'])] }],
+    line: element.line,
+    column: element.column,
+  };
+}
+
+/**
+ * An element with `v-html` or `v-text`, with that content instead of its children
+ */
+function withContent(element: MarkupElement): MarkupElement {
+  const directive = element.attributes.find(attribute => attribute.name === 'v-html' || attribute.name === 'v-text');
+  if (!directive) return element;
+
+  return {
+    ...withoutAttributes(element, ['v-html', 'v-text']),
+    children: [{ type: 'expression', expression: directive.value ?? '', line: directive.line, column: directive.column }],
+  };
+}
+
+function getAttribute(element: MarkupElement, name: string): string | undefined {
+  const attribute = element.attributes.find(current => current.name === name);
+  return attribute && (attribute.value ?? '');
+}
+
+function withoutAttributes(element: MarkupElement, names: string[]): MarkupElement {
+  return { ...element, attributes: element.attributes.filter(attribute => !names.includes(attribute.name)) };
+}
+
+function camelize(name: string): string {
+  return name.replace(/-(\w)/g, (_, char: string) => char.toUpperCase());
+}
@@ -8,9 +8,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as chokidar from 'chokidar';
 import { createDefaultEngine } from './engine';
+import { JsxRulesEngine } from './jsx-engine';
+import { optInNextjsRules } from './rules/nextjs';
+import { SOURCE_FILE_PATTERNS } from './front-ends';
 import { CheckResult } from './types';
 import { getReporter, EnhancedReporterOptions } from './reporters';
-import { XRulesExtendedConfig } from './config-loader';
+import { XRulesExtendedConfig, loadRuleDirectories } from './config-loader';
+import { loadScopes } from './scope-loader';
+import { ScopeRegistry } from './scope-registry';
 
 export interface WatchOptions {
   /**
@@ -49,10 +54,10 @@ export interface WatchOptions {
  */
 export class Watcher {
   private watcher: chokidar.FSWatcher | null = null;
-  private engine = createDefaultEngine();
+  private engine = new JsxRulesEngine(createDefaultEngine().getRules());
   private options: WatchOptions;
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
-  private lastResults: Map<string, CheckResult> = new Map();
+  private lastResults: Map<string, CheckResult[]> = new Map();
 
   constructor(options: WatchOptions) {
     this.options = options;
@@ -64,8 +69,21 @@ export class Watcher {
   async start(): Promise<void> {
     const { config, verbose = false, debounceDelay = 300 } = this.options;
 
+    // Next.js rules for presets to turn on, and declarative rules from the project
+    this.engine.addRules(optInNextjsRules);
+    this.engine.addRules(loadRuleDirectories(config.ruleDirectories || []));
+
+    // Scopes of the config and of scope files, and the rules they declare, applied per element
+    const { scopes, rules: scopeRules } = loadScopes(config);
+    this.engine.addRules(scopeRules);
+    if (scopes.length > 0) {
+      const registry = new ScopeRegistry();
+      registry.registerAll(scopes);
+      this.engine.setScopes(registry, { conflictResolution: config.conflictResolution });
+    }
+
     // File patterns to watch
-    const patterns = config.files || ['**/*.html', '**/*.tsx', '**/*.jsx'];
+    const patterns = config.files || SOURCE_FILE_PATTERNS;
     const ignored = config.ignore || ['node_modules/**', 'dist/**'];
 
     console.log('🔍 Starting XRules watcher...');
@@ -107,7 +125,7 @@ export class Watcher {
   /**
    * Handle file change
    */
-  private handleChange(filePath: string, changeType: 'added' | 'changed'): void {
+  private handleChange(filePath: string, changeType: 'added' | 'changed' | 'imports changed'): void {
     const { debounceDelay = 300, verbose = false } = this.options;
 
     // Clear existing timer
@@ -125,23 +143,27 @@ export class Watcher {
 
         const absolutePath = path.resolve(filePath);
 
+        // Re-read a changed file; files importing it inline its components and are checked again
+        const dependents = changeType === 'changed' ? this.engine.refreshFile(absolutePath) : [];
+        this.checkDependents(dependents);
+
         // Read file
         if (!fs.existsSync(absolutePath)) {
           return;
         }
 
-        const html = fs.readFileSync(absolutePath, 'utf-8');
-        const result = this.engine.checkHTML(html, filePath);
+        // Check with the front-end for the file's extension
+        const results = this.engine.checkSource(filePath, { config: this.options.config });
 
-        // Store result
-        this.lastResults.set(filePath, result);
+        // Store results
+        this.lastResults.set(filePath, results);
 
         // Format and output
-        this.outputResult(result, changeType);
+        this.outputResults(filePath, results);
 
         // Call onChange callback
         if (this.options.onChange) {
-          this.options.onChange([result]);
+          this.options.onChange(results);
         }
       } catch (error) {
         console.error(`Error checking ${filePath}:`, error);
@@ -172,12 +194,24 @@ export class Watcher {
       clearTimeout(timer);
       this.debounceTimers.delete(filePath);
     }
+
+    // Files importing the removed file can no longer inline its components
+    this.checkDependents(this.engine.refreshFile(path.resolve(filePath)));
+  }
+
+  /**
+   * Check again the files that import a changed or removed file
+   */
+  private checkDependents(dependents: string[]): void {
+    for (const dependent of dependents) {
+      this.handleChange(path.relative(process.cwd(), dependent), 'imports changed');
+    }
   }
 
   /**
-   * Output result
+   * Output the results of a file, one per component for JSX, Vue and Svelte files
    */
-  private outputResult(result: CheckResult, changeType: string): void {
+  private outputResults(filePath: string, results: CheckResult[]): void {
     const format = this.options.format || 'stylish';
     const reporter = getReporter(format);
 
@@ -187,18 +221,18 @@ export class Watcher {
     }
 
     const timestamp = new Date().toLocaleTimeString();
-    console.log(`\n[${timestamp}] Checked ${result.filePath}`);
+    console.log(`\n[${timestamp}] Checked ${filePath}`);
 
-    if (result.violations.length === 0) {
+    if (results.every(result => result.violations.length === 0)) {
       console.log('✅ No issues found');
     } else {
-      const output = reporter([result], this.options.reporterOptions);
+      const output = reporter(results, this.options.reporterOptions);
       console.log(output);
     }
 
     // Show status
-    const totalErrors = result.errorCount;
-    const totalWarnings = result.warningCount;
+    const totalErrors = results.reduce((sum, result) => sum + result.errorCount, 0);
+    const totalWarnings = results.reduce((sum, result) => sum + result.warningCount, 0);
 
     if (totalErrors > 0) {
       console.log(`\n❌ ${totalErrors} error(s) found`);
@@ -213,7 +247,7 @@ export class Watcher {
    * Get all current results
    */
   getAllResults(): CheckResult[] {
-    return Array.from(this.lastResults.values());
+    return Array.from(this.lastResults.values()).flat();
   }
 
   /**
@@ -222,7 +256,7 @@ export class Watcher {
   getStats(): { files: number; errors: number; warnings: number; info: number } {
     const results = this.getAllResults();
     return {
-      files: results.length,
+      files: this.lastResults.size,
       errors: results.reduce((sum, r) => sum + r.errorCount, 0),
       warnings: results.reduce((sum, r) => sum + r.warningCount, 0),
       info: results.reduce((sum, r) => sum + r.infoCount, 0),